@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "backtest_trades" ADD COLUMN "grossPnl" REAL;
+ALTER TABLE "backtest_trades" ADD COLUMN "commission" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "backtest_trades" ADD COLUMN "spreadCost" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "backtest_trades" ADD COLUMN "slippageCost" REAL NOT NULL DEFAULT 0;
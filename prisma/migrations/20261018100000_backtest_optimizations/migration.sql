@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "backtest_optimizations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "objective" TEXT NOT NULL,
+    "parameterSpace" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "totalRuns" INTEGER NOT NULL,
+    "bestBacktestId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "backtest_optimizations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_backtests" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "strategyId" TEXT NOT NULL,
+    "optimizationId" TEXT,
+    "name" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "parameters" TEXT,
+    "initialCapital" REAL NOT NULL,
+    "finalCapital" REAL NOT NULL,
+    "totalReturn" REAL NOT NULL,
+    "totalReturnPct" REAL NOT NULL,
+    "maxDrawdown" REAL NOT NULL,
+    "maxDrawdownPct" REAL NOT NULL,
+    "sharpeRatio" REAL,
+    "winRate" REAL NOT NULL,
+    "totalTrades" INTEGER NOT NULL,
+    "winningTrades" INTEGER NOT NULL,
+    "losingTrades" INTEGER NOT NULL,
+    "averageWin" REAL,
+    "averageLoss" REAL,
+    "status" TEXT NOT NULL DEFAULT 'completed',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "backtests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "backtests_strategyId_fkey" FOREIGN KEY ("strategyId") REFERENCES "strategies" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "backtests_optimizationId_fkey" FOREIGN KEY ("optimizationId") REFERENCES "backtest_optimizations" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_backtests" ("averageLoss", "averageWin", "createdAt", "endDate", "finalCapital", "id", "initialCapital", "losingTrades", "maxDrawdown", "maxDrawdownPct", "name", "sharpeRatio", "startDate", "status", "strategyId", "symbol", "totalReturn", "totalReturnPct", "totalTrades", "userId", "winRate", "winningTrades") SELECT "averageLoss", "averageWin", "createdAt", "endDate", "finalCapital", "id", "initialCapital", "losingTrades", "maxDrawdown", "maxDrawdownPct", "name", "sharpeRatio", "startDate", "status", "strategyId", "symbol", "totalReturn", "totalReturnPct", "totalTrades", "userId", "winRate", "winningTrades" FROM "backtests";
+DROP TABLE "backtests";
+ALTER TABLE "new_backtests" RENAME TO "backtests";
+CREATE INDEX "backtests_optimizationId_idx" ON "backtests"("optimizationId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "backtests" ADD COLUMN "maxDrawdownDays" REAL;
+ALTER TABLE "backtests" ADD COLUMN "sortinoRatio" REAL;
+ALTER TABLE "backtests" ADD COLUMN "calmarRatio" REAL;
+ALTER TABLE "backtests" ADD COLUMN "annualizedReturn" REAL;
+ALTER TABLE "backtests" ADD COLUMN "annualizedVolatility" REAL;
+ALTER TABLE "backtests" ADD COLUMN "profitFactor" REAL;
+ALTER TABLE "backtests" ADD COLUMN "expectancy" REAL;
+ALTER TABLE "backtests" ADD COLUMN "exposureTime" REAL;
+ALTER TABLE "backtests" ADD COLUMN "avgHoldingHours" REAL;
+ALTER TABLE "backtests" ADD COLUMN "statistics" TEXT;
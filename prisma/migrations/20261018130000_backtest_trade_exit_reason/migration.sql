@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "backtest_trades" ADD COLUMN "exitReason" TEXT;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "backtests" ADD COLUMN "benchmark" TEXT;
+ALTER TABLE "backtests" ADD COLUMN "benchmarkReturnPct" REAL;
+ALTER TABLE "backtests" ADD COLUMN "alpha" REAL;
+ALTER TABLE "backtests" ADD COLUMN "beta" REAL;
+ALTER TABLE "backtests" ADD COLUMN "benchmarkStatistics" TEXT;
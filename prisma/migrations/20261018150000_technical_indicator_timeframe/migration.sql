@@ -0,0 +1,14 @@
+-- DropIndex
+DROP INDEX "technical_indicators_symbol_timestamp_indicator_idx";
+
+-- DropIndex
+DROP INDEX "technical_indicators_symbol_timestamp_indicator_period_key";
+
+-- AlterTable
+ALTER TABLE "technical_indicators" ADD COLUMN "timeframe" TEXT NOT NULL DEFAULT '1d';
+
+-- CreateIndex
+CREATE INDEX "technical_indicators_symbol_timeframe_indicator_timestamp_idx" ON "technical_indicators"("symbol", "timeframe", "indicator", "timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "technical_indicators_symbol_timeframe_timestamp_indicator_period_key" ON "technical_indicators"("symbol", "timeframe", "timestamp", "indicator", "period");
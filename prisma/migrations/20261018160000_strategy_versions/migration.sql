@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "strategy_versions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "strategyId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "parameters" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "strategy_versions_strategyId_fkey" FOREIGN KEY ("strategyId") REFERENCES "strategies" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Backfill a first version for every existing strategy
+INSERT INTO "strategy_versions" ("id", "strategyId", "version", "templateId", "parameters", "createdAt")
+SELECT lower(hex(randomblob(12))), "id", 1, "templateId", "parameters", "updatedAt" FROM "strategies";
+
+-- AlterTable
+ALTER TABLE "backtests" ADD COLUMN "strategyVersionId" TEXT REFERENCES "strategy_versions" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN "strategyVersionId" TEXT REFERENCES "strategy_versions" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "trading_signals" ADD COLUMN "strategyVersionId" TEXT REFERENCES "strategy_versions" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Attach existing rows to their strategy's first version
+UPDATE "backtests" SET "strategyVersionId" = (
+    SELECT "id" FROM "strategy_versions" WHERE "strategy_versions"."strategyId" = "backtests"."strategyId"
+);
+
+UPDATE "trades" SET "strategyVersionId" = (
+    SELECT "id" FROM "strategy_versions" WHERE "strategy_versions"."strategyId" = "trades"."strategyId"
+) WHERE "strategyId" IS NOT NULL;
+
+UPDATE "trading_signals" SET "strategyVersionId" = (
+    SELECT "id" FROM "strategy_versions" WHERE "strategy_versions"."strategyId" = "trading_signals"."strategyId"
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "strategy_versions_strategyId_version_key" ON "strategy_versions"("strategyId", "version");
+
+-- CreateIndex
+CREATE INDEX "backtests_strategyVersionId_idx" ON "backtests"("strategyVersionId");
+
+-- CreateIndex
+CREATE INDEX "trades_strategyVersionId_idx" ON "trades"("strategyVersionId");
+
+-- CreateIndex
+CREATE INDEX "trading_signals_strategyVersionId_idx" ON "trading_signals"("strategyVersionId");
@@ -0,0 +1,78 @@
+-- AlterTable
+ALTER TABLE "user_preferences" ADD COLUMN "broker" TEXT NOT NULL DEFAULT 'alpaca';
+ALTER TABLE "user_preferences" ADD COLUMN "paperLatencyMs" INTEGER NOT NULL DEFAULT 250;
+ALTER TABLE "user_preferences" ADD COLUMN "paperSlippageBps" REAL NOT NULL DEFAULT 5;
+
+-- CreateTable
+CREATE TABLE "paper_accounts" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "cash" REAL NOT NULL,
+    "startingCash" REAL NOT NULL,
+    "lastEquity" REAL NOT NULL,
+    "equityDate" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "paper_accounts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "paper_orders" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "accountId" TEXT NOT NULL,
+    "clientOrderId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "timeInForce" TEXT NOT NULL,
+    "qty" REAL NOT NULL,
+    "filledQty" REAL NOT NULL DEFAULT 0,
+    "filledAvgPrice" REAL,
+    "limitPrice" REAL,
+    "stopPrice" REAL,
+    "triggered" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'new',
+    "activeAt" DATETIME NOT NULL,
+    "submittedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "filledAt" DATETIME,
+    "canceledAt" DATETIME,
+    "replacedAt" DATETIME,
+    "replacedBy" TEXT,
+    "replaces" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "paper_orders_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "paper_accounts" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "paper_positions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "accountId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "qty" REAL NOT NULL,
+    "avgEntryPrice" REAL NOT NULL,
+    "lastPrice" REAL NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "paper_positions_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "paper_accounts" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "paper_equity_snapshots" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "accountId" TEXT NOT NULL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "equity" REAL NOT NULL,
+    CONSTRAINT "paper_equity_snapshots_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "paper_accounts" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "paper_accounts_userId_key" ON "paper_accounts"("userId");
+
+-- CreateIndex
+CREATE INDEX "paper_orders_accountId_status_idx" ON "paper_orders"("accountId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "paper_positions_accountId_symbol_key" ON "paper_positions"("accountId", "symbol");
+
+-- CreateIndex
+CREATE INDEX "paper_equity_snapshots_accountId_timestamp_idx" ON "paper_equity_snapshots"("accountId", "timestamp");
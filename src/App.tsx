@@ -6,6 +6,10 @@ import CssBaseline from '@mui/material/CssBaseline';
 import { Box } from '@mui/material';
 import { store, RootState } from './store';
 import { webSocketService } from './services/websocketService';
+import { indicatorCacheService } from './services/indicatorCacheService';
+import { killSwitch } from './services/killSwitch';
+import { brokerService } from './services/brokerService';
+import { cancelOrderGroups, syncOrderGroups } from './store/slices/ordersSlice';
 import AuthWrapper from './components/auth/AuthWrapper';
 import Layout from './components/layout/Layout';
 import Dashboard from './pages/Dashboard';
@@ -31,10 +35,33 @@ const AppContent: React.FC = () => {
       console.error('Failed to initialize WebSocket connections:', error);
     }
 
+    // A tripped kill switch keeps trading halted across restarts
+    killSwitch.ready().catch(error => {
+      console.error('Failed to load kill switch state:', error);
+    });
+
+    // Bracket and OCO legs move on as soon as the broker reports activity
+    const stopOrderSync = brokerService.onOrdersChanged(() => {
+      store.dispatch(syncOrderGroups());
+    });
+
+    // Flattening leaves nothing to protect; held exits must not go in on re-arm
+    const stopGroupHalt = killSwitch.subscribe(state => {
+      if (state.tripped && state.flattened) store.dispatch(cancelOrderGroups({ all: true }));
+    });
+
+    // Keep cached indicators current with stored market data
+    indicatorCacheService.start().catch(error => {
+      console.error('Failed to start indicator cache job:', error);
+    });
+
     // Cleanup on unmount
     return () => {
       console.log('Cleaning up WebSocket connections...');
       webSocketService.disconnect();
+      indicatorCacheService.stop();
+      stopOrderSync();
+      stopGroupHalt();
     };
   }, []);
 
@@ -1,8 +1,9 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
-import { Box, CircularProgress, Typography } from '@mui/material';
+import { Alert, Box, CircularProgress, Typography } from '@mui/material';
 import { RootState, AppDispatch } from '../../store';
 import { verifyCredentials } from '../../store/slices/authSlice';
+import { brokerService } from '../../services/brokerService';
 import LoginForm from './LoginForm';
 
 interface AuthWrapperProps {
@@ -20,8 +21,23 @@ const AuthWrapper: React.FC<AuthWrapperProps> = ({ children }) => {
     }
   }, [dispatch, isAuthenticated, user]);
 
+  // Route broker calls to the signed-in user's broker before anything trades
+  const [brokerUserId, setBrokerUserId] = useState<string | null>(null);
+  const [brokerError, setBrokerError] = useState<string | null>(null);
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    setBrokerError(null);
+    brokerService.useForUser(userId)
+      .catch(error => {
+        console.error('Failed to select broker:', error);
+        setBrokerError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => setBrokerUserId(userId));
+  }, [userId]);
+
   // Show loading spinner while verifying credentials
-  if (isLoading && !isAuthenticated) {
+  if ((isLoading && !isAuthenticated) || (isAuthenticated && userId && brokerUserId !== userId)) {
     return (
       <Box
         sx={{
@@ -47,7 +63,16 @@ const AuthWrapper: React.FC<AuthWrapperProps> = ({ children }) => {
   }
 
   // Show main application if authenticated
-  return <>{children}</>;
+  return (
+    <>
+      {brokerError && (
+        <Alert severity="error" sx={{ borderRadius: 0 }}>
+          Couldn't load your broker settings, so trading is routed to the paper broker: {brokerError}
+        </Alert>
+      )}
+      {children}
+    </>
+  );
 };
 
 export default AuthWrapper;
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Casino as CasinoIcon } from '@mui/icons-material';
+import { Line } from 'react-chartjs-2';
+import { BacktestResult } from '../../services/backtestingService';
+import {
+  monteCarloService,
+  ConfidenceBands,
+  DEFAULT_MONTE_CARLO_OPTIONS,
+  MonteCarloMethod,
+  MonteCarloOptions,
+  MonteCarloResult,
+  MonteCarloSource,
+} from '../../services/monteCarloService';
+
+interface MonteCarloPanelProps {
+  result: BacktestResult;
+}
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+const BAND_COLOR = 'rgba(54, 162, 235, ';
+
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ result }) => {
+  const [options, setOptions] = useState<MonteCarloOptions>(DEFAULT_MONTE_CARLO_OPTIONS);
+  const [simulation, setSimulation] = useState<MonteCarloResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Results from a previous backtest no longer apply
+  useEffect(() => {
+    setSimulation(null);
+    setError(null);
+  }, [result]);
+
+  const updateOption = <K extends keyof MonteCarloOptions>(key: K, value: MonteCarloOptions[K]) => {
+    setOptions(current => ({ ...current, [key]: value }));
+  };
+
+  const runSimulation = () => {
+    setError(null);
+    try {
+      setSimulation(monteCarloService.runSimulation(result, options));
+    } catch (err) {
+      console.error('Monte Carlo simulation failed:', err);
+      setSimulation(null);
+      setError(err instanceof Error ? err.message : 'Monte Carlo simulation failed');
+    }
+  };
+
+  const renderBands = (label: string, bands: ConfidenceBands, format: (value: number) => string) => (
+    <Grid item xs={12} md={6}>
+      <Typography variant="body2" color="text.secondary">{label}</Typography>
+      <Typography variant="body1">
+        5% {format(bands.p5)} · 25% {format(bands.p25)} · Median {format(bands.p50)} · 75% {format(bands.p75)} · 95% {format(bands.p95)}
+      </Typography>
+    </Grid>
+  );
+
+  const fanChartData = simulation && {
+    labels: simulation.fan.map(point => point.step),
+    datasets: [
+      ...simulation.paths.map((path, index) => ({
+        label: index === 0 ? 'Sample Paths' : `Path ${index + 1}`,
+        data: path,
+        borderColor: 'rgba(150, 150, 150, 0.25)',
+        borderWidth: 1,
+        pointRadius: 0,
+        fill: false,
+      })),
+      {
+        label: '5th Percentile',
+        data: simulation.fan.map(point => point.p5),
+        borderColor: `${BAND_COLOR}0.4)`,
+        pointRadius: 0,
+        fill: false,
+      },
+      {
+        label: '95th Percentile',
+        data: simulation.fan.map(point => point.p95),
+        borderColor: `${BAND_COLOR}0.4)`,
+        backgroundColor: `${BAND_COLOR}0.15)`,
+        pointRadius: 0,
+        fill: '-1',
+      },
+      {
+        label: '25th Percentile',
+        data: simulation.fan.map(point => point.p25),
+        borderColor: `${BAND_COLOR}0.6)`,
+        pointRadius: 0,
+        fill: false,
+      },
+      {
+        label: '75th Percentile',
+        data: simulation.fan.map(point => point.p75),
+        borderColor: `${BAND_COLOR}0.6)`,
+        backgroundColor: `${BAND_COLOR}0.3)`,
+        pointRadius: 0,
+        fill: '-1',
+      },
+      {
+        label: 'Median',
+        data: simulation.fan.map(point => point.p50),
+        borderColor: 'rgb(54, 162, 235)',
+        borderWidth: 2,
+        pointRadius: 0,
+        fill: false,
+      },
+    ],
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Monte Carlo Analysis
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+        <TextField
+          size="small"
+          label="Simulations"
+          type="number"
+          value={options.simulations}
+          onChange={(e) => updateOption('simulations', Math.max(1, Math.min(20000, Number(e.target.value))))}
+          sx={{ width: 130 }}
+        />
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Sample From</InputLabel>
+          <Select
+            value={options.source}
+            label="Sample From"
+            onChange={(e) => updateOption('source', e.target.value as MonteCarloSource)}
+          >
+            <MenuItem value="trades">Trades</MenuItem>
+            <MenuItem value="barReturns">Bar Returns</MenuItem>
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 190 }}>
+          <InputLabel>Method</InputLabel>
+          <Select
+            value={options.method}
+            label="Method"
+            onChange={(e) => updateOption('method', e.target.value as MonteCarloMethod)}
+          >
+            <MenuItem value="resample">Resample (with replacement)</MenuItem>
+            <MenuItem value="reshuffle">Reshuffle (same set, new order)</MenuItem>
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          label="Ruin Threshold (%)"
+          type="number"
+          value={options.ruinThresholdPercent}
+          onChange={(e) => updateOption('ruinThresholdPercent', Math.max(1, Math.min(100, Number(e.target.value))))}
+          sx={{ width: 150 }}
+        />
+        <TextField
+          size="small"
+          label="Seed"
+          type="number"
+          value={options.seed}
+          onChange={(e) => updateOption('seed', Number(e.target.value))}
+          sx={{ width: 110 }}
+        />
+        <Button variant="outlined" startIcon={<CasinoIcon />} onClick={runSimulation}>
+          Run Simulation
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {simulation && fanChartData && (
+        <>
+          <Grid container spacing={2} sx={{ mb: 2 }}>
+            <Grid item xs={6} md={3}>
+              <Typography variant="body2" color="text.secondary">Median Final Equity</Typography>
+              <Typography variant="h6">{formatCurrency(simulation.finalEquity.p50)}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                Backtest: {formatCurrency(simulation.original.finalEquity)}
+              </Typography>
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <Typography variant="body2" color="text.secondary">95th Percentile Max Drawdown</Typography>
+              <Typography variant="h6" color="error.main">{formatPercent(simulation.maxDrawdown.p95)}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                Backtest: {formatPercent(simulation.original.maxDrawdown)}
+              </Typography>
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <Typography variant="body2" color="text.secondary">Risk of Ruin</Typography>
+              <Typography variant="h6" color={simulation.riskOfRuin > 5 ? 'error.main' : 'success.main'}>
+                {formatPercent(simulation.riskOfRuin)}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                Equity down {simulation.options.ruinThresholdPercent}% or more
+              </Typography>
+            </Grid>
+            <Grid item xs={6} md={3}>
+              <Typography variant="body2" color="text.secondary">Probability of Loss</Typography>
+              <Typography variant="h6">{formatPercent(simulation.probabilityOfLoss)}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {simulation.options.simulations} paths of {simulation.steps} {simulation.options.source === 'trades' ? 'trades' : 'bars'}
+              </Typography>
+            </Grid>
+            {renderBands('Final Equity', simulation.finalEquity, formatCurrency)}
+            {renderBands('Max Drawdown', simulation.maxDrawdown, formatPercent)}
+          </Grid>
+
+          <Line
+            data={fanChartData}
+            options={{
+              responsive: true,
+              plugins: {
+                legend: {
+                  position: 'top' as const,
+                  labels: { filter: (item) => !item.text.startsWith('Path ') },
+                },
+              },
+              scales: {
+                x: { title: { display: true, text: simulation.options.source === 'trades' ? 'Trade #' : 'Bar #' } },
+                y: { title: { display: true, text: 'Equity ($)' } },
+              },
+            }}
+          />
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default MonteCarloPanel;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Box, Tooltip, Typography } from '@mui/material';
+import { OptimizationRun } from '../../services/backtestingService';
+
+interface OptimizationHeatmapProps {
+  runs: OptimizationRun[];
+  xParameter: string;
+  yParameter: string;
+  scoreLabel: string;
+  onSelectRun?: (run: OptimizationRun) => void;
+}
+
+const sortValues = (values: unknown[]) =>
+  [...values].sort((a, b) => (typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b))));
+
+// Red (worst) to green (best)
+const scoreColor = (ratio: number) => `hsl(${Math.round(ratio * 120)}, 65%, 45%)`;
+
+const OptimizationHeatmap: React.FC<OptimizationHeatmapProps> = ({
+  runs,
+  xParameter,
+  yParameter,
+  scoreLabel,
+  onSelectRun,
+}) => {
+  const xValues = sortValues(Array.from(new Set(runs.map(run => run.parameters[xParameter]))));
+  const yValues = sortValues(Array.from(new Set(runs.map(run => run.parameters[yParameter])))).reverse();
+
+  // Keep the best run for each cell
+  const cells = new Map<string, OptimizationRun>();
+  runs.forEach(run => {
+    const key = `${run.parameters[xParameter]}|${run.parameters[yParameter]}`;
+    const existing = cells.get(key);
+    if (!existing || run.score > existing.score) {
+      cells.set(key, run);
+    }
+  });
+
+  const scores = runs.map(run => run.score);
+  const minScore = Math.min(...scores);
+  const maxScore = Math.max(...scores);
+  const range = maxScore - minScore || 1;
+
+  if (runs.length === 0) {
+    return (
+      <Typography color="text.secondary">No optimization runs to display</Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ overflowX: 'auto' }}>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: `auto repeat(${xValues.length}, minmax(36px, 1fr))`,
+          gap: '2px',
+          alignItems: 'center',
+        }}
+      >
+        {yValues.map(yValue => (
+          <React.Fragment key={String(yValue)}>
+            <Typography variant="caption" sx={{ pr: 1, textAlign: 'right' }}>
+              {String(yValue)}
+            </Typography>
+            {xValues.map(xValue => {
+              const run = cells.get(`${xValue}|${yValue}`);
+              return (
+                <Tooltip
+                  key={String(xValue)}
+                  title={run
+                    ? `${xParameter}=${xValue}, ${yParameter}=${yValue}: ${scoreLabel} ${run.score.toFixed(2)} (rank ${run.rank})`
+                    : 'Not evaluated'}
+                >
+                  <Box
+                    onClick={() => run && onSelectRun?.(run)}
+                    sx={{
+                      height: 28,
+                      borderRadius: 0.5,
+                      bgcolor: run ? scoreColor((run.score - minScore) / range) : 'action.hover',
+                      cursor: run && onSelectRun ? 'pointer' : 'default',
+                    }}
+                  />
+                </Tooltip>
+              );
+            })}
+          </React.Fragment>
+        ))}
+        <Box />
+        {xValues.map(xValue => (
+          <Typography key={String(xValue)} variant="caption" sx={{ textAlign: 'center' }}>
+            {String(xValue)}
+          </Typography>
+        ))}
+      </Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
+        <Typography variant="caption" color="text.secondary">
+          Y: {yParameter} · X: {xParameter}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {scoreLabel}: {minScore.toFixed(2)} (red) to {maxScore.toFixed(2)} (green)
+        </Typography>
+      </Box>
+    </Box>
+  );
+};
+
+export default OptimizationHeatmap;
@@ -0,0 +1,379 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  AccountBalance as AccountBalanceIcon,
+} from '@mui/icons-material';
+import { Line } from 'react-chartjs-2';
+import { StrategyTemplate } from '../../store/slices/strategiesSlice';
+import { BacktestConfig } from '../../services/backtestingService';
+import {
+  portfolioBacktestService,
+  PortfolioBacktestResult,
+  PortfolioSleeveConfig,
+} from '../../services/portfolioBacktestService';
+
+interface PortfolioBacktestPanelProps {
+  templates: StrategyTemplate[];
+  availableSymbols: string[];
+  buildConfig: () => BacktestConfig;
+  describeError: (error: unknown) => string;
+}
+
+const SLEEVE_COLORS = [
+  'rgb(255, 99, 132)',
+  'rgb(54, 162, 235)',
+  'rgb(255, 159, 64)',
+  'rgb(153, 102, 255)',
+  'rgb(255, 205, 86)',
+  'rgb(201, 203, 207)',
+];
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+const defaultParameters = (template: StrategyTemplate) =>
+  template.defaultParameters.reduce((acc, param) => {
+    acc[param.name] = param.value;
+    return acc;
+  }, {} as PortfolioSleeveConfig['parameters']);
+
+const PortfolioBacktestPanel: React.FC<PortfolioBacktestPanelProps> = ({
+  templates,
+  availableSymbols,
+  buildConfig,
+  describeError,
+}) => {
+  const [sleeves, setSleeves] = useState<PortfolioSleeveConfig[]>([]);
+  const [newTemplateId, setNewTemplateId] = useState('');
+  const [newSymbol, setNewSymbol] = useState(availableSymbols[0]);
+  const [maxGrossExposure, setMaxGrossExposure] = useState(100);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<PortfolioBacktestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalAllocation = sleeves.reduce((sum, s) => sum + s.allocationPercent, 0);
+
+  const addSleeve = () => {
+    const template = templates.find(t => t.id === newTemplateId);
+    if (!template) return;
+
+    setSleeves(current => [
+      ...current,
+      {
+        id: `sleeve-${Date.now()}`,
+        strategyName: template.name,
+        templateId: template.id,
+        parameters: defaultParameters(template),
+        symbol: newSymbol,
+        allocationPercent: Math.max(0, Math.min(25, 100 - totalAllocation)),
+        maxExposurePercent: 25,
+      },
+    ]);
+  };
+
+  const updateSleeve = (id: string, changes: Partial<PortfolioSleeveConfig>) => {
+    setSleeves(current => current.map(s => (s.id === id ? { ...s, ...changes } : s)));
+  };
+
+  const removeSleeve = (id: string) => {
+    setSleeves(current => current.filter(s => s.id !== id));
+  };
+
+  const runPortfolio = async () => {
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const { startDate, endDate, timeframe, dataSource, initialCapital, costModel } = buildConfig();
+      const portfolio = await portfolioBacktestService.runPortfolioBacktest({
+        startDate,
+        endDate,
+        timeframe,
+        dataSource,
+        initialCapital,
+        costModel,
+        maxGrossExposurePercent: maxGrossExposure,
+        sleeves,
+      });
+      setResult(portfolio);
+    } catch (err) {
+      console.error('Portfolio backtest failed:', err);
+      setError(describeError(err));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12}>
+        <Paper sx={{ p: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Portfolio Sleeves
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Each sleeve runs one strategy on one symbol. All sleeves share the initial capital, date range,
+            timeframe, data source and trading costs from the Configuration tab.
+          </Typography>
+
+          <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+            <FormControl sx={{ minWidth: 220 }} size="small">
+              <InputLabel>Strategy</InputLabel>
+              <Select value={newTemplateId} label="Strategy" onChange={(e) => setNewTemplateId(e.target.value)}>
+                {templates.map(template => (
+                  <MenuItem key={template.id} value={template.id}>
+                    {template.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl sx={{ minWidth: 140 }} size="small">
+              <InputLabel>Symbol</InputLabel>
+              <Select value={newSymbol} label="Symbol" onChange={(e) => setNewSymbol(e.target.value)}>
+                {availableSymbols.map(symbol => (
+                  <MenuItem key={symbol} value={symbol}>
+                    {symbol}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button variant="outlined" startIcon={<AddIcon />} onClick={addSleeve} disabled={!newTemplateId}>
+              Add Sleeve
+            </Button>
+            <TextField
+              size="small"
+              label="Max Gross Exposure (%)"
+              type="number"
+              value={maxGrossExposure}
+              onChange={(e) => setMaxGrossExposure(Math.max(1, Number(e.target.value)))}
+              sx={{ width: 200 }}
+            />
+          </Box>
+
+          {sleeves.length > 0 && (
+            <TableContainer sx={{ mb: 2 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Strategy</TableCell>
+                    <TableCell>Symbol</TableCell>
+                    <TableCell>Allocation (%)</TableCell>
+                    <TableCell>Exposure Cap (%)</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {sleeves.map(sleeve => (
+                    <TableRow key={sleeve.id}>
+                      <TableCell>{sleeve.strategyName}</TableCell>
+                      <TableCell>{sleeve.symbol}</TableCell>
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={sleeve.allocationPercent}
+                          onChange={(e) => updateSleeve(sleeve.id, { allocationPercent: Number(e.target.value) })}
+                          sx={{ width: 100 }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={sleeve.maxExposurePercent}
+                          onChange={(e) => updateSleeve(sleeve.id, { maxExposurePercent: Number(e.target.value) })}
+                          sx={{ width: 100 }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <IconButton size="small" onClick={() => removeSleeve(sleeve.id)}>
+                          <DeleteIcon />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          {totalAllocation > 100 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Allocations add up to {totalAllocation}% of capital
+            </Alert>
+          )}
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <Button
+            variant="contained"
+            startIcon={isRunning ? <CircularProgress size={20} /> : <AccountBalanceIcon />}
+            onClick={runPortfolio}
+            disabled={sleeves.length === 0 || totalAllocation > 100 || isRunning}
+          >
+            {isRunning ? 'Running Portfolio...' : 'Run Portfolio Backtest'}
+          </Button>
+        </Paper>
+      </Grid>
+
+      {result && (
+        <>
+          <Grid item xs={12}>
+            <Paper sx={{ p: 3 }}>
+              <Grid container spacing={3} sx={{ mb: 2 }}>
+                <Grid item xs={6} md={3}>
+                  <Box textAlign="center">
+                    <Typography
+                      variant="h5"
+                      color={result.performance.totalReturn >= 0 ? 'success.main' : 'error.main'}
+                    >
+                      {formatPercent(result.performance.totalReturnPercent)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">Portfolio Return</Typography>
+                  </Box>
+                </Grid>
+                <Grid item xs={6} md={3}>
+                  <Box textAlign="center">
+                    <Typography variant="h5" color="error.main">
+                      {formatPercent(result.performance.maxDrawdown)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">Max Drawdown</Typography>
+                  </Box>
+                </Grid>
+                <Grid item xs={6} md={3}>
+                  <Box textAlign="center">
+                    <Typography variant="h5">{result.performance.sharpeRatio.toFixed(2)}</Typography>
+                    <Typography variant="body2" color="text.secondary">Sharpe Ratio</Typography>
+                  </Box>
+                </Grid>
+                <Grid item xs={6} md={3}>
+                  <Box textAlign="center">
+                    <Typography variant="h5">
+                      {formatPercent(result.performance.averageExposurePercent)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      Avg Exposure (peak {formatPercent(result.performance.peakExposurePercent)})
+                    </Typography>
+                  </Box>
+                </Grid>
+              </Grid>
+
+              {result.alignment.warnings.map(warning => (
+                <Alert key={warning} severity="info" sx={{ mb: 1 }}>
+                  {warning}
+                </Alert>
+              ))}
+
+              <Line
+                data={{
+                  labels: result.equity.map(point => new Date(point.date).toLocaleDateString()),
+                  datasets: [
+                    {
+                      label: 'Portfolio',
+                      data: result.equity.map(point => point.value),
+                      borderColor: 'rgb(75, 192, 192)',
+                      backgroundColor: 'rgba(75, 192, 192, 0.2)',
+                      pointRadius: 0,
+                    },
+                    ...result.sleeves.map((sleeve, index) => ({
+                      label: `${sleeve.sleeve.strategyName} (${sleeve.sleeve.symbol})`,
+                      data: sleeve.equity.map(point => point.value),
+                      borderColor: SLEEVE_COLORS[index % SLEEVE_COLORS.length],
+                      borderDash: [4, 4],
+                      pointRadius: 0,
+                    })),
+                  ],
+                }}
+                options={{ responsive: true, plugins: { legend: { position: 'top' as const } } }}
+              />
+            </Paper>
+          </Grid>
+
+          <Grid item xs={12}>
+            <Paper sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Sleeve Attribution
+              </Typography>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Sleeve</TableCell>
+                      <TableCell align="right">Trades</TableCell>
+                      <TableCell align="right">Win Rate</TableCell>
+                      <TableCell align="right">Net P&L</TableCell>
+                      <TableCell align="right">Costs</TableCell>
+                      <TableCell align="right">Contribution</TableCell>
+                      <TableCell align="right">Share of P&L</TableCell>
+                      <TableCell align="right">Time in Market</TableCell>
+                      <TableCell align="right">Avg Exposure</TableCell>
+                      <TableCell align="right">Capped Signals</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {result.sleeves.map(({ sleeve, attribution }) => {
+                      const { sleeve_exposure_cap, gross_exposure_cap, insufficient_cash } = attribution.skippedSignals;
+                      return (
+                        <TableRow key={sleeve.id}>
+                          <TableCell>{sleeve.strategyName} ({sleeve.symbol})</TableCell>
+                          <TableCell align="right">{attribution.totalTrades}</TableCell>
+                          <TableCell align="right">{formatPercent(attribution.winRate)}</TableCell>
+                          <TableCell
+                            align="right"
+                            sx={{ color: attribution.netPnl >= 0 ? 'success.main' : 'error.main' }}
+                          >
+                            {formatCurrency(attribution.netPnl)}
+                          </TableCell>
+                          <TableCell align="right">{formatCurrency(attribution.totalCosts)}</TableCell>
+                          <TableCell align="right">{formatPercent(attribution.contributionPercent)}</TableCell>
+                          <TableCell align="right">{formatPercent(attribution.shareOfPnl)}</TableCell>
+                          <TableCell align="right">{formatPercent(attribution.exposureTimePercent)}</TableCell>
+                          <TableCell align="right">{formatPercent(attribution.averageExposurePercent)}</TableCell>
+                          <TableCell align="right">
+                            {sleeve_exposure_cap + gross_exposure_cap + insufficient_cash}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                Timeline: {result.alignment.timelineBars} bars from {result.period.startDate} to {result.period.endDate}
+                {' · '}
+                {result.alignment.symbols.map(s => `${s.symbol} ${s.bars} bars`).join(', ')}
+              </Typography>
+            </Paper>
+          </Grid>
+        </>
+      )}
+    </Grid>
+  );
+};
+
+export default PortfolioBacktestPanel;
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  FormControlLabel,
+  Grid,
+  LinearProgress,
+  Paper,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { CompareArrows as CompareArrowsIcon } from '@mui/icons-material';
+import { Line } from 'react-chartjs-2';
+import { StrategyParameter } from '../../store/slices/strategiesSlice';
+import {
+  BacktestConfig,
+  BacktestResult,
+  OptimizationMethod,
+  OptimizationObjective,
+} from '../../services/backtestingService';
+import { walkForwardService, WalkForwardResult } from '../../services/walkForwardService';
+
+interface WalkForwardPanelProps {
+  strategyName: string;
+  templateId: string;
+  strategyId: string | null; // saved strategy the windows' backtests are stored against
+  parameters: StrategyParameter[];
+  sweepParameters: string[];
+  method: OptimizationMethod;
+  objective: OptimizationObjective;
+  runBudget: number;
+  buildConfig: () => BacktestConfig;
+  describeError: (error: unknown) => string;
+  onViewResult: (result: BacktestResult) => void;
+}
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+const WalkForwardPanel: React.FC<WalkForwardPanelProps> = ({
+  strategyName,
+  templateId,
+  strategyId,
+  parameters,
+  sweepParameters,
+  method,
+  objective,
+  runBudget,
+  buildConfig,
+  describeError,
+  onViewResult,
+}) => {
+  const [inSampleDays, setInSampleDays] = useState(90);
+  const [outOfSampleDays, setOutOfSampleDays] = useState(30);
+  const [anchored, setAnchored] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [analysis, setAnalysis] = useState<WalkForwardResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runWalkForward = async () => {
+    setIsRunning(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      const result = await walkForwardService.runWalkForwardWithStorage(
+        'default-user',
+        strategyName,
+        templateId,
+        parameters,
+        sweepParameters,
+        buildConfig(),
+        {
+          method,
+          objective,
+          maxRuns: runBudget,
+          inSampleDays,
+          outOfSampleDays,
+          anchored,
+          onProgress: (completed, total) => setProgress((completed / total) * 100),
+        },
+        strategyId
+      );
+      setAnalysis(result);
+    } catch (err) {
+      console.error('Walk-forward analysis failed:', err);
+      setError(describeError(err));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12} md={4}>
+        <Paper sx={{ p: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Walk-Forward Windows
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Parameters are optimized on each in-sample window using the sweep, method, objective and
+            budget from the Optimization tab, then evaluated on the following out-of-sample window.
+          </Typography>
+
+          <TextField
+            fullWidth
+            label="In-Sample (days)"
+            type="number"
+            value={inSampleDays}
+            onChange={(e) => setInSampleDays(Math.max(1, Number(e.target.value)))}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            label="Out-of-Sample (days)"
+            type="number"
+            value={outOfSampleDays}
+            onChange={(e) => setOutOfSampleDays(Math.max(1, Number(e.target.value)))}
+            sx={{ mb: 2 }}
+          />
+          <FormControlLabel
+            control={<Switch checked={anchored} onChange={(e) => setAnchored(e.target.checked)} />}
+            label="Anchored (in-sample always starts at the beginning)"
+            sx={{ mb: 2 }}
+          />
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <Button
+            variant="contained"
+            fullWidth
+            startIcon={isRunning ? <CircularProgress size={20} /> : <CompareArrowsIcon />}
+            onClick={runWalkForward}
+            disabled={sweepParameters.length === 0 || isRunning}
+          >
+            {isRunning ? 'Running Walk-Forward...' : 'Run Walk-Forward'}
+          </Button>
+          {sweepParameters.length === 0 && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              Select parameters to sweep in the Optimization tab first
+            </Typography>
+          )}
+          {isRunning && <LinearProgress variant="determinate" value={progress} sx={{ mt: 2 }} />}
+        </Paper>
+      </Grid>
+
+      <Grid item xs={12} md={8}>
+        {analysis && (
+          <>
+            <Paper sx={{ p: 3, mb: 3 }}>
+              <Grid container spacing={3}>
+                <Grid item xs={4}>
+                  <Box textAlign="center">
+                    <Typography variant="h5" color={analysis.totalReturnPercent >= 0 ? 'success.main' : 'error.main'}>
+                      {formatPercent(analysis.totalReturnPercent)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">Out-of-Sample Return</Typography>
+                  </Box>
+                </Grid>
+                <Grid item xs={4}>
+                  <Box textAlign="center">
+                    <Typography variant="h5" color={analysis.efficiencyRatio >= 0.5 ? 'success.main' : 'warning.main'}>
+                      {analysis.efficiencyRatio.toFixed(2)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">Walk-Forward Efficiency</Typography>
+                  </Box>
+                </Grid>
+                <Grid item xs={4}>
+                  <Box textAlign="center">
+                    <Typography variant="h5">{analysis.windows.length}</Typography>
+                    <Typography variant="body2" color="text.secondary">Windows</Typography>
+                  </Box>
+                </Grid>
+              </Grid>
+              <Box sx={{ mt: 3 }}>
+                <Line
+                  data={{
+                    labels: analysis.equity.map(point => new Date(point.date).toLocaleDateString()),
+                    datasets: [
+                      {
+                        label: 'Out-of-Sample Equity',
+                        data: analysis.equity.map(point => point.value),
+                        borderColor: 'rgb(75, 192, 192)',
+                        backgroundColor: 'rgba(75, 192, 192, 0.2)',
+                        pointRadius: 0,
+                      },
+                    ],
+                  }}
+                  options={{ responsive: true, plugins: { legend: { position: 'top' as const } } }}
+                />
+              </Box>
+            </Paper>
+
+            <Paper sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Per-Window Results
+              </Typography>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>#</TableCell>
+                      <TableCell>Out-of-Sample Period</TableCell>
+                      <TableCell>Parameters</TableCell>
+                      <TableCell align="right">IS Return</TableCell>
+                      <TableCell align="right">OOS Return</TableCell>
+                      <TableCell align="right">Efficiency</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {analysis.windows.map((window) => (
+                      <TableRow key={window.index} hover>
+                        <TableCell>{window.index}</TableCell>
+                        <TableCell>
+                          {new Date(window.outOfSampleStart).toLocaleDateString()} - {new Date(window.outOfSampleEnd).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          {sweepParameters.map(name => `${name}=${window.parameters[name]}`).join(', ')}
+                        </TableCell>
+                        <TableCell align="right">{formatPercent(window.inSampleReturnPercent)}</TableCell>
+                        <TableCell align="right">{formatPercent(window.outOfSampleReturnPercent)}</TableCell>
+                        <TableCell align="right">{window.efficiencyRatio.toFixed(2)}</TableCell>
+                        <TableCell>
+                          <Button size="small" onClick={() => onViewResult(window.result)}>
+                            View
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          </>
+        )}
+      </Grid>
+    </Grid>
+  );
+};
+
+export default WalkForwardPanel;
@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { PlayArrow, RestartAlt, Save, Stop } from '@mui/icons-material';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../store';
+import { fetchPortfolio } from '../../store/slices/portfolioSlice';
+import { fetchOrders } from '../../store/slices/ordersSlice';
+import { brokerService, BrokerKind } from '../../services/brokerService';
+import { DEFAULT_PAPER_SETTINGS } from '../../services/paperBroker';
+import userPreferencesService from '../../services/userPreferencesService';
+
+const dateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Chooses between Alpaca and the simulated paper broker for the signed-in
+ * user, with the paper broker's latency, slippage and capital
+ */
+const BrokerSettings: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useSelector((state: RootState) => state.auth);
+
+  const [broker, setBroker] = useState<BrokerKind>(brokerService.getKind());
+  const [latencyMs, setLatencyMs] = useState(DEFAULT_PAPER_SETTINGS.latencyMs);
+  const [slippageBps, setSlippageBps] = useState(DEFAULT_PAPER_SETTINGS.slippageBps);
+  const [startingCash, setStartingCash] = useState(DEFAULT_PAPER_SETTINGS.startingCash);
+  const [result, setResult] = useState<{ severity: 'success' | 'error'; message: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Replay of stored bars through the paper broker
+  const [replaySymbol, setReplaySymbol] = useState('AAPL');
+  const [replayStart, setReplayStart] = useState(dateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [replayEnd, setReplayEnd] = useState(dateInput(new Date()));
+  const stopReplay = useRef<(() => void) | null>(null);
+  const [replaying, setReplaying] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    userPreferencesService.getUserPreferences(user.id).then(preferences => {
+      if (!preferences) return;
+      setBroker(preferences.broker);
+      setLatencyMs(preferences.paperLatencyMs);
+      setSlippageBps(preferences.paperSlippageBps);
+      setStartingCash(preferences.defaultCapital);
+    });
+  }, [user]);
+
+  useEffect(() => () => stopReplay.current?.(), []);
+
+  const refreshAccount = () => {
+    dispatch(fetchPortfolio());
+    dispatch(fetchOrders({ status: 'all' }));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    setSaving(true);
+    const saved = await userPreferencesService.updateUserPreferences(user.id, {
+      broker,
+      paperLatencyMs: latencyMs,
+      paperSlippageBps: slippageBps,
+      defaultCapital: startingCash,
+    });
+    setSaving(false);
+
+    if (!saved) {
+      setResult({ severity: 'error', message: 'Failed to save broker settings' });
+      return;
+    }
+    brokerService.select(user.id, broker, { latencyMs, slippageBps, startingCash });
+    setResult({ severity: 'success', message: `Trading through ${broker === 'paper' ? 'the paper broker' : 'Alpaca'}` });
+    refreshAccount();
+  };
+
+  const handleReset = async () => {
+    const paper = brokerService.getPaperBroker();
+    if (!paper || !window.confirm(`Reset the paper account to $${startingCash.toLocaleString()}? All paper orders and positions are deleted.`)) {
+      return;
+    }
+    try {
+      await paper.reset(startingCash);
+      setResult({ severity: 'success', message: 'Paper account reset' });
+      refreshAccount();
+    } catch (error) {
+      setResult({ severity: 'error', message: error instanceof Error ? error.message : 'Failed to reset paper account' });
+    }
+  };
+
+  const handleReplay = () => {
+    if (replaying) {
+      stopReplay.current?.();
+      stopReplay.current = null;
+      setReplaying(false);
+      return;
+    }
+    const paper = brokerService.getPaperBroker();
+    if (!paper) return;
+    stopReplay.current = paper.replayMarketData(replaySymbol.toUpperCase(), new Date(replayStart), new Date(replayEnd));
+    setReplaying(true);
+  };
+
+  const paperActive = brokerService.getKind() === 'paper';
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Broker
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Trade through Alpaca, or through a simulated broker that fills against live or replayed prices.
+      </Typography>
+
+      <Grid container spacing={2}>
+        <Grid item xs={12} md={3}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Broker</InputLabel>
+            <Select value={broker} label="Broker" onChange={(e) => setBroker(e.target.value as BrokerKind)}>
+              <MenuItem value="alpaca">Alpaca</MenuItem>
+              <MenuItem value="paper">Paper (simulated)</MenuItem>
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} md={3}>
+          <TextField
+            fullWidth
+            size="small"
+            label="Latency (ms)"
+            type="number"
+            value={latencyMs}
+            disabled={broker !== 'paper'}
+            onChange={(e) => setLatencyMs(Math.max(0, Number(e.target.value)))}
+            inputProps={{ min: 0, step: 50 }}
+          />
+        </Grid>
+        <Grid item xs={12} md={3}>
+          <TextField
+            fullWidth
+            size="small"
+            label="Slippage (bps)"
+            type="number"
+            value={slippageBps}
+            disabled={broker !== 'paper'}
+            onChange={(e) => setSlippageBps(Math.max(0, Number(e.target.value)))}
+            inputProps={{ min: 0, step: 1 }}
+          />
+        </Grid>
+        <Grid item xs={12} md={3}>
+          <TextField
+            fullWidth
+            size="small"
+            label="Starting Capital ($)"
+            type="number"
+            value={startingCash}
+            disabled={broker !== 'paper'}
+            onChange={(e) => setStartingCash(Math.max(0, Number(e.target.value)))}
+            inputProps={{ min: 0, step: 1000 }}
+          />
+        </Grid>
+      </Grid>
+
+      <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+        <Button variant="contained" startIcon={<Save />} onClick={handleSave} disabled={!user || saving}>
+          Save
+        </Button>
+        <Button variant="outlined" color="warning" startIcon={<RestartAlt />} onClick={handleReset} disabled={!paperActive}>
+          Reset Paper Account
+        </Button>
+      </Box>
+
+      {paperActive && (
+        <>
+          <Typography variant="subtitle1" sx={{ mt: 3, mb: 2 }}>
+            Replay Stored Prices
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+            <TextField
+              size="small"
+              label="Symbol"
+              value={replaySymbol}
+              disabled={replaying}
+              onChange={(e) => setReplaySymbol(e.target.value)}
+            />
+            <TextField
+              size="small"
+              label="From"
+              type="date"
+              value={replayStart}
+              disabled={replaying}
+              onChange={(e) => setReplayStart(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              size="small"
+              label="To"
+              type="date"
+              value={replayEnd}
+              disabled={replaying}
+              onChange={(e) => setReplayEnd(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <Button variant="outlined" startIcon={replaying ? <Stop /> : <PlayArrow />} onClick={handleReplay}>
+              {replaying ? 'Stop Replay' : 'Start Replay'}
+            </Button>
+          </Box>
+        </>
+      )}
+
+      {result && (
+        <Alert severity={result.severity} sx={{ mt: 2 }} onClose={() => setResult(null)}>
+          {result.message}
+        </Alert>
+      )}
+    </Paper>
+  );
+};
+
+export default BrokerSettings;
@@ -0,0 +1,398 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, AccountTree as GroupIcon } from '@mui/icons-material';
+import {
+  DEFAULT_RULE_STRATEGY,
+  describeCondition,
+  RULE_INDICATORS,
+  RULE_OPERATORS,
+  RULE_PRICE_FIELDS,
+  RuleComparison,
+  RuleCondition,
+  RuleOperand,
+  RuleStrategyDefinition,
+  validateRuleStrategy,
+} from '../../services/ruleStrategy';
+
+interface RuleBuilderProps {
+  value: RuleStrategyDefinition | string;
+  onChange: (rules: RuleStrategyDefinition) => void;
+  disabled?: boolean;
+}
+
+type RuleSlot = 'entry.long' | 'entry.short' | 'exit.long' | 'exit.short';
+
+const SLOTS: Array<{ slot: RuleSlot; label: string }> = [
+  { slot: 'entry.long', label: 'Enter long when' },
+  { slot: 'entry.short', label: 'Enter short when' },
+  { slot: 'exit.long', label: 'Exit long when' },
+  { slot: 'exit.short', label: 'Exit short when' },
+];
+
+const OPERATOR_LABELS: Record<string, string> = {
+  '<': '<',
+  '<=': '≤',
+  '>': '>',
+  '>=': '≥',
+  crosses_above: 'crosses above',
+  crosses_below: 'crosses below',
+};
+
+const newComparison = (): RuleComparison => ({
+  type: 'compare',
+  left: { kind: 'price', field: 'close' },
+  operator: '>',
+  right: { kind: 'indicator', indicator: 'sma', period: 20 },
+});
+
+// Hand-edited JSON may leave out sections; the editor still needs them
+const parseValue = (value: RuleStrategyDefinition | string): RuleStrategyDefinition => {
+  let rules: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      rules = JSON.parse(value);
+    } catch {
+      return DEFAULT_RULE_STRATEGY;
+    }
+  }
+  if (!rules || typeof rules !== 'object') return DEFAULT_RULE_STRATEGY;
+  const definition = rules as Partial<RuleStrategyDefinition>;
+  return { version: 1, ...definition, entry: definition.entry ?? {}, exit: definition.exit ?? {} };
+};
+
+const OperandEditor: React.FC<{
+  operand: RuleOperand;
+  onChange: (operand: RuleOperand) => void;
+  disabled?: boolean;
+}> = ({ operand, onChange, disabled }) => {
+  const changeKind = (kind: RuleOperand['kind']) => {
+    if (kind === 'price') onChange({ kind, field: 'close' });
+    else if (kind === 'value') onChange({ kind, value: 0 });
+    else onChange({ kind, indicator: 'sma', period: 20 });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+      <FormControl size="small" sx={{ minWidth: 110 }} disabled={disabled}>
+        <InputLabel>Type</InputLabel>
+        <Select value={operand.kind} label="Type" onChange={(e) => changeKind(e.target.value as RuleOperand['kind'])}>
+          <MenuItem value="price">Price</MenuItem>
+          <MenuItem value="indicator">Indicator</MenuItem>
+          <MenuItem value="value">Value</MenuItem>
+        </Select>
+      </FormControl>
+
+      {operand.kind === 'price' && (
+        <FormControl size="small" sx={{ minWidth: 100 }} disabled={disabled}>
+          <InputLabel>Field</InputLabel>
+          <Select
+            value={operand.field}
+            label="Field"
+            onChange={(e) => onChange({ ...operand, field: e.target.value as typeof operand.field })}
+          >
+            {RULE_PRICE_FIELDS.map(field => (
+              <MenuItem key={field} value={field}>{field}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      {operand.kind === 'value' && (
+        <TextField
+          size="small"
+          type="number"
+          label="Value"
+          value={operand.value}
+          onChange={(e) => onChange({ ...operand, value: Number(e.target.value) })}
+          sx={{ width: 100 }}
+          disabled={disabled}
+        />
+      )}
+
+      {operand.kind === 'indicator' && (
+        <>
+          <FormControl size="small" sx={{ minWidth: 140 }} disabled={disabled}>
+            <InputLabel>Indicator</InputLabel>
+            <Select
+              value={operand.indicator}
+              label="Indicator"
+              onChange={(e) => onChange({ ...operand, indicator: e.target.value as typeof operand.indicator })}
+            >
+              {RULE_INDICATORS.map(indicator => (
+                <MenuItem key={indicator} value={indicator}>{indicator.toUpperCase()}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {operand.indicator !== 'obv' && (
+            <TextField
+              size="small"
+              type="number"
+              label={operand.indicator.startsWith('macd') ? 'Slow' : 'Period'}
+              value={operand.period}
+              onChange={(e) => onChange({ ...operand, period: Number(e.target.value) })}
+              sx={{ width: 90 }}
+              disabled={disabled}
+            />
+          )}
+          {operand.indicator.startsWith('bb_') && (
+            <TextField
+              size="small"
+              type="number"
+              label="Std Dev"
+              value={operand.deviations ?? 2}
+              onChange={(e) => onChange({ ...operand, deviations: Number(e.target.value) })}
+              inputProps={{ step: 0.1 }}
+              sx={{ width: 90 }}
+              disabled={disabled}
+            />
+          )}
+          {operand.indicator.startsWith('macd') && (
+            <>
+              <TextField
+                size="small"
+                type="number"
+                label="Fast"
+                value={operand.fastPeriod ?? 12}
+                onChange={(e) => onChange({ ...operand, fastPeriod: Number(e.target.value) })}
+                sx={{ width: 80 }}
+                disabled={disabled}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Signal"
+                value={operand.signalPeriod ?? 9}
+                onChange={(e) => onChange({ ...operand, signalPeriod: Number(e.target.value) })}
+                sx={{ width: 80 }}
+                disabled={disabled}
+              />
+            </>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+const ConditionEditor: React.FC<{
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove?: () => void;
+  disabled?: boolean;
+}> = ({ condition, onChange, onRemove, disabled }) => {
+  if (condition.type === 'compare') {
+    return (
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', py: 1 }}>
+        <OperandEditor operand={condition.left} onChange={left => onChange({ ...condition, left })} disabled={disabled} />
+        <FormControl size="small" sx={{ minWidth: 130 }} disabled={disabled}>
+          <InputLabel>Operator</InputLabel>
+          <Select
+            value={condition.operator}
+            label="Operator"
+            onChange={(e) => onChange({ ...condition, operator: e.target.value as RuleComparison['operator'] })}
+          >
+            {RULE_OPERATORS.map(operator => (
+              <MenuItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <OperandEditor operand={condition.right} onChange={right => onChange({ ...condition, right })} disabled={disabled} />
+        {onRemove && (
+          <IconButton size="small" onClick={onRemove} disabled={disabled}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        )}
+      </Box>
+    );
+  }
+
+  const updateChild = (index: number, child: RuleCondition) =>
+    onChange({ ...condition, conditions: condition.conditions.map((c, i) => (i === index ? child : c)) });
+  const removeChild = (index: number) =>
+    onChange({ ...condition, conditions: condition.conditions.filter((_, i) => i !== index) });
+  const addChild = (child: RuleCondition) => onChange({ ...condition, conditions: [...condition.conditions, child] });
+
+  return (
+    <Box sx={{ borderLeft: 2, borderColor: 'divider', pl: 2, my: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={condition.combinator}
+          onChange={(_, combinator) => combinator && onChange({ ...condition, combinator })}
+          disabled={disabled}
+        >
+          <ToggleButton value="and">AND</ToggleButton>
+          <ToggleButton value="or">OR</ToggleButton>
+        </ToggleButtonGroup>
+        <Button size="small" startIcon={<AddIcon />} onClick={() => addChild(newComparison())} disabled={disabled}>
+          Condition
+        </Button>
+        <Button
+          size="small"
+          startIcon={<GroupIcon />}
+          onClick={() => addChild({ type: 'group', combinator: 'and', conditions: [newComparison()] })}
+          disabled={disabled}
+        >
+          Group
+        </Button>
+        {onRemove && (
+          <IconButton size="small" onClick={onRemove} disabled={disabled}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        )}
+      </Box>
+      {condition.conditions.map((child, index) => (
+        <ConditionEditor
+          key={index}
+          condition={child}
+          onChange={updated => updateChild(index, updated)}
+          onRemove={() => removeChild(index)}
+          disabled={disabled}
+        />
+      ))}
+    </Box>
+  );
+};
+
+/**
+ * Visual editor for a rule strategy: entry and exit condition trees plus
+ * stop and target percentages, with a JSON view for copying rules around
+ */
+const RuleBuilder: React.FC<RuleBuilderProps> = ({ value, onChange, disabled }) => {
+  const rules = parseValue(value);
+  const [showJson, setShowJson] = useState(false);
+  const [jsonText, setJsonText] = useState('');
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const errors = validateRuleStrategy(rules);
+
+  const getSlot = (slot: RuleSlot): RuleCondition | undefined => {
+    const [section, side] = slot.split('.') as ['entry' | 'exit', 'long' | 'short'];
+    return rules[section][side];
+  };
+
+  const setSlot = (slot: RuleSlot, condition: RuleCondition | undefined) => {
+    const [section, side] = slot.split('.') as ['entry' | 'exit', 'long' | 'short'];
+    onChange({ ...rules, [section]: { ...rules[section], [side]: condition } });
+  };
+
+  const setExitPercent = (key: 'stopLossPercent' | 'takeProfitPercent', text: string) => {
+    onChange({ ...rules, exit: { ...rules.exit, [key]: text === '' ? undefined : Number(text) } });
+  };
+
+  const toggleJson = () => {
+    setJsonText(JSON.stringify(rules, null, 2));
+    setJsonError(null);
+    setShowJson(!showJson);
+  };
+
+  const applyJson = () => {
+    try {
+      onChange(JSON.parse(jsonText));
+      setJsonError(null);
+    } catch (error) {
+      setJsonError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="subtitle1">Rules</Typography>
+        <Button size="small" onClick={toggleJson}>{showJson ? 'Visual Editor' : 'Edit JSON'}</Button>
+      </Box>
+
+      {showJson ? (
+        <TextField
+          fullWidth
+          multiline
+          minRows={10}
+          value={jsonText}
+          onChange={(e) => setJsonText(e.target.value)}
+          onBlur={applyJson}
+          error={!!jsonError}
+          helperText={jsonError}
+          disabled={disabled}
+          InputProps={{ sx: { fontFamily: 'monospace', fontSize: 12 } }}
+        />
+      ) : (
+        <>
+          {SLOTS.map(({ slot, label }) => {
+            const condition = getSlot(slot);
+            return (
+              <Paper key={slot} variant="outlined" sx={{ p: 1.5, mb: 1.5 }}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={!!condition}
+                      onChange={(e) =>
+                        setSlot(slot, e.target.checked ? { type: 'group', combinator: 'and', conditions: [newComparison()] } : undefined)
+                      }
+                      disabled={disabled}
+                    />
+                  }
+                  label={label}
+                />
+                {condition && (
+                  <>
+                    <ConditionEditor condition={condition} onChange={updated => setSlot(slot, updated)} disabled={disabled} />
+                    <Typography variant="caption" color="text.secondary">
+                      {describeCondition(condition)}
+                    </Typography>
+                  </>
+                )}
+              </Paper>
+            );
+          })}
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              size="small"
+              type="number"
+              label="Stop Loss %"
+              value={rules.exit.stopLossPercent ?? ''}
+              onChange={(e) => setExitPercent('stopLossPercent', e.target.value)}
+              helperText="Blank for none"
+              disabled={disabled}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Take Profit %"
+              value={rules.exit.takeProfitPercent ?? ''}
+              onChange={(e) => setExitPercent('takeProfitPercent', e.target.value)}
+              helperText="Blank for none"
+              disabled={disabled}
+            />
+          </Box>
+        </>
+      )}
+
+      {errors.length > 0 && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {errors.map(error => (
+            <div key={error}>{error}</div>
+          ))}
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default RuleBuilder;
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Restore as RestoreIcon } from '@mui/icons-material';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../store';
+import { loadStrategyVersions, rollbackStrategy, StrategyVersion, TradeStrategy } from '../../store/slices/strategiesSlice';
+import { diffParameters, formatParameterValue } from '../../services/strategyVersions';
+
+interface StrategyHistoryDialogProps {
+  strategy: TradeStrategy | null;
+  onClose: () => void;
+}
+
+const NO_VERSIONS: StrategyVersion[] = [];
+
+/**
+ * Saved versions of a strategy, a parameter diff between any two of them and
+ * rollback to an earlier one
+ */
+const StrategyHistoryDialog: React.FC<StrategyHistoryDialogProps> = ({ strategy, onClose }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const versions = useSelector((state: RootState) => (strategy && state.strategies.versions[strategy.id]) || NO_VERSIONS);
+  const isLoading = useSelector((state: RootState) => state.strategies.isLoading);
+
+  // Versions being compared, by number; default to the latest against its predecessor
+  const [fromVersion, setFromVersion] = useState<number | ''>('');
+  const [toVersion, setToVersion] = useState<number | ''>('');
+
+  useEffect(() => {
+    if (strategy) dispatch(loadStrategyVersions(strategy.id));
+  }, [strategy, dispatch]);
+
+  useEffect(() => {
+    setToVersion(versions[0]?.version ?? '');
+    setFromVersion(versions[1]?.version ?? '');
+  }, [versions]);
+
+  if (!strategy) return null;
+
+  const from = versions.find(v => v.version === fromVersion);
+  const to = versions.find(v => v.version === toVersion);
+  const changes = from && to ? diffParameters(from.parameters, to.parameters) : [];
+  const current = versions[0]?.version;
+
+  const handleRollback = (version: number) => {
+    if (window.confirm(`Restore the parameters of v${version}? This is saved as a new version.`)) {
+      dispatch(rollbackStrategy({ id: strategy.id, version }));
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{strategy.name} — Version History</DialogTitle>
+      <DialogContent>
+        {versions.length === 0 ? (
+          <Alert severity="info" sx={{ mt: 1 }}>
+            No saved versions yet.
+          </Alert>
+        ) : (
+          <>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Version</TableCell>
+                    <TableCell>Saved</TableCell>
+                    <TableCell>Note</TableCell>
+                    <TableCell align="right">Backtests</TableCell>
+                    <TableCell align="right">Trades</TableCell>
+                    <TableCell align="right">Signals</TableCell>
+                    <TableCell align="center">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {versions.map(version => (
+                    <TableRow key={version.id} selected={version.version === current}>
+                      <TableCell>
+                        v{version.version}{version.version === current && ' (current)'}
+                      </TableCell>
+                      <TableCell>{new Date(version.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>{version.note || '—'}</TableCell>
+                      <TableCell align="right">{version.usage?.backtests ?? '—'}</TableCell>
+                      <TableCell align="right">{version.usage?.trades ?? '—'}</TableCell>
+                      <TableCell align="right">{version.usage?.signals ?? '—'}</TableCell>
+                      <TableCell align="center">
+                        <Button
+                          size="small"
+                          startIcon={<RestoreIcon />}
+                          disabled={version.version === current || isLoading}
+                          onClick={() => handleRollback(version.version)}
+                        >
+                          Roll back
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            <Typography variant="h6" sx={{ mt: 3, mb: 2 }}>
+              Compare Versions
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+              {[
+                { label: 'From', value: fromVersion, onChange: setFromVersion },
+                { label: 'To', value: toVersion, onChange: setToVersion },
+              ].map(({ label, value, onChange }) => (
+                <FormControl key={label} size="small" sx={{ minWidth: 140 }}>
+                  <InputLabel>{label}</InputLabel>
+                  <Select
+                    value={value}
+                    label={label}
+                    onChange={(e) => onChange(e.target.value as number)}
+                  >
+                    {versions.map(version => (
+                      <MenuItem key={version.id} value={version.version}>
+                        v{version.version}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              ))}
+            </Box>
+
+            {!from || !to ? (
+              <Alert severity="info">Pick two versions to compare.</Alert>
+            ) : from.templateId !== to.templateId ? (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Template changed from {from.templateId} to {to.templateId}.
+              </Alert>
+            ) : null}
+            {from && to && (changes.length === 0 ? (
+              <Alert severity="success">v{from.version} and v{to.version} have the same parameters.</Alert>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Parameter</TableCell>
+                      <TableCell>v{from.version}</TableCell>
+                      <TableCell>v{to.version}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {changes.map(change => (
+                      <TableRow key={change.name}>
+                        <TableCell>{change.name}</TableCell>
+                        <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                          {formatParameterValue(change.before)}
+                        </TableCell>
+                        <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                          {formatParameterValue(change.after)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            ))}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default StrategyHistoryDialog;
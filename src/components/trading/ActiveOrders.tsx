@@ -32,12 +32,14 @@ import {
   Schedule,
   Error as ErrorIcon,
   Refresh,
-  Check
+  Check,
+  SubdirectoryArrowRight
 } from '@mui/icons-material';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../store';
 import { Order } from '../../store/slices/types';
-import { cancelOrder, modifyOrder, fetchOrders } from '../../store/slices/ordersSlice';
+import { cancelOrder, modifyOrder, fetchOrders, cancelOrderGroups, syncOrderGroups } from '../../store/slices/ordersSlice';
+import { isGroupOpen, OrderGroup, OrderGroupLeg } from '../../services/orderGroups';
 import LoadingSpinner from '../common/LoadingSpinner';
 import ErrorDisplay from '../common/ErrorDisplay';
 
@@ -48,9 +50,10 @@ interface OrderAction {
 
 const ActiveOrders: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
-  const { orders, isLoading, error } = useSelector((state: RootState) => state.orders);
+  const { orders, groups, isLoading, error } = useSelector((state: RootState) => state.orders);
 
   const [selectedOrder, setSelectedOrder] = useState<string | null>(null);
+  const [selectedGroup, setSelectedGroup] = useState<OrderGroup | null>(null);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [dialogType, setDialogType] = useState<'cancel' | 'modify'>('cancel');
@@ -73,6 +76,7 @@ const ActiveOrders: React.FC = () => {
     setIsRefreshing(true);
     try {
       await dispatch(fetchOrders({ status: 'open' })).unwrap();
+      await dispatch(syncOrderGroups());
       setLastRefreshTime(new Date());
       setShowRefreshSuccess(true);
     } catch (error) {
@@ -174,7 +178,11 @@ const ActiveOrders: React.FC = () => {
     }
   ];
 
-  const activeOrders = orders && orders.length > 0 ? orders : mockActiveOrders;
+  // Legs of open bracket and OCO groups are listed under their group
+  const openGroups = groups.filter(isGroupOpen);
+  const groupedOrderIds = new Set(openGroups.flatMap(group => group.legs.map(leg => leg.orderId)));
+  const activeOrders = (orders && orders.length > 0 ? orders : mockActiveOrders)
+    .filter(order => !groupedOrderIds.has(order.id));
 
   const handleMenuOpen = (event: React.MouseEvent<HTMLElement>, orderId: string) => {
     event.stopPropagation();
@@ -218,6 +226,17 @@ const ActiveOrders: React.FC = () => {
     }
   };
 
+  const handleCancelGroup = async () => {
+    if (selectedGroup) {
+      try {
+        await dispatch(cancelOrderGroups({ groupId: selectedGroup.id })).unwrap();
+        setSelectedGroup(null);
+      } catch (error) {
+        console.error('Failed to cancel order group:', error);
+      }
+    }
+  };
+
   const handleModifyOrder = async () => {
     if (selectedOrder && modifyPrice && modifyQuantity) {
       try {
@@ -241,6 +260,7 @@ const ActiveOrders: React.FC = () => {
       filled: { color: 'success' as const, icon: <CheckCircle />, label: 'Filled' },
       canceled: { color: 'default' as const, icon: <Cancel />, label: 'Canceled' },
       pending_cancel: { color: 'warning' as const, icon: <Schedule />, label: 'Canceling' },
+      held: { color: 'default' as const, icon: <Schedule />, label: 'Held' },
       rejected: { color: 'error' as const, icon: <ErrorIcon />, label: 'Rejected' }
     };
 
@@ -274,6 +294,109 @@ const ActiveOrders: React.FC = () => {
     };
   };
 
+  const groupLabels = {
+    bracket: 'Bracket',
+    oco: 'OCO',
+    pending_entry: 'Awaiting entry',
+    working: 'Exits working',
+    entry: 'Entry',
+    stop: 'Stop loss',
+    target: 'Take profit'
+  };
+
+  const renderLegRow = (group: OrderGroup, leg: OrderGroupLeg) => {
+    const order = orders.find((o: Order) => o.id === leg.orderId);
+    const datetime = order ? formatDateTime(order.createdAt) : null;
+
+    return (
+      <TableRow key={`${group.id}_${leg.role}`}>
+        <TableCell sx={{ pl: 4 }}>
+          <Typography variant="body2" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <SubdirectoryArrowRight fontSize="small" color="action" />
+            {groupLabels[leg.role]}
+          </Typography>
+        </TableCell>
+        <TableCell>
+          {getSideChip(leg.side)}
+        </TableCell>
+        <TableCell>
+          <Typography variant="body2" sx={{ textTransform: 'capitalize' }}>
+            {leg.type.replace('_', ' ')}
+          </Typography>
+        </TableCell>
+        <TableCell align="right">
+          <Typography variant="body2">
+            {order ? `${order.filledQty}/${order.qty}` : leg.qty}
+          </Typography>
+        </TableCell>
+        <TableCell align="right">
+          <Box>
+            {leg.limitPrice !== undefined && (
+              <Typography variant="body2">
+                ${leg.limitPrice.toFixed(2)}
+              </Typography>
+            )}
+            {leg.stopPrice !== undefined && (
+              <Typography variant="caption" color="text.secondary">
+                Stop: ${leg.stopPrice.toFixed(2)}
+              </Typography>
+            )}
+            {leg.type === 'market' && (
+              <Typography variant="body2" color="text.secondary">
+                Market
+              </Typography>
+            )}
+          </Box>
+        </TableCell>
+        <TableCell>
+          {getStatusChip(leg.status)}
+        </TableCell>
+        <TableCell>
+          {datetime && (
+            <Box>
+              <Typography variant="body2">
+                {datetime.time}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {datetime.date}
+              </Typography>
+            </Box>
+          )}
+        </TableCell>
+        <TableCell />
+      </TableRow>
+    );
+  };
+
+  const renderGroup = (group: OrderGroup) => (
+    <React.Fragment key={group.id}>
+      <TableRow hover sx={{ bgcolor: 'action.hover' }}>
+        <TableCell colSpan={7}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body2" fontWeight="bold">
+              {group.symbol}
+            </Typography>
+            <Chip label={groupLabels[group.type]} size="small" color="primary" />
+            <Tooltip title={group.managed === 'native' ? 'The broker links the legs' : 'The app places and cancels the legs'}>
+              <Chip label={group.managed === 'native' ? 'Broker-linked' : 'App-managed'} size="small" variant="outlined" />
+            </Tooltip>
+            <Typography variant="caption" color="text.secondary">
+              {groupLabels[group.status as 'pending_entry' | 'working']}
+            </Typography>
+          </Box>
+        </TableCell>
+        <TableCell align="center">
+          <Tooltip title="Cancel group">
+            <IconButton size="small" onClick={() => setSelectedGroup(group)}>
+              <Cancel />
+            </IconButton>
+          </Tooltip>
+        </TableCell>
+      </TableRow>
+      {group.legs.map(leg => renderLegRow(group, leg))}
+    </React.Fragment>
+  );
+
   const canModifyOrder = (order: any) => {
     return ['accepted', 'pending_new'].includes(order.status) && 
            ['limit', 'stop_limit'].includes(order.type);
@@ -327,7 +450,7 @@ const ActiveOrders: React.FC = () => {
 
       {/* Orders Table */}
       <Box sx={{ flex: 1, overflow: 'auto' }}>
-        {activeOrders.length === 0 ? (
+        {activeOrders.length === 0 && openGroups.length === 0 ? (
           <Alert severity="info" sx={{ m: 2 }}>
             No active orders. Place an order to see it here.
           </Alert>
@@ -347,6 +470,7 @@ const ActiveOrders: React.FC = () => {
                 </TableRow>
               </TableHead>
               <TableBody>
+                {openGroups.map(renderGroup)}
                 {activeOrders.map((order) => {
                   const datetime = formatDateTime(order.createdAt);
                   const progress = order.filledQty ? 
@@ -481,6 +605,36 @@ const ActiveOrders: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Cancel Group Dialog */}
+      <Dialog open={selectedGroup !== null} onClose={() => setSelectedGroup(null)}>
+        <DialogTitle>Cancel {selectedGroup ? groupLabels[selectedGroup.type] : ''} Order</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Cancel every open leg of this order? Filled legs are not affected.
+          </Typography>
+          {selectedGroup && (
+            <Box sx={{ mt: 2, p: 2, bgcolor: 'action.hover', borderRadius: 1 }}>
+              {selectedGroup.legs.map(leg => (
+                <Typography variant="body2" key={leg.role}>
+                  <strong>{groupLabels[leg.role]}</strong>: {leg.side.toUpperCase()} {leg.qty} {selectedGroup.symbol} ({leg.status})
+                </Typography>
+              ))}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelectedGroup(null)}>Keep</Button>
+          <Button 
+            onClick={handleCancelGroup}
+            color="error"
+            variant="contained"
+            disabled={isLoading}
+          >
+            Cancel Group
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Modify Order Dialog */}
       <Dialog open={dialogOpen && dialogType === 'modify'} onClose={handleCloseDialog}>
         <DialogTitle>Modify Order</DialogTitle>
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Grid, Paper, Typography } from '@mui/material';
+import { BenchmarkComparison } from '../../services/benchmarkStatistics';
+
+interface BenchmarkComparisonPanelProps {
+  comparison: BenchmarkComparison;
+  title?: string;
+}
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+const formatRatio = (value: number) => value.toFixed(2);
+
+const BenchmarkComparisonPanel: React.FC<BenchmarkComparisonPanelProps> = ({
+  comparison,
+  title = 'Benchmark Comparison',
+}) => {
+  const items: Array<{ label: string; value: string; color?: string }> = [
+    {
+      label: 'Benchmark Return',
+      value: formatPercent(comparison.benchmarkReturnPercent),
+      color: comparison.benchmarkReturnPercent >= 0 ? 'success.main' : 'error.main',
+    },
+    {
+      label: 'Excess Return',
+      value: formatPercent(comparison.excessReturnPercent),
+      color: comparison.excessReturnPercent >= 0 ? 'success.main' : 'error.main',
+    },
+    {
+      label: 'Alpha (annualized)',
+      value: formatPercent(comparison.alpha),
+      color: comparison.alpha >= 0 ? 'success.main' : 'error.main',
+    },
+    { label: 'Beta', value: formatRatio(comparison.beta) },
+    { label: 'Correlation', value: formatRatio(comparison.correlation) },
+    { label: 'Tracking Error', value: formatPercent(comparison.trackingError) },
+    { label: 'Information Ratio', value: formatRatio(comparison.informationRatio) },
+    { label: 'Up / Down Capture', value: `${comparison.upCapture.toFixed(0)}% / ${comparison.downCapture.toFixed(0)}%` },
+  ];
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        {title}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Against {comparison.name} over {comparison.periods} periods
+      </Typography>
+      <Grid container spacing={2}>
+        {items.map(item => (
+          <Grid item xs={6} sm={4} md={3} key={item.label}>
+            <Typography variant="body2" color="text.secondary">{item.label}</Typography>
+            <Typography variant="body1" color={item.color}>{item.value}</Typography>
+          </Grid>
+        ))}
+      </Grid>
+    </Paper>
+  );
+};
+
+export default BenchmarkComparisonPanel;
@@ -0,0 +1,101 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { BenchmarkConfig } from '../../services/benchmarkStatistics';
+
+interface BenchmarkSelectorProps {
+  value: BenchmarkConfig;
+  onChange: (benchmark: BenchmarkConfig) => void;
+  symbols: string[];
+  disabled?: boolean;
+}
+
+const BenchmarkSelector: React.FC<BenchmarkSelectorProps> = ({ value, onChange, symbols, disabled }) => {
+  const updateComponent = (index: number, changes: Partial<BenchmarkConfig['components'][number]>) => {
+    onChange({
+      ...value,
+      components: value.components.map((component, i) => (i === index ? { ...component, ...changes } : component)),
+    });
+  };
+
+  const addComponent = () => {
+    const unused = symbols.find(symbol => !value.components.some(c => c.symbol === symbol)) ?? symbols[0];
+    onChange({ ...value, components: [...value.components, { symbol: unused, weight: 0 }] });
+  };
+
+  const removeComponent = (index: number) => {
+    onChange({ ...value, components: value.components.filter((_, i) => i !== index) });
+  };
+
+  const visibleComponents = value.type === 'buy_and_hold' ? value.components.slice(0, 1) : value.components;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <FormControl size="small" fullWidth disabled={disabled}>
+        <InputLabel>Benchmark</InputLabel>
+        <Select
+          value={value.type}
+          label="Benchmark"
+          onChange={(e) => onChange({ ...value, type: e.target.value as BenchmarkConfig['type'] })}
+        >
+          <MenuItem value="buy_and_hold">Buy and Hold</MenuItem>
+          <MenuItem value="basket">Fixed-Weight Basket</MenuItem>
+        </Select>
+      </FormControl>
+
+      {visibleComponents.map((component, index) => (
+        <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <FormControl size="small" sx={{ flex: 1 }} disabled={disabled}>
+            <InputLabel>Symbol</InputLabel>
+            <Select
+              value={component.symbol}
+              label="Symbol"
+              onChange={(e) => updateComponent(index, { symbol: e.target.value })}
+            >
+              {symbols.map(symbol => (
+                <MenuItem key={symbol} value={symbol}>{symbol}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {value.type === 'basket' && (
+            <>
+              <TextField
+                size="small"
+                label="Weight (%)"
+                type="number"
+                value={component.weight}
+                disabled={disabled}
+                onChange={(e) => updateComponent(index, { weight: Math.max(0, Number(e.target.value)) })}
+                sx={{ width: 110 }}
+              />
+              <IconButton
+                size="small"
+                onClick={() => removeComponent(index)}
+                disabled={disabled || value.components.length <= 1}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </>
+          )}
+        </Box>
+      ))}
+
+      {value.type === 'basket' && (
+        <Button size="small" startIcon={<AddIcon />} onClick={addComponent} disabled={disabled} sx={{ alignSelf: 'flex-start' }}>
+          Add Symbol
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default BenchmarkSelector;
@@ -24,7 +24,8 @@ import {
 } from '@mui/icons-material';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../store';
-import { placeOrder } from '../../store/slices/ordersSlice';
+import { placeOrder, placeBracketOrder, placeOcoOrder, clearRejection } from '../../store/slices/ordersSlice';
+import { validateExitPrices } from '../../services/orderGroups';
 
 export interface OrderFormData {
   symbol: string;
@@ -34,13 +35,16 @@ export interface OrderFormData {
   quantity: string;
   price?: string;
   stopPrice?: string;
+  orderClass: 'simple' | 'bracket' | 'oco';
+  takeProfitPrice?: string;
+  stopLossPrice?: string;
 }
 
 const OrderForm: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   const { currentSymbol } = useSelector((state: RootState) => state.marketData);
   const { account } = useSelector((state: RootState) => state.portfolio);
-  const { isLoading } = useSelector((state: RootState) => state.orders);
+  const { isLoading, lastRejection } = useSelector((state: RootState) => state.orders);
 
   const [formData, setFormData] = useState<OrderFormData>({
     symbol: currentSymbol || 'BTCUSD',
@@ -49,7 +53,10 @@ const OrderForm: React.FC = () => {
     timeInForce: 'gtc',
     quantity: '',
     price: '',
-    stopPrice: ''
+    stopPrice: '',
+    orderClass: 'simple',
+    takeProfitPrice: '',
+    stopLossPrice: ''
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -95,6 +102,23 @@ const OrderForm: React.FC = () => {
     }
   }, []);
 
+  const handleOrderClassChange = useCallback((
+    _event: React.MouseEvent<HTMLElement>,
+    newClass: OrderFormData['orderClass'] | null
+  ) => {
+    if (newClass) {
+      // A bracket enters with a market or limit order; an OCO has no entry
+      setFormData(prev => ({
+        ...prev,
+        orderClass: newClass,
+        type: newClass === 'simple' || prev.type === 'limit' ? prev.type : 'market',
+        stopPrice: newClass === 'simple' ? prev.stopPrice : '',
+        timeInForce: newClass !== 'simple' && ['ioc', 'fok'].includes(prev.timeInForce) ? 'gtc' : prev.timeInForce
+      }));
+      setErrors({});
+    }
+  }, []);
+
   const handleTypeChange = useCallback((event: any) => {
     const newType = event.target.value;
     setFormData(prev => ({ 
@@ -124,8 +148,29 @@ const OrderForm: React.FC = () => {
       }
     }
 
+    if (formData.orderClass !== 'simple') {
+      // A bracket protects the position it opens; an OCO's side is the side of its exits
+      const positionSide = formData.orderClass === 'bracket'
+        ? formData.side
+        : formData.side === 'sell' ? 'buy' : 'sell';
+      const reference = formData.orderClass === 'bracket' && formData.type === 'limit'
+        ? parseFloat(formData.price || '0') || undefined
+        : currentPrice || undefined;
+      const exitError = validateExitPrices(
+        positionSide,
+        reference,
+        {
+          stopPrice: parseFloat(formData.stopLossPrice || '0'),
+          takeProfitPrice: parseFloat(formData.takeProfitPrice || '0')
+        }
+      );
+      if (exitError) {
+        newErrors.exits = exitError;
+      }
+    }
+
     // Check buying power for buy orders
-    if (formData.side === 'buy' && account) {
+    if (formData.side === 'buy' && formData.orderClass !== 'oco' && account) {
       const requiredCash = estimatedTotal;
       if (requiredCash > account.cash) {
         newErrors.quantity = 'Insufficient buying power';
@@ -134,7 +179,7 @@ const OrderForm: React.FC = () => {
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [formData, estimatedTotal, account]);
+  }, [formData, estimatedTotal, account, currentPrice]);
 
   const handleSubmit = useCallback(async (event: React.FormEvent) => {
     event.preventDefault();
@@ -143,27 +188,54 @@ const OrderForm: React.FC = () => {
       return;
     }
 
+    const exits = {
+      stopPrice: parseFloat(formData.stopLossPrice || '0'),
+      takeProfitPrice: parseFloat(formData.takeProfitPrice || '0')
+    };
+
     try {
-      await dispatch(placeOrder({
-        symbol: formData.symbol,
-        qty: formData.quantity,
-        side: formData.side,
-        type: formData.type,
-        time_in_force: formData.timeInForce,
-        limit_price: formData.type === 'limit' || formData.type === 'stop_limit' 
-          ? formData.price 
-          : undefined,
-        stop_price: formData.type === 'stop' || formData.type === 'stop_limit' 
-          ? formData.stopPrice 
-          : undefined
-      })).unwrap();
+      if (formData.orderClass === 'bracket') {
+        await dispatch(placeBracketOrder({
+          symbol: formData.symbol,
+          qty: formData.quantity,
+          side: formData.side,
+          type: formData.type === 'limit' ? 'limit' : 'market',
+          limitPrice: formData.type === 'limit' ? parseFloat(formData.price || '0') : undefined,
+          timeInForce: formData.timeInForce,
+          ...exits
+        })).unwrap();
+      } else if (formData.orderClass === 'oco') {
+        await dispatch(placeOcoOrder({
+          symbol: formData.symbol,
+          qty: formData.quantity,
+          side: formData.side,
+          timeInForce: formData.timeInForce,
+          ...exits
+        })).unwrap();
+      } else {
+        await dispatch(placeOrder({
+          symbol: formData.symbol,
+          qty: formData.quantity,
+          side: formData.side,
+          type: formData.type,
+          time_in_force: formData.timeInForce,
+          limit_price: formData.type === 'limit' || formData.type === 'stop_limit' 
+            ? formData.price 
+            : undefined,
+          stop_price: formData.type === 'stop' || formData.type === 'stop_limit' 
+            ? formData.stopPrice 
+            : undefined
+        })).unwrap();
+      }
 
       // Reset form on successful order
       setFormData(prev => ({
         ...prev,
         quantity: '',
         price: '',
-        stopPrice: ''
+        stopPrice: '',
+        takeProfitPrice: '',
+        stopLossPrice: ''
       }));
     } catch (error) {
       console.error('Order placement failed:', error);
@@ -171,6 +243,14 @@ const OrderForm: React.FC = () => {
   }, [dispatch, formData, validateForm]);
 
   const getOrderTypeDescription = () => {
+    if (formData.orderClass === 'oco') {
+      return 'Exit a position at a stop loss or a take profit; a fill on one cancels the other';
+    }
+    if (formData.orderClass === 'bracket') {
+      return formData.type === 'limit'
+        ? 'Enter at the limit price or better, then exit at the stop loss or the take profit'
+        : 'Enter at the market price, then exit at the stop loss or the take profit';
+    }
     switch (formData.type) {
       case 'market':
         return 'Execute immediately at current market price';
@@ -250,20 +330,36 @@ const OrderForm: React.FC = () => {
           </ToggleButton>
         </ToggleButtonGroup>
 
+        {/* Order Class */}
+        <ToggleButtonGroup
+          value={formData.orderClass}
+          exclusive
+          onChange={handleOrderClassChange}
+          fullWidth
+          size="small"
+          sx={{ mb: 2 }}
+        >
+          <ToggleButton value="simple">Simple</ToggleButton>
+          <ToggleButton value="bracket">Bracket</ToggleButton>
+          <ToggleButton value="oco">OCO</ToggleButton>
+        </ToggleButtonGroup>
+
         {/* Order Type */}
-        <FormControl fullWidth sx={{ mb: 2 }}>
-          <InputLabel>Order Type</InputLabel>
-          <Select
-            value={formData.type}
-            onChange={handleTypeChange}
-            label="Order Type"
-          >
-            <MenuItem value="market">Market</MenuItem>
-            <MenuItem value="limit">Limit</MenuItem>
-            <MenuItem value="stop">Stop</MenuItem>
-            <MenuItem value="stop_limit">Stop Limit</MenuItem>
-          </Select>
-        </FormControl>
+        {formData.orderClass !== 'oco' && (
+          <FormControl fullWidth sx={{ mb: 2 }}>
+            <InputLabel>Order Type</InputLabel>
+            <Select
+              value={formData.type}
+              onChange={handleTypeChange}
+              label="Order Type"
+            >
+              <MenuItem value="market">Market</MenuItem>
+              <MenuItem value="limit">Limit</MenuItem>
+              {formData.orderClass === 'simple' && <MenuItem value="stop">Stop</MenuItem>}
+              {formData.orderClass === 'simple' && <MenuItem value="stop_limit">Stop Limit</MenuItem>}
+            </Select>
+          </FormControl>
+        )}
 
         {/* Order Type Description */}
         <Alert 
@@ -288,7 +384,7 @@ const OrderForm: React.FC = () => {
         />
 
         {/* Price (for limit orders) */}
-        {(formData.type === 'limit' || formData.type === 'stop_limit') && (
+        {formData.orderClass !== 'oco' && (formData.type === 'limit' || formData.type === 'stop_limit') && (
           <TextField
             fullWidth
             label="Limit Price"
@@ -323,6 +419,43 @@ const OrderForm: React.FC = () => {
           />
         )}
 
+        {/* Exit prices (for bracket and OCO orders) */}
+        {formData.orderClass !== 'simple' && (
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              fullWidth
+              label="Take Profit"
+              type="number"
+              value={formData.takeProfitPrice}
+              onChange={handleInputChange('takeProfitPrice')}
+              error={!!errors.exits}
+              InputProps={{
+                startAdornment: <InputAdornment position="start">$</InputAdornment>,
+              }}
+              inputProps={{ step: "0.01", min: "0" }}
+              sx={{ mb: 2 }}
+            />
+            <TextField
+              fullWidth
+              label="Stop Loss"
+              type="number"
+              value={formData.stopLossPrice}
+              onChange={handleInputChange('stopLossPrice')}
+              error={!!errors.exits}
+              InputProps={{
+                startAdornment: <InputAdornment position="start">$</InputAdornment>,
+              }}
+              inputProps={{ step: "0.01", min: "0" }}
+              sx={{ mb: 2 }}
+            />
+          </Box>
+        )}
+        {errors.exits && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {errors.exits}
+          </Alert>
+        )}
+
         {/* Time in Force */}
         <FormControl fullWidth sx={{ mb: 2 }}>
           <InputLabel>Time in Force</InputLabel>
@@ -333,8 +466,8 @@ const OrderForm: React.FC = () => {
           >
             <MenuItem value="day">Day</MenuItem>
             <MenuItem value="gtc">Good Till Cancel</MenuItem>
-            <MenuItem value="ioc">Immediate or Cancel</MenuItem>
-            <MenuItem value="fok">Fill or Kill</MenuItem>
+            {formData.orderClass === 'simple' && <MenuItem value="ioc">Immediate or Cancel</MenuItem>}
+            {formData.orderClass === 'simple' && <MenuItem value="fok">Fill or Kill</MenuItem>}
           </Select>
         </FormControl>
 
@@ -380,6 +513,21 @@ const OrderForm: React.FC = () => {
           </Box>
         )}
 
+        {/* Pre-trade risk rejection */}
+        {lastRejection && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => dispatch(clearRejection())}>
+            <Typography variant="subtitle2" gutterBottom>
+              Order rejected by risk checks
+            </Typography>
+            {lastRejection.rejections.map(rejection => (
+              <Box key={rejection.code} sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 0.5 }}>
+                <Chip label={rejection.code} size="small" color="error" variant="outlined" />
+                <Typography variant="body2">{rejection.message}</Typography>
+              </Box>
+            ))}
+          </Alert>
+        )}
+
         {/* Submit Button */}
         <Button
           type="submit"
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Box, Grid, Paper, Typography } from '@mui/material';
+import { PerformanceStatistics } from '../../services/performanceStatistics';
+
+interface PerformanceStatisticsPanelProps {
+  statistics: PerformanceStatistics;
+  title?: string;
+}
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+const formatRatio = (value: number) => (Number.isFinite(value) ? value.toFixed(2) : '∞');
+
+const formatHours = (hours: number) => (hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours.toFixed(1)} hours`);
+
+const PerformanceStatisticsPanel: React.FC<PerformanceStatisticsPanelProps> = ({
+  statistics,
+  title = 'Risk-Adjusted Statistics',
+}) => {
+  const items: Array<{ label: string; value: string; color?: string }> = [
+    {
+      label: 'Annualized Return',
+      value: formatPercent(statistics.annualizedReturn),
+      color: statistics.annualizedReturn >= 0 ? 'success.main' : 'error.main',
+    },
+    { label: 'Annualized Volatility', value: formatPercent(statistics.annualizedVolatility) },
+    { label: 'Sharpe Ratio', value: formatRatio(statistics.sharpeRatio) },
+    { label: 'Sortino Ratio', value: formatRatio(statistics.sortinoRatio) },
+    { label: 'Calmar Ratio', value: formatRatio(statistics.calmarRatio) },
+    { label: 'Max Drawdown', value: `${formatPercent(statistics.maxDrawdown)} (${formatCurrency(statistics.maxDrawdownAmount)})`, color: 'error.main' },
+    { label: 'Max Drawdown Duration', value: `${statistics.maxDrawdownDurationDays.toFixed(1)} days` },
+    { label: 'Exposure Time', value: formatPercent(statistics.exposureTime) },
+    { label: 'Profit Factor', value: formatRatio(statistics.profitFactor) },
+    {
+      label: 'Expectancy',
+      value: formatCurrency(statistics.expectancy),
+      color: statistics.expectancy >= 0 ? 'success.main' : 'error.main',
+    },
+    { label: 'Avg Holding Period', value: formatHours(statistics.averageHoldingHours) },
+    { label: 'Longest Streaks', value: `${statistics.longestWinStreak} wins / ${statistics.longestLossStreak} losses` },
+  ];
+
+  const { p5, p25, p50, p75, p95 } = statistics.pnlPercentiles;
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        {title}
+      </Typography>
+      <Grid container spacing={2}>
+        {items.map(item => (
+          <Grid item xs={6} sm={4} md={3} key={item.label}>
+            <Typography variant="body2" color="text.secondary">{item.label}</Typography>
+            <Typography variant="body1" color={item.color}>{item.value}</Typography>
+          </Grid>
+        ))}
+      </Grid>
+
+      <Box sx={{ mt: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          Trade P&L Distribution ({statistics.totalTrades} trades)
+        </Typography>
+        <Typography variant="body1">
+          P5 {formatCurrency(p5)} · P25 {formatCurrency(p25)} · Median {formatCurrency(p50)} · P75 {formatCurrency(p75)} · P95 {formatCurrency(p95)}
+        </Typography>
+      </Box>
+    </Paper>
+  );
+};
+
+export default PerformanceStatisticsPanel;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  Typography,
+} from '@mui/material';
+import { brokerService } from '../../services/brokerService';
+import { backtestingService } from '../../services/backtestingService';
+import {
+  BenchmarkComparison,
+  BenchmarkConfig,
+  DEFAULT_BENCHMARK,
+} from '../../services/benchmarkStatistics';
+import { EquityPoint } from '../../services/performanceStatistics';
+import LoadingSpinner from '../common/LoadingSpinner';
+import BenchmarkComparisonPanel from './BenchmarkComparisonPanel';
+import BenchmarkSelector from './BenchmarkSelector';
+
+type HistoryPeriod = '1M' | '3M' | '1A' | 'all';
+
+const BENCHMARK_SYMBOLS = ['BTCUSD', 'ETHUSD', 'ADAUSD', 'SOLUSD', 'DOTUSD', 'SPY'];
+
+const PortfolioBenchmarkComparison: React.FC = () => {
+  const [benchmark, setBenchmark] = useState<BenchmarkConfig>(DEFAULT_BENCHMARK);
+  const [period, setPeriod] = useState<HistoryPeriod>('3M');
+  const [comparison, setComparison] = useState<BenchmarkComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadComparison = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const history = await brokerService.getPortfolioHistory(period, '1D');
+        // Days before the account was funded come back as zero or null
+        const equity: EquityPoint[] = history.timestamp
+          .map((time, i) => ({
+            date: new Date(time * 1000).toISOString().split('T')[0],
+            value: history.equity[i] ?? 0,
+          }))
+          .filter(point => point.value > 0);
+
+        if (equity.length < 2) {
+          throw new Error('Not enough account history to compare yet');
+        }
+
+        setComparison(await backtestingService.compareWithBenchmark(equity, benchmark, {
+          symbol: benchmark.components[0]?.symbol ?? '',
+          startDate: new Date(`${equity[0].date}T00:00:00Z`),
+          endDate: new Date(`${equity[equity.length - 1].date}T23:59:59Z`),
+          timeframe: '1d',
+          dataSource: 'database',
+          initialCapital: equity[0].value,
+        }));
+      } catch (err) {
+        setComparison(null);
+        setError(`Benchmark comparison unavailable: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComparison();
+  }, [benchmark, period]);
+
+  return (
+    <Box>
+      <Grid container spacing={2} sx={{ mb: 2 }}>
+        <Grid item xs={12} md={8}>
+          <BenchmarkSelector value={benchmark} onChange={setBenchmark} symbols={BENCHMARK_SYMBOLS} />
+        </Grid>
+        <Grid item xs={12} md={4}>
+          <FormControl size="small" fullWidth>
+            <InputLabel>Period</InputLabel>
+            <Select value={period} label="Period" onChange={(e) => setPeriod(e.target.value as HistoryPeriod)}>
+              <MenuItem value="1M">1 Month</MenuItem>
+              <MenuItem value="3M">3 Months</MenuItem>
+              <MenuItem value="1A">1 Year</MenuItem>
+              <MenuItem value="all">All Time</MenuItem>
+            </Select>
+          </FormControl>
+        </Grid>
+      </Grid>
+
+      {loading && <LoadingSpinner message="Comparing with benchmark..." />}
+      {!loading && error && <Alert severity="info">{error}</Alert>}
+      {!loading && comparison && (
+        <>
+          <BenchmarkComparisonPanel comparison={comparison} title="Account vs Benchmark" />
+          <Typography variant="caption" color="text.secondary">
+            Daily account equity against stored market data
+          </Typography>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default PortfolioBenchmarkComparison;
@@ -26,13 +26,15 @@ import {
   Visibility,
   VisibilityOff,
   Info,
-  Refresh
+  Refresh,
+  CompareArrows
 } from '@mui/icons-material';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../store';
 import { fetchPortfolio } from '../../store/slices/portfolioSlice';
 import LoadingSpinner from '../common/LoadingSpinner';
 import ErrorDisplay from '../common/ErrorDisplay';
+import PortfolioBenchmarkComparison from './PortfolioBenchmarkComparison';
 
 interface PortfolioPosition {
   symbol: string;
@@ -335,6 +337,15 @@ const PortfolioSummary: React.FC = () => {
           </Box>
         )}
       </Box>
+
+      {/* Benchmark Comparison */}
+      <Box sx={{ mt: 3 }}>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <CompareArrows />
+          Benchmark
+        </Typography>
+        <PortfolioBenchmarkComparison />
+      </Box>
     </Paper>
   );
 };
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Paper, Typography } from '@mui/material';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../store';
+import DatabaseService from '../../services/databaseService';
+import {
+  calculateTradeHistoryStatistics,
+  PerformanceStatistics,
+  StatisticsTrade,
+} from '../../services/performanceStatistics';
+import LoadingSpinner from '../common/LoadingSpinner';
+import PerformanceStatisticsPanel from './PerformanceStatisticsPanel';
+
+const TradeHistoryStatistics: React.FC = () => {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const { account } = useSelector((state: RootState) => state.portfolio);
+  const [trades, setTrades] = useState<StatisticsTrade[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTrades = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const history = await DatabaseService.getUserTrades(user?.id || 'default-user');
+        setTrades(history.flatMap(trade =>
+          trade.exitDate && trade.pnl !== null
+            ? [{ entryDate: trade.entryDate, exitDate: trade.exitDate, pnl: trade.pnl }]
+            : []
+        ));
+      } catch (err) {
+        setError(`Failed to load trade history: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTrades();
+  }, [user?.id]);
+
+  if (loading) {
+    return <LoadingSpinner message="Loading trade history..." />;
+  }
+
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  if (trades.length === 0) {
+    return (
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Trading Performance
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          No closed trades yet. Statistics appear once trades have been exited.
+        </Typography>
+      </Paper>
+    );
+  }
+
+  // Starting equity is today's value less everything realized since
+  const realizedPnL = trades.reduce((sum, trade) => sum + trade.pnl, 0);
+  const startingEquity = Math.max((account?.portfolioValue || 0) - realizedPnL, 1);
+  const statistics: PerformanceStatistics = calculateTradeHistoryStatistics(trades, startingEquity);
+
+  return <PerformanceStatisticsPanel statistics={statistics} title="Trading Performance" />;
+};
+
+export default TradeHistoryStatistics;
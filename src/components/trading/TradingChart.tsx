@@ -24,6 +24,8 @@ import {
   TimeScale,
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
+import { BacktestTimeframe, backtestingService, barTime, HistoricalPrice, TIMEFRAME_MS } from '../../services/backtestingService';
+import { IndicatorDefinition, indicatorOutputs } from '../../services/indicatorCache';
 
 // Register Chart.js components
 ChartJS.register(
@@ -37,14 +39,101 @@ ChartJS.register(
   TimeScale
 );
 
+// Chart timeframes backed by stored market data; others show simulated prices
+const STORED_TIMEFRAMES: Record<string, BacktestTimeframe> = {
+  '1M': '1m',
+  '5M': '5m',
+  '15M': '15m',
+  '1H': '1h',
+  '4H': '4h',
+  '1D': '1d',
+};
+
+const OVERLAYS: Record<string, { label: string; definition: IndicatorDefinition }> = {
+  sma20: { label: 'SMA 20', definition: { type: 'sma', period: 20 } },
+  sma50: { label: 'SMA 50', definition: { type: 'sma', period: 50 } },
+  ema12: { label: 'EMA 12', definition: { type: 'ema', period: 12 } },
+  ema26: { label: 'EMA 26', definition: { type: 'ema', period: 26 } },
+  bollinger20: { label: 'Bollinger 20', definition: { type: 'bollinger', period: 20, deviations: 2 } },
+};
+
+const CHART_BARS = 100;
+
+const OVERLAY_COLORS = ['#ffb300', '#29b6f6', '#ffb300'];
+
 const TradingChart: React.FC = () => {
   const [selectedSymbol, setSelectedSymbol] = useState('BTCUSD');
   const [timeframe, setTimeframe] = useState('1H');
+  const [overlay, setOverlay] = useState('none');
+  const [storedBars, setStoredBars] = useState<HistoricalPrice[]>([]);
+  const [overlaySeries, setOverlaySeries] = useState<Array<{ label: string; values: number[]; cached: boolean }>>([]);
   const { symbols } = useSelector((state: RootState) => state.marketData);
 
   const timeframes = ['1M', '5M', '15M', '30M', '1H', '4H', '1D', '1W'];
   const availableSymbols = ['BTCUSD', 'ETHUSD', 'ADAUSD', 'SOLUSD', 'DOTUSD'];
 
+  // Stored bars for the selected symbol and timeframe, with any overlay read
+  // from the indicator cache and computed only when the cache lacks it
+  useEffect(() => {
+    const storedTimeframe = STORED_TIMEFRAMES[timeframe];
+    let cancelled = false;
+
+    const loadBars = async () => {
+      if (!storedTimeframe) {
+        setStoredBars([]);
+        setOverlaySeries([]);
+        return;
+      }
+
+      try {
+        const endDate = new Date();
+        const bars = await backtestingService.loadBars({
+          symbol: selectedSymbol,
+          timeframe: storedTimeframe,
+          dataSource: 'database',
+          startDate: new Date(endDate.getTime() - CHART_BARS * TIMEFRAME_MS[storedTimeframe]),
+          endDate,
+          initialCapital: 0,
+        });
+
+        const definition = OVERLAYS[overlay]?.definition;
+        const cached = definition && bars.length > 0
+          ? await backtestingService.loadCachedIndicators(selectedSymbol, storedTimeframe, bars)
+          : undefined;
+        // Bollinger Bands show the outer bands only
+        const outputs = definition
+          ? indicatorOutputs(definition).filter(output => !output.indicator.startsWith('bb_middle'))
+          : [];
+        const series = outputs.map(output => {
+          const cachedValues = cached?.series(output.indicator, output.period);
+          return {
+            label: outputs.length > 1
+              ? `${OVERLAYS[overlay].label} ${output.indicator.split('_')[1]}`
+              : OVERLAYS[overlay].label,
+            values: cachedValues ?? output.compute(bars),
+            cached: !!cachedValues,
+          };
+        });
+
+        if (!cancelled) {
+          setStoredBars(bars);
+          setOverlaySeries(series);
+        }
+      } catch (error) {
+        console.error('Error loading chart data:', error);
+        if (!cancelled) {
+          setStoredBars([]);
+          setOverlaySeries([]);
+        }
+      }
+    };
+
+    loadBars();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedSymbol, timeframe, overlay]);
+
   // Generate mock historical data based on current price
   const generateMockData = () => {
     const currentPrice = symbols[selectedSymbol]?.price || 45000;
@@ -65,7 +154,19 @@ const TradingChart: React.FC = () => {
     return { labels, data };
   };
 
-  const { labels, data } = generateMockData();
+  // Stored bars when there are enough to draw, simulated prices otherwise
+  const useStoredBars = storedBars.length >= 2;
+  const { labels, data } = useStoredBars
+    ? {
+        labels: storedBars.map(bar => {
+          const date = new Date(barTime(bar));
+          return timeframe === '1D'
+            ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+            : date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+        }),
+        data: storedBars.map(bar => bar.close),
+      }
+    : generateMockData();
   
   const chartData = {
     labels,
@@ -80,6 +181,18 @@ const TradingChart: React.FC = () => {
         pointHoverRadius: 6,
         borderWidth: 2,
       },
+      ...(useStoredBars
+        ? overlaySeries.map((series, i) => ({
+            label: series.label,
+            data: series.values.map(value => (Number.isFinite(value) ? value : null)),
+            borderColor: OVERLAY_COLORS[i % OVERLAY_COLORS.length],
+            backgroundColor: 'transparent',
+            borderDash: [4, 4],
+            tension: 0.1,
+            pointRadius: 0,
+            borderWidth: 1,
+          }))
+        : []),
     ],
   };
 
@@ -100,7 +213,8 @@ const TradingChart: React.FC = () => {
         borderWidth: 1,
         callbacks: {
           label: (context: any) => {
-            return `Price: $${context.parsed.y.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
+            const name = context.datasetIndex === 0 ? 'Price' : context.dataset.label;
+            return `${name}: $${context.parsed.y.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
           },
         },
       },
@@ -160,6 +274,22 @@ const TradingChart: React.FC = () => {
             </Select>
           </FormControl>
 
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Overlay</InputLabel>
+            <Select
+              value={overlay}
+              label="Overlay"
+              onChange={(e) => setOverlay(e.target.value)}
+            >
+              <MenuItem value="none">None</MenuItem>
+              {Object.entries(OVERLAYS).map(([key, { label }]) => (
+                <MenuItem key={key} value={key}>
+                  {label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
           <ButtonGroup size="small" variant="outlined">
             {timeframes.map((tf) => (
               <Button
@@ -189,6 +319,16 @@ const TradingChart: React.FC = () => {
       >
         <Line data={chartData} options={chartOptions} />
       </Box>
+      {!useStoredBars && (
+        <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
+          No stored {timeframe} bars for {selectedSymbol}; showing simulated prices
+        </Typography>
+      )}
+      {useStoredBars && overlaySeries.length > 0 && (
+        <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
+          {OVERLAYS[overlay]?.label} {overlaySeries.every(series => series.cached) ? 'from indicator cache' : 'computed from stored bars'}
+        </Typography>
+      )}
     </Box>
   );
 };
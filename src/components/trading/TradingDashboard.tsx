@@ -4,9 +4,8 @@ import { useDispatch, useSelector } from 'react-redux';
 import { AppDispatch, RootState } from '../../store';
 import { fetchPortfolio } from '../../store/slices/portfolioSlice';
 import { fetchMarketData } from '../../store/slices/marketDataSlice';
-import { fetchOrders } from '../../store/slices/ordersSlice';
+import { fetchOrders, syncOrderGroups } from '../../store/slices/ordersSlice';
 import { loadStrategies } from '../../store/slices/strategiesSlice';
-import SimpleTradingEngine from '../../services/simpleTradingEngine';
 import DatabaseService from '../../services/databaseService';
 import { store } from '../../store';
 import MarketOverview from './MarketOverview';
@@ -53,6 +52,7 @@ const TradingDashboard: React.FC = () => {
       dispatch(fetchPortfolio());
       dispatch(fetchMarketData(majorSymbols));
       dispatch(fetchOrders({ status: 'open' }));
+      dispatch(syncOrderGroups());
     }, 30000);
 
     return () => clearInterval(interval);
@@ -1,25 +1,39 @@
 import { useState, useEffect } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
-import { RootState, store } from '../../store';
-import SimpleTradingEngine, { TradingEngineConfig } from '../../services/simpleTradingEngine';
+import { AppDispatch, RootState, store } from '../../store';
+import { DEFAULT_ENGINE_CONFIG, TradingCore, TradingEngineConfig } from '../../services/tradingCore';
+import { createTradingEngine } from '../../services/realTimeTradingEngine';
+import SimpleTradingEngine from '../../services/simpleTradingEngine';
 import { addNotification } from '../../store/slices/notificationsSlice';
+import { fetchOrders } from '../../store/slices/ordersSlice';
+import { fetchPortfolio } from '../../store/slices/portfolioSlice';
+import { killSwitch, KillSwitchState } from '../../services/killSwitch';
+
+type EngineMode = 'live' | 'simulated';
+
+const ENGINE_MODES: Array<{ mode: EngineMode; label: string }> = [
+  { mode: 'live', label: 'Live strategies' },
+  { mode: 'simulated', label: 'Simulated signals' },
+];
 
 const TradingEngineControl: React.FC = () => {
-  const dispatch = useDispatch();
+  const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth);
   const [isEngineRunning, setIsEngineRunning] = useState(false);
-  const [engine] = useState(() => new SimpleTradingEngine(store));
-  const [config, setConfig] = useState<TradingEngineConfig>({
-    enableAutoTrading: false,
-    maxPositionSize: 1000,
-    maxDailyLoss: 500,
-    enableRiskManagement: true,
-    stopLossPercentage: 5,
-    takeProfitPercentage: 10,
-    enableSignalNotifications: true,
-    enableTradeNotifications: true,
-  });
+  // Both are configurations of the same engine core
+  const [engines] = useState<Record<EngineMode, TradingCore>>(() => ({
+    live: createTradingEngine(store),
+    simulated: new SimpleTradingEngine(store),
+  }));
+  const [mode, setMode] = useState<EngineMode>('live');
+  const engine = engines[mode];
+  const [config, setConfig] = useState<TradingEngineConfig>(DEFAULT_ENGINE_CONFIG);
   const [isConfigOpen, setIsConfigOpen] = useState(false);
+  const [killState, setKillState] = useState<KillSwitchState>(killSwitch.getState());
+  const [isKillConfirmOpen, setIsKillConfirmOpen] = useState(false);
+  const [killReason, setKillReason] = useState('');
+  const [flattenOnKill, setFlattenOnKill] = useState(false);
+  const [isKilling, setIsKilling] = useState(false);
 
   useEffect(() => {
     if (engine) {
@@ -29,20 +43,56 @@ const TradingEngineControl: React.FC = () => {
     }
   }, [engine]);
 
-  const handleStartEngine = () => {
+  // Engines stop themselves when the kill switch trips
+  useEffect(() => {
+    const unsubscribe = killSwitch.subscribe(state => {
+      setKillState(state);
+      setIsEngineRunning(engine.isEngineRunning());
+    });
+    killSwitch.ready().catch(error => console.error('Failed to load kill switch state:', error));
+    return unsubscribe;
+  }, [engine]);
+
+  const handleKill = async () => {
+    setIsKilling(true);
+    const result = await killSwitch.trip({
+      reason: killReason.trim() || 'Manual kill switch',
+      source: 'manual',
+      userId: user?.id,
+      flatten: flattenOnKill,
+    });
+    setIsKilling(false);
+    setIsKillConfirmOpen(false);
+    setKillReason('');
+
+    dispatch(fetchOrders({ status: 'all' }));
+    dispatch(fetchPortfolio());
+    dispatch(addNotification({
+      id: Date.now().toString(),
+      type: result.errors.length > 0 ? 'error' : 'alert',
+      title: 'Kill Switch Tripped',
+      message: result.errors.length > 0
+        ? `Trading halted, but the broker reported errors: ${result.errors.join('; ')}`
+        : `Trading halted. Open orders cancelled${flattenOnKill ? ` and ${result.positionsClosed} positions closed` : ''}.`,
+      priority: 'critical',
+      read: false,
+      createdAt: new Date().toISOString(),
+    }));
+  };
+
+  const handleRearm = async () => {
+    if (!user || !window.confirm('Re-arm trading? Engines stay stopped until you start them.')) return;
+    await killSwitch.rearm(user.id);
+  };
+
+  const handleStartEngine = async () => {
     if (engine) {
-      engine.start();
-      setIsEngineRunning(true);
-      
-      dispatch(addNotification({
-        id: Date.now().toString(),
-        type: 'system',
-        title: 'Trading Engine Started',
-        message: 'Real-time trading engine is now active and monitoring markets',
-        priority: 'medium',
-        read: false,
-        createdAt: new Date().toISOString(),
-      }));
+      try {
+        await engine.start();
+      } catch (error) {
+        console.error('Failed to start trading engine:', error);
+      }
+      setIsEngineRunning(engine.isEngineRunning());
     }
   };
 
@@ -50,19 +100,15 @@ const TradingEngineControl: React.FC = () => {
     if (engine) {
       engine.stop();
       setIsEngineRunning(false);
-      
-      dispatch(addNotification({
-        id: Date.now().toString(),
-        type: 'system',
-        title: 'Trading Engine Stopped',
-        message: 'Real-time trading engine has been deactivated',
-        priority: 'medium',
-        read: false,
-        createdAt: new Date().toISOString(),
-      }));
     }
   };
 
+  const handleModeChange = (nextMode: EngineMode) => {
+    // Only one engine trades at a time
+    if (engine.isEngineRunning()) engine.stop();
+    setMode(nextMode);
+  };
+
   const handleConfigChange = (key: keyof TradingEngineConfig, value: any) => {
     const newConfig = { ...config, [key]: value };
     setConfig(newConfig);
@@ -98,6 +144,16 @@ const TradingEngineControl: React.FC = () => {
             Real-time trading automation and signal processing
           </p>
         </div>
+
+        <select
+          value={mode}
+          onChange={(e) => handleModeChange(e.target.value as EngineMode)}
+          className="border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          {ENGINE_MODES.map(({ mode: value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
         
         <div className="flex items-center space-x-2">
           <div className={`w-3 h-3 rounded-full ${isEngineRunning ? 'bg-green-400' : 'bg-red-400'}`}></div>
@@ -162,7 +218,7 @@ const TradingEngineControl: React.FC = () => {
           {!isEngineRunning ? (
             <button
               onClick={handleStartEngine}
-              disabled={!user}
+              disabled={!user || killState.tripped}
               className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:bg-gray-400"
             >
               <svg className="-ml-1 mr-2 h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
@@ -194,11 +250,84 @@ const TradingEngineControl: React.FC = () => {
           </button>
         </div>
 
-        {!user && (
-          <p className="text-sm text-gray-500">Please log in to start the trading engine</p>
-        )}
+        <div className="flex items-center space-x-4">
+          {!user && (
+            <p className="text-sm text-gray-500">Please log in to start the trading engine</p>
+          )}
+          {!killState.tripped && (
+            <button
+              onClick={() => setIsKillConfirmOpen(true)}
+              className="inline-flex items-center px-4 py-2 border-2 border-red-700 text-sm font-bold rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+            >
+              Kill Switch
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Kill switch confirmation */}
+      {isKillConfirmOpen && !killState.tripped && (
+        <div className="mt-6 border-2 border-red-300 bg-red-50 rounded-lg p-4">
+          <h4 className="text-md font-semibold text-red-800 mb-2">Halt all trading?</h4>
+          <p className="text-sm text-red-700 mb-4">
+            Every engine stops, open orders are cancelled and no new orders are accepted until trading is re-armed.
+          </p>
+          <input
+            type="text"
+            value={killReason}
+            onChange={(e) => setKillReason(e.target.value)}
+            placeholder="Reason"
+            className="block w-full border-gray-300 rounded-md shadow-sm mb-3 focus:ring-red-500 focus:border-red-500"
+          />
+          <label className="flex items-center text-sm text-red-800 mb-4">
+            <input
+              type="checkbox"
+              checked={flattenOnKill}
+              onChange={(e) => setFlattenOnKill(e.target.checked)}
+              className="h-4 w-4 mr-2 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+            />
+            Also close all positions
+          </label>
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setIsKillConfirmOpen(false)}
+              className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleKill}
+              disabled={isKilling}
+              className="px-4 py-2 border border-transparent text-sm font-bold rounded-md text-white bg-red-700 hover:bg-red-800 disabled:bg-gray-400"
+            >
+              {isKilling ? 'Halting...' : 'Halt Trading'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Tripped kill switch */}
+      {killState.tripped && (
+        <div className="mt-6 border-2 border-red-500 bg-red-50 rounded-lg p-4 flex items-center justify-between">
+          <div>
+            <h4 className="text-md font-semibold text-red-800">Trading halted by kill switch</h4>
+            <p className="text-sm text-red-700">
+              {killState.reason || 'No reason given'}
+              {killState.source === 'risk' ? ' (risk rule)' : ' (manual)'}
+              {killState.trippedAt && ` at ${new Date(killState.trippedAt).toLocaleString()}`}
+              {killState.flattened && '. Positions were closed.'}
+            </p>
+          </div>
+          <button
+            onClick={handleRearm}
+            disabled={!user}
+            className="px-4 py-2 border border-red-700 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-100 disabled:text-gray-400 disabled:border-gray-300"
+          >
+            Re-arm Trading
+          </button>
+        </div>
+      )}
+
       {/* Configuration Panel */}
       {isConfigOpen && (
         <div className="mt-6 border-t pt-6">
@@ -279,6 +408,34 @@ const TradingEngineControl: React.FC = () => {
               />
             </div>
 
+            {/* Kill Switch on Daily Loss */}
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium text-gray-700">Kill Switch on Daily Loss</label>
+                <p className="text-xs text-gray-500">Halt all trading when the daily loss limit is breached</p>
+              </div>
+              <input
+                type="checkbox"
+                checked={config.killSwitchOnDailyLoss}
+                onChange={(e) => handleConfigChange('killSwitchOnDailyLoss', e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+            </div>
+
+            {/* Flatten on Kill Switch */}
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium text-gray-700">Close Positions on Kill Switch</label>
+                <p className="text-xs text-gray-500">Flatten all positions when a risk rule halts trading</p>
+              </div>
+              <input
+                type="checkbox"
+                checked={config.flattenOnKillSwitch}
+                onChange={(e) => handleConfigChange('flattenOnKillSwitch', e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+            </div>
+
             {/* Signal Notifications */}
             <div className="flex items-center justify-between">
               <div>
@@ -22,13 +22,23 @@ interface TradingSignal {
   strategyId: string;
   strategyName: string;
   symbol: string;
-  signal: 'BUY' | 'SELL' | 'HOLD';
+  signal: 'BUY' | 'SELL' | 'SHORT' | 'COVER' | 'HOLD';
   confidence: number;
   price: number;
   timestamp: Date;
   metadata: any;
 }
 
+// Stored signals are lowercase strategy signals
+const SIGNAL_LABELS: Record<string, TradingSignal['signal']> = {
+  buy: 'BUY',
+  sell: 'SELL',
+  short: 'SHORT',
+  cover: 'COVER',
+  none: 'HOLD',
+  hold: 'HOLD',
+};
+
 const TradingSignals: React.FC = () => {
   const [signals, setSignals] = useState<TradingSignal[]>([]);
   const [loading, setLoading] = useState(false);
@@ -42,17 +52,21 @@ const TradingSignals: React.FC = () => {
       const dbService = DatabaseService;
       const recentSignals = await dbService.getRecentSignals(20);
       
-      setSignals(recentSignals.map((signal: any) => ({
-        id: signal.id,
-        strategyId: signal.strategyId,
-        strategyName: signal.strategy?.name || 'Unknown',
-        symbol: signal.symbol,
-        signal: signal.signal,
-        confidence: signal.confidence,
-        price: signal.price,
-        timestamp: signal.timestamp,
-        metadata: JSON.parse(signal.metadata || '{}')
-      })));
+      // Rows with a signal this widget doesn't know are skipped
+      setSignals(recentSignals.flatMap((signal: any) => {
+        const label = SIGNAL_LABELS[String(signal.signal).toLowerCase()];
+        return label ? [{
+          id: signal.id,
+          strategyId: signal.strategyId,
+          strategyName: signal.strategy?.name || 'Unknown',
+          symbol: signal.symbol,
+          signal: label,
+          confidence: signal.confidence,
+          price: signal.price,
+          timestamp: signal.timestamp,
+          metadata: JSON.parse(signal.metadata || '{}')
+        }] : [];
+      }));
     } catch (err: any) {
       setError(`Failed to load trading signals: ${err.message}`);
     } finally {
@@ -71,9 +85,11 @@ const TradingSignals: React.FC = () => {
   const getSignalIcon = (signal: string) => {
     switch (signal) {
       case 'BUY':
-        return <TrendingUp color="success" />;
+      case 'COVER':
+        return <TrendingUp color={signal === 'BUY' ? 'success' : 'info'} />;
+      case 'SHORT':
       case 'SELL':
-        return <TrendingDown color="error" />;
+        return <TrendingDown color={signal === 'SHORT' ? 'error' : 'warning'} />;
       default:
         return <Remove color="disabled" />;
     }
@@ -84,7 +100,11 @@ const TradingSignals: React.FC = () => {
       case 'BUY':
         return 'success';
       case 'SELL':
+        return 'warning';
+      case 'SHORT':
         return 'error';
+      case 'COVER':
+        return 'info';
       default:
         return 'default';
     }
@@ -30,6 +30,8 @@ import {
   AccordionDetails,
   Tab,
   Tabs,
+  Checkbox,
+  LinearProgress,
 } from '@mui/material';
 import {
   PlayArrow as PlayArrowIcon,
@@ -40,11 +42,43 @@ import {
   Timeline as TimelineIcon,
   AccountBalance as AccountBalanceIcon,
 } from '@mui/icons-material';
-import { useSelector } from 'react-redux';
-import { RootState } from '../store';
-import { StrategyTemplate, StrategyParameter } from '../store/slices/strategiesSlice';
-import { backtestingService, BacktestResult, BacktestTrade } from '../services/backtestingService';
-import DatabaseService from '../services/databaseService';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { StrategyTemplate, StrategyParameter, loadStrategies } from '../store/slices/strategiesSlice';
+import {
+  backtestingService,
+  BacktestResult,
+  BacktestTrade,
+  BacktestTimeframe,
+  BacktestDataSource,
+  BacktestDataError,
+  BacktestConfig,
+  OptimizationMethod,
+  OptimizationObjective,
+  OptimizationResult,
+  OptimizationRun,
+  ExitReason,
+  ExitRulesConfig,
+  BothTouchedRule,
+  ExecutionConfig,
+  BacktestOrderType,
+  TimeInForce,
+} from '../services/backtestingService';
+import OptimizationHeatmap from '../components/backtesting/OptimizationHeatmap';
+import WalkForwardPanel from '../components/backtesting/WalkForwardPanel';
+import PortfolioBacktestPanel from '../components/backtesting/PortfolioBacktestPanel';
+import PerformanceStatisticsPanel from '../components/trading/PerformanceStatisticsPanel';
+import MonteCarloPanel from '../components/backtesting/MonteCarloPanel';
+import BenchmarkSelector from '../components/trading/BenchmarkSelector';
+import BenchmarkComparisonPanel from '../components/trading/BenchmarkComparisonPanel';
+import { BenchmarkConfig, DEFAULT_BENCHMARK } from '../services/benchmarkStatistics';
+import RuleBuilder from '../components/strategies/RuleBuilder';
+import {
+  CostModelConfig,
+  CommissionType,
+  DEFAULT_COST_MODEL_CONFIG,
+  createCostModel,
+} from '../services/tradingCostModel';
 import { Line } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -55,6 +89,7 @@ import {
   Title,
   Tooltip,
   Legend,
+  Filler,
   ChartOptions,
 } from 'chart.js';
 
@@ -66,7 +101,8 @@ ChartJS.register(
   LineElement,
   Title,
   Tooltip,
-  Legend
+  Legend,
+  Filler
 );
 
 interface TabPanelProps {
@@ -92,9 +128,11 @@ function CustomTabPanel(props: TabPanelProps) {
 }
 
 const Backtesting: React.FC = () => {
-  const { templates } = useSelector((state: RootState) => state.strategies);
+  const dispatch = useDispatch<AppDispatch>();
+  const { templates, strategies, autoTradingSettings } = useSelector((state: RootState) => state.strategies);
   
   const [selectedTemplate, setSelectedTemplate] = useState<StrategyTemplate | null>(null);
+  const [savedStrategyId, setSavedStrategyId] = useState(''); // saved strategy results are stored against
   const [strategyName, setStrategyName] = useState('');
   const [selectedSymbol, setSelectedSymbol] = useState('BTCUSD');
   const [initialCapital, setInitialCapital] = useState(10000);
@@ -104,8 +142,54 @@ const Backtesting: React.FC = () => {
   const [tabValue, setTabValue] = useState(0);
   const [backtestHistory, setBacktestHistory] = useState<any[]>([]);
   const [loadingHistory, setLoadingHistory] = useState(false);
+  const [startDate, setStartDate] = useState(() => {
+    const date = new Date();
+    date.setMonth(date.getMonth() - 6);
+    return date.toISOString().split('T')[0];
+  });
+  const [endDate, setEndDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [timeframe, setTimeframe] = useState<BacktestTimeframe>('1d');
+  const [dataSource, setDataSource] = useState<BacktestDataSource>('database');
+  const [backtestError, setBacktestError] = useState<string | null>(null);
+  const [costConfig, setCostConfig] = useState<CostModelConfig>(DEFAULT_COST_MODEL_CONFIG);
+  const [execution, setExecution] = useState<ExecutionConfig>(() => ({
+    orderType: autoTradingSettings.executionSettings.orderType,
+    timeInForce: autoTradingSettings.executionSettings.timeInForce,
+    limitOffsetPercent: 0.5,
+    stopOffsetPercent: 0.5,
+    maxVolumePercent: 10,
+  }));
+  const [compareBenchmark, setCompareBenchmark] = useState(true);
+  const [benchmark, setBenchmark] = useState<BenchmarkConfig>(DEFAULT_BENCHMARK);
+  const [applyExitRules, setApplyExitRules] = useState(true);
+  const [exitRules, setExitRules] = useState<ExitRulesConfig>(() => ({
+    stopLossPercent: autoTradingSettings.riskManagement.stopLossPercent,
+    takeProfitPercent: autoTradingSettings.riskManagement.takeProfitPercent,
+    trailingStopPercent: 0,
+    bothTouchedRule: 'stop_first',
+  }));
+  const [sweepParameters, setSweepParameters] = useState<string[]>([]);
+  const [optimizationMethod, setOptimizationMethod] = useState<OptimizationMethod>('grid');
+  const [optimizationObjective, setOptimizationObjective] = useState<OptimizationObjective>('netReturn');
+  const [runBudget, setRunBudget] = useState(100);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [optimizationProgress, setOptimizationProgress] = useState(0);
+  const [optimization, setOptimization] = useState<OptimizationResult | null>(null);
+  const [optimizationError, setOptimizationError] = useState<string | null>(null);
 
   const availableSymbols = ['BTCUSD', 'ETHUSD', 'ADAUSD', 'SOLUSD', 'DOTUSD'];
+  const availableTimeframes: BacktestTimeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d'];
+  const exitReasonLabels: Record<ExitReason, string> = {
+    signal: 'Signal',
+    stop: 'Stop',
+    target: 'Target',
+    end_of_data: 'End of Data',
+  };
+  const objectiveLabels: Record<OptimizationObjective, string> = {
+    netReturn: 'Net Return %',
+    sharpe: 'Sharpe Ratio',
+    maxDrawdown: 'Max Drawdown',
+  };
 
   // Load backtest history from database
   const loadBacktestHistory = async () => {
@@ -125,10 +209,28 @@ const Backtesting: React.FC = () => {
     loadBacktestHistory();
   }, []);
 
+  // Saved strategies results can be linked to, unless another page loaded them
+  React.useEffect(() => {
+    if (strategies.length === 0) dispatch(loadStrategies('default-user'));
+  }, [dispatch, strategies.length]);
+
   const handleTemplateSelect = (template: StrategyTemplate) => {
     setSelectedTemplate(template);
+    setSavedStrategyId('');
     setStrategyName(`${template.name} Backtest`);
     setParameters([...template.defaultParameters]);
+    setSweepParameters([]);
+    setOptimization(null);
+  };
+
+  // Start from a saved strategy's parameters; its latest version is recorded with the results
+  const handleSavedStrategySelect = (strategyId: string) => {
+    setSavedStrategyId(strategyId);
+    const strategy = strategies.find(s => s.id === strategyId);
+    if (strategy && strategy.parameters.length > 0) {
+      setStrategyName(strategy.name);
+      setParameters([...strategy.parameters]);
+    }
   };
 
   const handleParameterChange = (index: number, value: any) => {
@@ -137,6 +239,75 @@ const Backtesting: React.FC = () => {
     setParameters(newParameters);
   };
 
+  const buildBacktestConfig = (): BacktestConfig => ({
+    symbol: selectedSymbol,
+    startDate: new Date(`${startDate}T00:00:00Z`),
+    endDate: new Date(`${endDate}T23:59:59Z`),
+    timeframe,
+    dataSource,
+    initialCapital,
+    costModel: createCostModel(costConfig),
+    exitRules: applyExitRules ? exitRules : undefined,
+    execution,
+    benchmark: compareBenchmark ? benchmark : undefined,
+  });
+
+  const describeBacktestError = (error: unknown): string => {
+    if (error instanceof BacktestDataError) {
+      const gapSummary = error.quality?.gaps.length
+        ? ` (${error.quality.gaps.length} gap(s), ${error.quality.coveragePercent.toFixed(1)}% coverage)`
+        : '';
+      return `${error.message}${gapSummary}`;
+    }
+    return error instanceof Error ? error.message : 'Backtest failed';
+  };
+
+  const toggleSweepParameter = (name: string) => {
+    setSweepParameters(current =>
+      current.includes(name) ? current.filter(n => n !== name) : [...current, name]
+    );
+  };
+
+  const runOptimization = async () => {
+    if (!selectedTemplate) return;
+    
+    setIsOptimizing(true);
+    setOptimizationProgress(0);
+    setOptimizationError(null);
+    
+    try {
+      const result = await backtestingService.optimizeParametersWithStorage(
+        'default-user',
+        strategyName,
+        selectedTemplate.id,
+        parameters,
+        sweepParameters,
+        buildBacktestConfig(),
+        {
+          method: optimizationMethod,
+          objective: optimizationObjective,
+          maxRuns: runBudget,
+          onProgress: (completed, total) => setOptimizationProgress((completed / total) * 100),
+        },
+        savedStrategyId || null
+      );
+      setOptimization(result);
+      await loadBacktestHistory();
+    } catch (error) {
+      console.error('Optimization failed:', error);
+      setOptimizationError(describeBacktestError(error));
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  const viewResult = (result: BacktestResult) => {
+    setResults(result);
+    setTabValue(1);
+  };
+
+  const viewOptimizationRun = (run: OptimizationRun) => viewResult(run.result);
+
   const runBacktest = async () => {
     if (!selectedTemplate) return;
     
@@ -148,50 +319,19 @@ const Backtesting: React.FC = () => {
       return acc;
     }, {} as Record<string, any>);
     
+    const config = buildBacktestConfig();
+    
+    setBacktestError(null);
+    
     try {
-      // Initialize database if needed
-      const dbService = DatabaseService;
-      
-      // Get historical data from database first
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setMonth(startDate.getMonth() - 6); // 6 months of data
-      
-      let historicalData = await backtestingService.getHistoricalData(
-        selectedSymbol,
-        180 // 6 months in days
-      );
-      
-      // If no data in database, generate mock data
-      if (historicalData.length === 0) {
-        console.log('No historical data found in database, using mock data');
-        historicalData = backtestingService.generateMockHistoricalData(selectedSymbol, startDate, endDate);
-        
-        // Store mock data in database for future use
-        for (const dataPoint of historicalData) {
-          await dbService.saveMarketData({
-            symbol: selectedSymbol,
-            timestamp: dataPoint.timestamp ? new Date(dataPoint.timestamp) : new Date(dataPoint.date),
-            open: dataPoint.open,
-            high: dataPoint.high,
-            low: dataPoint.low,
-            close: dataPoint.close,
-            volume: dataPoint.volume,
-            vwap: (dataPoint.high + dataPoint.low + dataPoint.close) / 3,
-            source: 'mock'
-          });
-        }
-      }
-      
       // Run the backtest with database storage
       const result = await backtestingService.runBacktestWithStorage(
         'default-user',
         strategyName,
         selectedTemplate.id,
         paramObject,
-        selectedSymbol,
-        initialCapital,
-        historicalData
+        config,
+        savedStrategyId || null
       );
       
       setResults(result);
@@ -201,16 +341,7 @@ const Backtesting: React.FC = () => {
       await loadBacktestHistory();
     } catch (error: any) {
       console.error('Backtest failed:', error);
-      // Fallback to in-memory backtest
-      const result = backtestingService.runBacktest(
-        strategyName,
-        selectedTemplate.id,
-        paramObject,
-        selectedSymbol,
-        initialCapital
-      );
-      setResults(result);
-      setTabValue(1);
+      setBacktestError(describeBacktestError(error));
     } finally {
       setIsRunning(false);
     }
@@ -252,6 +383,7 @@ const Backtesting: React.FC = () => {
         );
       
       case 'select':
+      case 'timeframe':
         return (
           <FormControl key={parameter.name} fullWidth sx={{ mb: 3 }}>
             <InputLabel>{parameter.description || parameter.name}</InputLabel>
@@ -268,6 +400,15 @@ const Backtesting: React.FC = () => {
           </FormControl>
         );
       
+      case 'rules':
+        return (
+          <RuleBuilder
+            key={parameter.name}
+            value={parameter.value}
+            onChange={(rules) => handleParameterChange(index, rules)}
+          />
+        );
+
       default:
         return (
           <TextField
@@ -362,6 +503,15 @@ const Backtesting: React.FC = () => {
           backgroundColor: 'rgba(75, 192, 192, 0.2)',
           yAxisID: 'y',
         },
+        ...(results.benchmark ? [{
+          label: `Benchmark (${results.benchmark.name})`,
+          data: results.benchmark.equity.map(point => point.value),
+          borderColor: 'rgb(156, 163, 175)',
+          backgroundColor: 'rgba(156, 163, 175, 0.2)',
+          borderDash: [6, 4],
+          pointRadius: 0,
+          yAxisID: 'y',
+        }] : []),
         {
           label: 'Buy Signals',
           data: results.signals.map((signal, index) => 
@@ -387,6 +537,18 @@ const Backtesting: React.FC = () => {
           showLine: false,
           yAxisID: 'y1',
         },
+        {
+          label: 'Sell / Cover Signals',
+          data: results.signals.map(signal =>
+            signal.signal === 'sell' || signal.signal === 'cover' ? signal.price : null
+          ),
+          borderColor: 'rgb(245, 158, 11)',
+          backgroundColor: 'rgb(245, 158, 11)',
+          pointStyle: 'crossRot',
+          pointRadius: 8,
+          showLine: false,
+          yAxisID: 'y1',
+        },
       ],
     };
   };
@@ -404,6 +566,9 @@ const Backtesting: React.FC = () => {
         <Tabs value={tabValue} onChange={(_, newValue) => setTabValue(newValue)}>
           <Tab label="Configuration" />
           <Tab label="Results" disabled={!results} />
+          <Tab label="Optimization" disabled={!selectedTemplate} />
+          <Tab label="Walk-Forward" disabled={!selectedTemplate} />
+          <Tab label="Portfolio" />
         </Tabs>
       </Box>
 
@@ -439,6 +604,25 @@ const Backtesting: React.FC = () => {
                 </Alert>
               )}
 
+              {selectedTemplate && (
+                <FormControl fullWidth sx={{ mb: 3 }}>
+                  <InputLabel>Saved Strategy</InputLabel>
+                  <Select
+                    value={savedStrategyId}
+                    onChange={(e) => handleSavedStrategySelect(e.target.value)}
+                  >
+                    <MenuItem value="">None (results not linked to a strategy)</MenuItem>
+                    {strategies
+                      .filter(strategy => strategy.templateId === selectedTemplate.id)
+                      .map(strategy => (
+                        <MenuItem key={strategy.id} value={strategy.id}>
+                          {strategy.name}{strategy.version ? ` (v${strategy.version})` : ''}
+                        </MenuItem>
+                      ))}
+                  </Select>
+                </FormControl>
+              )}
+
               <TextField
                 fullWidth
                 label="Strategy Name"
@@ -461,6 +645,70 @@ const Backtesting: React.FC = () => {
                 </Select>
               </FormControl>
 
+              <Box sx={{ mb: 3 }}>
+                <FormControlLabel
+                  control={<Switch checked={compareBenchmark} onChange={(e) => setCompareBenchmark(e.target.checked)} />}
+                  label="Compare against a benchmark"
+                  sx={{ mb: 1 }}
+                />
+                <BenchmarkSelector
+                  value={benchmark}
+                  onChange={setBenchmark}
+                  symbols={availableSymbols}
+                  disabled={!compareBenchmark}
+                />
+              </Box>
+
+              <Grid container spacing={2} sx={{ mb: 3 }}>
+                <Grid item xs={6}>
+                  <TextField
+                    fullWidth
+                    label="Start Date"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                </Grid>
+                <Grid item xs={6}>
+                  <TextField
+                    fullWidth
+                    label="End Date"
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                </Grid>
+                <Grid item xs={6}>
+                  <FormControl fullWidth>
+                    <InputLabel>Timeframe</InputLabel>
+                    <Select
+                      value={timeframe}
+                      onChange={(e) => setTimeframe(e.target.value as BacktestTimeframe)}
+                    >
+                      {availableTimeframes.map((tf) => (
+                        <MenuItem key={tf} value={tf}>
+                          {tf}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid item xs={6}>
+                  <FormControl fullWidth>
+                    <InputLabel>Data Source</InputLabel>
+                    <Select
+                      value={dataSource}
+                      onChange={(e) => setDataSource(e.target.value as BacktestDataSource)}
+                    >
+                      <MenuItem value="database">Stored Market Data</MenuItem>
+                      <MenuItem value="synthetic">Synthetic (random prices)</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Grid>
+              </Grid>
+
               <TextField
                 fullWidth
                 label="Initial Capital"
@@ -496,9 +744,227 @@ const Backtesting: React.FC = () => {
             </Paper>
           </Grid>
 
+          {/* Trading Costs */}
+          <Grid item xs={12}>
+            <Paper sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Trading Costs
+              </Typography>
+              <Grid container spacing={2}>
+                <Grid item xs={12} sm={6} md={2.4}>
+                  <FormControl fullWidth>
+                    <InputLabel>Commission</InputLabel>
+                    <Select
+                      value={costConfig.commission.type}
+                      onChange={(e) => setCostConfig({
+                        ...costConfig,
+                        commission: { ...costConfig.commission, type: e.target.value as CommissionType },
+                      })}
+                    >
+                      <MenuItem value="tiered">Maker/Taker Tiers</MenuItem>
+                      <MenuItem value="percentage">Percentage per Side</MenuItem>
+                      <MenuItem value="fixed">Fixed per Side</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid item xs={12} sm={6} md={2.4}>
+                  <TextField
+                    fullWidth
+                    label={costConfig.commission.type === 'fixed' ? 'Commission ($)' : 'Commission (%)'}
+                    type="number"
+                    value={costConfig.commission.value}
+                    disabled={costConfig.commission.type === 'tiered'}
+                    onChange={(e) => setCostConfig({
+                      ...costConfig,
+                      commission: { ...costConfig.commission, value: Number(e.target.value) },
+                    })}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={4} md={2.4}>
+                  <TextField
+                    fullWidth
+                    label="Bid/Ask Spread (%)"
+                    type="number"
+                    value={costConfig.spreadPercent}
+                    onChange={(e) => setCostConfig({ ...costConfig, spreadPercent: Number(e.target.value) })}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={4} md={2.4}>
+                  <TextField
+                    fullWidth
+                    label="Base Slippage (%)"
+                    type="number"
+                    value={costConfig.slippage.basePercent}
+                    onChange={(e) => setCostConfig({
+                      ...costConfig,
+                      slippage: { ...costConfig.slippage, basePercent: Number(e.target.value) },
+                    })}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={4} md={2.4}>
+                  <TextField
+                    fullWidth
+                    label="Volume Impact"
+                    type="number"
+                    value={costConfig.slippage.volumeImpact}
+                    onChange={(e) => setCostConfig({
+                      ...costConfig,
+                      slippage: { ...costConfig.slippage, volumeImpact: Number(e.target.value) },
+                    })}
+                    helperText="Extra slippage % per 1% of bar volume"
+                  />
+                </Grid>
+              </Grid>
+            </Paper>
+          </Grid>
+
+          {/* Order Execution */}
+          <Grid item xs={12}>
+            <Paper sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Order Execution
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Market entries fill at the signal bar's close. Limit and stop entries rest from the next bar and fill when the bar's range reaches them, up to the volume cap per bar.
+              </Typography>
+              <Grid container spacing={2}>
+                <Grid item xs={12} sm={6} md={2.4}>
+                  <FormControl fullWidth>
+                    <InputLabel>Order Type</InputLabel>
+                    <Select
+                      value={execution.orderType}
+                      label="Order Type"
+                      onChange={(e) => setExecution({ ...execution, orderType: e.target.value as BacktestOrderType })}
+                    >
+                      <MenuItem value="market">Market</MenuItem>
+                      <MenuItem value="limit">Limit</MenuItem>
+                      <MenuItem value="stop">Stop</MenuItem>
+                      <MenuItem value="stop_limit">Stop Limit</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid item xs={12} sm={6} md={2.4}>
+                  <FormControl fullWidth disabled={execution.orderType === 'market'}>
+                    <InputLabel>Time in Force</InputLabel>
+                    <Select
+                      value={execution.timeInForce}
+                      label="Time in Force"
+                      onChange={(e) => setExecution({ ...execution, timeInForce: e.target.value as TimeInForce })}
+                    >
+                      <MenuItem value="day">Day</MenuItem>
+                      <MenuItem value="gtc">Good Till Cancelled</MenuItem>
+                      <MenuItem value="ioc">Immediate or Cancel</MenuItem>
+                      <MenuItem value="fok">Fill or Kill</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid item xs={12} sm={4} md={2.4}>
+                  <TextField
+                    fullWidth
+                    label="Limit Offset (%)"
+                    type="number"
+                    value={execution.limitOffsetPercent}
+                    disabled={execution.orderType !== 'limit' && execution.orderType !== 'stop_limit'}
+                    onChange={(e) => setExecution({ ...execution, limitOffsetPercent: Math.max(0, Number(e.target.value)) })}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={4} md={2.4}>
+                  <TextField
+                    fullWidth
+                    label="Stop Offset (%)"
+                    type="number"
+                    value={execution.stopOffsetPercent}
+                    disabled={execution.orderType !== 'stop' && execution.orderType !== 'stop_limit'}
+                    onChange={(e) => setExecution({ ...execution, stopOffsetPercent: Math.max(0, Number(e.target.value)) })}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={4} md={2.4}>
+                  <TextField
+                    fullWidth
+                    label="Max Bar Volume (%)"
+                    type="number"
+                    value={execution.maxVolumePercent}
+                    disabled={execution.orderType === 'market'}
+                    onChange={(e) => setExecution({ ...execution, maxVolumePercent: Math.max(0.01, Number(e.target.value)) })}
+                    helperText="Partial fills above this share"
+                  />
+                </Grid>
+              </Grid>
+            </Paper>
+          </Grid>
+
+          {/* Exit Rules */}
+          <Grid item xs={12}>
+            <Paper sx={{ p: 3 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="h6">
+                  Stop-Loss & Take-Profit
+                </Typography>
+                <FormControlLabel
+                  control={<Switch checked={applyExitRules} onChange={(e) => setApplyExitRules(e.target.checked)} />}
+                  label="Apply intrabar exits"
+                />
+              </Box>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Levels are checked against each bar's high and low. Defaults follow the auto-trading risk settings; set a level to 0 to disable it.
+              </Typography>
+              <Grid container spacing={2}>
+                <Grid item xs={12} sm={6} md={3}>
+                  <TextField
+                    fullWidth
+                    label="Stop-Loss (%)"
+                    type="number"
+                    value={exitRules.stopLossPercent ?? 0}
+                    disabled={!applyExitRules}
+                    onChange={(e) => setExitRules({ ...exitRules, stopLossPercent: Math.max(0, Number(e.target.value)) })}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6} md={3}>
+                  <TextField
+                    fullWidth
+                    label="Take-Profit (%)"
+                    type="number"
+                    value={exitRules.takeProfitPercent ?? 0}
+                    disabled={!applyExitRules}
+                    onChange={(e) => setExitRules({ ...exitRules, takeProfitPercent: Math.max(0, Number(e.target.value)) })}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6} md={3}>
+                  <TextField
+                    fullWidth
+                    label="Trailing Stop (%)"
+                    type="number"
+                    value={exitRules.trailingStopPercent ?? 0}
+                    disabled={!applyExitRules}
+                    onChange={(e) => setExitRules({ ...exitRules, trailingStopPercent: Math.max(0, Number(e.target.value)) })}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6} md={3}>
+                  <FormControl fullWidth disabled={!applyExitRules}>
+                    <InputLabel>Both Levels Touched</InputLabel>
+                    <Select
+                      value={exitRules.bothTouchedRule}
+                      label="Both Levels Touched"
+                      onChange={(e) => setExitRules({ ...exitRules, bothTouchedRule: e.target.value as BothTouchedRule })}
+                    >
+                      <MenuItem value="stop_first">Assume Stop First</MenuItem>
+                      <MenuItem value="target_first">Assume Target First</MenuItem>
+                      <MenuItem value="nearest_to_open">Nearest to Open First</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Grid>
+              </Grid>
+            </Paper>
+          </Grid>
+
           {/* Run Backtest */}
           <Grid item xs={12}>
             <Paper sx={{ p: 3, textAlign: 'center' }}>
+              {backtestError && (
+                <Alert severity="error" sx={{ mb: 2, textAlign: 'left' }} onClose={() => setBacktestError(null)}>
+                  {backtestError}
+                </Alert>
+              )}
               <Button
                 variant="contained"
                 size="large"
@@ -510,7 +976,7 @@ const Backtesting: React.FC = () => {
                 {isRunning ? 'Running Backtest...' : 'Run Backtest'}
               </Button>
               <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
-                Backtest will simulate the strategy over the last 14 days
+                Backtest will simulate the strategy on {timeframe} bars from {startDate} to {endDate}
               </Typography>
             </Paper>
           </Grid>
@@ -520,6 +986,22 @@ const Backtesting: React.FC = () => {
       <CustomTabPanel value={tabValue} index={1}>
         {results && (
           <Grid container spacing={3}>
+            {/* Data Quality */}
+            {results.dataQuality.warnings.length > 0 && (
+              <Grid item xs={12}>
+                <Alert severity="warning">
+                  {results.dataQuality.warnings.map((warning) => (
+                    <div key={warning}>{warning}</div>
+                  ))}
+                  {results.dataQuality.gaps.slice(0, 5).map((gap) => (
+                    <div key={gap.from}>
+                      Missing {gap.missingBars} bar(s): {gap.from} - {gap.to}
+                    </div>
+                  ))}
+                </Alert>
+              </Grid>
+            )}
+
             {/* Performance Summary */}
             <Grid item xs={12}>
               <Paper sx={{ p: 3 }}>
@@ -583,14 +1065,31 @@ const Backtesting: React.FC = () => {
                 </Typography>
                 <Grid container spacing={2}>
                   <Grid item xs={6}>
-                    <Typography variant="body2" color="text.secondary">Total Return</Typography>
+                    <Typography variant="body2" color="text.secondary">Net Return</Typography>
                     <Typography variant="body1" color={results.performance.totalReturn >= 0 ? 'success.main' : 'error.main'}>
                       {formatCurrency(results.performance.totalReturn)}
                     </Typography>
                   </Grid>
+                  <Grid item xs={6}>
+                    <Typography variant="body2" color="text.secondary">Gross Return</Typography>
+                    <Typography variant="body1" color={results.performance.grossReturn >= 0 ? 'success.main' : 'error.main'}>
+                      {formatCurrency(results.performance.grossReturn)}
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={6}>
+                    <Typography variant="body2" color="text.secondary">Trading Costs</Typography>
+                    <Typography variant="body1" color="error.main">
+                      {formatCurrency(results.performance.grossReturn - results.performance.totalReturn)}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Commission {formatCurrency(results.performance.totalCommission)} · Spread {formatCurrency(results.performance.totalSpreadCost)} · Slippage {formatCurrency(results.performance.totalSlippageCost)}
+                    </Typography>
+                  </Grid>
                   <Grid item xs={6}>
                     <Typography variant="body2" color="text.secondary">Profit Factor</Typography>
-                    <Typography variant="body1">{results.performance.profitFactor.toFixed(2)}</Typography>
+                    <Typography variant="body1">
+                      {Number.isFinite(results.performance.profitFactor) ? results.performance.profitFactor.toFixed(2) : '∞'}
+                    </Typography>
                   </Grid>
                   <Grid item xs={6}>
                     <Typography variant="body2" color="text.secondary">Avg Win</Typography>
@@ -612,6 +1111,27 @@ const Backtesting: React.FC = () => {
                     <Typography variant="body2" color="text.secondary">Losing Trades</Typography>
                     <Typography variant="body1">{results.performance.losingTrades}</Typography>
                   </Grid>
+                  {results.orders.length > 0 && (
+                    <Grid item xs={12}>
+                      <Typography variant="body2" color="text.secondary">Resting Orders</Typography>
+                      <Typography variant="body1">
+                        {results.orders.length} placed · {formatPercent(results.performance.fillRate)} of quantity filled
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {(['filled', 'partially_filled', 'cancelled', 'expired'] as const)
+                          .map(status => `${status.replace('_', ' ')} ${results.orders.filter(o => o.status === status).length}`)
+                          .join(' · ')}
+                      </Typography>
+                    </Grid>
+                  )}
+                  <Grid item xs={12}>
+                    <Typography variant="body2" color="text.secondary">Exits</Typography>
+                    <Typography variant="body1">
+                      {(Object.keys(exitReasonLabels) as ExitReason[])
+                        .map(reason => `${exitReasonLabels[reason]} ${results.performance.exitReasons[reason]}`)
+                        .join(' · ')}
+                    </Typography>
+                  </Grid>
                 </Grid>
               </Paper>
             </Grid>
@@ -633,11 +1153,33 @@ const Backtesting: React.FC = () => {
                   {new Date(results.period.startDate).toLocaleDateString()} - {new Date(results.period.endDate).toLocaleDateString()}
                 </Typography>
                 
+                <Typography variant="body2" color="text.secondary">Timeframe</Typography>
+                <Typography variant="body1" gutterBottom>
+                  {results.period.timeframe} ({results.dataQuality.actualBars} bars, {results.dataQuality.source})
+                </Typography>
+                
                 <Typography variant="body2" color="text.secondary">Initial Capital</Typography>
-                <Typography variant="body1">{formatCurrency(initialCapital)}</Typography>
+                <Typography variant="body1">{formatCurrency(results.initialCapital)}</Typography>
               </Paper>
             </Grid>
 
+            {/* Risk-Adjusted Statistics */}
+            <Grid item xs={12}>
+              <PerformanceStatisticsPanel statistics={results.statistics} />
+            </Grid>
+
+            {/* Benchmark Comparison */}
+            {results.benchmark && (
+              <Grid item xs={12}>
+                <BenchmarkComparisonPanel comparison={results.benchmark} />
+              </Grid>
+            )}
+
+            {/* Monte Carlo */}
+            <Grid item xs={12}>
+              <MonteCarloPanel result={results} />
+            </Grid>
+
             {/* Trade History */}
             <Grid item xs={12}>
               <Paper sx={{ p: 3 }}>
@@ -651,10 +1193,13 @@ const Backtesting: React.FC = () => {
                         <TableCell>Type</TableCell>
                         <TableCell>Entry Date</TableCell>
                         <TableCell>Exit Date</TableCell>
+                        <TableCell>Exit Reason</TableCell>
                         <TableCell align="right">Entry Price</TableCell>
                         <TableCell align="right">Exit Price</TableCell>
                         <TableCell align="right">Quantity</TableCell>
-                        <TableCell align="right">P&L</TableCell>
+                        <TableCell align="right">Gross P&L</TableCell>
+                        <TableCell align="right">Costs</TableCell>
+                        <TableCell align="right">Net P&L</TableCell>
                         <TableCell align="right">P&L %</TableCell>
                       </TableRow>
                     </TableHead>
@@ -664,9 +1209,12 @@ const Backtesting: React.FC = () => {
                           <TableCell>{getTradeTypeChip(trade)}</TableCell>
                           <TableCell>{new Date(trade.entryDate).toLocaleDateString()}</TableCell>
                           <TableCell>{trade.exitDate ? new Date(trade.exitDate).toLocaleDateString() : '-'}</TableCell>
+                          <TableCell>{trade.exitReason ? exitReasonLabels[trade.exitReason] : '-'}</TableCell>
                           <TableCell align="right">{formatCurrency(trade.entryPrice)}</TableCell>
                           <TableCell align="right">{trade.exitPrice ? formatCurrency(trade.exitPrice) : '-'}</TableCell>
                           <TableCell align="right">{trade.quantity}</TableCell>
+                          <TableCell align="right">{trade.grossPnl !== undefined ? formatCurrency(trade.grossPnl) : '-'}</TableCell>
+                          <TableCell align="right">{formatCurrency(trade.commission + trade.spreadCost + trade.slippageCost)}</TableCell>
                           <TableCell align="right">{trade.pnl ? getPnLChip(trade.pnl) : '-'}</TableCell>
                           <TableCell align="right">{trade.pnlPercent ? formatPercent(trade.pnlPercent) : '-'}</TableCell>
                         </TableRow>
@@ -679,6 +1227,184 @@ const Backtesting: React.FC = () => {
           </Grid>
         )}
       </CustomTabPanel>
+
+      <CustomTabPanel value={tabValue} index={2}>
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={5}>
+            <Paper sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Parameter Sweep
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Uses the symbol, date range, timeframe and costs from the Configuration tab.
+              </Typography>
+              
+              {parameters.filter(parameter => parameter.type !== 'rules').map((parameter) => (
+                <FormControlLabel
+                  key={parameter.name}
+                  control={
+                    <Checkbox
+                      checked={sweepParameters.includes(parameter.name)}
+                      onChange={() => toggleSweepParameter(parameter.name)}
+                    />
+                  }
+                  label={
+                    parameter.type === 'number'
+                      ? `${parameter.description || parameter.name} (${parameter.min} - ${parameter.max}, step ${parameter.step || 1})`
+                      : parameter.description || parameter.name
+                  }
+                  sx={{ display: 'block' }}
+                />
+              ))}
+
+              <Divider sx={{ my: 2 }} />
+
+              <FormControl fullWidth sx={{ mb: 2 }}>
+                <InputLabel>Search Method</InputLabel>
+                <Select
+                  value={optimizationMethod}
+                  onChange={(e) => setOptimizationMethod(e.target.value as OptimizationMethod)}
+                >
+                  <MenuItem value="grid">Grid Search</MenuItem>
+                  <MenuItem value="random">Random Search</MenuItem>
+                </Select>
+              </FormControl>
+
+              <FormControl fullWidth sx={{ mb: 2 }}>
+                <InputLabel>Objective</InputLabel>
+                <Select
+                  value={optimizationObjective}
+                  onChange={(e) => setOptimizationObjective(e.target.value as OptimizationObjective)}
+                >
+                  <MenuItem value="netReturn">Maximize Net Return</MenuItem>
+                  <MenuItem value="sharpe">Maximize Sharpe Ratio</MenuItem>
+                  <MenuItem value="maxDrawdown">Minimize Max Drawdown</MenuItem>
+                </Select>
+              </FormControl>
+
+              <TextField
+                fullWidth
+                label="Run Budget"
+                type="number"
+                value={runBudget}
+                onChange={(e) => setRunBudget(Math.max(1, Number(e.target.value)))}
+                helperText="Maximum number of backtests to run"
+                sx={{ mb: 2 }}
+              />
+
+              {optimizationError && (
+                <Alert severity="error" sx={{ mb: 2 }} onClose={() => setOptimizationError(null)}>
+                  {optimizationError}
+                </Alert>
+              )}
+
+              <Button
+                variant="contained"
+                fullWidth
+                startIcon={isOptimizing ? <CircularProgress size={20} /> : <TimelineIcon />}
+                onClick={runOptimization}
+                disabled={!selectedTemplate || sweepParameters.length === 0 || isOptimizing}
+              >
+                {isOptimizing ? 'Optimizing...' : 'Run Optimization'}
+              </Button>
+              {isOptimizing && (
+                <LinearProgress variant="determinate" value={optimizationProgress} sx={{ mt: 2 }} />
+              )}
+            </Paper>
+          </Grid>
+
+          <Grid item xs={12} md={7}>
+            {optimization && optimization.sweptParameters.length === 2 && (
+              <Paper sx={{ p: 3, mb: 3 }}>
+                <Typography variant="h6" gutterBottom>
+                  {objectiveLabels[optimization.objective]} Heatmap
+                </Typography>
+                <OptimizationHeatmap
+                  runs={optimization.runs}
+                  xParameter={optimization.sweptParameters[0]}
+                  yParameter={optimization.sweptParameters[1]}
+                  scoreLabel={objectiveLabels[optimization.objective]}
+                  onSelectRun={viewOptimizationRun}
+                />
+              </Paper>
+            )}
+
+            {optimization && (
+              <Paper sx={{ p: 3 }}>
+                <Typography variant="h6" gutterBottom>
+                  Ranked Results
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  {optimization.runs.length} of {optimization.totalCombinations} combinations evaluated ({optimization.method} search)
+                </Typography>
+                <TableContainer sx={{ maxHeight: 480 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Rank</TableCell>
+                        {optimization.sweptParameters.map((name) => (
+                          <TableCell key={name}>{name}</TableCell>
+                        ))}
+                        <TableCell align="right">Net Return</TableCell>
+                        <TableCell align="right">Sharpe</TableCell>
+                        <TableCell align="right">Max DD</TableCell>
+                        <TableCell align="right">Trades</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {optimization.runs.map((run) => (
+                        <TableRow key={run.rank} hover>
+                          <TableCell>{run.rank}</TableCell>
+                          {optimization.sweptParameters.map((name) => (
+                            <TableCell key={name}>{String(run.parameters[name])}</TableCell>
+                          ))}
+                          <TableCell align="right">{formatPercent(run.result.performance.totalReturnPercent)}</TableCell>
+                          <TableCell align="right">{run.result.performance.sharpeRatio.toFixed(2)}</TableCell>
+                          <TableCell align="right">{formatPercent(run.result.performance.maxDrawdown)}</TableCell>
+                          <TableCell align="right">{run.result.performance.totalTrades}</TableCell>
+                          <TableCell>
+                            <Button size="small" onClick={() => viewOptimizationRun(run)}>
+                              View
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Paper>
+            )}
+          </Grid>
+        </Grid>
+      </CustomTabPanel>
+
+      <CustomTabPanel value={tabValue} index={3}>
+        {selectedTemplate && (
+          <WalkForwardPanel
+            strategyName={strategyName}
+            templateId={selectedTemplate.id}
+            strategyId={savedStrategyId || null}
+            parameters={parameters}
+            sweepParameters={sweepParameters}
+            method={optimizationMethod}
+            objective={optimizationObjective}
+            runBudget={runBudget}
+            buildConfig={buildBacktestConfig}
+            describeError={describeBacktestError}
+            onViewResult={viewResult}
+          />
+        )}
+      </CustomTabPanel>
+
+      <CustomTabPanel value={tabValue} index={4}>
+        <PortfolioBacktestPanel
+          templates={templates}
+          availableSymbols={availableSymbols}
+          buildConfig={buildBacktestConfig}
+          describeError={describeBacktestError}
+        />
+      </CustomTabPanel>
     </Box>
   );
 };
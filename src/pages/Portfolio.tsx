@@ -1,6 +1,7 @@
 import React from 'react';
 import { Box, Grid, Typography } from '@mui/material';
 import PortfolioSummary from '../components/trading/PortfolioSummary';
+import TradeHistoryStatistics from '../components/trading/TradeHistoryStatistics';
 
 const Portfolio: React.FC = () => {
   return (
@@ -12,6 +13,9 @@ const Portfolio: React.FC = () => {
         <Grid item xs={12}>
           <PortfolioSummary />
         </Grid>
+        <Grid item xs={12}>
+          <TradeHistoryStatistics />
+        </Grid>
       </Grid>
     </Box>
   );
@@ -21,6 +21,7 @@ import { RootState, AppDispatch } from '../store';
 import { toggleDarkMode } from '../store/slices/themeSlice';
 import { alpacaService } from '../services/alpacaService';
 import { polygonService } from '../services/polygonService';
+import BrokerSettings from '../components/settings/BrokerSettings';
 
 const Settings: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
@@ -239,6 +240,10 @@ const Settings: React.FC = () => {
             </Box>
           </Paper>
         </Grid>
+
+        <Grid item xs={12}>
+          <BrokerSettings />
+        </Grid>
       </Grid>
     </Box>
   );
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Typography,
@@ -50,10 +50,15 @@ import {
   createStrategy, 
   updateStrategy, 
   deleteStrategy,
+  syncStrategyTemplates,
   StrategyTemplate,
   StrategyParameter,
   TradeStrategy 
 } from '../store/slices/strategiesSlice';
+import { strategyRegistry } from '../services/strategyRegistry';
+import { DEFAULT_SIGNAL_TIMEFRAME, strategyParameterValues } from '../services/strategyService';
+import RuleBuilder from '../components/strategies/RuleBuilder';
+import { validateRuleStrategy } from '../services/ruleStrategy';
 
 const StrategyConfiguration: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
@@ -65,6 +70,26 @@ const StrategyConfiguration: React.FC = () => {
   const [selectedStrategy, setSelectedStrategy] = useState<TradeStrategy | null>(null);
   const [strategyName, setStrategyName] = useState('');
   const [strategyParameters, setStrategyParameters] = useState<StrategyParameter[]>([]);
+  const [changeNote, setChangeNote] = useState('');
+
+  // Templates come from the strategy registry, including plugins loaded after startup
+  useEffect(() => {
+    dispatch(syncStrategyTemplates());
+  }, [dispatch]);
+
+  const renderWarmupNote = (templateId?: string) => {
+    const plugin = templateId ? strategyRegistry.get(templateId) : undefined;
+    if (!plugin) return null;
+
+    const parameters = strategyParameterValues(strategyParameters);
+    const timeframe = parameters.timeframe ?? DEFAULT_SIGNAL_TIMEFRAME;
+    const warmupBars = plugin.warmupBars(parameters, timeframe);
+    return (
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+        Needs {warmupBars} {timeframe} bars of history before it can signal
+      </Typography>
+    );
+  };
 
   const getCategoryIcon = (category: string) => {
     switch (category) {
@@ -88,6 +113,11 @@ const StrategyConfiguration: React.FC = () => {
     }
   };
 
+  // Rule parameters must validate before a strategy can be saved
+  const parametersValid = strategyParameters.every(
+    parameter => parameter.type !== 'rules' || validateRuleStrategy(parameter.value).length === 0
+  );
+
   const handleCreateStrategy = () => {
     if (!selectedTemplate || !strategyName.trim()) return;
 
@@ -109,11 +139,13 @@ const StrategyConfiguration: React.FC = () => {
     dispatch(updateStrategy({
       id: selectedStrategy.id,
       parameters: strategyParameters,
+      note: changeNote.trim() || undefined,
     }));
 
     setEditDialogOpen(false);
     setSelectedStrategy(null);
     setStrategyParameters([]);
+    setChangeNote('');
   };
 
   const handleDeleteStrategy = (strategyId: string) => {
@@ -192,6 +224,7 @@ const StrategyConfiguration: React.FC = () => {
         );
 
       case 'select':
+      case 'timeframe':
         return (
           <Box key={parameter.name} sx={{ mb: 3 }}>
             <FormControl fullWidth>
@@ -229,6 +262,11 @@ const StrategyConfiguration: React.FC = () => {
           </Box>
         );
 
+      case 'rules':
+        return (
+          <RuleBuilder key={parameter.name} value={parameter.value} onChange={updateParameter} />
+        );
+
       default:
         return null;
     }
@@ -240,7 +278,7 @@ const StrategyConfiguration: React.FC = () => {
         Strategy Configuration
       </Typography>
       <Typography variant="body1" color="text.secondary" sx={{ mb: 4 }}>
-        Create and configure trading strategies from templates. Each strategy will emit buy, short, or none signals.
+        Create and configure trading strategies from templates. Each strategy will emit buy/sell signals to open and close longs, short/cover to open and close shorts, or none.
       </Typography>
 
       {error && (
@@ -325,7 +363,9 @@ const StrategyConfiguration: React.FC = () => {
                               label={strategy.currentSignal}
                               color={
                                 strategy.currentSignal === 'buy' ? 'success' :
-                                strategy.currentSignal === 'short' ? 'error' : 'default'
+                                strategy.currentSignal === 'sell' ? 'warning' :
+                                strategy.currentSignal === 'short' ? 'error' :
+                                strategy.currentSignal === 'cover' ? 'info' : 'default'
                               }
                               size="small"
                             />
@@ -392,13 +432,14 @@ const StrategyConfiguration: React.FC = () => {
           />
           
           {strategyParameters.map((parameter, index) => renderParameterInput(parameter, index))}
+          {renderWarmupNote(selectedTemplate?.id)}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setCreateDialogOpen(false)}>Cancel</Button>
           <Button
             onClick={handleCreateStrategy}
             variant="contained"
-            disabled={!strategyName.trim() || isLoading}
+            disabled={!strategyName.trim() || !parametersValid || isLoading}
           >
             Create Strategy
           </Button>
@@ -417,18 +458,28 @@ const StrategyConfiguration: React.FC = () => {
           {selectedStrategy && (
             <Typography variant="body2" color="text.secondary">
               {selectedStrategy.name}
+              {selectedStrategy.version !== undefined && ` • v${selectedStrategy.version}`}
             </Typography>
           )}
         </DialogTitle>
         <DialogContent>
           {strategyParameters.map((parameter, index) => renderParameterInput(parameter, index))}
+          {renderWarmupNote(selectedStrategy?.templateId)}
+          <TextField
+            fullWidth
+            label="Change Note"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            helperText="Saving creates a new version; earlier versions stay available for rollback"
+            margin="normal"
+          />
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setEditDialogOpen(false)}>Cancel</Button>
           <Button
             onClick={handleEditStrategy}
             variant="contained"
-            disabled={isLoading}
+            disabled={!parametersValid || isLoading}
           >
             Update Strategy
           </Button>
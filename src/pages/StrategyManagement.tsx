@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Typography,
@@ -55,16 +55,22 @@ import {
   Build as BuildIcon,
   Warning as WarningIcon,
   CheckCircle as CheckCircleIcon,
+  History as HistoryIcon,
 } from '@mui/icons-material';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../store';
 import {
   toggleStrategy,
   toggleAutoTrading,
+  updateStrategySignal,
   updateAutoTradingSettings,
   StrategySignal,
   AutoTradingSettings,
+  TradeStrategy,
 } from '../store/slices/strategiesSlice';
+import { strategyService } from '../services/strategyService';
+import StrategyHistoryDialog from '../components/strategies/StrategyHistoryDialog';
+import { aggregateSignals, DEFAULT_AGGREGATION_WINDOW_SECONDS, DEFAULT_CUSTOM_THRESHOLD } from '../services/signalAggregator';
 
 const StrategyManagement: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
@@ -72,6 +78,22 @@ const StrategyManagement: React.FC = () => {
   
   const [settingsDialogOpen, setSettingsDialogOpen] = useState(false);
   const [localSettings, setLocalSettings] = useState<AutoTradingSettings>(autoTradingSettings);
+  const [historyStrategy, setHistoryStrategy] = useState<TradeStrategy | null>(null);
+
+  // Re-evaluate enabled strategies against stored market data. Monitoring
+  // restarts only when the enabled set or their parameters change
+  const monitoredKey = JSON.stringify(
+    strategies.filter(s => s.enabled).map(s => [s.id, s.templateId, s.parameters])
+  );
+  useEffect(() => {
+    const monitored = strategies.filter(s => s.enabled);
+    if (monitored.length === 0) return;
+
+    const interval = strategyService.startStrategyMonitoring(monitored, (id, signal) => {
+      dispatch(updateStrategySignal({ id, signal }));
+    });
+    return () => strategyService.stopStrategyMonitoring(interval);
+  }, [monitoredKey, dispatch]);
 
   // Calculate strategy statistics
   const enabledStrategies = strategies.filter(s => s.enabled);
@@ -80,36 +102,27 @@ const StrategyManagement: React.FC = () => {
     ? strategies.reduce((sum, s) => sum + s.performance.winRate, 0) / strategies.length 
     : 0;
 
-  // Get aggregated signal
-  const getAggregatedSignal = (): StrategySignal => {
-    const enabledSignals = enabledStrategies.map(s => s.currentSignal).filter(s => s !== 'none');
-    
-    if (enabledSignals.length < autoTradingSettings.signalAggregation.minimumSignals) {
-      return 'none';
-    }
+  // Get aggregated signal, combined the same way the trading engine does
+  const getAggregatedSignal = (): StrategySignal =>
+    aggregateSignals(
+      enabledStrategies
+        .filter(s => s.currentSignal !== 'none')
+        .map(s => ({
+          strategyId: s.id,
+          symbol: '',
+          signal: s.currentSignal as Exclude<StrategySignal, 'none'>,
+          confidence: 1,
+          price: 0,
+          timestamp: s.lastSignalTime,
+        })),
+      autoTradingSettings.signalAggregation
+    ).signal;
 
-    switch (autoTradingSettings.signalAggregation.method) {
-      case 'majority':
-        const buyCount = enabledSignals.filter(s => s === 'buy').length;
-        const shortCount = enabledSignals.filter(s => s === 'short').length;
-        if (buyCount > shortCount) return 'buy';
-        if (shortCount > buyCount) return 'short';
-        return 'none';
-      
-      case 'unanimous':
-        if (enabledSignals.length > 0 && enabledSignals.every(s => s === enabledSignals[0])) {
-          return enabledSignals[0];
-        }
-        return 'none';
-      
-      case 'weighted':
-        // Implementation would use strategy weights
-        return 'none';
-      
-      default:
-        return 'none';
-    }
-  };
+  const updateAggregation = (changes: Partial<AutoTradingSettings['signalAggregation']>) =>
+    setLocalSettings({
+      ...localSettings,
+      signalAggregation: { ...localSettings.signalAggregation, ...changes },
+    });
 
   const getCategoryIcon = (category: string) => {
     switch (category) {
@@ -125,7 +138,9 @@ const StrategyManagement: React.FC = () => {
   const getSignalChip = (signal: StrategySignal) => {
     const props = {
       buy: { color: 'success' as const, icon: <TrendingUpIcon fontSize="small" /> },
+      sell: { color: 'warning' as const, icon: <TrendingDownIcon fontSize="small" /> },
       short: { color: 'error' as const, icon: <TrendingDownIcon fontSize="small" /> },
+      cover: { color: 'info' as const, icon: <TrendingUpIcon fontSize="small" /> },
       none: { color: 'default' as const, icon: <RemoveIcon fontSize="small" /> },
     };
 
@@ -301,6 +316,7 @@ const StrategyManagement: React.FC = () => {
                               </Typography>
                               <Typography variant="caption" color="text.secondary">
                                 {strategy.category} • {strategy.parameters.length} parameters
+                                {strategy.version !== undefined && ` • v${strategy.version}`}
                               </Typography>
                             </Box>
                           </Box>
@@ -335,6 +351,11 @@ const StrategyManagement: React.FC = () => {
                               <SettingsIcon />
                             </IconButton>
                           </Tooltip>
+                          <Tooltip title="Version History">
+                            <IconButton size="small" onClick={() => setHistoryStrategy(strategy)}>
+                              <HistoryIcon />
+                            </IconButton>
+                          </Tooltip>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -394,6 +415,8 @@ const StrategyManagement: React.FC = () => {
         </Grid>
       </Grid>
 
+      <StrategyHistoryDialog strategy={historyStrategy} onClose={() => setHistoryStrategy(null)} />
+
       {/* Settings Dialog */}
       <Dialog
         open={settingsDialogOpen}
@@ -506,6 +529,7 @@ const StrategyManagement: React.FC = () => {
                       <MenuItem value="majority">Majority Vote</MenuItem>
                       <MenuItem value="unanimous">Unanimous</MenuItem>
                       <MenuItem value="weighted">Weighted Average</MenuItem>
+                      <MenuItem value="custom">Weighted Threshold</MenuItem>
                     </Select>
                   </FormControl>
                 </Grid>
@@ -525,6 +549,56 @@ const StrategyManagement: React.FC = () => {
                     inputProps={{ min: 1, max: 10 }}
                   />
                 </Grid>
+                <Grid item xs={12} sm={6}>
+                  <TextField
+                    fullWidth
+                    label="Signal Window (seconds)"
+                    type="number"
+                    value={localSettings.signalAggregation.windowSeconds ?? DEFAULT_AGGREGATION_WINDOW_SECONDS}
+                    onChange={(e) => updateAggregation({ windowSeconds: Number(e.target.value) })}
+                    helperText="How long a strategy's signal counts towards a decision"
+                    inputProps={{ min: 1 }}
+                  />
+                </Grid>
+                {localSettings.signalAggregation.method === 'custom' && (
+                  <Grid item xs={12} sm={6}>
+                    <Typography gutterBottom>
+                      Required Agreement: {((localSettings.signalAggregation.threshold ?? DEFAULT_CUSTOM_THRESHOLD) * 100).toFixed(0)}%
+                    </Typography>
+                    <Slider
+                      value={localSettings.signalAggregation.threshold ?? DEFAULT_CUSTOM_THRESHOLD}
+                      onChange={(_, value) => updateAggregation({ threshold: value as number })}
+                      min={0.5}
+                      max={1}
+                      step={0.05}
+                    />
+                  </Grid>
+                )}
+                {(localSettings.signalAggregation.method === 'weighted' ||
+                  localSettings.signalAggregation.method === 'custom') && (
+                  <Grid item xs={12}>
+                    <Typography variant="subtitle2" gutterBottom>
+                      Strategy Weights
+                    </Typography>
+                    {strategies.map(strategy => (
+                      <Box key={strategy.id} sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+                        <Typography variant="body2" sx={{ flex: 1 }}>
+                          {strategy.name}
+                        </Typography>
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={localSettings.signalAggregation.weights[strategy.id] ?? 1}
+                          onChange={(e) => updateAggregation({
+                            weights: { ...localSettings.signalAggregation.weights, [strategy.id]: Number(e.target.value) },
+                          })}
+                          inputProps={{ min: 0, step: 0.1 }}
+                          sx={{ width: 100 }}
+                        />
+                      </Box>
+                    ))}
+                  </Grid>
+                )}
               </Grid>
             </AccordionDetails>
           </Accordion>
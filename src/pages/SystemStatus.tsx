@@ -5,6 +5,11 @@ import { getTradingEngine } from '../services/realTimeTradingEngine';
 import { webSocketService } from '../services/websocketService';
 import { alpacaService } from '../services/alpacaService';
 import DatabaseService from '../services/databaseService';
+import {
+  indicatorCacheService,
+  IndicatorCacheJobStatus,
+  IndicatorCoverage,
+} from '../services/indicatorCacheService';
 
 interface SystemHealth {
   database: 'healthy' | 'warning' | 'error';
@@ -40,15 +45,19 @@ const SystemStatus: React.FC = () => {
     uptime: 0,
   });
   const [logs, setLogs] = useState<string[]>([]);
+  const [indicatorCoverage, setIndicatorCoverage] = useState<IndicatorCoverage[]>([]);
+  const [cacheJob, setCacheJob] = useState<IndicatorCacheJobStatus>(indicatorCacheService.getStatus());
 
   useEffect(() => {
     const interval = setInterval(() => {
       checkSystemHealth();
       updateMetrics();
+      setCacheJob(indicatorCacheService.getStatus());
     }, 5000);
 
     checkSystemHealth();
     updateMetrics();
+    loadIndicatorCoverage();
 
     return () => clearInterval(interval);
   }, []);
@@ -109,6 +118,32 @@ const SystemStatus: React.FC = () => {
     }));
   };
 
+  const loadIndicatorCoverage = async () => {
+    try {
+      setIndicatorCoverage(await indicatorCacheService.getCoverage());
+    } catch (error) {
+      addLog(`Indicator cache coverage error: ${(error as Error).message}`);
+    }
+  };
+
+  const refreshIndicatorCache = async () => {
+    addLog('Indicator cache refresh started');
+    const promise = indicatorCacheService.runJob();
+    setCacheJob(indicatorCacheService.getStatus());
+    const rowsWritten = await promise;
+    const status = indicatorCacheService.getStatus();
+    setCacheJob(status);
+    addLog(`Indicator cache refresh wrote ${rowsWritten} values`);
+    status.errors.forEach(error => addLog(`Indicator cache error: ${error}`));
+    await loadIndicatorCoverage();
+  };
+
+  const invalidateIndicatorCache = async (symbol: string) => {
+    const removed = await indicatorCacheService.invalidate(symbol);
+    addLog(`Invalidated ${removed} cached indicator values for ${symbol}`);
+    await loadIndicatorCoverage();
+  };
+
   const addLog = (message: string) => {
     const timestamp = new Date().toLocaleTimeString();
     setLogs(prev => [`[${timestamp}] ${message}`, ...prev.slice(0, 49)]);
@@ -301,6 +336,81 @@ const SystemStatus: React.FC = () => {
           </div>
         </div>
 
+        {/* Indicator Cache */}
+        <div className="mt-8 bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Indicator Cache</h2>
+              <p className="text-sm text-gray-500">
+                {cacheJob.running
+                  ? 'Refresh in progress...'
+                  : cacheJob.finishedAt
+                    ? `Last refresh ${cacheJob.finishedAt.toLocaleString()}: ${cacheJob.rowsWritten} values written${cacheJob.errors.length > 0 ? `, ${cacheJob.errors.length} errors` : ''}`
+                    : 'Not refreshed this session'}
+              </p>
+            </div>
+            <button
+              onClick={refreshIndicatorCache}
+              disabled={cacheJob.running}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Refresh Now
+            </button>
+          </div>
+          <div className="p-6 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4">Symbol</th>
+                  <th className="py-2 pr-4">Timeframe</th>
+                  <th className="py-2 pr-4">Stored Bars</th>
+                  <th className="py-2 pr-4">Last Bar</th>
+                  <th className="py-2 pr-4">Series</th>
+                  <th className="py-2 pr-4">Cached Values</th>
+                  <th className="py-2 pr-4">Cached Through</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {indicatorCoverage.map(row => {
+                  const status = row.storedBars === 0 ? 'no data' : row.stale ? 'stale' : 'current';
+                  return (
+                    <tr key={`${row.symbol}-${row.timeframe}`} className="border-b border-gray-100">
+                      <td className="py-2 pr-4 font-medium text-gray-900">{row.symbol}</td>
+                      <td className="py-2 pr-4">{row.timeframe}</td>
+                      <td className="py-2 pr-4">{row.storedBars.toLocaleString()}</td>
+                      <td className="py-2 pr-4">{row.lastBar?.toLocaleString() ?? '-'}</td>
+                      <td className="py-2 pr-4">{row.series}</td>
+                      <td className="py-2 pr-4">{row.cachedValues.toLocaleString()}</td>
+                      <td className="py-2 pr-4">{row.latestCached?.toLocaleString() ?? '-'}</td>
+                      <td className="py-2 pr-4">
+                        <span className={`px-2 py-1 rounded ${getStatusColor(status === 'current' ? 'healthy' : status === 'stale' ? 'warning' : 'unknown')}`}>
+                          {status}
+                        </span>
+                      </td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => invalidateIndicatorCache(row.symbol)}
+                          disabled={row.cachedValues === 0}
+                          className="text-red-600 hover:underline disabled:opacity-50"
+                        >
+                          Invalidate
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {indicatorCoverage.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className="text-gray-500 text-center py-8">No symbols configured for caching</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
         {/* System Actions */}
         <div className="mt-8 bg-white rounded-lg shadow">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -1,5 +1,7 @@
 import { alpacaAPI, handleAPIError, withRetry } from './api';
 import { Order, Position, Account } from '../store/slices/types';
+import type { BrokerService } from './brokerService';
+import { isCryptoSymbol } from './orderGroups';
 
 // Alpaca API Types
 export interface AlpacaOrder {
@@ -90,6 +92,15 @@ export interface AlpacaAccount {
   daytrade_count: number;
 }
 
+export interface AlpacaPortfolioHistory {
+  timestamp: number[]; // epoch seconds
+  equity: Array<number | null>;
+  profit_loss: Array<number | null>;
+  profit_loss_pct: Array<number | null>;
+  base_value: number;
+  timeframe: string;
+}
+
 export interface CreateOrderRequest {
   symbol: string;
   qty: string;
@@ -118,7 +129,7 @@ export interface ModifyOrderRequest {
   client_order_id?: string;
 }
 
-class AlpacaService {
+class AlpacaService implements BrokerService {
   // Account Methods
   async getAccount(): Promise<Account> {
     try {
@@ -196,6 +207,11 @@ class AlpacaService {
     }
   }
 
+  // Bracket and OCO orders are available for equities only
+  supportsOrderClass(_orderClass: 'bracket' | 'oco', symbol: string): boolean {
+    return !isCryptoSymbol(symbol);
+  }
+
   // Position Methods
   async getPositions(): Promise<Position[]> {
     try {
@@ -249,14 +265,14 @@ class AlpacaService {
   async getPortfolioHistory(
     period?: '1D' | '1W' | '1M' | '3M' | '1A' | 'all',
     timeframe?: '1Min' | '5Min' | '15Min' | '1H' | '1D'
-  ) {
+  ): Promise<AlpacaPortfolioHistory> {
     try {
       const params: any = {};
       if (period) params.period = period;
       if (timeframe) params.timeframe = timeframe;
 
       const response = await withRetry(() => 
-        alpacaAPI.get('/v2/account/portfolio/history', { params })
+        alpacaAPI.get<AlpacaPortfolioHistory>('/v2/account/portfolio/history', { params })
       );
       return response;
     } catch (error) {
@@ -316,7 +332,9 @@ class AlpacaService {
       expiredAt: alpacaOrder.expired_at,
       replacedAt: alpacaOrder.replaced_at,
       replacedBy: alpacaOrder.replaced_by,
-      replaces: alpacaOrder.replaces
+      replaces: alpacaOrder.replaces,
+      orderClass: alpacaOrder.order_class || undefined,
+      legs: alpacaOrder.legs?.map(leg => this.transformOrder(leg))
     };
   }
 
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./databaseService', () => ({
+  default: { saveBacktest: vi.fn(async () => ({ id: 'backtest_1' })) },
+}));
+
+import { backtestingService, BacktestConfig, thinnedGrid } from './backtestingService';
+import databaseService from './databaseService';
+import { strategyRegistry } from './strategyRegistry';
+
+describe('thinnedGrid', () => {
+  it('keeps the full grid when it fits the budget', () => {
+    expect(thinnedGrid([2, 3], 10)).toHaveLength(6);
+  });
+
+  it('thins every dimension so each still spans its range', () => {
+    const points = thinnedGrid([10, 10], 10);
+    expect(points.length).toBeLessThanOrEqual(10);
+    expect(new Set(points.map(point => point[0])).size).toBeGreaterThan(1);
+    expect(new Set(points.map(point => point[1])).size).toBeGreaterThan(1);
+    expect(points).toContainEqual([0, 0]);
+    expect(points).toContainEqual([9, 9]);
+  });
+});
+
+describe('sampleParameterSets', () => {
+  it('moves the inner parameter of a thinned grid', () => {
+    const values = Array.from({ length: 10 }, (_, i) => i + 1);
+    const sets = backtestingService.sampleParameterSets(
+      [
+        { name: 'fast', type: 'number', value: 1 },
+        { name: 'slow', type: 'number', value: 1 },
+      ],
+      { fast: values, slow: values },
+      'grid',
+      10
+    );
+
+    expect(sets.length).toBeLessThanOrEqual(10);
+    expect(new Set(sets.map(set => set.fast)).size).toBeGreaterThan(1);
+    expect(new Set(sets.map(set => set.slow)).size).toBeGreaterThan(1);
+  });
+});
+
+describe('runBacktestWithStorage', () => {
+  const config: BacktestConfig = {
+    symbol: 'BTCUSD',
+    startDate: new Date('2024-01-01T00:00:00Z'),
+    endDate: new Date('2024-06-30T23:59:59Z'),
+    timeframe: '1d',
+    dataSource: 'synthetic',
+    initialCapital: 10000,
+  };
+  const templateId = strategyRegistry.list()[0].id;
+
+  it('stores the result against the saved strategy, so its version is recorded', async () => {
+    await backtestingService.runBacktestWithStorage('user_1', 'Test', templateId, {}, config, 'strategy_1');
+    expect(vi.mocked(databaseService.saveBacktest)).toHaveBeenLastCalledWith('user_1', 'strategy_1', expect.anything());
+  });
+
+  it('never stores the template id as the strategy', async () => {
+    await backtestingService.runBacktestWithStorage('user_1', 'Test', templateId, {}, config);
+    const [, strategyId] = vi.mocked(databaseService.saveBacktest).mock.lastCall!;
+    expect(strategyId).not.toBe(templateId);
+  });
+});
@@ -1,5 +1,29 @@
-import { StrategySignal, TradeStrategy, StrategyTemplate } from '../store/slices/strategiesSlice';
+import { StrategySignal, TradeStrategy, StrategyTemplate, StrategyParameter } from '../store/slices/strategiesSlice';
 import databaseService from './databaseService';
+import { CostModel, DEFAULT_COST_MODEL_CONFIG, ConfigurableCostModel } from './tradingCostModel';
+import { calculatePerformanceStatistics, DAY_MS, PerformanceStatistics } from './performanceStatistics';
+import {
+  BenchmarkComparison,
+  BenchmarkConfig,
+  benchmarkName,
+  benchmarkWeights,
+  buildBenchmarkEquity,
+  calculateBenchmarkComparison,
+  validateBenchmark,
+} from './benchmarkStatistics';
+import { CachedIndicators, cachedIndicatorLookup } from './indicatorCache';
+import {
+  driveStrategy,
+  intentSignal,
+  positionChange,
+  StrategyBar,
+  StrategyContext,
+  StrategyInstance,
+  StrategyIntent,
+  StrategyParameters,
+  strategyRegistry,
+  trackIntents,
+} from './strategyRegistry';
 
 export interface BacktestTrade {
   id: string;
@@ -9,22 +33,69 @@ export interface BacktestTrade {
   exitPrice?: number;
   type: 'buy' | 'short';
   quantity: number;
-  pnl?: number;
+  pnl?: number; // net of all trading costs
   pnlPercent?: number;
+  grossPnl?: number; // at reference prices, before any costs
+  commission: number; // entry + exit
+  spreadCost: number;
+  slippageCost: number;
   status: 'open' | 'closed';
+  exitReason?: ExitReason;
+}
+
+export type ExitReason = 'signal' | 'stop' | 'target' | 'end_of_data';
+
+// Which level fills first when a single bar's range touches both the stop and the target
+export type BothTouchedRule = 'stop_first' | 'target_first' | 'nearest_to_open';
+
+export type BacktestOrderType = 'market' | 'limit' | 'stop' | 'stop_limit';
+
+export type TimeInForce = 'day' | 'gtc' | 'ioc' | 'fok';
+
+export interface ExecutionConfig {
+  orderType: BacktestOrderType;
+  timeInForce: TimeInForce;
+  limitOffsetPercent: number; // limit price this far through the signal close (below for buys, above for shorts)
+  stopOffsetPercent: number; // stop trigger this far beyond the signal close (above for buys, below for shorts)
+  maxVolumePercent: number; // largest share of a bar's volume a resting order can take
+}
+
+export interface BacktestOrder {
+  id: string;
+  side: 'buy' | 'short';
+  orderType: BacktestOrderType;
+  timeInForce: TimeInForce;
+  quantity: number;
+  filledQuantity: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  triggered: boolean; // stop_limit orders become limits once the stop trades
+  placedDate: string;
+  expiresAt?: number; // epoch ms, for day orders
+  status: 'open' | 'filled' | 'partially_filled' | 'cancelled' | 'expired';
+  fills: Array<{ date: string; price: number; quantity: number }>;
+}
+
+export interface ExitRulesConfig {
+  stopLossPercent?: number; // from entry price; omitted or 0 disables
+  takeProfitPercent?: number;
+  trailingStopPercent?: number; // from the best price since entry
+  bothTouchedRule: BothTouchedRule;
 }
 
 export interface BacktestResult {
   strategy: {
     name: string;
     templateId: string;
-    parameters: Record<string, any>;
+    parameters: StrategyParameters;
   };
   period: {
     startDate: string;
     endDate: string;
     symbol: string;
+    timeframe: BacktestTimeframe;
   };
+  initialCapital: number;
   trades: BacktestTrade[];
   performance: {
     totalTrades: number;
@@ -33,12 +104,21 @@ export interface BacktestResult {
     winRate: number;
     totalReturn: number;
     totalReturnPercent: number;
+    grossReturn: number;
+    totalCommission: number;
+    totalSpreadCost: number;
+    totalSlippageCost: number;
     maxDrawdown: number;
     sharpeRatio: number;
-    profitFactor: number;
+    profitFactor: number; // gross profit / gross loss
     avgWin: number;
     avgLoss: number;
+    exitReasons: Record<ExitReason, number>;
+    fillRate: number; // percent of ordered entry quantity that filled
   };
+  statistics: PerformanceStatistics;
+  orders: BacktestOrder[]; // resting entry orders; market entries fill immediately and are not listed
+  benchmark?: BenchmarkComparison;
   equity: Array<{
     date: string;
     value: number;
@@ -48,6 +128,7 @@ export interface BacktestResult {
     signal: StrategySignal;
     price: number;
   }>;
+  dataQuality: DataQualityReport;
 }
 
 export interface HistoricalPrice {
@@ -60,353 +141,860 @@ export interface HistoricalPrice {
   timestamp?: string | Date;
 }
 
+export type BacktestTimeframe = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+export type BacktestDataSource = 'database' | 'synthetic';
+
+// A strategy instance stepping through a backtest's bars
+interface StrategyRun {
+  instance: StrategyInstance;
+  context: StrategyContext;
+  firstBar: number; // first bar whose intents are traded
+  onBar: (index: number) => StrategyIntent[];
+}
+
+export interface BacktestConfig {
+  symbol: string;
+  startDate: Date;
+  endDate: Date;
+  timeframe: BacktestTimeframe;
+  dataSource: BacktestDataSource;
+  initialCapital: number;
+  costModel?: CostModel; // defaults to DEFAULT_COST_MODEL_CONFIG
+  exitRules?: ExitRulesConfig; // intrabar stop-loss / take-profit / trailing stop
+  execution?: ExecutionConfig; // defaults to market entries at the signal bar's close
+  benchmark?: BenchmarkConfig; // loaded from the same data source and range as the strategy
+}
+
+export interface DataGap {
+  from: string;
+  to: string;
+  missingBars: number;
+}
+
+export interface DataQualityReport {
+  source: BacktestDataSource;
+  expectedBars: number;
+  actualBars: number;
+  coveragePercent: number;
+  gaps: DataGap[];
+  warnings: string[];
+}
+
+export const TIMEFRAME_MS: Record<BacktestTimeframe, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+export const barTime = (bar: HistoricalPrice) => new Date(bar.timestamp ?? bar.date).getTime();
+
+// Fewer bars than this cannot produce meaningful indicator values
+export const MIN_BACKTEST_BARS = 30;
+
+// MarketData sources written by demo/seed code; never used for database backtests
+const SYNTHETIC_SOURCES = ['mock', 'generated'];
+
+export class BacktestDataError extends Error {
+  constructor(message: string, public quality?: DataQualityReport) {
+    super(message);
+    this.name = 'BacktestDataError';
+  }
+}
+
+export type ParameterValue = number | boolean | string;
+
+export type OptimizationMethod = 'grid' | 'random';
+
+export type OptimizationObjective = 'netReturn' | 'sharpe' | 'maxDrawdown';
+
+export interface OptimizationOptions {
+  method: OptimizationMethod;
+  objective: OptimizationObjective;
+  maxRuns: number; // run budget
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface OptimizationRun {
+  rank: number;
+  parameters: StrategyParameters;
+  score: number;
+  result: BacktestResult;
+  backtestId?: string;
+}
+
+/**
+ * Thins a grid to at most `budget` points by thinning each dimension on its
+ * own, so every swept parameter still spans its range. Returns the value
+ * positions of each point, one per dimension
+ */
+export const thinnedGrid = (sizes: number[], budget: number): number[][] => {
+  const counts = [...sizes];
+  const product = () => counts.reduce((total, count) => total * count, 1);
+  while (product() > budget) {
+    // Take a value from the dimension that keeps the most
+    const widest = counts.indexOf(Math.max(...counts));
+    counts[widest] -= 1;
+  }
+
+  // Evenly spaced positions, both ends included
+  const positions = counts.map((count, i) => {
+    if (count === 1) return [Math.floor((sizes[i] - 1) / 2)];
+    return Array.from({ length: count }, (_, j) => Math.round((j * (sizes[i] - 1)) / (count - 1)));
+  });
+
+  return positions.reduce<number[][]>(
+    (points, dimension) => points.flatMap(point => dimension.map(position => [...point, position])),
+    [[]]
+  );
+};
+
+export interface OptimizationResult {
+  optimizationId?: string;
+  templateId: string;
+  method: OptimizationMethod;
+  objective: OptimizationObjective;
+  sweptParameters: string[];
+  totalCombinations: number;
+  runs: OptimizationRun[]; // ranked best first
+  best: OptimizationRun | null;
+}
+
 class BacktestingService {
   /**
-   * Generate mock historical price data for the last two weeks
+   * Format a bar timestamp as its date key (day for daily bars, full ISO otherwise)
    */
-  generateHistoricalData(symbol: string, days: number = 14): HistoricalPrice[] {
-    const data: HistoricalPrice[] = [];
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-    
-    let basePrice = 40000; // Start around $40k for BTC
-    if (symbol.includes('ETH')) basePrice = 2500;
-    if (symbol.includes('ADA')) basePrice = 0.5;
-    if (symbol.includes('SOL')) basePrice = 25;
-    if (symbol.includes('DOT')) basePrice = 7;
-    
-    for (let i = 0; i < days; i++) {
-      const date = new Date(startDate);
-      date.setDate(date.getDate() + i);
-      
-      // Generate realistic price movement
-      const volatility = 0.03; // 3% daily volatility
-      const trend = (Math.random() - 0.5) * 0.01; // Small trend component
-      const change = (Math.random() - 0.5) * volatility + trend;
-      
-      const open = i === 0 ? basePrice : data[i - 1].close;
-      const priceChange = open * change;
-      const high = open + Math.abs(priceChange) + (Math.random() * open * 0.01);
-      const low = open - Math.abs(priceChange) - (Math.random() * open * 0.01);
-      const close = open + priceChange;
-      
-      data.push({
-        date: date.toISOString().split('T')[0],
-        open,
-        high: Math.max(high, open, close),
-        low: Math.min(low, open, close),
-        close,
-        volume: Math.random() * 1000000 + 500000,
-        timestamp: date
-      });
-    }
-    
-    return data;
+  formatBarDate(timestamp: Date, timeframe: BacktestTimeframe): string {
+    const iso = timestamp.toISOString();
+    return timeframe === '1d' ? iso.split('T')[0] : iso;
   }
 
   /**
-   * Generate mock historical data with date range
+   * Generate synthetic price data for a date range. Only used when the
+   * 'synthetic' data source is explicitly selected.
    */
-  generateMockHistoricalData(symbol: string, startDate: Date, endDate: Date): HistoricalPrice[] {
+  generateSyntheticData(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    timeframe: BacktestTimeframe = '1d'
+  ): HistoricalPrice[] {
     const data: HistoricalPrice[] = [];
-    const current = new Date(startDate);
+    const step = TIMEFRAME_MS[timeframe];
     let basePrice = 40000; // Start around $40k for BTC
     if (symbol.includes('ETH')) basePrice = 2500;
     if (symbol.includes('ADA')) basePrice = 0.5;
     if (symbol.includes('SOL')) basePrice = 25;
     if (symbol.includes('DOT')) basePrice = 7;
 
+    // Scale the ±5% daily move down to the bar size
+    const volatility = 0.1 * Math.sqrt(step / TIMEFRAME_MS['1d']);
     let price = basePrice;
-    
-    while (current <= endDate) {
-      const change = (Math.random() - 0.5) * 0.1; // ±5% daily change
+
+    for (let time = Math.floor(startDate.getTime() / step) * step; time <= endDate.getTime(); time += step) {
+      const timestamp = new Date(time);
+      const change = (Math.random() - 0.5) * volatility;
       const open = price;
       const close = price * (1 + change);
-      const high = Math.max(open, close) * (1 + Math.random() * 0.05);
-      const low = Math.min(open, close) * (1 - Math.random() * 0.05);
+      const high = Math.max(open, close) * (1 + Math.random() * volatility / 2);
+      const low = Math.min(open, close) * (1 - Math.random() * volatility / 2);
       const volume = Math.floor(Math.random() * 1000000) + 100000;
-      
+
       data.push({
-        date: current.toISOString().split('T')[0],
+        date: this.formatBarDate(timestamp, timeframe),
         open,
         high,
         low,
         close,
         volume,
-        timestamp: new Date(current)
+        timestamp
       });
-      
+
       price = close;
-      current.setDate(current.getDate() + 1);
     }
-    
+
     return data;
   }
 
   /**
-   * Calculate RSI for given price data
+   * Aggregate raw OHLCV rows into bars of the requested timeframe
    */
-  calculateRSI(prices: number[], period: number = 14): number[] {
-    if (prices.length < period + 1) return [];
-    
-    const rsi: number[] = [];
-    let gains: number[] = [];
-    let losses: number[] = [];
-    
-    // Calculate initial gains and losses
-    for (let i = 1; i <= period; i++) {
-      const change = prices[i] - prices[i - 1];
-      gains.push(change > 0 ? change : 0);
-      losses.push(change < 0 ? Math.abs(change) : 0);
+  aggregateBars(
+    rows: Array<{ timestamp: Date; open: number; high: number; low: number; close: number; volume: number }>,
+    timeframe: BacktestTimeframe
+  ): HistoricalPrice[] {
+    const step = TIMEFRAME_MS[timeframe];
+    const buckets = new Map<number, HistoricalPrice>();
+    const seen = new Set<number>();
+
+    for (const row of rows) {
+      const time = new Date(row.timestamp).getTime();
+      // The same bar can be stored once per source; count it only once
+      if (seen.has(time)) continue;
+      seen.add(time);
+
+      const bucketTime = Math.floor(time / step) * step;
+      const bar = buckets.get(bucketTime);
+      if (!bar) {
+        const timestamp = new Date(bucketTime);
+        buckets.set(bucketTime, {
+          date: this.formatBarDate(timestamp, timeframe),
+          open: row.open,
+          high: row.high,
+          low: row.low,
+          close: row.close,
+          volume: row.volume,
+          timestamp
+        });
+      } else {
+        bar.high = Math.max(bar.high, row.high);
+        bar.low = Math.min(bar.low, row.low);
+        bar.close = row.close;
+        bar.volume += row.volume;
+      }
     }
-    
-    let avgGain = gains.reduce((sum, gain) => sum + gain, 0) / period;
-    let avgLoss = losses.reduce((sum, loss) => sum + loss, 0) / period;
-    
-    for (let i = period; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      const gain = change > 0 ? change : 0;
-      const loss = change < 0 ? Math.abs(change) : 0;
-      
-      avgGain = (avgGain * (period - 1) + gain) / period;
-      avgLoss = (avgLoss * (period - 1) + loss) / period;
-      
-      const rs = avgGain / avgLoss;
-      const rsiValue = 100 - (100 / (1 + rs));
-      rsi.push(rsiValue);
+
+    return Array.from(buckets.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, bar]) => bar);
+  }
+
+  /**
+   * Compare loaded bars with the requested range and list any missing stretches
+   */
+  analyzeDataQuality(data: HistoricalPrice[], config: BacktestConfig): DataQualityReport {
+    const step = TIMEFRAME_MS[config.timeframe];
+    const firstBucket = Math.floor(config.startDate.getTime() / step) * step;
+    const lastBucket = Math.floor(config.endDate.getTime() / step) * step;
+    const expectedBars = Math.max(0, Math.floor((lastBucket - firstBucket) / step) + 1);
+
+    const gaps: DataGap[] = [];
+    const addGap = (fromTime: number, toTime: number) => {
+      const missingBars = Math.round((toTime - fromTime) / step) + 1;
+      if (missingBars > 0) {
+        gaps.push({
+          from: this.formatBarDate(new Date(fromTime), config.timeframe),
+          to: this.formatBarDate(new Date(toTime), config.timeframe),
+          missingBars
+        });
+      }
+    };
+
+    const times = data.map(bar => new Date(bar.timestamp ?? bar.date).getTime());
+    if (times.length === 0) {
+      if (expectedBars > 0) addGap(firstBucket, lastBucket);
+    } else {
+      if (times[0] > firstBucket) addGap(firstBucket, times[0] - step);
+      for (let i = 1; i < times.length; i++) {
+        if (times[i] - times[i - 1] > step) addGap(times[i - 1] + step, times[i] - step);
+      }
+      if (times[times.length - 1] < lastBucket) addGap(times[times.length - 1] + step, lastBucket);
     }
-    
-    return rsi;
+
+    const coveragePercent = expectedBars > 0 ? (data.length / expectedBars) * 100 : 0;
+    const warnings: string[] = [];
+    if (config.dataSource === 'synthetic') {
+      warnings.push('Results are based on synthetic prices, not stored market data');
+    }
+    if (gaps.length > 0) {
+      const missing = gaps.reduce((sum, gap) => sum + gap.missingBars, 0);
+      warnings.push(`${missing} of ${expectedBars} ${config.timeframe} bars are missing across ${gaps.length} gap(s)`);
+    }
+    if (data.length < MIN_BACKTEST_BARS) {
+      warnings.push(`Only ${data.length} bars available; at least ${MIN_BACKTEST_BARS} are required`);
+    }
+
+    return {
+      source: config.dataSource,
+      expectedBars,
+      actualBars: data.length,
+      coveragePercent,
+      gaps,
+      warnings
+    };
   }
 
   /**
-   * Calculate Moving Average
+   * Bars for the configured symbol and range from the selected source, without
+   * any coverage checks
    */
-  calculateMA(prices: number[], period: number): number[] {
-    const ma: number[] = [];
-    for (let i = period - 1; i < prices.length; i++) {
-      const sum = prices.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0);
-      ma.push(sum / period);
+  async loadBars(config: BacktestConfig): Promise<HistoricalPrice[]> {
+    if (config.dataSource === 'synthetic') {
+      return this.generateSyntheticData(config.symbol, config.startDate, config.endDate, config.timeframe);
     }
-    return ma;
+
+    const rows = await databaseService.getMarketData(config.symbol, config.startDate, config.endDate);
+    return this.aggregateBars(
+      rows.filter(row => !SYNTHETIC_SOURCES.includes(row.source)),
+      config.timeframe
+    );
   }
 
   /**
-   * Calculate Bollinger Bands
+   * Load OHLCV bars for a backtest from the MarketData table, or generate
+   * synthetic bars when that source is explicitly requested
    */
-  calculateBollingerBands(prices: number[], period: number = 20, stdDev: number = 2): Array<{upper: number, middle: number, lower: number}> {
-    const ma = this.calculateMA(prices, period);
-    const bands: Array<{upper: number, middle: number, lower: number}> = [];
-    
-    for (let i = 0; i < ma.length; i++) {
-      const slice = prices.slice(i, i + period);
-      const mean = ma[i];
-      const variance = slice.reduce((sum, price) => sum + Math.pow(price - mean, 2), 0) / period;
-      const standardDeviation = Math.sqrt(variance);
-      
-      bands.push({
-        upper: mean + (standardDeviation * stdDev),
-        middle: mean,
-        lower: mean - (standardDeviation * stdDev)
-      });
+  async loadHistoricalData(config: BacktestConfig): Promise<{ data: HistoricalPrice[]; quality: DataQualityReport }> {
+    if (config.startDate >= config.endDate) {
+      throw new BacktestDataError('Backtest start date must be before end date');
     }
-    
-    return bands;
+
+    const data = await this.loadBars(config);
+    const quality = this.analyzeDataQuality(data, config);
+
+    if (data.length === 0) {
+      throw new BacktestDataError(
+        `No ${config.symbol} market data stored between ${config.startDate.toISOString()} and ${config.endDate.toISOString()}`,
+        quality
+      );
+    }
+    if (data.length < MIN_BACKTEST_BARS) {
+      throw new BacktestDataError(
+        `Only ${data.length} ${config.timeframe} bars found for ${config.symbol}; at least ${MIN_BACKTEST_BARS} are required`,
+        quality
+      );
+    }
+
+    return { data, quality };
+  }
+
+  /**
+   * Start a registered strategy over a run of bars. Cached indicator values are
+   * offered to the strategy for each bar instead of being recomputed
+   */
+  private createStrategyRun(
+    templateId: string,
+    parameters: StrategyParameters,
+    historicalData: HistoricalPrice[],
+    market: { symbol: string; timeframe: BacktestTimeframe },
+    cached?: CachedIndicators
+  ): StrategyRun | null {
+    const plugin = strategyRegistry.get(templateId);
+    if (!plugin) {
+      console.warn(`No signal rules for strategy template ${templateId}`);
+      return null;
+    }
+
+    const lookup = cachedIndicatorLookup(cached);
+    const driver = driveStrategy(plugin, parameters, market, lookup.indicator);
+
+    return {
+      instance: driver.instance,
+      context: driver.context,
+      firstBar: Math.max(driver.warmupBars - 1, 1),
+      onBar: index => {
+        lookup.at(index);
+        const data = historicalData[index];
+        const bar: StrategyBar = {
+          open: data.open,
+          high: data.high,
+          low: data.low,
+          close: data.close,
+          volume: data.volume,
+          time: barTime(data),
+        };
+        return driver.onBar(bar);
+      },
+    };
   }
 
   /**
-   * Generate strategy signals based on historical data
+   * Generate strategy signals based on historical data. Each bar from the end of
+   * the strategy's warm-up gets an entry; live engines use the last one
    */
   generateSignals(
     historicalData: HistoricalPrice[],
     templateId: string,
-    parameters: Record<string, any>
+    parameters: StrategyParameters,
+    cached?: CachedIndicators,
+    market: { symbol: string; timeframe: BacktestTimeframe } = { symbol: '', timeframe: '1d' }
   ): Array<{ date: string; signal: StrategySignal; price: number }> {
+    const run = this.createStrategyRun(templateId, parameters, historicalData, market, cached);
     const signals: Array<{ date: string; signal: StrategySignal; price: number }> = [];
-    const prices = historicalData.map(d => d.close);
+    if (!run) return signals;
     
-    switch (templateId) {
-      case 'rsi-oversold': {
-        const { rsiPeriod = 14, oversoldLevel = 30, overboughtLevel = 70 } = parameters;
-        const rsi = this.calculateRSI(prices, rsiPeriod);
-        
-        for (let i = 0; i < rsi.length; i++) {
-          const dataIndex = i + rsiPeriod;
-          if (dataIndex < historicalData.length) {
-            let signal: StrategySignal = 'none';
-            if (rsi[i] < oversoldLevel) signal = 'buy';
-            else if (rsi[i] > overboughtLevel) signal = 'short';
-            
-            signals.push({
-              date: historicalData[dataIndex].date,
-              signal,
-              price: historicalData[dataIndex].close
-            });
-          }
-        }
-        break;
-      }
-      
-      case 'moving-average-crossover': {
-        const { fastPeriod = 10, slowPeriod = 30 } = parameters;
-        const fastMA = this.calculateMA(prices, fastPeriod);
-        const slowMA = this.calculateMA(prices, slowPeriod);
-        
-        for (let i = 1; i < Math.min(fastMA.length, slowMA.length); i++) {
-          const dataIndex = i + slowPeriod - 1;
-          if (dataIndex < historicalData.length) {
-            let signal: StrategySignal = 'none';
-            
-            // Cross above
-            if (fastMA[i] > slowMA[i] && fastMA[i - 1] <= slowMA[i - 1]) {
-              signal = 'buy';
-            }
-            // Cross below
-            else if (fastMA[i] < slowMA[i] && fastMA[i - 1] >= slowMA[i - 1]) {
-              signal = 'short';
-            }
-            
-            signals.push({
-              date: historicalData[dataIndex].date,
-              signal,
-              price: historicalData[dataIndex].close
-            });
-          }
-        }
-        break;
+    historicalData.forEach((data, i) => {
+      const intents = run.onBar(i);
+      if (i < run.firstBar) return;
+      // Without a simulated book, intents fill at the close
+      trackIntents(run.context, intents, data.close);
+      signals.push({
+        date: data.date,
+        signal: intentSignal(intents),
+        price: data.close
+      });
+    });
+    
+    return signals;
+  }
+
+  /**
+   * Price at which a resting entry order would trade within a bar, or null if
+   * the bar's range never reaches it. Gaps through the order price fill at
+   * the open
+   */
+  checkOrderFill(order: BacktestOrder, bar: HistoricalPrice): { price: number; isLimitFill: boolean } | null {
+    const isBuy = order.side === 'buy';
+
+    const limitFill = (limit: number) => {
+      if (isBuy ? bar.low > limit : bar.high < limit) return null;
+      return { price: isBuy ? Math.min(bar.open, limit) : Math.max(bar.open, limit), isLimitFill: true };
+    };
+
+    switch (order.orderType) {
+      case 'limit':
+        return limitFill(order.limitPrice!);
+      case 'stop': {
+        const stop = order.stopPrice!;
+        if (isBuy ? bar.high < stop : bar.low > stop) return null;
+        return { price: isBuy ? Math.max(bar.open, stop) : Math.min(bar.open, stop), isLimitFill: false };
       }
-      
-      case 'bollinger-bands': {
-        const { period = 20, standardDeviations = 2 } = parameters;
-        const bands = this.calculateBollingerBands(prices, period, standardDeviations);
-        
-        for (let i = 0; i < bands.length; i++) {
-          const dataIndex = i + period - 1;
-          if (dataIndex < historicalData.length) {
-            const price = historicalData[dataIndex].close;
-            let signal: StrategySignal = 'none';
-            
-            if (price > bands[i].upper) signal = 'short';
-            else if (price < bands[i].lower) signal = 'buy';
-            
-            signals.push({
-              date: historicalData[dataIndex].date,
-              signal,
-              price
-            });
-          }
-        }
-        break;
+      case 'stop_limit': {
+        if (order.triggered) return limitFill(order.limitPrice!);
+        const stop = order.stopPrice!;
+        if (isBuy ? bar.high < stop : bar.low > stop) return null;
+        order.triggered = true;
+        // Triggered intrabar: the stop price is inside the limit. Gapped past the
+        // stop: the order rests as a limit from the open
+        const gapped = isBuy ? bar.open > stop : bar.open < stop;
+        return gapped ? limitFill(order.limitPrice!) : { price: stop, isLimitFill: true };
       }
-      
       default:
-        // For other strategies, generate some random signals for demo
-        historicalData.forEach((data, index) => {
-          if (index % 3 === 0) { // Every 3rd day, generate a signal
-            const random = Math.random();
-            let signal: StrategySignal = 'none';
-            if (random < 0.3) signal = 'buy';
-            else if (random > 0.7) signal = 'short';
-            
-            signals.push({
-              date: data.date,
-              signal,
-              price: data.close
-            });
-          }
-        });
+        return { price: bar.open, isLimitFill: false };
     }
-    
-    return signals;
   }
 
   /**
-   * Execute backtest simulation
+   * Check whether a bar's high/low range hits the trade's stop or target.
+   * bestPrice is the most favourable price seen before this bar (for trailing
+   * stops); gaps through a level fill at the bar's open
    */
-  runBacktest(
+  checkIntrabarExit(
+    trade: BacktestTrade,
+    bar: HistoricalPrice,
+    exitRules: ExitRulesConfig,
+    bestPrice: number
+  ): { price: number; reason: ExitReason } | null {
+    const isLong = trade.type === 'buy';
+    const direction = isLong ? 1 : -1;
+
+    const stopLevels: number[] = [];
+    if (exitRules.stopLossPercent) {
+      stopLevels.push(trade.entryPrice * (1 - direction * exitRules.stopLossPercent / 100));
+    }
+    if (exitRules.trailingStopPercent) {
+      stopLevels.push(bestPrice * (1 - direction * exitRules.trailingStopPercent / 100));
+    }
+    // The tightest stop wins
+    const stop = stopLevels.length > 0 ? (isLong ? Math.max(...stopLevels) : Math.min(...stopLevels)) : null;
+    const target = exitRules.takeProfitPercent
+      ? trade.entryPrice * (1 + direction * exitRules.takeProfitPercent / 100)
+      : null;
+
+    const stopHit = stop !== null && (isLong ? bar.low <= stop : bar.high >= stop);
+    const targetHit = target !== null && (isLong ? bar.high >= target : bar.low <= target);
+    if (!stopHit && !targetHit) return null;
+
+    const stopExit = () => ({
+      price: isLong ? Math.min(bar.open, stop!) : Math.max(bar.open, stop!),
+      reason: 'stop' as const
+    });
+    const targetExit = () => ({
+      price: isLong ? Math.max(bar.open, target!) : Math.min(bar.open, target!),
+      reason: 'target' as const
+    });
+
+    if (stopHit && !targetHit) return stopExit();
+    if (targetHit && !stopHit) return targetExit();
+
+    // Both levels inside the bar's range
+    switch (exitRules.bothTouchedRule) {
+      case 'target_first':
+        return targetExit();
+      case 'nearest_to_open':
+        return Math.abs(bar.open - stop!) <= Math.abs(target! - bar.open) ? stopExit() : targetExit();
+      case 'stop_first':
+      default:
+        return stopExit();
+    }
+  }
+
+  /**
+   * Load historical bars for the configured range and execute a backtest
+   */
+  async runBacktest(
     strategyName: string,
     templateId: string,
-    parameters: Record<string, any>,
+    parameters: StrategyParameters,
+    config: BacktestConfig
+  ): Promise<BacktestResult> {
+    const { data, quality } = await this.loadHistoricalData(config);
+    const cached = config.dataSource === 'database'
+      ? await this.loadCachedIndicators(config.symbol, config.timeframe, data)
+      : undefined;
+    const result = this.simulateBacktest(strategyName, templateId, parameters, data, config, quality, 0, cached);
+
+    if (config.benchmark) {
+      try {
+        result.benchmark = await this.compareWithBenchmark(result.equity, config.benchmark, config);
+      } catch (error) {
+        // A missing benchmark shouldn't throw away the strategy's result
+        console.error('Error comparing backtest with benchmark:', error);
+        result.dataQuality.warnings.push(
+          `Benchmark comparison unavailable: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Indicator values cached for these bars, if the cache job has covered them.
+   * Cached values are computed over the full stored history, so they don't
+   * carry the warm-up effects of starting at the first backtest bar
+   */
+  async loadCachedIndicators(
     symbol: string,
-    initialCapital: number = 10000
+    timeframe: BacktestTimeframe,
+    bars: HistoricalPrice[]
+  ): Promise<CachedIndicators | undefined> {
+    if (bars.length === 0) return undefined;
+
+    const times = bars.map(bar => barTime(bar));
+    const rows = await databaseService.getTechnicalIndicators(
+      symbol,
+      timeframe,
+      new Date(times[0]),
+      new Date(times[times.length - 1])
+    );
+    return rows.length > 0 ? new CachedIndicators(times, rows) : undefined;
+  }
+
+  /**
+   * Load a benchmark's bars over the backtest's range and compare an equity
+   * curve against it, scaled to the curve's starting value
+   */
+  async compareWithBenchmark(
+    equity: Array<{ date: string; value: number }>,
+    benchmark: BenchmarkConfig,
+    config: BacktestConfig
+  ): Promise<BenchmarkComparison> {
+    const invalid = validateBenchmark(benchmark);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+    if (equity.length === 0) {
+      throw new Error('No equity points to compare');
+    }
+
+    const components = await Promise.all(
+      benchmarkWeights(benchmark).map(async component => {
+        const data = await this.loadBars({ ...config, symbol: component.symbol });
+        if (data.length < 2) {
+          throw new BacktestDataError(`No ${component.symbol} market data stored for the benchmark period`);
+        }
+        return { weight: component.weight, closes: new Map(data.map(bar => [bar.date, bar.close])) };
+      })
+    );
+
+    const benchmarkEquity = buildBenchmarkEquity(components, equity.map(point => point.date), equity[0].value);
+    return calculateBenchmarkComparison(equity, benchmarkEquity, TIMEFRAME_MS[config.timeframe], benchmarkName(benchmark));
+  }
+
+  /**
+   * Execute backtest simulation over already loaded bars
+   */
+  simulateBacktest(
+    strategyName: string,
+    templateId: string,
+    parameters: StrategyParameters,
+    historicalData: HistoricalPrice[],
+    config: BacktestConfig,
+    dataQuality: DataQualityReport,
+    warmupBars: number = 0, // leading bars used only to seed indicators
+    cachedIndicators?: CachedIndicators
   ): BacktestResult {
-    // Generate historical data
-    const historicalData = this.generateHistoricalData(symbol, 14);
-    const signals = this.generateSignals(historicalData, templateId, parameters);
+    const { symbol, initialCapital } = config;
+    const run = this.createStrategyRun(
+      templateId,
+      parameters,
+      historicalData,
+      { symbol, timeframe: config.timeframe },
+      cachedIndicators
+    );
+    
+    const costModel = config.costModel ?? new ConfigurableCostModel(DEFAULT_COST_MODEL_CONFIG);
+    const { exitRules, execution } = config;
     
     // Simulate trades
+    const signals: BacktestResult['signals'] = [];
     const trades: BacktestTrade[] = [];
     const equity: Array<{ date: string; value: number }> = [];
     let currentCapital = initialCapital;
     let openTrade: BacktestTrade | null = null;
+    let bestPrice = 0; // most favourable price since entry, for trailing stops
     let tradeCounter = 0;
+    let tradedVolume = 0;
+    const orders: BacktestOrder[] = [];
+    let pendingOrder: BacktestOrder | null = null;
+    let orderCounter = 0;
+    
+    const closeTrade = (
+      trade: BacktestTrade,
+      data: HistoricalPrice,
+      reason: ExitReason,
+      price: number = data.close
+    ) => {
+      const fill = costModel.estimateFill({
+        side: trade.type === 'buy' ? 'sell' : 'buy',
+        price,
+        quantity: trade.quantity,
+        barVolume: data.volume,
+        liquidity: reason === 'target' ? 'maker' : 'taker', // targets rest as limit orders
+        tradedVolume,
+        isLimitFill: reason === 'target'
+      });
+      tradedVolume += fill.fillPrice * trade.quantity;
+      
+      const direction = trade.type === 'buy' ? 1 : -1;
+      const entryCommission = trade.commission;
+      const proceeds = (fill.fillPrice - trade.entryPrice) * trade.quantity * direction - fill.commission;
+      
+      trade.exitDate = data.date;
+      trade.exitPrice = fill.fillPrice;
+      trade.exitReason = reason;
+      trade.status = 'closed';
+      trade.commission += fill.commission;
+      trade.spreadCost += fill.spreadCost;
+      trade.slippageCost += fill.slippageCost;
+      trade.pnl = proceeds - entryCommission;
+      trade.grossPnl = trade.pnl + trade.commission + trade.spreadCost + trade.slippageCost;
+      trade.pnlPercent = (trade.pnl / (trade.entryPrice * trade.quantity)) * 100;
+      
+      // Entry commission was already deducted when the trade was opened
+      currentCapital += proceeds;
+      trades.push(trade);
+      
+      if (run) {
+        run.context.position = null;
+        run.instance.onFill?.(
+          { side: trade.type === 'buy' ? 'sell' : 'buy', price: fill.fillPrice, quantity: trade.quantity, time: barTime(data) },
+          run.context
+        );
+      }
+    };
+    
+    const fillEntry = (
+      type: 'buy' | 'short',
+      data: HistoricalPrice,
+      price: number,
+      quantity: number,
+      isLimitFill: boolean
+    ): number => {
+      const fill = costModel.estimateFill({
+        side: type === 'buy' ? 'buy' : 'sell',
+        price,
+        quantity,
+        barVolume: data.volume,
+        liquidity: isLimitFill ? 'maker' : 'taker',
+        tradedVolume,
+        isLimitFill
+      });
+      tradedVolume += fill.fillPrice * quantity;
+      currentCapital -= fill.commission;
+      
+      if (openTrade) {
+        // Partial fills of the same order scale into one position at the average price
+        const totalQuantity = openTrade.quantity + quantity;
+        openTrade.entryPrice = (openTrade.entryPrice * openTrade.quantity + fill.fillPrice * quantity) / totalQuantity;
+        openTrade.quantity = totalQuantity;
+        openTrade.commission += fill.commission;
+        openTrade.spreadCost += fill.spreadCost;
+        openTrade.slippageCost += fill.slippageCost;
+      } else {
+        openTrade = {
+          id: `trade-${++tradeCounter}`,
+          entryDate: data.date,
+          entryPrice: fill.fillPrice,
+          type,
+          quantity,
+          commission: fill.commission,
+          spreadCost: fill.spreadCost,
+          slippageCost: fill.slippageCost,
+          status: 'open'
+        };
+        bestPrice = fill.fillPrice;
+      }
+      
+      if (run) {
+        const position = openTrade as BacktestTrade;
+        run.context.position = {
+          side: position.type === 'buy' ? 'long' : 'short',
+          quantity: position.quantity,
+          entryPrice: position.entryPrice
+        };
+        run.instance.onFill?.(
+          { side: type === 'buy' ? 'buy' : 'sell', price: fill.fillPrice, quantity, time: barTime(data) },
+          run.context
+        );
+      }
+      return fill.fillPrice;
+    };
+    
+    const finishOrder = (status: 'filled' | 'cancelled' | 'expired') => {
+      if (!pendingOrder) return;
+      pendingOrder.status = status !== 'filled' && pendingOrder.filledQuantity > 0 ? 'partially_filled' : status;
+      pendingOrder = null;
+    };
+    
+    const placeOrder = (type: 'buy' | 'short', data: HistoricalPrice, execution: ExecutionConfig) => {
+      const direction = type === 'buy' ? 1 : -1;
+      let limitPrice: number | undefined;
+      let stopPrice: number | undefined;
+      
+      if (execution.orderType === 'limit') {
+        limitPrice = data.close * (1 - direction * execution.limitOffsetPercent / 100);
+      } else {
+        stopPrice = data.close * (1 + direction * execution.stopOffsetPercent / 100);
+        if (execution.orderType === 'stop_limit') {
+          limitPrice = stopPrice * (1 + direction * execution.limitOffsetPercent / 100);
+        }
+      }
+      
+      const quantity = Math.floor(currentCapital * 0.1 / (limitPrice ?? stopPrice!)); // Use 10% of capital
+      if (quantity <= 0) return;
+      
+      pendingOrder = {
+        id: `order-${++orderCounter}`,
+        side: type,
+        orderType: execution.orderType,
+        timeInForce: execution.timeInForce,
+        quantity,
+        filledQuantity: 0,
+        limitPrice,
+        stopPrice,
+        triggered: false,
+        placedDate: data.date,
+        // Day orders live for 24 hours from the close of the bar that placed them
+        expiresAt: execution.timeInForce === 'day'
+          ? barTime(data) + TIMEFRAME_MS[config.timeframe] + DAY_MS
+          : undefined,
+        status: 'open',
+        fills: []
+      };
+      orders.push(pendingOrder);
+    };
+    
+    const processPendingOrder = (data: HistoricalPrice, execution: ExecutionConfig) => {
+      const order = pendingOrder;
+      if (!order) return;
+      if (order.expiresAt !== undefined && barTime(data) >= order.expiresAt) {
+        finishOrder('expired');
+        return;
+      }
+      
+      const fill = this.checkOrderFill(order, data);
+      const remaining = order.quantity - order.filledQuantity;
+      const available = Math.floor(data.volume * execution.maxVolumePercent / 100);
+      
+      // Fill-or-kill needs the whole remaining quantity from this bar
+      if (fill && !(order.timeInForce === 'fok' && available < remaining)) {
+        const quantity = Math.min(remaining, available);
+        if (quantity > 0) {
+          const price = fillEntry(order.side, data, fill.price, quantity, fill.isLimitFill);
+          order.filledQuantity += quantity;
+          order.fills.push({ date: data.date, price, quantity });
+        }
+      }
+      
+      if (order.filledQuantity >= order.quantity) {
+        finishOrder('filled');
+      } else if (order.timeInForce === 'ioc' || order.timeInForce === 'fok') {
+        finishOrder('cancelled');
+      }
+    };
     
     // Create equity curve
     historicalData.forEach((data, index) => {
-      const signal = signals.find(s => s.date === data.date);
+      // Warm-up bars only seed the strategy's indicators
+      if (index < warmupBars) {
+        run?.onBar(index);
+        return;
+      }
       
-      if (signal && signal.signal !== 'none') {
-        // Close existing trade if signal changes
-        if (openTrade) {
-          openTrade.exitDate = data.date;
-          openTrade.exitPrice = data.close;
-          openTrade.status = 'closed';
-          
-          // Calculate P&L
-          if (openTrade.type === 'buy') {
-            openTrade.pnl = (openTrade.exitPrice - openTrade.entryPrice) * openTrade.quantity;
-          } else { // short
-            openTrade.pnl = (openTrade.entryPrice - openTrade.exitPrice) * openTrade.quantity;
-          }
-          
-          openTrade.pnlPercent = (openTrade.pnl / (openTrade.entryPrice * openTrade.quantity)) * 100;
-          currentCapital += openTrade.pnl;
-          trades.push(openTrade);
+      // Stops and targets are checked from the bar after entry (entries fill at the close)
+      if (openTrade && exitRules && openTrade.entryDate !== data.date) {
+        const exit = this.checkIntrabarExit(openTrade, data, exitRules, bestPrice);
+        if (exit) {
+          closeTrade(openTrade, data, exit.reason, exit.price);
           openTrade = null;
+          finishOrder('cancelled');
+        } else {
+          bestPrice = openTrade.type === 'buy' ? Math.max(bestPrice, data.high) : Math.min(bestPrice, data.low);
+        }
+      }
+      
+      // Resting orders can trade from the bar after they were placed
+      if (execution) {
+        processPendingOrder(data, execution);
+      }
+      
+      // The strategy sees the bar after stops, targets and resting orders
+      const intents = run ? run.onBar(index) : [];
+      const tradable = !!run && index >= run.firstBar;
+      if (tradable) {
+        signals.push({ date: data.date, signal: intentSignal(intents), price: data.close });
+      }
+      
+      (tradable ? intents : []).forEach(intent => {
+        const held = openTrade as BacktestTrade | null;
+        const { close, open } = positionChange(intent.action, held ? (held.type === 'buy' ? 'long' : 'short') : null);
+        if (close) {
+          closeTrade(held!, data, 'signal');
+          openTrade = null;
+          finishOrder('cancelled');
         }
         
-        // Open new trade
-        const quantity = Math.floor(currentCapital * 0.1 / data.close); // Use 10% of capital
-        if (quantity > 0) {
-          openTrade = {
-            id: `trade-${++tradeCounter}`,
-            entryDate: data.date,
-            entryPrice: data.close,
-            type: signal.signal === 'buy' ? 'buy' : 'short',
-            quantity,
-            status: 'open'
-          };
-          trades.push(openTrade);
+        // An exit also withdraws a resting entry on that side
+        const exitSide = intent.action === 'sell' ? 'buy' : intent.action === 'cover' ? 'short' : null;
+        if (exitSide && pendingOrder?.side === exitSide && !openTrade) {
+          finishOrder('cancelled');
         }
-      }
+        
+        if (open) {
+          finishOrder('cancelled');
+          const type = open === 'long' ? 'buy' : 'short';
+          if (execution && execution.orderType !== 'market') {
+            placeOrder(type, data, execution);
+          } else {
+            const quantity = Math.floor(currentCapital * 0.1 / data.close); // Use 10% of capital
+            if (quantity > 0) {
+              fillEntry(type, data, data.close, quantity, false);
+            }
+          }
+        }
+      });
       
+      const position = openTrade as BacktestTrade | null;
       equity.push({
         date: data.date,
-        value: currentCapital + (openTrade ? 
-          (openTrade.type === 'buy' ? 
-            (data.close - openTrade.entryPrice) * openTrade.quantity :
-            (openTrade.entryPrice - data.close) * openTrade.quantity
+        value: currentCapital + (position ? 
+          (position.type === 'buy' ? 
+            (data.close - position.entryPrice) * position.quantity :
+            (position.entryPrice - data.close) * position.quantity
           ) : 0)
       });
     });
     
-    // Close any remaining open trade
-    if (openTrade) {
-      const lastData = historicalData[historicalData.length - 1];
-      const trade = openTrade as BacktestTrade;
-      trade.exitDate = lastData.date;
-      trade.exitPrice = lastData.close;
-      trade.status = 'closed';
-      
-      if (trade.type === 'buy') {
-        trade.pnl = (trade.exitPrice - trade.entryPrice) * trade.quantity;
-      } else {
-        trade.pnl = (trade.entryPrice - trade.exitPrice) * trade.quantity;
-      }
-      
-      trade.pnlPercent = (trade.pnl / (trade.entryPrice * trade.quantity)) * 100;
-      currentCapital += trade.pnl;
-      trades.push(trade);
+    // Close any remaining open trade and let unfilled orders lapse
+    finishOrder('expired');
+    const finalTrade = openTrade as BacktestTrade | null;
+    if (finalTrade) {
+      closeTrade(finalTrade, historicalData[historicalData.length - 1], 'end_of_data');
     }
     
     // Calculate performance metrics
@@ -416,6 +1004,10 @@ class BacktestingService {
     
     const totalReturn = currentCapital - initialCapital;
     const totalReturnPercent = (totalReturn / initialCapital) * 100;
+    const totalCommission = closedTrades.reduce((sum, t) => sum + t.commission, 0);
+    const totalSpreadCost = closedTrades.reduce((sum, t) => sum + t.spreadCost, 0);
+    const totalSlippageCost = closedTrades.reduce((sum, t) => sum + t.slippageCost, 0);
+    const grossReturn = totalReturn + totalCommission + totalSpreadCost + totalSlippageCost;
     
     const wins = winningTrades.map(t => t.pnl || 0);
     const losses = losingTrades.map(t => Math.abs(t.pnl || 0));
@@ -423,13 +1015,14 @@ class BacktestingService {
     const avgWin = wins.length > 0 ? wins.reduce((a, b) => a + b, 0) / wins.length : 0;
     const avgLoss = losses.length > 0 ? losses.reduce((a, b) => a + b, 0) / losses.length : 0;
     
-    // Calculate max drawdown
-    let peak = initialCapital;
-    let maxDrawdown = 0;
-    equity.forEach(point => {
-      if (point.value > peak) peak = point.value;
-      const drawdown = (peak - point.value) / peak * 100;
-      if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+    const orderedQuantity = orders.reduce((sum, o) => sum + o.quantity, 0);
+    const filledQuantity = orders.reduce((sum, o) => sum + o.filledQuantity, 0);
+    
+    const statistics = calculatePerformanceStatistics({
+      equity,
+      trades: closedTrades.map(t => ({ entryDate: t.entryDate, exitDate: t.exitDate, pnl: t.pnl || 0 })),
+      initialCapital,
+      periodMs: TIMEFRAME_MS[config.timeframe]
     });
     
     return {
@@ -439,10 +1032,12 @@ class BacktestingService {
         parameters
       },
       period: {
-        startDate: historicalData[0].date,
+        startDate: historicalData[Math.min(warmupBars, historicalData.length - 1)].date,
         endDate: historicalData[historicalData.length - 1].date,
-        symbol
+        symbol,
+        timeframe: config.timeframe
       },
+      initialCapital,
       trades: closedTrades,
       performance: {
         totalTrades: closedTrades.length,
@@ -451,38 +1046,46 @@ class BacktestingService {
         winRate: closedTrades.length > 0 ? (winningTrades.length / closedTrades.length) * 100 : 0,
         totalReturn,
         totalReturnPercent,
-        maxDrawdown,
-        sharpeRatio: 0, // Simplified for demo
-        profitFactor: avgLoss > 0 ? avgWin / avgLoss : 0,
+        grossReturn,
+        totalCommission,
+        totalSpreadCost,
+        totalSlippageCost,
+        maxDrawdown: statistics.maxDrawdown,
+        sharpeRatio: statistics.sharpeRatio,
+        profitFactor: statistics.profitFactor,
         avgWin,
-        avgLoss
+        avgLoss,
+        exitReasons: closedTrades.reduce((counts, t) => {
+          if (t.exitReason) counts[t.exitReason]++;
+          return counts;
+        }, { signal: 0, stop: 0, target: 0, end_of_data: 0 } as Record<ExitReason, number>),
+        fillRate: orderedQuantity > 0 ? (filledQuantity / orderedQuantity) * 100 : 100
       },
+      statistics,
+      orders,
       equity,
-      signals
+      signals,
+      dataQuality
     };
   }
 
   /**
-   * Run backtest and save results to database
+   * Run backtest and save results to database, linked to the saved strategy
+   * (and so its latest version) when one is given
    */
   async runBacktestWithStorage(
     userId: string,
     strategyName: string,
     templateId: string,
-    parameters: Record<string, any>,
-    symbol: string,
-    initialCapital: number,
-    historicalData?: HistoricalPrice[]
+    parameters: StrategyParameters,
+    config: BacktestConfig,
+    strategyId: string | null = null
   ): Promise<BacktestResult> {
     try {
-      // Use provided historical data or generate it
-      const data = historicalData || this.generateHistoricalData(symbol, 14);
-      
-      // Run the backtest
-      const result = this.runBacktest(strategyName, templateId, parameters, symbol, initialCapital);
+      const result = await this.runBacktest(strategyName, templateId, parameters, config);
       
       // Save results to database
-      await this.saveBacktestResults(userId, templateId, result);
+      await this.saveBacktestResults(userId, strategyId, result);
       
       return result;
     } catch (error) {
@@ -491,45 +1094,15 @@ class BacktestingService {
     }
   }
 
-  /**
-   * Get historical data from database or generate if not available
-   */
-  async getHistoricalData(symbol: string, days: number): Promise<HistoricalPrice[]> {
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(endDate.getDate() - days);
-
-    try {
-      // Try to get data from database first
-      const dbData = await databaseService.getMarketData(symbol, startDate, endDate);
-      
-      if (dbData.length > 0) {
-        console.log(`Found ${dbData.length} historical data points for ${symbol} in database`);
-        return dbData.map(d => ({
-          date: d.timestamp.toISOString().split('T')[0],
-          open: d.open,
-          high: d.high,
-          low: d.low,
-          close: d.close,
-          volume: d.volume,
-        }));
-      }
-    } catch (error) {
-      console.warn('Error fetching from database, using generated data:', error);
-    }
-
-    // Fall back to generated data
-    console.log(`Generating mock historical data for ${symbol}`);
-    return this.generateHistoricalData(symbol, days);
-  }
-
   /**
    * Save backtest results to database
    */
   async saveBacktestResults(
     userId: string,
     strategyId: string | null,
-    result: BacktestResult
+    result: BacktestResult,
+    optimizationId?: string,
+    walkForwardId?: string
   ): Promise<string> {
     try {
       const backtest = await databaseService.saveBacktest(
@@ -540,19 +1113,41 @@ class BacktestingService {
           symbol: result.period.symbol,
           startDate: new Date(result.period.startDate),
           endDate: new Date(result.period.endDate),
-          initialCapital: 10000, // Default initial capital
-          finalCapital: 10000 + result.performance.totalReturn,
+          initialCapital: result.initialCapital,
+          finalCapital: result.initialCapital + result.performance.totalReturn,
           totalReturn: result.performance.totalReturn,
           totalReturnPct: result.performance.totalReturnPercent,
-          maxDrawdown: result.performance.maxDrawdown,
-          maxDrawdownPct: (result.performance.maxDrawdown / 10000) * 100,
+          maxDrawdown: result.statistics.maxDrawdownAmount,
+          maxDrawdownPct: result.statistics.maxDrawdown,
+          maxDrawdownDays: result.statistics.maxDrawdownDurationDays,
           sharpeRatio: result.performance.sharpeRatio,
+          sortinoRatio: result.statistics.sortinoRatio,
+          calmarRatio: result.statistics.calmarRatio,
+          annualizedReturn: result.statistics.annualizedReturn,
+          annualizedVolatility: result.statistics.annualizedVolatility,
+          // SQLite cannot store Infinity (no losing trades)
+          profitFactor: Number.isFinite(result.statistics.profitFactor) ? result.statistics.profitFactor : null,
+          expectancy: result.statistics.expectancy,
+          exposureTime: result.statistics.exposureTime,
+          avgHoldingHours: result.statistics.averageHoldingHours,
+          statistics: JSON.stringify(result.statistics),
+          ...(result.benchmark && {
+            benchmark: result.benchmark.name,
+            benchmarkReturnPct: result.benchmark.benchmarkReturnPercent,
+            alpha: result.benchmark.alpha,
+            beta: result.benchmark.beta,
+            // The curve can be rebuilt from stored market data
+            benchmarkStatistics: JSON.stringify({ ...result.benchmark, equity: undefined }),
+          }),
           winRate: result.performance.winRate,
           totalTrades: result.performance.totalTrades,
           winningTrades: result.performance.winningTrades,
           losingTrades: result.performance.losingTrades,
           averageWin: result.performance.avgWin,
           averageLoss: result.performance.avgLoss,
+          parameters: JSON.stringify(result.strategy.parameters),
+          optimizationId,
+          walkForwardId,
           trades: result.trades.map(trade => ({
             entryDate: new Date(trade.entryDate),
             exitDate: trade.exitDate ? new Date(trade.exitDate) : undefined,
@@ -562,6 +1157,11 @@ class BacktestingService {
             type: trade.type,
             pnl: trade.pnl,
             pnlPercent: trade.pnlPercent,
+            grossPnl: trade.grossPnl,
+            commission: trade.commission,
+            spreadCost: trade.spreadCost,
+            slippageCost: trade.slippageCost,
+            exitReason: trade.exitReason,
             status: trade.status,
           })),
         }
@@ -575,6 +1175,223 @@ class BacktestingService {
     }
   }
 
+  /**
+   * List the candidate values of each swept parameter from its min/max/step,
+   * options or boolean states
+   */
+  buildParameterSpace(parameters: StrategyParameter[], sweep: string[]): Record<string, ParameterValue[]> {
+    const space: Record<string, ParameterValue[]> = {};
+
+    for (const parameter of parameters) {
+      if (!sweep.includes(parameter.name)) continue;
+
+      switch (parameter.type) {
+        case 'number': {
+          const min = parameter.min ?? parameter.value;
+          const max = parameter.max ?? parameter.value;
+          const step = parameter.step || 1;
+          const values: number[] = [];
+          // Round to the step's precision to avoid float drift (e.g. 0.1 steps)
+          const decimals = (step.toString().split('.')[1] || '').length;
+          for (let value = min; value <= max + step / 2; value += step) {
+            values.push(Number(value.toFixed(decimals)));
+          }
+          space[parameter.name] = values;
+          break;
+        }
+        case 'boolean':
+          space[parameter.name] = [true, false];
+          break;
+        case 'select':
+        case 'timeframe':
+          space[parameter.name] = parameter.options?.length ? [...parameter.options] : [parameter.value];
+          break;
+        default:
+          space[parameter.name] = [parameter.value];
+      }
+    }
+
+    return space;
+  }
+
+  /**
+   * Pick the parameter combinations to evaluate: the full grid (thinned evenly
+   * when it exceeds the budget) or a random sample of distinct grid points
+   */
+  sampleParameterSets(
+    parameters: StrategyParameter[],
+    space: Record<string, ParameterValue[]>,
+    method: OptimizationMethod,
+    maxRuns: number
+  ): StrategyParameters[] {
+    const base = parameters.reduce((acc, param) => {
+      acc[param.name] = param.value;
+      return acc;
+    }, {} as StrategyParameters);
+
+    const names = Object.keys(space);
+    const total = names.reduce((product, name) => product * space[name].length, 1);
+    const budget = Math.max(1, Math.min(maxRuns, total));
+
+    // Decode a flat grid index into one value per swept parameter
+    const combinationAt = (index: number): StrategyParameters => {
+      const combination = { ...base };
+      let remainder = index;
+      for (let i = names.length - 1; i >= 0; i--) {
+        const values = space[names[i]];
+        combination[names[i]] = values[remainder % values.length];
+        remainder = Math.floor(remainder / values.length);
+      }
+      return combination;
+    };
+
+    if (method === 'grid') {
+      return thinnedGrid(names.map(name => space[name].length), budget).map(positions =>
+        names.reduce((combination, name, i) => {
+          combination[name] = space[name][positions[i]];
+          return combination;
+        }, { ...base })
+      );
+    }
+
+    const chosen = new Set<number>();
+    while (chosen.size < budget) {
+      chosen.add(Math.floor(Math.random() * total));
+    }
+    return Array.from(chosen).map(combinationAt);
+  }
+
+  /**
+   * Score a backtest for the chosen objective; higher is always better
+   */
+  scoreBacktest(result: BacktestResult, objective: OptimizationObjective): number {
+    switch (objective) {
+      case 'netReturn':
+        return result.performance.totalReturnPercent;
+      case 'sharpe':
+        return result.performance.sharpeRatio;
+      case 'maxDrawdown':
+        return -result.performance.maxDrawdown;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Sweep a template's parameter space over one data set and rank the runs
+   */
+  async optimizeParameters(
+    strategyName: string,
+    templateId: string,
+    parameters: StrategyParameter[],
+    sweep: string[],
+    config: BacktestConfig,
+    options: OptimizationOptions
+  ): Promise<OptimizationResult> {
+    if (sweep.length === 0) {
+      throw new Error('Select at least one parameter to optimize');
+    }
+
+    // Load once; every run is evaluated on identical bars
+    const { data, quality } = await this.loadHistoricalData(config);
+    return this.optimizeOnData(strategyName, templateId, parameters, sweep, data, config, quality, options);
+  }
+
+  /**
+   * Sweep a template's parameter space over already loaded bars
+   */
+  async optimizeOnData(
+    strategyName: string,
+    templateId: string,
+    parameters: StrategyParameter[],
+    sweep: string[],
+    data: HistoricalPrice[],
+    config: BacktestConfig,
+    quality: DataQualityReport,
+    options: OptimizationOptions
+  ): Promise<OptimizationResult> {
+    const space = this.buildParameterSpace(parameters, sweep);
+    const totalCombinations = Object.values(space).reduce((product, values) => product * values.length, 1);
+    const parameterSets = this.sampleParameterSets(parameters, space, options.method, options.maxRuns);
+
+    const runs: OptimizationRun[] = [];
+    for (let i = 0; i < parameterSets.length; i++) {
+      const result = this.simulateBacktest(strategyName, templateId, parameterSets[i], data, config, quality);
+      runs.push({
+        rank: 0,
+        parameters: parameterSets[i],
+        score: this.scoreBacktest(result, options.objective),
+        result
+      });
+
+      options.onProgress?.(i + 1, parameterSets.length);
+      // Yield so the UI stays responsive during long sweeps
+      if (i % 10 === 9) await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    runs.sort((a, b) => b.score - a.score);
+    runs.forEach((run, index) => {
+      run.rank = index + 1;
+    });
+
+    return {
+      templateId,
+      method: options.method,
+      objective: options.objective,
+      sweptParameters: Object.keys(space),
+      totalCombinations,
+      runs,
+      best: runs[0] || null
+    };
+  }
+
+  /**
+   * Run an optimization and store every run as a Backtest linked to one
+   * BacktestOptimization row
+   */
+  async optimizeParametersWithStorage(
+    userId: string,
+    strategyName: string,
+    templateId: string,
+    parameters: StrategyParameter[],
+    sweep: string[],
+    config: BacktestConfig,
+    options: OptimizationOptions,
+    strategyId: string | null = null
+  ): Promise<OptimizationResult> {
+    try {
+      const optimization = await this.optimizeParameters(strategyName, templateId, parameters, sweep, config, options);
+      const space = this.buildParameterSpace(parameters, sweep);
+
+      const saved = await databaseService.saveBacktestOptimization(userId, {
+        templateId,
+        symbol: config.symbol,
+        method: optimization.method,
+        objective: optimization.objective,
+        parameterSpace: JSON.stringify(space),
+        startDate: config.startDate,
+        endDate: config.endDate,
+        totalRuns: optimization.runs.length,
+      });
+      optimization.optimizationId = saved.id;
+
+      for (const run of optimization.runs) {
+        run.backtestId = await this.saveBacktestResults(userId, strategyId, run.result, saved.id);
+      }
+
+      if (optimization.best?.backtestId) {
+        await databaseService.updateBacktestOptimization(saved.id, {
+          bestBacktestId: optimization.best.backtestId,
+        });
+      }
+
+      return optimization;
+    } catch (error) {
+      console.error('Error running optimization with storage:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get backtest history for a user
    */
@@ -0,0 +1,184 @@
+// Relative performance of an equity curve against a benchmark curve
+import { DAY_MS, EquityPoint } from './performanceStatistics';
+
+export interface BenchmarkComponent {
+  symbol: string;
+  weight: number; // percent of the basket
+}
+
+export interface BenchmarkConfig {
+  type: 'buy_and_hold' | 'basket'; // buy-and-hold uses the first component only
+  components: BenchmarkComponent[];
+}
+
+export interface BenchmarkComparison {
+  name: string; // e.g. "BTCUSD" or "BTCUSD 60% / ETHUSD 40%"
+  equity: EquityPoint[]; // benchmark scaled to the strategy's starting value, on the strategy's dates
+  benchmarkReturnPercent: number;
+  excessReturnPercent: number; // strategy total return less the benchmark's
+  alpha: number; // annualized Jensen's alpha, percent
+  beta: number;
+  correlation: number;
+  trackingError: number; // annualized, percent
+  informationRatio: number;
+  upCapture: number; // percent of the benchmark's up-period return captured
+  downCapture: number; // percent of the benchmark's down-period return suffered
+  periods: number; // paired returns the ratios are based on
+}
+
+export const DEFAULT_BENCHMARK: BenchmarkConfig = {
+  type: 'buy_and_hold',
+  components: [{ symbol: 'BTCUSD', weight: 100 }],
+};
+
+const YEAR_MS = 365 * DAY_MS;
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const covariance = (a: number[], b: number[]) => {
+  if (a.length < 2) return 0;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, value, i) => sum + (value - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+};
+
+// Geometric average per-period return
+const geometricMean = (returns: number[]) =>
+  returns.length > 0
+    ? Math.pow(returns.reduce((growth, r) => growth * (1 + r), 1), 1 / returns.length) - 1
+    : 0;
+
+/**
+ * Components actually used by a benchmark, with weights normalized to sum to 1
+ */
+export const benchmarkWeights = (benchmark: BenchmarkConfig): BenchmarkComponent[] => {
+  const components = benchmark.type === 'buy_and_hold'
+    ? benchmark.components.slice(0, 1).map(c => ({ symbol: c.symbol, weight: 100 }))
+    : benchmark.components.filter(c => c.symbol && c.weight > 0);
+  const total = components.reduce((sum, c) => sum + c.weight, 0);
+  return total > 0 ? components.map(c => ({ symbol: c.symbol, weight: c.weight / total })) : [];
+};
+
+/**
+ * Display name for a benchmark
+ */
+export const benchmarkName = (benchmark: BenchmarkConfig): string =>
+  benchmarkWeights(benchmark)
+    .map(c => (benchmark.type === 'buy_and_hold' ? c.symbol : `${c.symbol} ${(c.weight * 100).toFixed(0)}%`))
+    .join(' / ');
+
+/**
+ * Check a benchmark before loading any prices
+ */
+export const validateBenchmark = (benchmark: BenchmarkConfig): string | null => {
+  const components = benchmarkWeights(benchmark);
+  if (components.length === 0) return 'Choose at least one benchmark symbol with a positive weight';
+  const symbols = new Set(components.map(c => c.symbol));
+  if (symbols.size !== components.length) return 'Each basket symbol can only appear once';
+  return null;
+};
+
+/**
+ * Benchmark equity on the given dates, starting at initialValue. A basket is
+ * rebalanced to its fixed weights every period; a component with no price on a
+ * date is carried at its last close
+ */
+export const buildBenchmarkEquity = (
+  components: Array<{ weight: number; closes: Map<string, number> }>,
+  dates: string[],
+  initialValue: number
+): EquityPoint[] => {
+  const lastClose: Array<number | undefined> = components.map(() => undefined);
+  let value = initialValue;
+
+  return dates.map(date => {
+    let periodReturn = 0;
+    components.forEach((component, i) => {
+      const close = component.closes.get(date);
+      if (close === undefined) return;
+      const previous = lastClose[i];
+      if (previous !== undefined && previous > 0) {
+        periodReturn += component.weight * (close / previous - 1);
+      }
+      lastClose[i] = close;
+    });
+    value *= 1 + periodReturn;
+    return { date, value };
+  });
+};
+
+/**
+ * Alpha, beta, correlation, tracking error, information ratio and capture
+ * ratios of a strategy curve against a benchmark curve sampled every periodMs.
+ * Only dates present in both curves are compared
+ */
+export const calculateBenchmarkComparison = (
+  strategy: EquityPoint[],
+  benchmark: EquityPoint[],
+  periodMs: number,
+  name: string,
+  riskFreeRate: number = 0
+): BenchmarkComparison => {
+  const benchmarkByDate = new Map(benchmark.map(point => [point.date, point.value]));
+  const paired = strategy
+    .filter(point => benchmarkByDate.has(point.date))
+    .map(point => ({ date: point.date, strategy: point.value, benchmark: benchmarkByDate.get(point.date)! }));
+
+  const strategyReturns: number[] = [];
+  const benchmarkReturns: number[] = [];
+  for (let i = 1; i < paired.length; i++) {
+    if (paired[i - 1].strategy > 0 && paired[i - 1].benchmark > 0) {
+      strategyReturns.push(paired[i].strategy / paired[i - 1].strategy - 1);
+      benchmarkReturns.push(paired[i].benchmark / paired[i - 1].benchmark - 1);
+    }
+  }
+
+  const totalReturn = (series: number[]) =>
+    series.length > 1 && series[0] > 0 ? (series[series.length - 1] / series[0] - 1) * 100 : 0;
+  const strategyReturnPercent = totalReturn(paired.map(p => p.strategy));
+  const benchmarkReturnPercent = totalReturn(paired.map(p => p.benchmark));
+
+  const periodsPerYear = YEAR_MS / periodMs;
+  const riskFreePerPeriod = riskFreeRate / 100 / periodsPerYear;
+  const benchmarkVariance = covariance(benchmarkReturns, benchmarkReturns);
+  const strategyVariance = covariance(strategyReturns, strategyReturns);
+  const cov = covariance(strategyReturns, benchmarkReturns);
+
+  const beta = benchmarkVariance > 0 ? cov / benchmarkVariance : 0;
+  const alpha = (mean(strategyReturns) - riskFreePerPeriod - beta * (mean(benchmarkReturns) - riskFreePerPeriod))
+    * periodsPerYear * 100;
+  const correlation = benchmarkVariance > 0 && strategyVariance > 0
+    ? cov / Math.sqrt(benchmarkVariance * strategyVariance)
+    : 0;
+
+  const activeReturns = strategyReturns.map((r, i) => r - benchmarkReturns[i]);
+  const activeDeviation = Math.sqrt(covariance(activeReturns, activeReturns));
+  const trackingError = activeDeviation * Math.sqrt(periodsPerYear) * 100;
+  const informationRatio = activeDeviation > 0
+    ? (mean(activeReturns) / activeDeviation) * Math.sqrt(periodsPerYear)
+    : 0;
+
+  const capture = (select: (benchmarkReturn: number) => boolean) => {
+    const indexes = benchmarkReturns.map((r, i) => (select(r) ? i : -1)).filter(i => i >= 0);
+    const benchmarkAverage = geometricMean(indexes.map(i => benchmarkReturns[i]));
+    return benchmarkAverage !== 0
+      ? (geometricMean(indexes.map(i => strategyReturns[i])) / benchmarkAverage) * 100
+      : 0;
+  };
+
+  return {
+    name,
+    equity: benchmark,
+    benchmarkReturnPercent,
+    excessReturnPercent: strategyReturnPercent - benchmarkReturnPercent,
+    alpha,
+    beta,
+    correlation,
+    trackingError,
+    informationRatio,
+    upCapture: capture(r => r > 0),
+    downCapture: capture(r => r < 0),
+    periods: strategyReturns.length,
+  };
+};
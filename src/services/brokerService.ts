@@ -0,0 +1,172 @@
+// Routes broker calls to Alpaca or the paper broker, per the user's settings
+import { Order, Position, Account } from '../store/slices/types';
+import { alpacaService, AlpacaPortfolioHistory, CreateOrderRequest, ModifyOrderRequest } from './alpacaService';
+import { DEFAULT_PAPER_SETTINGS, PaperBroker, PaperBrokerSettings } from './paperBroker';
+import userPreferencesService, { UserPreferences } from './userPreferencesService';
+import { webSocketService } from './websocketService';
+
+export type BrokerKind = 'alpaca' | 'paper';
+
+/**
+ * The trading surface shared by Alpaca and the paper broker
+ */
+export interface BrokerService {
+  getAccount(): Promise<Account>;
+  getOrders(status?: 'open' | 'closed' | 'all', limit?: number): Promise<Order[]>;
+  getOrder(orderId: string): Promise<Order>;
+  createOrder(orderData: CreateOrderRequest): Promise<Order>;
+  modifyOrder(orderId: string, modifications: ModifyOrderRequest): Promise<Order>;
+  cancelOrder(orderId: string): Promise<void>;
+  cancelAllOrders(): Promise<void>;
+  // Whether the broker links bracket or OCO legs itself for this symbol
+  supportsOrderClass(orderClass: 'bracket' | 'oco', symbol: string): boolean;
+  getPositions(): Promise<Position[]>;
+  getPosition(symbol: string): Promise<Position>;
+  closePosition(symbol: string, qty?: string, percentage?: string): Promise<Order>;
+  closeAllPositions(): Promise<Order[]>;
+  getPortfolioHistory(
+    period?: '1D' | '1W' | '1M' | '3M' | '1A' | 'all',
+    timeframe?: '1Min' | '5Min' | '15Min' | '1H' | '1D'
+  ): Promise<AlpacaPortfolioHistory>;
+}
+
+class BrokerRouter implements BrokerService {
+  private kind: BrokerKind = 'alpaca';
+  private paper: PaperBroker | null = null;
+  private orderListeners: Set<() => void> = new Set();
+  private stopTradeUpdates: (() => void) | null = null;
+
+  private get active(): BrokerService {
+    return this.kind === 'paper' && this.paper ? this.paper : alpacaService;
+  }
+
+  getKind(): BrokerKind {
+    return this.kind;
+  }
+
+  /** The paper broker, while it is the selected broker */
+  getPaperBroker(): PaperBroker | null {
+    return this.kind === 'paper' ? this.paper : null;
+  }
+
+  /**
+   * Selects the broker saved in a user's preferences. When they can't be
+   * read it falls back to the paper broker, never the live account, and
+   * rejects so the caller can say so
+   */
+  async useForUser(userId: string): Promise<BrokerKind> {
+    let preferences: UserPreferences | null;
+    try {
+      preferences = await userPreferencesService.readUserPreferences(userId);
+    } catch (error) {
+      this.select(userId, 'paper');
+      throw error;
+    }
+    this.select(userId, preferences?.broker ?? 'alpaca', {
+      latencyMs: preferences?.paperLatencyMs ?? DEFAULT_PAPER_SETTINGS.latencyMs,
+      slippageBps: preferences?.paperSlippageBps ?? DEFAULT_PAPER_SETTINGS.slippageBps,
+      startingCash: preferences?.defaultCapital ?? DEFAULT_PAPER_SETTINGS.startingCash,
+    });
+    return this.kind;
+  }
+
+  select(userId: string, kind: BrokerKind, settings: Partial<PaperBrokerSettings> = {}): void {
+    this.kind = kind;
+    if (kind !== 'paper') return;
+
+    if (this.paper?.userId === userId) {
+      this.paper.configure(settings);
+    } else {
+      this.paper?.dispose();
+      this.paper = new PaperBroker(userId, { ...DEFAULT_PAPER_SETTINGS, ...settings });
+      this.paper.onOrdersChanged(() => this.emitOrdersChanged());
+    }
+  }
+
+  /**
+   * Calls `listener` when the selected broker reports order activity: paper
+   * fills, or Alpaca trade updates while its stream is connected
+   */
+  onOrdersChanged(listener: () => void): () => void {
+    this.orderListeners.add(listener);
+    if (!this.stopTradeUpdates) {
+      this.stopTradeUpdates = webSocketService.subscribeToTradeUpdates(() => {
+        if (this.kind === 'alpaca') this.emitOrdersChanged();
+      });
+    }
+    return () => {
+      this.orderListeners.delete(listener);
+      if (this.orderListeners.size === 0 && this.stopTradeUpdates) {
+        this.stopTradeUpdates();
+        this.stopTradeUpdates = null;
+      }
+    };
+  }
+
+  private emitOrdersChanged(): void {
+    this.orderListeners.forEach(listener => listener());
+  }
+
+  /** Feeds a price to the paper broker; a no-op while Alpaca is selected */
+  updatePrice(symbol: string, price: number, timestamp?: number): void {
+    this.getPaperBroker()?.updatePrice(symbol, price, timestamp);
+  }
+
+  getAccount() {
+    return this.active.getAccount();
+  }
+
+  getOrders(status?: 'open' | 'closed' | 'all', limit?: number) {
+    return this.active.getOrders(status, limit);
+  }
+
+  getOrder(orderId: string) {
+    return this.active.getOrder(orderId);
+  }
+
+  createOrder(orderData: CreateOrderRequest) {
+    return this.active.createOrder(orderData);
+  }
+
+  modifyOrder(orderId: string, modifications: ModifyOrderRequest) {
+    return this.active.modifyOrder(orderId, modifications);
+  }
+
+  cancelOrder(orderId: string) {
+    return this.active.cancelOrder(orderId);
+  }
+
+  cancelAllOrders() {
+    return this.active.cancelAllOrders();
+  }
+
+  supportsOrderClass(orderClass: 'bracket' | 'oco', symbol: string) {
+    return this.active.supportsOrderClass(orderClass, symbol);
+  }
+
+  getPositions() {
+    return this.active.getPositions();
+  }
+
+  getPosition(symbol: string) {
+    return this.active.getPosition(symbol);
+  }
+
+  closePosition(symbol: string, qty?: string, percentage?: string) {
+    return this.active.closePosition(symbol, qty, percentage);
+  }
+
+  closeAllPositions() {
+    return this.active.closeAllPositions();
+  }
+
+  getPortfolioHistory(
+    period?: '1D' | '1W' | '1M' | '3M' | '1A' | 'all',
+    timeframe?: '1Min' | '5Min' | '15Min' | '1H' | '1D'
+  ) {
+    return this.active.getPortfolioHistory(period, timeframe);
+  }
+}
+
+// Export singleton instance
+export const brokerService = new BrokerRouter();
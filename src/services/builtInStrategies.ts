@@ -0,0 +1,249 @@
+// Strategies that ship with the app, as plugins for the strategy registry
+import { StrategySignal } from '../store/slices/strategiesSlice';
+import { bollingerIndicatorName, macdIndicatorName } from './indicatorCache';
+import {
+  createStreamingMovingAverage,
+  StreamingBollingerBands,
+  StreamingIndicator,
+  StreamingMACD,
+  StreamingRSI,
+  StreamingSMA,
+} from './streamingIndicators';
+import { MovingAverageType } from './technicalIndicators';
+import { barsPerTimeframe, STRATEGY_TIMEFRAMES } from './multiTimeframe';
+import { ruleBasedStrategy } from './ruleStrategy';
+import { StrategyBar, StrategyContext, StrategyInstance, StrategyIntent, StrategyPlugin } from './strategyRegistry';
+
+type BarRules = (bar: StrategyBar, context: StrategyContext, commit: boolean) => StrategyIntent[];
+
+const step = <TInput, TOutput>(
+  indicator: StreamingIndicator<TInput, TOutput>,
+  input: TInput,
+  commit: boolean
+): TOutput => (commit ? indicator.update(input) : indicator.preview(input));
+
+const intent = (signal: StrategySignal, reason: string): StrategyIntent[] =>
+  signal === 'none' ? [] : [{ action: signal, reason }];
+
+/**
+ * An instance whose completed and forming bars share one set of rules
+ */
+const fromRules = (rules: BarRules): StrategyInstance => ({
+  onBar: (bar, context) => rules(bar, context, true),
+  preview: (bar, context) => rules(bar, context, false),
+});
+
+const rsiOversold: StrategyPlugin<{ rsiPeriod?: number; oversoldLevel?: number; overboughtLevel?: number }> = {
+  id: 'rsi-oversold',
+  name: 'RSI Oversold/Overbought',
+  description: 'Generates signals based on RSI levels indicating oversold or overbought conditions',
+  category: 'technical',
+  parameters: [
+    { name: 'rsiPeriod', type: 'number', value: 14, min: 5, max: 50, step: 1, description: 'RSI calculation period' },
+    { name: 'oversoldLevel', type: 'number', value: 30, min: 10, max: 40, step: 1, description: 'RSI oversold threshold' },
+    { name: 'overboughtLevel', type: 'number', value: 70, min: 60, max: 90, step: 1, description: 'RSI overbought threshold' },
+  ],
+  warmupBars: ({ rsiPeriod = 14 }) => rsiPeriod + 1,
+  create: parameters => {
+    const { rsiPeriod = 14, oversoldLevel = 30, overboughtLevel = 70 } = parameters;
+    const rsi = new StreamingRSI(rsiPeriod);
+
+    return fromRules((bar, context, commit) => {
+      const computed = step(rsi, bar.close, commit);
+      const value = context.indicator('rsi', rsiPeriod) ?? computed;
+      if (value < oversoldLevel) return intent('buy', `RSI ${value.toFixed(1)} below ${oversoldLevel}`);
+      if (value > overboughtLevel) return intent('short', `RSI ${value.toFixed(1)} above ${overboughtLevel}`);
+      return [];
+    });
+  },
+};
+
+const movingAverageCrossover: StrategyPlugin<{ fastPeriod?: number; slowPeriod?: number; maType?: MovingAverageType }> = {
+  id: 'moving-average-crossover',
+  name: 'Moving Average Crossover',
+  description: 'Generates signals when fast MA crosses above or below slow MA',
+  category: 'technical',
+  parameters: [
+    { name: 'fastPeriod', type: 'number', value: 10, min: 5, max: 50, step: 1, description: 'Fast moving average period' },
+    { name: 'slowPeriod', type: 'number', value: 30, min: 20, max: 200, step: 1, description: 'Slow moving average period' },
+    { name: 'maType', type: 'select', value: 'sma', options: ['sma', 'ema', 'wma'], description: 'Moving average type' },
+  ],
+  warmupBars: ({ fastPeriod = 10, slowPeriod = 30 }) => Math.max(fastPeriod, slowPeriod) + 1,
+  create: parameters => {
+    const { fastPeriod = 10, slowPeriod = 30, maType = 'sma' } = parameters;
+    const fastMA = createStreamingMovingAverage(fastPeriod, maType);
+    const slowMA = createStreamingMovingAverage(slowPeriod, maType);
+    let previousFast = NaN;
+    let previousSlow = NaN;
+
+    return fromRules((bar, context, commit) => {
+      const fastComputed = step(fastMA, bar.close, commit);
+      const slowComputed = step(slowMA, bar.close, commit);
+      const fast = context.indicator(maType, fastPeriod) ?? fastComputed;
+      const slow = context.indicator(maType, slowPeriod) ?? slowComputed;
+      const crossedAbove = fast > slow && previousFast <= previousSlow;
+      const crossedBelow = fast < slow && previousFast >= previousSlow;
+      if (commit) {
+        previousFast = fast;
+        previousSlow = slow;
+      }
+
+      if (crossedAbove) return intent('buy', `${maType.toUpperCase()} ${fastPeriod} crossed above ${slowPeriod}`);
+      if (crossedBelow) return intent('short', `${maType.toUpperCase()} ${fastPeriod} crossed below ${slowPeriod}`);
+      return [];
+    });
+  },
+};
+
+const bollingerBandsBreakout: StrategyPlugin<{ period?: number; standardDeviations?: number; breakoutConfirmation?: boolean }> = {
+  id: 'bollinger-bands',
+  name: 'Bollinger Bands Breakout',
+  description: 'Generates signals when price breaks above or below Bollinger Bands',
+  category: 'technical',
+  parameters: [
+    { name: 'period', type: 'number', value: 20, min: 10, max: 50, step: 1, description: 'Bollinger Bands period' },
+    { name: 'standardDeviations', type: 'number', value: 2, min: 1, max: 3, step: 0.1, description: 'Standard deviations' },
+    { name: 'breakoutConfirmation', type: 'boolean', value: true, description: 'Require volume confirmation' },
+  ],
+  // Confirmation compares volume with the average of the bars before it
+  warmupBars: ({ period = 20, breakoutConfirmation = false }) => (breakoutConfirmation ? period + 1 : period),
+  create: parameters => {
+    const { period = 20, standardDeviations = 2, breakoutConfirmation = false } = parameters;
+    const bands = new StreamingBollingerBands(period, standardDeviations);
+    const averageVolume = new StreamingSMA(period);
+
+    return fromRules((bar, context, commit) => {
+      const priorAverageVolume = averageVolume.value;
+      step(averageVolume, bar.volume, commit);
+      const band = step(bands, bar.close, commit);
+      const upper = context.indicator(bollingerIndicatorName('upper', standardDeviations), period) ?? band.upper;
+      const lower = context.indicator(bollingerIndicatorName('lower', standardDeviations), period) ?? band.lower;
+
+      // With confirmation, only trade band breaks on above-average volume
+      if (breakoutConfirmation && !(bar.volume > priorAverageVolume)) return [];
+      if (bar.close > upper) return intent('short', `Close above upper band ${upper.toFixed(2)}`);
+      if (bar.close < lower) return intent('buy', `Close below lower band ${lower.toFixed(2)}`);
+      return [];
+    });
+  },
+};
+
+const macdMomentum: StrategyPlugin<{ fastPeriod?: number; slowPeriod?: number; signalPeriod?: number }> = {
+  id: 'macd-momentum',
+  name: 'MACD Momentum',
+  description: 'Generates signals based on MACD line and signal line crossover',
+  category: 'momentum',
+  parameters: [
+    { name: 'fastPeriod', type: 'number', value: 12, min: 5, max: 30, step: 1, description: 'MACD fast EMA period' },
+    { name: 'slowPeriod', type: 'number', value: 26, min: 15, max: 50, step: 1, description: 'MACD slow EMA period' },
+    { name: 'signalPeriod', type: 'number', value: 9, min: 5, max: 20, step: 1, description: 'MACD signal line period' },
+  ],
+  warmupBars: ({ fastPeriod = 12, slowPeriod = 26, signalPeriod = 9 }) => Math.max(fastPeriod, slowPeriod) + signalPeriod,
+  create: parameters => {
+    const { fastPeriod = 12, slowPeriod = 26, signalPeriod = 9 } = parameters;
+    const macd = new StreamingMACD(fastPeriod, slowPeriod, signalPeriod);
+    let previous = NaN;
+
+    return fromRules((bar, context, commit) => {
+      const computed = step(macd, bar.close, commit).histogram;
+      const histogram = context.indicator(macdIndicatorName('histogram', fastPeriod, signalPeriod), slowPeriod) ?? computed;
+      const crossedUp = histogram > 0 && previous <= 0;
+      const crossedDown = histogram < 0 && previous >= 0;
+      if (commit) previous = histogram;
+
+      // MACD line crossing its signal line
+      if (crossedUp) return intent('buy', 'MACD crossed above its signal line');
+      if (crossedDown) return intent('short', 'MACD crossed below its signal line');
+      return [];
+    });
+  },
+};
+
+const volumeSpike: StrategyPlugin<{ volumeMultiplier?: number; priceChangeThreshold?: number; lookbackPeriod?: number }> = {
+  id: 'volume-spike',
+  name: 'Volume Spike Strategy',
+  description: 'Generates signals when unusual volume spikes occur with price movement',
+  category: 'technical',
+  parameters: [
+    { name: 'volumeMultiplier', type: 'number', value: 2, min: 1.5, max: 5, step: 0.1, description: 'Volume spike multiplier' },
+    { name: 'priceChangeThreshold', type: 'number', value: 2, min: 0.5, max: 10, step: 0.1, description: 'Minimum price change %' },
+    { name: 'lookbackPeriod', type: 'number', value: 20, min: 10, max: 50, step: 1, description: 'Volume average lookback period' },
+  ],
+  warmupBars: ({ lookbackPeriod = 20 }) => lookbackPeriod + 1,
+  create: parameters => {
+    const { volumeMultiplier = 2, priceChangeThreshold = 2, lookbackPeriod = 20 } = parameters;
+    const averageVolume = new StreamingSMA(lookbackPeriod);
+    let previousClose = NaN;
+
+    return fromRules((bar, _context, commit) => {
+      // Compare each bar with the average of the bars before it
+      const priorAverageVolume = averageVolume.value;
+      const priceChange = ((bar.close - previousClose) / previousClose) * 100;
+      step(averageVolume, bar.volume, commit);
+      if (commit) previousClose = bar.close;
+
+      const volumeSpike = bar.volume > priorAverageVolume * volumeMultiplier;
+      if (!volumeSpike || !(Math.abs(priceChange) >= priceChangeThreshold)) return [];
+      return intent(priceChange > 0 ? 'buy' : 'short', `Volume spike with ${priceChange.toFixed(2)}% move`);
+    });
+  },
+};
+
+const multiTimeframeTrend: StrategyPlugin<{
+  trendTimeframe?: string;
+  trendPeriod?: number;
+  rsiPeriod?: number;
+  oversoldLevel?: number;
+  overboughtLevel?: number;
+}> = {
+  id: 'multi-timeframe-trend',
+  name: 'Multi-Timeframe Trend Filter',
+  description: 'Trades RSI pullbacks in the direction of a moving average trend on a higher timeframe',
+  category: 'technical',
+  parameters: [
+    { name: 'timeframe', type: 'timeframe', value: '1h', options: STRATEGY_TIMEFRAMES, description: 'Entry bar size for live signals; backtests use the selected timeframe' },
+    { name: 'trendTimeframe', type: 'timeframe', value: '1d', options: STRATEGY_TIMEFRAMES, description: 'Higher timeframe for the trend filter' },
+    { name: 'trendPeriod', type: 'number', value: 50, min: 5, max: 200, step: 1, description: 'Trend moving average period, in trend bars' },
+    { name: 'rsiPeriod', type: 'number', value: 14, min: 5, max: 50, step: 1, description: 'RSI calculation period' },
+    { name: 'oversoldLevel', type: 'number', value: 30, min: 10, max: 40, step: 1, description: 'RSI level for long entries in an uptrend' },
+    { name: 'overboughtLevel', type: 'number', value: 70, min: 60, max: 90, step: 1, description: 'RSI level for short entries in a downtrend' },
+  ],
+  warmupBars: ({ trendTimeframe = '1d', trendPeriod = 50, rsiPeriod = 14 }, timeframe) =>
+    Math.max(rsiPeriod + 1, (trendPeriod + 1) * barsPerTimeframe(trendTimeframe, timeframe)),
+  create: parameters => {
+    const { trendTimeframe = '1d', trendPeriod = 50, rsiPeriod = 14, oversoldLevel = 30, overboughtLevel = 70 } = parameters;
+    const rsi = new StreamingRSI(rsiPeriod);
+    const trendAverage = new StreamingSMA(trendPeriod);
+    // Set from completed trend bars only, so entries never see a forming one
+    let trend: 'up' | 'down' | null = null;
+
+    return {
+      ...fromRules((bar, context, commit) => {
+        const value = step(rsi, bar.close, commit);
+        if (!trend) return [];
+
+        const side = context.position?.side;
+        if (side === 'long' && trend === 'down') return intent('sell', `${trendTimeframe} trend turned down`);
+        if (side === 'short' && trend === 'up') return intent('cover', `${trendTimeframe} trend turned up`);
+        if (trend === 'up' && value < oversoldLevel) return intent('buy', `RSI ${value.toFixed(1)} pullback in ${trendTimeframe} uptrend`);
+        if (trend === 'down' && value > overboughtLevel) return intent('short', `RSI ${value.toFixed(1)} rally in ${trendTimeframe} downtrend`);
+        return [];
+      }),
+      onTimeframeBar: (timeframe, bar) => {
+        if (timeframe !== trendTimeframe) return;
+        const average = trendAverage.update(bar.close);
+        trend = Number.isNaN(average) ? null : bar.close > average ? 'up' : 'down';
+      },
+    };
+  },
+};
+
+export const BUILT_IN_STRATEGIES: StrategyPlugin[] = [
+  rsiOversold,
+  movingAverageCrossover,
+  bollingerBandsBreakout,
+  macdMomentum,
+  volumeSpike,
+  multiTimeframeTrend,
+  ruleBasedStrategy,
+];
@@ -1,4 +1,5 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { DAY_MS } from './performanceStatistics';
 
 class DatabaseService {
   private static instance: DatabaseService;
@@ -51,10 +52,12 @@ class DatabaseService {
     confidence?: number;
     price: number;
     timestamp: Date;
+    strategyVersionId?: string;
   }) {
     return await this.prisma.tradingSignal.create({
       data: {
         ...data,
+        strategyVersionId: data.strategyVersionId ?? await this.latestStrategyVersionId(data.strategyId),
         processed: false,
         createdAt: new Date()
       }
@@ -72,9 +75,22 @@ class DatabaseService {
     vwap?: number;
     source?: string;
   }) {
-    return await this.prisma.marketData.create({
-      data
+    const { symbol, timestamp, source = 'polygon', ...bar } = data;
+    const where = { symbol_timestamp_source: { symbol, timestamp, source } };
+    const existing = await this.prisma.marketData.findUnique({ where });
+    const saved = await this.prisma.marketData.upsert({
+      where,
+      update: bar,
+      create: data
     });
+
+    // A corrected bar makes indicators cached from its day onward stale; new
+    // bars are picked up by the cache job without dropping anything
+    const corrected = existing && (['open', 'high', 'low', 'close', 'volume'] as const).some(field => existing[field] !== bar[field]);
+    if (corrected) {
+      await this.invalidateTechnicalIndicators(symbol, new Date(Math.floor(timestamp.getTime() / DAY_MS) * DAY_MS));
+    }
+    return saved;
   }
 
   async testConnection(): Promise<boolean> {
@@ -97,6 +113,12 @@ class DatabaseService {
         where: {
           userId: userId
         },
+        include: {
+          versions: {
+            orderBy: { version: 'desc' },
+            take: 1
+          }
+        },
         orderBy: {
           createdAt: 'desc'
         }
@@ -107,15 +129,143 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Create a strategy along with its first version
+   */
   async saveStrategy(userId: string, strategyData: any) {
+    const parameters = typeof strategyData.parameters === 'string'
+      ? strategyData.parameters
+      : JSON.stringify(strategyData.parameters ?? {});
     return await this.prisma.strategy.create({
       data: {
         ...strategyData,
+        parameters,
         userId,
+        versions: {
+          create: { version: 1, templateId: strategyData.templateId, parameters }
+        },
         createdAt: new Date(),
         updatedAt: new Date()
+      },
+      include: {
+        versions: true
+      }
+    });
+  }
+
+  /**
+   * Save a strategy's parameters as a new version. Versions are never
+   * edited; the strategy row mirrors whichever is latest
+   */
+  async saveStrategyVersion(strategyId: string, versionData: {
+    parameters: unknown;
+    templateId?: string;
+    name?: string;
+    description?: string;
+    note?: string;
+  }) {
+    try {
+      const { parameters, templateId, name, description, note } = versionData;
+      const serialized = JSON.stringify(parameters);
+      return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const strategy = await tx.strategy.findUniqueOrThrow({
+          where: { id: strategyId },
+          include: {
+            versions: {
+              orderBy: { version: 'desc' },
+              take: 1
+            }
+          }
+        });
+        const version = await tx.strategyVersion.create({
+          data: {
+            strategyId,
+            version: (strategy.versions[0]?.version ?? 0) + 1,
+            templateId: templateId ?? strategy.templateId,
+            parameters: serialized,
+            note
+          }
+        });
+        await tx.strategy.update({
+          where: { id: strategyId },
+          data: {
+            parameters: serialized,
+            templateId: version.templateId,
+            ...(name !== undefined && { name }),
+            ...(description !== undefined && { description }),
+            updatedAt: new Date()
+          }
+        });
+        return version;
+      });
+    } catch (error) {
+      console.error('Error saving strategy version:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A strategy's versions, newest first, with how many backtests, trades
+   * and signals reference each
+   */
+  async getStrategyVersions(strategyId: string) {
+    try {
+      return await this.prisma.strategyVersion.findMany({
+        where: {
+          strategyId
+        },
+        include: {
+          _count: {
+            select: { backtests: true, trades: true, signals: true }
+          }
+        },
+        orderBy: {
+          version: 'desc'
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching strategy versions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Restore an earlier version's parameters by saving them as a new version,
+   * so history is never rewritten
+   */
+  async rollbackStrategy(strategyId: string, version: number) {
+    const target = await this.prisma.strategyVersion.findUnique({
+      where: {
+        strategyId_version: { strategyId, version }
       }
     });
+    if (!target) {
+      throw new Error(`Strategy ${strategyId} has no version ${version}`);
+    }
+    return await this.saveStrategyVersion(strategyId, {
+      parameters: JSON.parse(target.parameters),
+      templateId: target.templateId,
+      note: `Rolled back to v${version}`
+    });
+  }
+
+  /**
+   * Id of a strategy's latest version, used to stamp backtests, trades and
+   * signals that don't name one
+   */
+  private async latestStrategyVersionId(strategyId?: string | null): Promise<string | null> {
+    if (!strategyId) return null;
+    try {
+      const latest = await this.prisma.strategyVersion.findFirst({
+        where: { strategyId },
+        orderBy: { version: 'desc' },
+        select: { id: true }
+      });
+      return latest?.id ?? null;
+    } catch (error) {
+      console.error('Error resolving strategy version:', error);
+      return null;
+    }
   }
 
   async getUserTrades(userId: string) {
@@ -138,6 +288,7 @@ class DatabaseService {
     return await this.prisma.trade.create({
       data: {
         ...tradeData,
+        strategyVersionId: tradeData.strategyVersionId ?? await this.latestStrategyVersionId(tradeData.strategyId),
         entryDate: new Date()
       }
     });
@@ -260,11 +411,141 @@ class DatabaseService {
     }
   }
 
+  async getMarketDataCoverage() {
+    try {
+      return await this.prisma.marketData.groupBy({
+        by: ['symbol'],
+        _count: { _all: true },
+        _min: { timestamp: true },
+        _max: { timestamp: true },
+        orderBy: { symbol: 'asc' }
+      });
+    } catch (error) {
+      console.error('Error fetching market data coverage:', error);
+      return [];
+    }
+  }
+
+  async upsertTechnicalIndicators(indicators: Array<{
+    symbol: string;
+    timeframe: string;
+    timestamp: Date;
+    indicator: string;
+    period: number;
+    value: number;
+  }>) {
+    try {
+      // Upserts are batched into transactions to keep SQLite write locks short
+      const batchSize = 500;
+      for (let i = 0; i < indicators.length; i += batchSize) {
+        await this.prisma.$transaction(
+          indicators.slice(i, i + batchSize).map(({ value, ...key }) =>
+            this.prisma.technicalIndicator.upsert({
+              where: {
+                symbol_timeframe_timestamp_indicator_period: key
+              },
+              update: { value, createdAt: new Date() },
+              create: { ...key, value, source: 'calculated' }
+            })
+          )
+        );
+      }
+      return indicators.length;
+    } catch (error) {
+      console.error('Error saving technical indicators:', error);
+      throw error;
+    }
+  }
+
+  async getTechnicalIndicators(symbol: string, timeframe: string, startDate: Date, endDate: Date) {
+    try {
+      return await this.prisma.technicalIndicator.findMany({
+        where: {
+          symbol,
+          timeframe,
+          timestamp: {
+            gte: startDate,
+            lte: endDate
+          }
+        },
+        orderBy: {
+          timestamp: 'asc'
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching technical indicators:', error);
+      return [];
+    }
+  }
+
+  async getTechnicalIndicatorCoverage() {
+    try {
+      return await this.prisma.technicalIndicator.groupBy({
+        by: ['symbol', 'timeframe', 'indicator', 'period'],
+        _count: { _all: true },
+        _min: { timestamp: true },
+        _max: { timestamp: true },
+        orderBy: [{ symbol: 'asc' }, { timeframe: 'asc' }]
+      });
+    } catch (error) {
+      console.error('Error fetching technical indicator coverage:', error);
+      return [];
+    }
+  }
+
+  async invalidateTechnicalIndicators(symbol: string, fromTimestamp?: Date) {
+    try {
+      const result = await this.prisma.technicalIndicator.deleteMany({
+        where: {
+          symbol,
+          ...(fromTimestamp && { timestamp: { gte: fromTimestamp } })
+        }
+      });
+      return result.count;
+    } catch (error) {
+      console.error('Error invalidating technical indicators:', error);
+      return 0;
+    }
+  }
+
+  async getSystemConfig(key: string) {
+    try {
+      return await this.readSystemConfig(key);
+    } catch (error) {
+      console.error('Error fetching system config:', error);
+      return null;
+    }
+  }
+
+  /** Like getSystemConfig, but rejects when the config can't be read */
+  async readSystemConfig(key: string) {
+    return await this.prisma.systemConfig.findUnique({
+      where: { key }
+    });
+  }
+
+  async setSystemConfig(key: string, value: string, type: string = 'string') {
+    try {
+      return await this.prisma.systemConfig.upsert({
+        where: { key },
+        update: { value, type },
+        create: { key, value, type }
+      });
+    } catch (error) {
+      console.error('Error saving system config:', error);
+      throw error;
+    }
+  }
+
   async logAudit(auditData: any) {
     try {
       return await this.prisma.auditLog.create({
         data: {
           ...auditData,
+          // details is a JSON string column
+          ...(auditData.details !== undefined && typeof auditData.details !== 'string' && {
+            details: JSON.stringify(auditData.details)
+          }),
           timestamp: new Date()
         }
       });
@@ -312,13 +593,15 @@ class DatabaseService {
 
   async saveBacktest(userId: string, strategyId: string, backtestData: any) {
     try {
+      const { trades, ...backtest } = backtestData;
       return await this.prisma.backtest.create({
         data: {
           userId,
           strategyId,
-          ...backtestData,
-          createdAt: new Date(),
-          updatedAt: new Date()
+          strategyVersionId: await this.latestStrategyVersionId(strategyId),
+          ...backtest,
+          ...(trades && { trades: { create: trades } }),
+          createdAt: new Date()
         }
       });
     } catch (error) {
@@ -327,6 +610,82 @@ class DatabaseService {
     }
   }
 
+  async saveBacktestOptimization(userId: string, optimizationData: Omit<Prisma.BacktestOptimizationUncheckedCreateInput, 'userId'>) {
+    try {
+      return await this.prisma.backtestOptimization.create({
+        data: {
+          userId,
+          ...optimizationData,
+          createdAt: new Date()
+        }
+      });
+    } catch (error) {
+      console.error('Error saving backtest optimization:', error);
+      throw error;
+    }
+  }
+
+  async updateBacktestOptimization(optimizationId: string, optimizationData: Prisma.BacktestOptimizationUncheckedUpdateInput) {
+    try {
+      return await this.prisma.backtestOptimization.update({
+        where: {
+          id: optimizationId
+        },
+        data: optimizationData
+      });
+    } catch (error) {
+      console.error('Error updating backtest optimization:', error);
+      throw error;
+    }
+  }
+
+  async getBacktestOptimization(optimizationId: string) {
+    try {
+      return await this.prisma.backtestOptimization.findUnique({
+        where: {
+          id: optimizationId
+        },
+        include: {
+          backtests: true
+        }
+      });
+    } catch (error) {
+      console.error('Error getting backtest optimization:', error);
+      return null;
+    }
+  }
+
+  async saveWalkForwardAnalysis(userId: string, analysisData: Omit<Prisma.WalkForwardAnalysisUncheckedCreateInput, 'userId'>) {
+    try {
+      return await this.prisma.walkForwardAnalysis.create({
+        data: {
+          userId,
+          ...analysisData,
+          createdAt: new Date()
+        }
+      });
+    } catch (error) {
+      console.error('Error saving walk-forward analysis:', error);
+      throw error;
+    }
+  }
+
+  async getWalkForwardAnalysis(analysisId: string) {
+    try {
+      return await this.prisma.walkForwardAnalysis.findUnique({
+        where: {
+          id: analysisId
+        },
+        include: {
+          backtests: true
+        }
+      });
+    } catch (error) {
+      console.error('Error getting walk-forward analysis:', error);
+      return null;
+    }
+  }
+
   async getBacktestHistory(userId: string, limit: number = 20) {
     try {
       return await this.prisma.backtest.findMany({
@@ -0,0 +1,312 @@
+// Adapters attaching Redux, the database and notifications to the trading core
+import { Store } from '@reduxjs/toolkit';
+import { RootState, AppDispatch } from '../store';
+import { updateMarketData } from '../store/slices/marketDataSlice';
+import { updateOrder, placeOrder, placeBracketOrder, cancelOrderGroups } from '../store/slices/ordersSlice';
+import { addNotification, Notification } from '../store/slices/notificationsSlice';
+import DatabaseService from './databaseService';
+import NotificationService from './notificationService';
+import { brokerService } from './brokerService';
+import { EngineAdapter, EnginePreTradeCheck, OrderRouter, TradingSignal } from './tradingCore';
+import { PositionOrder } from './positionOrders';
+import { ExitPrices } from './orderGroups';
+import { DEFAULT_PRE_TRADE_LIMITS, PreTradeContext, PreTradeLimits, PreTradeOrder, preTradeRisk, PreTradeRiskError } from './preTradeRisk';
+
+type AppStore = Store<RootState> & { dispatch: AppDispatch };
+
+const notification = (fields: Omit<Notification, 'id' | 'read' | 'createdAt'>): Notification => ({
+  id: Date.now().toString(),
+  read: false,
+  createdAt: new Date().toISOString(),
+  ...fields,
+});
+
+/**
+ * Mirrors the engine into the Redux store: market data, order updates and
+ * in-app notifications
+ */
+export const reduxAdapter = (store: AppStore): EngineAdapter => ({
+  onStarted() {
+    store.dispatch(addNotification(notification({
+      type: 'system',
+      title: 'Trading Engine Started',
+      message: 'Real-time trading engine is now active',
+      priority: 'medium',
+    })));
+  },
+
+  onStopped() {
+    store.dispatch(addNotification(notification({
+      type: 'system',
+      title: 'Trading Engine Stopped',
+      message: 'Real-time trading engine has been deactivated',
+      priority: 'medium',
+    })));
+  },
+
+  onConfigUpdated() {
+    store.dispatch(addNotification(notification({
+      type: 'system',
+      title: 'Trading Configuration Updated',
+      message: 'Trading engine configuration has been updated',
+      priority: 'low',
+    })));
+  },
+
+  onMarketData(event) {
+    // Orders are priced off the store, so generated quotes stay out of it
+    if (!event.simulated) store.dispatch(updateMarketData(event));
+  },
+
+  onSignal(signal, config) {
+    if (!config.enableSignalNotifications || signal.action === 'HOLD') return;
+    store.dispatch(addNotification(notification({
+      type: 'signal',
+      title: 'New Trading Signal',
+      message: `${signal.action} signal for ${signal.symbol} (${(signal.confidence * 100).toFixed(1)}% confidence)`,
+      priority: signal.confidence > 0.8 ? 'high' : 'medium',
+      actionRequired: config.enableAutoTrading,
+      actionUrl: '/trading',
+      data: signal,
+    })));
+  },
+
+  onDecision(signal, config) {
+    if (!config.enableSignalNotifications) return;
+    const decision = signal.metadata.aggregation;
+    const contributors = decision?.contributions.filter(vote => vote.signal === decision.signal).length ?? 1;
+    store.dispatch(addNotification(notification({
+      type: 'signal',
+      title: 'Consolidated Trading Signal',
+      message: `${signal.action} ${signal.symbol} from ${contributors} of ${decision?.contributions.length ?? 1} strategies (${signal.metadata.reasoning})`,
+      priority: 'high',
+      actionRequired: config.enableAutoTrading,
+      actionUrl: '/trading',
+      data: signal,
+    })));
+  },
+
+  onOrderFailed(signal, error) {
+    store.dispatch(addNotification(notification({
+      type: 'error',
+      title: 'Order Execution Failed',
+      message: `Failed to execute ${signal.action} order for ${signal.symbol}: ${error.message || 'Unknown error'}`,
+      priority: 'high',
+    })));
+  },
+
+  onOrderRejected(order, signal, rejections) {
+    store.dispatch(addNotification(notification({
+      type: 'alert',
+      title: 'Order Rejected by Risk Checks',
+      message: `${order.side.toUpperCase()} ${order.qty} ${signal.symbol} rejected: ${rejections.map(rejection => `[${rejection.code}] ${rejection.message}`).join('; ')}`,
+      priority: 'high',
+      data: { order, signal, rejections },
+    })));
+  },
+
+  onRiskAlert(message) {
+    store.dispatch(addNotification(notification({
+      type: 'alert',
+      title: 'Risk Alert',
+      message,
+      priority: 'critical',
+      actionRequired: true,
+    })));
+  },
+
+  onOrderUpdate(data, config) {
+    store.dispatch(updateOrder(data));
+    if (!config.enableTradeNotifications) return;
+    store.dispatch(addNotification(notification({
+      type: 'trade',
+      title: 'Order Update',
+      message: `Order ${data.id} status: ${data.status}`,
+      priority: 'medium',
+      data,
+    })));
+  },
+
+  onTradeUpdate(data, config) {
+    if (data.order) store.dispatch(updateOrder(data.order));
+    if (!config.enableTradeNotifications || !['fill', 'partial_fill'].includes(data.event)) return;
+    const order = data.order || {};
+    store.dispatch(addNotification(notification({
+      type: 'trade',
+      title: 'Trade Executed',
+      message: `${String(order.side).toUpperCase()} ${order.filled_qty ?? order.qty} ${order.symbol} at $${order.filled_avg_price ?? data.price}`,
+      priority: 'high',
+      data,
+    })));
+  },
+});
+
+/**
+ * Persists signals, completed bars and executed orders. Nothing is written
+ * while `userId` returns nothing
+ */
+export const databaseAdapter = (userId: () => string | undefined, options: { saveBars?: boolean } = {}): EngineAdapter => ({
+  async onMarketData(event) {
+    if (!options.saveBars || !event.isBar || event.price === undefined) return;
+    await DatabaseService.saveMarketData({
+      symbol: event.symbol,
+      timestamp: new Date(event.timestamp ?? Date.now()),
+      open: event.open ?? event.price,
+      high: event.high ?? event.price,
+      low: event.low ?? event.price,
+      close: event.price,
+      volume: event.volume ?? 0,
+      source: 'live',
+    });
+  },
+
+  async onSignal(signal) {
+    if (!userId() || signal.action === 'HOLD') return;
+    await DatabaseService.saveTradingSignal({
+      symbol: signal.symbol,
+      strategyId: signal.strategyId,
+      strategyVersionId: signal.strategyVersionId,
+      signal: signal.action.toLowerCase(),
+      confidence: signal.confidence,
+      price: signal.price,
+      timestamp: new Date(signal.timestamp),
+    });
+  },
+
+  async onOrderRouted(order, signal) {
+    const user = userId();
+    if (!user) return;
+    await DatabaseService.logAudit({
+      userId: user,
+      action: 'SIGNAL_EXECUTED',
+      details: {
+        symbol: signal.symbol,
+        signal: signal.action.toLowerCase(),
+        price: signal.price,
+        quantity: order.qty,
+        side: order.side,
+        effect: order.effect,
+        confidence: signal.confidence,
+        reason: signal.metadata.reasoning,
+      },
+    });
+  },
+});
+
+/**
+ * Sends persisted user notifications for signals, trades and risk alerts
+ */
+export const notificationAdapter = (userId: () => string | undefined): EngineAdapter => ({
+  async onSignal(signal, config) {
+    const user = userId();
+    if (!user || !config.enableSignalNotifications || signal.action === 'HOLD') return;
+    await NotificationService.createNotification({
+      userId: user,
+      title: 'Trading Signal Generated',
+      message: `${signal.action} signal for ${signal.symbol} at $${signal.price} (${(signal.confidence * 100).toFixed(1)}% confidence)`,
+      type: 'info',
+      priority: 'medium',
+    });
+  },
+
+  async onOrderRouted(order, signal, config) {
+    const user = userId();
+    if (!user || !config.enableTradeNotifications) return;
+    await NotificationService.notifyTradeExecuted(user, signal.symbol, order.side, order.qty, signal.price);
+  },
+
+  async onOrderFailed(signal, error) {
+    const user = userId();
+    if (!user) return;
+    await NotificationService.notifyTradeFailed(user, signal.symbol, signal.action.toLowerCase(), error.message);
+  },
+
+  async onRiskAlert(message) {
+    const user = userId();
+    if (!user) return;
+    await NotificationService.notifyRiskAlert(user, message);
+  },
+});
+
+/**
+ * Feeds market prices to the paper broker so its open orders fill against the
+ * same feed the strategies see. Simulated quotes are left out, so paper
+ * orders only fill against real or replayed prices
+ */
+export const paperPriceAdapter = (): EngineAdapter => ({
+  onMarketData(event) {
+    if (event.price !== undefined && !event.simulated) brokerService.updatePrice(event.symbol, event.price, event.timestamp);
+  },
+});
+
+const enginePreTradeOrder = (order: PositionOrder, signal: TradingSignal): PreTradeOrder => ({
+  symbol: signal.symbol,
+  side: order.side,
+  qty: order.qty,
+  type: 'market',
+  effect: order.effect,
+});
+
+/**
+ * Pre-trade risk checks for engines whose router bypasses the orders slice.
+ * Orders are valued at the signal price
+ */
+export const enginePreTradeCheck = (
+  userId: () => string | undefined,
+  context: () => Pick<PreTradeContext, 'account' | 'positions' | 'openOrders'>,
+  limits: PreTradeLimits = DEFAULT_PRE_TRADE_LIMITS
+): EnginePreTradeCheck => ({
+  check: (order, signal) =>
+    preTradeRisk.enforce(
+      enginePreTradeOrder(order, signal),
+      { ...context(), referencePrice: signal.price, limits },
+      { userId: userId(), source: `engine:${signal.strategyId}` }
+    ),
+  record: (order, signal) => preTradeRisk.record(enginePreTradeOrder(order, signal)),
+});
+
+/**
+ * Places orders with the broker through the orders slice, which runs the
+ * pre-trade risk checks and records the trade. Entries with exits go in as
+ * bracket orders, and a close first cancels the exits still working on the
+ * symbol so they can't reopen it
+ */
+export const reduxOrderRouter = (store: AppStore): OrderRouter => ({
+  async route(order, signal: TradingSignal, exits?: ExitPrices) {
+    const state = store.getState();
+    const meta = {
+      userId: state.auth.user?.id,
+      strategyId: signal.strategyId || undefined,
+      source: `engine:${signal.strategyId}`,
+    };
+
+    if (order.effect === 'close') {
+      await store.dispatch(cancelOrderGroups({ symbol: signal.symbol }));
+    }
+
+    const result = exits
+      ? await store.dispatch(placeBracketOrder({
+          symbol: signal.symbol,
+          side: order.side,
+          type: 'market',
+          qty: order.qty.toString(),
+          timeInForce: 'day',
+          ...exits,
+          ...meta,
+        }))
+      : await store.dispatch(placeOrder({
+          symbol: signal.symbol,
+          side: order.side,
+          type: 'market',
+          qty: order.qty.toString(),
+          time_in_force: 'day',
+          effect: order.effect,
+          ...meta,
+        }));
+
+    if (placeOrder.rejected.match(result) || placeBracketOrder.rejected.match(result)) {
+      if (result.payload?.rejections) throw new PreTradeRiskError(result.payload.rejections);
+      throw new Error('Failed to place order: ' + (result.payload?.message ?? result.error.message));
+    }
+  },
+});
@@ -0,0 +1,159 @@
+// Naming and lookup for indicator values cached in the TechnicalIndicator table
+import {
+  atr,
+  bollingerBands,
+  ema,
+  macd,
+  obv,
+  OhlcvBar,
+  rsi,
+  sma,
+  vwap,
+  wma,
+} from './technicalIndicators';
+
+export type CachedIndicatorType = 'sma' | 'ema' | 'wma' | 'rsi' | 'atr' | 'bollinger' | 'macd' | 'obv' | 'vwap';
+
+export interface IndicatorDefinition {
+  type: CachedIndicatorType;
+  period: number; // slow period for MACD; ignored for OBV
+  deviations?: number; // Bollinger Bands, default 2
+  fastPeriod?: number; // MACD, default 12
+  signalPeriod?: number; // MACD, default 9
+}
+
+export interface IndicatorOutput {
+  indicator: string; // TechnicalIndicator.indicator
+  period: number; // TechnicalIndicator.period
+  compute: (bars: OhlcvBar[]) => number[];
+}
+
+export const bollingerIndicatorName = (band: 'upper' | 'middle' | 'lower', deviations: number) =>
+  `bb_${band}_${deviations}`;
+
+export const macdIndicatorName = (line: 'macd' | 'signal' | 'histogram', fastPeriod: number, signalPeriod: number) =>
+  `${line === 'macd' ? 'macd' : `macd_${line}`}_${fastPeriod}_${signalPeriod}`;
+
+/**
+ * Stored series produced by an indicator definition. Parameters other than the
+ * main period are part of the indicator name so different settings never collide
+ */
+export const indicatorOutputs = (definition: IndicatorDefinition): IndicatorOutput[] => {
+  const { type, period } = definition;
+  const closes = (bars: OhlcvBar[]) => bars.map(bar => bar.close);
+
+  switch (type) {
+    case 'sma':
+      return [{ indicator: 'sma', period, compute: bars => sma(closes(bars), period) }];
+    case 'ema':
+      return [{ indicator: 'ema', period, compute: bars => ema(closes(bars), period) }];
+    case 'wma':
+      return [{ indicator: 'wma', period, compute: bars => wma(closes(bars), period) }];
+    case 'rsi':
+      return [{ indicator: 'rsi', period, compute: bars => rsi(closes(bars), period) }];
+    case 'atr':
+      return [{ indicator: 'atr', period, compute: bars => atr(bars, period) }];
+    case 'obv':
+      return [{ indicator: 'obv', period: 0, compute: bars => obv(bars) }];
+    case 'vwap':
+      return [{ indicator: 'vwap', period, compute: bars => vwap(bars, period) }];
+    case 'bollinger': {
+      const deviations = definition.deviations ?? 2;
+      return (['upper', 'middle', 'lower'] as const).map(band => ({
+        indicator: bollingerIndicatorName(band, deviations),
+        period,
+        compute: bars => bollingerBands(closes(bars), period, deviations).map(point => point[band]),
+      }));
+    }
+    case 'macd': {
+      const fastPeriod = definition.fastPeriod ?? 12;
+      const signalPeriod = definition.signalPeriod ?? 9;
+      return (['macd', 'signal', 'histogram'] as const).map(line => ({
+        indicator: macdIndicatorName(line, fastPeriod, signalPeriod),
+        period,
+        compute: bars => macd(closes(bars), fastPeriod, period, signalPeriod).map(point => point[line]),
+      }));
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Human-readable label for a definition, e.g. "MACD 12/26/9"
+ */
+export const describeIndicator = (definition: IndicatorDefinition): string => {
+  switch (definition.type) {
+    case 'bollinger':
+      return `Bollinger ${definition.period} (${definition.deviations ?? 2}σ)`;
+    case 'macd':
+      return `MACD ${definition.fastPeriod ?? 12}/${definition.period}/${definition.signalPeriod ?? 9}`;
+    case 'obv':
+      return 'OBV';
+    default:
+      return `${definition.type.toUpperCase()} ${definition.period}`;
+  }
+};
+
+/**
+ * Cached indicator values for a run of bars, looked up by indicator name and
+ * period. Warm-up bars are never cached, so leading bars without a value read
+ * as NaN; a series with any later gap is not returned, so callers can fall
+ * back to computing it
+ */
+export class CachedIndicators {
+  private values: Map<string, Map<number, number>> = new Map();
+
+  constructor(
+    private barTimes: number[],
+    rows: Array<{ timestamp: Date | string; indicator: string; period: number | null; value: number }>
+  ) {
+    rows.forEach(row => {
+      const key = `${row.indicator}|${row.period ?? 0}`;
+      let series = this.values.get(key);
+      if (!series) {
+        series = new Map();
+        this.values.set(key, series);
+      }
+      series.set(new Date(row.timestamp).getTime(), row.value);
+    });
+  }
+
+  get size(): number {
+    return this.values.size;
+  }
+
+  series(indicator: string, period: number): number[] | undefined {
+    const cached = this.values.get(`${indicator}|${period}`);
+    if (!cached) return undefined;
+
+    const aligned = this.barTimes.map(time => cached.get(time));
+    const first = aligned.findIndex(value => value !== undefined);
+    if (first < 0 || aligned.slice(first).some(value => value === undefined)) return undefined;
+    return aligned.map(value => value ?? NaN);
+  }
+}
+
+/**
+ * A strategy context's `indicator` lookup over cached values at the bar index
+ * last passed to `at`. Backtests and live streams both read through it, so a
+ * strategy sees the same value for a bar either way; past the cached bars, or
+ * without a cache, every lookup misses
+ */
+export const cachedIndicatorLookup = (cached?: CachedIndicators) => {
+  const seriesCache = new Map<string, number[] | undefined>();
+  let current = 0;
+
+  return {
+    at: (index: number) => {
+      current = index;
+    },
+    indicator: (name: string, period: number): number | undefined => {
+      if (!cached) return undefined;
+      const key = `${name}|${period}`;
+      if (!seriesCache.has(key)) seriesCache.set(key, cached.series(name, period));
+      const value = seriesCache.get(key)?.[current];
+      return value === undefined || Number.isNaN(value) ? undefined : value;
+    },
+  };
+};
@@ -0,0 +1,227 @@
+import { BacktestTimeframe, backtestingService, barTime, TIMEFRAME_MS } from './backtestingService';
+import databaseService from './databaseService';
+import { IndicatorDefinition, indicatorOutputs } from './indicatorCache';
+
+export interface IndicatorCacheConfig {
+  enabled: boolean;
+  symbols: string[];
+  timeframes: BacktestTimeframe[];
+  indicators: IndicatorDefinition[];
+  intervalMinutes: number;
+}
+
+export interface IndicatorCacheJobStatus {
+  running: boolean;
+  startedAt?: Date;
+  finishedAt?: Date;
+  rowsWritten: number;
+  errors: string[];
+}
+
+export interface IndicatorCoverage {
+  symbol: string;
+  timeframe: string;
+  storedBars: number; // raw MarketData rows for the symbol
+  firstBar?: Date;
+  lastBar?: Date;
+  series: number; // indicator/period combinations cached
+  cachedValues: number;
+  latestCached?: Date;
+  stale: boolean; // cache ends more than one bar before the stored data
+}
+
+const CONFIG_KEY = 'indicator_cache';
+
+// groupBy rows from the coverage queries
+type MarketDataCoverageRow = Awaited<ReturnType<typeof databaseService.getMarketDataCoverage>>[number];
+type IndicatorCoverageRow = Awaited<ReturnType<typeof databaseService.getTechnicalIndicatorCoverage>>[number];
+
+export const DEFAULT_INDICATOR_CACHE_CONFIG: IndicatorCacheConfig = {
+  enabled: true,
+  symbols: ['BTCUSD', 'ETHUSD', 'ADAUSD', 'SOLUSD', 'DOTUSD'],
+  timeframes: ['1d', '1h'],
+  indicators: [
+    { type: 'rsi', period: 14 },
+    { type: 'sma', period: 20 },
+    { type: 'sma', period: 50 },
+    { type: 'ema', period: 12 },
+    { type: 'ema', period: 26 },
+    { type: 'bollinger', period: 20, deviations: 2 },
+    { type: 'macd', period: 26, fastPeriod: 12, signalPeriod: 9 },
+    { type: 'atr', period: 14 },
+  ],
+  intervalMinutes: 15,
+};
+
+/**
+ * Background job that precomputes configured indicators over stored market
+ * data into the TechnicalIndicator table. Values are computed over each
+ * symbol's full history and only bars past the latest cached value are
+ * written; correcting a bar deletes the cache from that bar onward
+ */
+class IndicatorCacheService {
+  private interval: NodeJS.Timeout | null = null;
+  private status: IndicatorCacheJobStatus = { running: false, rowsWritten: 0, errors: [] };
+
+  async getConfig(): Promise<IndicatorCacheConfig> {
+    const stored = await databaseService.getSystemConfig(CONFIG_KEY);
+    if (!stored) return DEFAULT_INDICATOR_CACHE_CONFIG;
+
+    try {
+      return { ...DEFAULT_INDICATOR_CACHE_CONFIG, ...JSON.parse(stored.value) };
+    } catch (error) {
+      console.error('Invalid indicator cache config, using defaults:', error);
+      return DEFAULT_INDICATOR_CACHE_CONFIG;
+    }
+  }
+
+  async saveConfig(config: IndicatorCacheConfig): Promise<void> {
+    await databaseService.setSystemConfig(CONFIG_KEY, JSON.stringify(config), 'json');
+  }
+
+  getStatus(): IndicatorCacheJobStatus {
+    return { ...this.status, errors: [...this.status.errors] };
+  }
+
+  get isScheduled(): boolean {
+    return this.interval !== null;
+  }
+
+  /**
+   * Run the job now and then every `intervalMinutes`
+   */
+  async start(): Promise<void> {
+    if (this.interval) return;
+
+    const config = await this.getConfig();
+    if (!config.enabled) {
+      console.log('Indicator cache job is disabled');
+      return;
+    }
+
+    const run = () => this.runJob().catch(error => console.error('Indicator cache job failed:', error));
+    this.interval = setInterval(run, config.intervalMinutes * 60 * 1000);
+    run();
+  }
+
+  stop(): void {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  /**
+   * Bring every configured symbol and timeframe up to date. Returns the number
+   * of values written; a run already in progress is not started twice
+   */
+  async runJob(): Promise<number> {
+    if (this.status.running) return 0;
+
+    this.status = { running: true, startedAt: new Date(), rowsWritten: 0, errors: [] };
+    try {
+      const config = await this.getConfig();
+
+      for (const symbol of config.symbols) {
+        for (const timeframe of config.timeframes) {
+          try {
+            this.status.rowsWritten += await this.refreshSymbol(symbol, timeframe, config.indicators);
+          } catch (error) {
+            console.error(`Error caching indicators for ${symbol} ${timeframe}:`, error);
+            this.status.errors.push(`${symbol} ${timeframe}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      }
+    } finally {
+      this.status.running = false;
+      this.status.finishedAt = new Date();
+    }
+
+    console.log(`Indicator cache job wrote ${this.status.rowsWritten} values`);
+    return this.status.rowsWritten;
+  }
+
+  /**
+   * Compute a symbol's indicators over all stored bars and store values newer
+   * than what is already cached for each series
+   */
+  async refreshSymbol(
+    symbol: string,
+    timeframe: BacktestTimeframe,
+    indicators: IndicatorDefinition[] = DEFAULT_INDICATOR_CACHE_CONFIG.indicators
+  ): Promise<number> {
+    const bars = await backtestingService.loadBars({
+      symbol,
+      timeframe,
+      dataSource: 'database',
+      startDate: new Date(0),
+      endDate: new Date(),
+      initialCapital: 0,
+    });
+    if (bars.length === 0) return 0;
+
+    const coverage = await databaseService.getTechnicalIndicatorCoverage();
+    const latestCached = new Map<string, number>();
+    coverage
+      .filter((row: IndicatorCoverageRow) => row.symbol === symbol && row.timeframe === timeframe)
+      .forEach((row: IndicatorCoverageRow) => {
+        if (row._max.timestamp) latestCached.set(`${row.indicator}|${row.period}`, new Date(row._max.timestamp).getTime());
+      });
+
+    const times = bars.map(bar => barTime(bar));
+    const rows = indicators.flatMap(indicatorOutputs).flatMap(output => {
+      const after = latestCached.get(`${output.indicator}|${output.period}`) ?? -Infinity;
+      const values = output.compute(bars);
+      return values.flatMap((value, i) =>
+        Number.isFinite(value) && times[i] > after
+          ? [{ symbol, timeframe, timestamp: new Date(times[i]), indicator: output.indicator, period: output.period, value }]
+          : []
+      );
+    });
+
+    return rows.length > 0 ? databaseService.upsertTechnicalIndicators(rows) : 0;
+  }
+
+  /**
+   * Drop cached values for a symbol, from a timestamp onward or entirely
+   */
+  async invalidate(symbol: string, from?: Date): Promise<number> {
+    return databaseService.invalidateTechnicalIndicators(symbol, from);
+  }
+
+  /**
+   * Cache coverage per configured symbol and timeframe, for maintenance views
+   */
+  async getCoverage(): Promise<IndicatorCoverage[]> {
+    const config = await this.getConfig();
+    const [marketData, cached] = await Promise.all([
+      databaseService.getMarketDataCoverage(),
+      databaseService.getTechnicalIndicatorCoverage(),
+    ]);
+
+    return config.symbols.flatMap(symbol => {
+      const stored = marketData.find((row: MarketDataCoverageRow) => row.symbol === symbol);
+      const lastBar: Date | undefined = stored?._max.timestamp ? new Date(stored._max.timestamp) : undefined;
+
+      return config.timeframes.map(timeframe => {
+        const series = cached.filter((row: IndicatorCoverageRow) => row.symbol === symbol && row.timeframe === timeframe);
+        const latest = series.reduce(
+          (max: number, row: IndicatorCoverageRow) => Math.max(max, row._max.timestamp ? new Date(row._max.timestamp).getTime() : 0),
+          0
+        );
+
+        return {
+          symbol,
+          timeframe,
+          storedBars: stored?._count._all ?? 0,
+          firstBar: stored?._min.timestamp ? new Date(stored._min.timestamp) : undefined,
+          lastBar,
+          series: series.length,
+          cachedValues: series.reduce((sum: number, row: IndicatorCoverageRow) => sum + row._count._all, 0),
+          latestCached: latest > 0 ? new Date(latest) : undefined,
+          stale: !!lastBar && lastBar.getTime() - latest > TIMEFRAME_MS[timeframe],
+        };
+      });
+    });
+  }
+}
+
+export const indicatorCacheService = new IndicatorCacheService();
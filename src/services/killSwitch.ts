@@ -0,0 +1,172 @@
+// Global trading kill switch, persisted in SystemConfig so a halt survives restarts
+import databaseService from './databaseService';
+import { brokerService } from './brokerService';
+import type { PreTradeCheck } from './preTradeRisk';
+
+const CONFIG_KEY = 'trading.killSwitch';
+
+export type KillSwitchSource = 'manual' | 'risk';
+
+export interface KillSwitchState {
+  tripped: boolean;
+  reason?: string;
+  source?: KillSwitchSource;
+  trippedAt?: string;
+  trippedBy?: string; // user id, when tripped by a person
+  flattened?: boolean; // positions were closed as well
+  rearmedAt?: string;
+  rearmedBy?: string;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export interface KillSwitchTrip {
+  reason: string;
+  source: KillSwitchSource;
+  userId?: string;
+  flatten?: boolean; // close all positions after cancelling orders
+}
+
+/** Outcome of a trip: what the broker was asked to do and what failed */
+export interface KillSwitchResult {
+  state: KillSwitchState;
+  ordersCanceled: boolean;
+  positionsClosed: number;
+  errors: string[];
+}
+
+/**
+ * Halts all trading. Tripping persists the halt, stops every engine that
+ * listens, cancels open orders and optionally flattens positions; trading
+ * stays halted until someone re-arms it
+ */
+class KillSwitchService {
+  private state: KillSwitchState = { tripped: false };
+  private listeners: Set<(state: KillSwitchState) => void> = new Set();
+  private loaded: Promise<KillSwitchState> | null = null;
+
+  /** Loads the persisted state once; engines wait for it before starting */
+  ready(): Promise<KillSwitchState> {
+    if (!this.loaded) {
+      this.loaded = this.load().catch(error => {
+        this.loaded = null; // the next caller tries again
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Loads the persisted state; call at startup before trading. Rejects when
+   * it can't be read, as a stored halt may be missed
+   */
+  async load(): Promise<KillSwitchState> {
+    const current = this.state;
+    const stored = await databaseService.readSystemConfig(CONFIG_KEY);
+    // A trip or re-arm while loading is newer than what was stored
+    if (stored && this.state === current) {
+      try {
+        this.setState(JSON.parse(stored.value));
+      } catch (error) {
+        console.error('Invalid kill switch state, treating it as tripped:', error);
+        this.setState({ tripped: true, reason: 'Stored kill switch state is unreadable', source: 'risk' });
+      }
+    }
+    return this.getState();
+  }
+
+  getState(): KillSwitchState {
+    return { ...this.state };
+  }
+
+  isTripped(): boolean {
+    return this.state.tripped;
+  }
+
+  subscribe(listener: (state: KillSwitchState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async trip({ reason, source, userId, flatten = false }: KillSwitchTrip): Promise<KillSwitchResult> {
+    const result: KillSwitchResult = { state: this.getState(), ordersCanceled: false, positionsClosed: 0, errors: [] };
+    // Tripping again only adds flattening to an existing halt
+    if (this.state.tripped && !flatten) return result;
+
+    // Halt in memory first so engines stop and nothing new is routed, even
+    // if the halt can't be stored
+    const state: KillSwitchState = this.state.tripped
+      ? { ...this.state, flattened: true }
+      : { tripped: true, reason, source, trippedAt: new Date().toISOString(), trippedBy: userId, flattened: flatten };
+    this.setState(state);
+    result.state = this.getState();
+
+    try {
+      await databaseService.setSystemConfig(CONFIG_KEY, JSON.stringify(state), 'json');
+    } catch (error) {
+      result.errors.push(`Persist halt: ${errorMessage(error)}`);
+    }
+
+    try {
+      await brokerService.cancelAllOrders();
+      result.ordersCanceled = true;
+    } catch (error) {
+      result.errors.push(`Cancel orders: ${errorMessage(error)}`);
+    }
+
+    if (flatten) {
+      try {
+        result.positionsClosed = (await brokerService.closeAllPositions()).length;
+      } catch (error) {
+        result.errors.push(`Close positions: ${errorMessage(error)}`);
+      }
+    }
+
+    await databaseService.logAudit({
+      userId,
+      action: 'KILL_SWITCH_TRIPPED',
+      details: {
+        reason,
+        source,
+        flatten,
+        broker: brokerService.getKind(),
+        ordersCanceled: result.ordersCanceled,
+        positionsClosed: result.positionsClosed,
+        errors: result.errors,
+      },
+    });
+    return result;
+  }
+
+  /** Allows trading again. Engines stay stopped until started */
+  async rearm(userId: string): Promise<KillSwitchState> {
+    if (!this.state.tripped) return this.getState();
+
+    const previous = this.state;
+    const state: KillSwitchState = { tripped: false, rearmedAt: new Date().toISOString(), rearmedBy: userId };
+    await databaseService.setSystemConfig(CONFIG_KEY, JSON.stringify(state), 'json');
+    this.setState(state);
+
+    await databaseService.logAudit({
+      userId,
+      action: 'KILL_SWITCH_REARMED',
+      details: { trippedAt: previous.trippedAt, reason: previous.reason, source: previous.source },
+    });
+    return this.getState();
+  }
+
+  private setState(state: KillSwitchState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(this.getState()));
+  }
+}
+
+export const killSwitch = new KillSwitchService();
+
+/** Refuses every order while the kill switch is tripped */
+export const killSwitchCheck: PreTradeCheck = () =>
+  killSwitch.isTripped()
+    ? { code: 'KILL_SWITCH_ACTIVE', message: `Trading is halted: ${killSwitch.getState().reason || 'kill switch tripped'}` }
+    : null;
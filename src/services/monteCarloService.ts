@@ -0,0 +1,208 @@
+import { BacktestResult } from './backtestingService';
+import { percentile, periodReturns } from './performanceStatistics';
+
+export type MonteCarloMethod = 'resample' | 'reshuffle'; // with / without replacement
+
+export type MonteCarloSource = 'trades' | 'barReturns';
+
+export interface MonteCarloOptions {
+  simulations: number;
+  method: MonteCarloMethod;
+  source: MonteCarloSource;
+  seed: number;
+  ruinThresholdPercent: number; // a path is ruined once equity falls this far below initial capital
+  maxBandPoints?: number; // fan chart resolution; defaults to 200
+  samplePaths?: number; // individual paths kept for plotting; defaults to 20
+}
+
+export interface ConfidenceBands {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  mean: number;
+}
+
+export interface MonteCarloResult {
+  options: MonteCarloOptions;
+  initialCapital: number;
+  steps: number; // trades or bars per simulated path
+  finalEquity: ConfidenceBands;
+  maxDrawdown: ConfidenceBands; // percent
+  riskOfRuin: number; // percent of paths that hit the ruin threshold
+  probabilityOfLoss: number; // percent of paths that finish below initial capital
+  fan: Array<{ step: number } & Omit<ConfidenceBands, 'mean'>>;
+  paths: number[][];
+  original: {
+    finalEquity: number;
+    maxDrawdown: number;
+  };
+}
+
+export const DEFAULT_MONTE_CARLO_OPTIONS: MonteCarloOptions = {
+  simulations: 1000,
+  method: 'resample',
+  source: 'trades',
+  seed: 42,
+  ruinThresholdPercent: 50,
+};
+
+/**
+ * Deterministic mulberry32 generator returning floats in [0, 1)
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const summarize = (values: number[]): ConfidenceBands => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+    mean: sorted.reduce((a, b) => a + b, 0) / (sorted.length || 1),
+  };
+};
+
+/**
+ * Monte Carlo robustness analysis: replays a backtest's trade sequence (or
+ * bar returns) in random orders to show how much of the result was luck
+ */
+class MonteCarloService {
+  /**
+   * Per-step fractional returns to sample from. Trade returns are measured
+   * against the equity available when each trade closed so sizing compounds
+   */
+  extractReturns(result: BacktestResult, source: MonteCarloSource): number[] {
+    if (source === 'barReturns') {
+      return periodReturns(result.equity);
+    }
+
+    const ordered = [...result.trades]
+      .filter(trade => trade.status === 'closed')
+      .sort((a, b) => (a.exitDate ?? a.entryDate).localeCompare(b.exitDate ?? b.entryDate));
+
+    let equity = result.initialCapital;
+    return ordered.map(trade => {
+      const pnl = trade.pnl || 0;
+      const tradeReturn = equity > 0 ? pnl / equity : 0;
+      equity += pnl;
+      return tradeReturn;
+    });
+  }
+
+  /**
+   * Draw one sequence of returns with or without replacement
+   */
+  sampleSequence(returns: number[], method: MonteCarloMethod, random: () => number): number[] {
+    if (method === 'resample') {
+      return returns.map(() => returns[Math.floor(random() * returns.length)]);
+    }
+
+    // Fisher-Yates shuffle
+    const shuffled = [...returns];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /**
+   * Run the simulation against a completed backtest
+   */
+  runSimulation(result: BacktestResult, options: MonteCarloOptions = DEFAULT_MONTE_CARLO_OPTIONS): MonteCarloResult {
+    const returns = this.extractReturns(result, options.source);
+    if (returns.length < 2) {
+      throw new Error(
+        options.source === 'trades'
+          ? 'Monte Carlo analysis needs at least two closed trades'
+          : 'Monte Carlo analysis needs at least three equity points'
+      );
+    }
+    if (options.simulations < 1) {
+      throw new Error('Run at least one simulation');
+    }
+
+    const random = createSeededRandom(options.seed);
+    const { initialCapital } = result;
+    const ruinLevel = initialCapital * (1 - options.ruinThresholdPercent / 100);
+    const steps = returns.length;
+
+    // Only keep equity at the fan chart's sample steps to bound memory
+    const bandPoints = Math.min(options.maxBandPoints ?? 200, steps);
+    const sampleSteps = Array.from({ length: bandPoints + 1 }, (_, i) => Math.round((i * steps) / bandPoints));
+    const stepEquity: number[][] = sampleSteps.map(() => []);
+    const keptPaths = Math.min(options.samplePaths ?? 20, options.simulations);
+
+    const finals: number[] = [];
+    const drawdowns: number[] = [];
+    const paths: number[][] = [];
+    let ruined = 0;
+    let losses = 0;
+
+    for (let sim = 0; sim < options.simulations; sim++) {
+      const sequence = this.sampleSequence(returns, options.method, random);
+      let equity = initialCapital;
+      let peak = initialCapital;
+      let maxDrawdown = 0;
+      let hitRuin = false;
+      let sampleIndex = 1;
+      const path: number[] = [initialCapital];
+      stepEquity[0].push(initialCapital);
+
+      for (let step = 0; step < steps; step++) {
+        equity = Math.max(0, equity * (1 + sequence[step]));
+        if (equity > peak) peak = equity;
+        const drawdown = peak > 0 ? ((peak - equity) / peak) * 100 : 0;
+        if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+        if (equity <= ruinLevel) hitRuin = true;
+
+        while (sampleIndex < sampleSteps.length && sampleSteps[sampleIndex] === step + 1) {
+          stepEquity[sampleIndex].push(equity);
+          if (sim < keptPaths) path.push(equity);
+          sampleIndex++;
+        }
+      }
+
+      finals.push(equity);
+      drawdowns.push(maxDrawdown);
+      if (hitRuin) ruined++;
+      if (equity < initialCapital) losses++;
+      if (sim < keptPaths) paths.push(path);
+    }
+
+    const fan = sampleSteps.map((step, i) => {
+      const { p5, p25, p50, p75, p95 } = summarize(stepEquity[i]);
+      return { step, p5, p25, p50, p75, p95 };
+    });
+
+    return {
+      options,
+      initialCapital,
+      steps,
+      finalEquity: summarize(finals),
+      maxDrawdown: summarize(drawdowns),
+      riskOfRuin: (ruined / options.simulations) * 100,
+      probabilityOfLoss: (losses / options.simulations) * 100,
+      fan,
+      paths,
+      original: {
+        finalEquity: initialCapital + result.performance.totalReturn,
+        maxDrawdown: result.performance.maxDrawdown,
+      },
+    };
+  }
+}
+
+export const monteCarloService = new MonteCarloService();
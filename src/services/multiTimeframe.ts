@@ -0,0 +1,128 @@
+// Higher-timeframe bar series resampled from a strategy's base bars
+import { OhlcvBar } from './technicalIndicators';
+
+export interface TimeframeBar extends OhlcvBar {
+  time: number; // bar open time, ms since epoch
+}
+
+// Bar sizes the market data store holds
+export const STRATEGY_TIMEFRAMES = ['1m', '5m', '15m', '1h', '4h', '1d'];
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Length of a timeframe such as '15m', '4h' or '1d' in ms, or NaN if it
+ * can't be parsed
+ */
+export const timeframeMs = (timeframe: string): number => {
+  const match = /^(\d+)([mhd])$/.exec(timeframe);
+  return match ? Number(match[1]) * UNIT_MS[match[2]] : NaN;
+};
+
+/**
+ * Base bars spanned by one bar of a higher timeframe
+ */
+export const barsPerTimeframe = (timeframe: string, baseTimeframe: string): number =>
+  Math.max(1, Math.ceil(timeframeMs(timeframe) / timeframeMs(baseTimeframe)));
+
+/**
+ * Whether bars of `timeframe` can be built from `baseTimeframe` bars: longer
+ * and a whole multiple of them
+ */
+export const canResample = (timeframe: string, baseTimeframe: string): boolean => {
+  const step = timeframeMs(timeframe);
+  const baseStep = timeframeMs(baseTimeframe);
+  return step > baseStep && step % baseStep === 0;
+};
+
+/**
+ * Builds bars of a higher timeframe from base bars. Buckets are aligned to
+ * the epoch, as live bars are, and a bar is released only once the base bar
+ * closing its bucket (or the first base bar after it) has arrived
+ */
+export class BarResampler {
+  private forming: TimeframeBar | null = null;
+
+  constructor(private step: number, private baseStep: number) {}
+
+  /**
+   * Fold in a completed base bar, returning the higher bars it completes
+   */
+  add(bar: TimeframeBar): TimeframeBar[] {
+    const completed: TimeframeBar[] = [];
+    const bucket = Math.floor(bar.time / this.step) * this.step;
+
+    // A gap can skip the bar that would have closed the forming bucket
+    if (this.forming && bucket > this.forming.time) {
+      completed.push(this.forming);
+      this.forming = null;
+    }
+
+    if (!this.forming) {
+      this.forming = { time: bucket, open: bar.open, high: bar.high, low: bar.low, close: bar.close, volume: bar.volume };
+    } else {
+      this.forming.high = Math.max(this.forming.high, bar.high);
+      this.forming.low = Math.min(this.forming.low, bar.low);
+      this.forming.close = bar.close;
+      this.forming.volume += bar.volume;
+    }
+
+    if (bar.time + this.baseStep >= bucket + this.step) {
+      completed.push(this.forming);
+      this.forming = null;
+    }
+    return completed;
+  }
+}
+
+/**
+ * Completed bars of each higher timeframe a strategy declares, advanced one
+ * base bar at a time so a strategy never sees a higher bar before it closes
+ */
+export class TimeframeFeed {
+  private resamplers: Map<string, BarResampler> = new Map();
+  private completed: Map<string, TimeframeBar[]> = new Map();
+
+  constructor(baseTimeframe: string, timeframes: string[], private maxBars: number = 1000) {
+    timeframes.forEach(timeframe => {
+      if (timeframe === baseTimeframe || this.resamplers.has(timeframe)) return;
+      if (!canResample(timeframe, baseTimeframe)) {
+        console.warn(`Cannot build ${timeframe} bars from ${baseTimeframe} bars; ignoring that timeframe`);
+        return;
+      }
+      this.resamplers.set(timeframe, new BarResampler(timeframeMs(timeframe), timeframeMs(baseTimeframe)));
+      this.completed.set(timeframe, []);
+    });
+  }
+
+  get timeframes(): string[] {
+    return Array.from(this.resamplers.keys());
+  }
+
+  /**
+   * Completed bars of a declared timeframe, oldest first
+   */
+  bars(timeframe: string): TimeframeBar[] {
+    return this.completed.get(timeframe) ?? [];
+  }
+
+  /**
+   * Fold in a completed base bar, returning the higher bars it completes
+   */
+  advance(bar: TimeframeBar): Array<{ timeframe: string; bar: TimeframeBar }> {
+    const released: Array<{ timeframe: string; bar: TimeframeBar }> = [];
+    this.resamplers.forEach((resampler, timeframe) => {
+      const bars = this.completed.get(timeframe)!;
+      resampler.add(bar).forEach(completed => {
+        bars.push(completed);
+        released.push({ timeframe, bar: completed });
+      });
+      if (bars.length > this.maxBars) bars.splice(0, bars.length - this.maxBars);
+    });
+    return released;
+  }
+}
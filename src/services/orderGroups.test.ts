@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { advanceOrderGroup, newOrderGroup } from './orderGroups';
+
+// A local bracket buying 10 AAPL with a stop at 95 and a target at 110;
+// tests spread their leg states over these
+const BRACKET = newOrderGroup(
+  'bracket',
+  { symbol: 'AAPL', side: 'buy', qty: '10', type: 'market', timeInForce: 'gtc', stopPrice: 95, takeProfitPrice: 110 },
+  'local',
+  'manual'
+);
+const [ENTRY, STOP, TARGET] = BRACKET.legs;
+const FILLED_ENTRY = { ...ENTRY, orderId: 'entry', status: 'filled', filledQty: 10 };
+
+describe('advanceOrderGroup', () => {
+  it('waits for the entry to fill', () => {
+    const group = { ...BRACKET, legs: [{ ...ENTRY, orderId: 'entry', status: 'new' }, STOP, TARGET] };
+    expect(advanceOrderGroup(group)).toEqual({ group, actions: [] });
+  });
+
+  it('submits both exits once the entry fills', () => {
+    const { group, actions } = advanceOrderGroup({ ...BRACKET, legs: [FILLED_ENTRY, STOP, TARGET] });
+
+    expect(group.status).toBe('working');
+    expect(actions.map(action => [action.type, action.leg.role, action.leg.qty])).toEqual([
+      ['submit', 'stop', '10'],
+      ['submit', 'target', '10'],
+    ]);
+  });
+
+  it('cancels the group when the entry dies unfilled', () => {
+    const { group, actions } = advanceOrderGroup({ ...BRACKET, legs: [{ ...ENTRY, orderId: 'entry', status: 'canceled' }, STOP, TARGET] });
+
+    expect(group.status).toBe('canceled');
+    expect(actions).toEqual([]);
+  });
+
+  it('sizes the exits to what filled before the entry died', () => {
+    const { group, actions } = advanceOrderGroup({
+      ...BRACKET,
+      legs: [{ ...ENTRY, orderId: 'entry', status: 'expired', filledQty: 4 }, STOP, TARGET],
+    });
+
+    expect(group.status).toBe('working');
+    expect(actions.map(action => [action.type, action.leg.role, action.leg.qty])).toEqual([
+      ['submit', 'stop', '4'],
+      ['submit', 'target', '4'],
+    ]);
+  });
+
+  it('shrinks the other exit when one partially fills', () => {
+    const { group, actions } = advanceOrderGroup({
+      ...BRACKET,
+      legs: [
+        FILLED_ENTRY,
+        { ...STOP, orderId: 'stop', status: 'new', filledQty: 0 },
+        { ...TARGET, orderId: 'target', status: 'partially_filled', filledQty: 6 },
+      ],
+    });
+
+    expect(group.status).toBe('working');
+    expect(actions).toEqual([{ type: 'resize', leg: group.legs[1], qty: '4' }]);
+  });
+
+  it('keeps the group open until the other exit is cancelled', () => {
+    const stop = { ...STOP, orderId: 'stop', status: 'new', filledQty: 0 };
+    const target = { ...TARGET, orderId: 'target', status: 'filled', filledQty: 10 };
+    const first = advanceOrderGroup({ ...BRACKET, legs: [FILLED_ENTRY, stop, target] });
+
+    expect(first.group.status).toBe('working');
+    expect(first.actions).toEqual([{ type: 'cancel', leg: stop }]);
+
+    const settled = advanceOrderGroup({ ...first.group, legs: [FILLED_ENTRY, { ...stop, status: 'canceled' }, target] });
+    expect(settled.group.status).toBe('completed');
+    expect(settled.actions).toEqual([]);
+  });
+
+  it('cancels the group and raises an alert once both exits die over a held position', () => {
+    const { group, alert } = advanceOrderGroup({
+      ...BRACKET,
+      legs: [FILLED_ENTRY, { ...STOP, orderId: 'stop', status: 'canceled' }, { ...TARGET, orderId: 'target', status: 'expired' }],
+    });
+
+    expect(group.status).toBe('canceled');
+    expect(alert).toContain('10 still held');
+  });
+
+  it('does not resubmit an exit the broker refused', () => {
+    const { actions } = advanceOrderGroup({
+      ...BRACKET,
+      legs: [FILLED_ENTRY, { ...STOP, orderId: 'stop', status: 'new' }, { ...TARGET, status: 'rejected' }],
+    });
+    expect(actions).toEqual([]);
+  });
+
+  it('leaves the legs of a native group to the broker', () => {
+    const { group, actions } = advanceOrderGroup({
+      ...BRACKET,
+      managed: 'native',
+      legs: [FILLED_ENTRY, { ...STOP, orderId: 'stop', status: 'new' }, { ...TARGET, orderId: 'target', status: 'filled', filledQty: 10 }],
+    });
+
+    expect(group.status).toBe('completed');
+    expect(actions).toEqual([]);
+  });
+});
@@ -0,0 +1,317 @@
+// Bracket and one-cancels-other order groups: how their legs are built and
+// how a locally managed group advances as its legs fill
+import { Order } from '../store/slices/types';
+import type { CreateOrderRequest } from './alpacaService';
+
+export type OrderGroupType = 'bracket' | 'oco';
+export type OrderGroupStatus = 'pending_entry' | 'working' | 'completed' | 'canceled';
+export type OrderLegRole = 'entry' | 'stop' | 'target';
+
+type OrderSide = 'buy' | 'sell';
+type TimeInForce = 'day' | 'gtc' | 'ioc' | 'fok';
+
+export interface OrderGroupLeg {
+  role: OrderLegRole;
+  orderId?: string; // unset until the leg is submitted
+  side: OrderSide;
+  type: 'market' | 'limit' | 'stop' | 'stop_limit';
+  qty: string;
+  limitPrice?: number;
+  stopPrice?: number;
+  status: string; // broker status, or 'held' before submission
+  filledQty?: number;
+  filledAvgPrice?: number;
+}
+
+/**
+ * Orders that trade together. Native groups are submitted as one order class
+ * and the broker links the legs; local groups are individual orders the app
+ * links itself
+ */
+export interface OrderGroup {
+  id: string;
+  type: OrderGroupType;
+  symbol: string;
+  managed: 'native' | 'local';
+  status: OrderGroupStatus;
+  timeInForce: TimeInForce;
+  qty: string; // position the exits protect: the entry's fill, or the OCO quantity
+  legs: OrderGroupLeg[];
+  source: string; // manual, or engine:<strategyId>
+  createdAt: string;
+  closedAt?: string;
+}
+
+export interface ExitPrices {
+  stopPrice: number;
+  stopLimitPrice?: number; // makes the stop leg a stop-limit
+  takeProfitPrice: number;
+}
+
+/** An entry with a protective stop and a profit target on the other side */
+export interface BracketOrderRequest extends ExitPrices {
+  symbol: string;
+  side: OrderSide;
+  qty: string;
+  type: 'market' | 'limit';
+  limitPrice?: number;
+  timeInForce: TimeInForce;
+}
+
+/** A stop and a profit target exiting a held position; a fill on one cancels the other */
+export interface OcoOrderRequest extends ExitPrices {
+  symbol: string;
+  side: OrderSide; // side of the exit orders
+  qty: string;
+  timeInForce: TimeInForce;
+}
+
+export type OrderGroupAction =
+  | { type: 'submit'; leg: OrderGroupLeg }
+  | { type: 'cancel'; leg: OrderGroupLeg }
+  | { type: 'resize'; leg: OrderGroupLeg; qty: string }; // replace a working leg with a smaller one
+
+// Broker statuses of orders that can still fill
+const OPEN_STATUSES = ['new', 'accepted', 'pending_new', 'partially_filled', 'held', 'accepted_for_bidding', 'pending_replace'];
+const DEAD_STATUSES = ['canceled', 'expired', 'rejected', 'replaced', 'done_for_day', 'stopped', 'suspended'];
+
+const isOpen = (leg: OrderGroupLeg) => leg.orderId !== undefined && OPEN_STATUSES.includes(leg.status);
+const isDead = (leg: OrderGroupLeg) => DEAD_STATUSES.includes(leg.status);
+
+export const isGroupOpen = (group: OrderGroup): boolean =>
+  group.status === 'pending_entry' || group.status === 'working';
+
+export const legOf = (group: OrderGroup, role: OrderLegRole): OrderGroupLeg | undefined =>
+  group.legs.find(leg => leg.role === role);
+
+const exitSide = (side: OrderSide): OrderSide => (side === 'buy' ? 'sell' : 'buy');
+
+/** Crypto pairs (BTCUSD, ETH/USD) trade without advanced order classes on Alpaca */
+export const isCryptoSymbol = (symbol: string): boolean => /^[A-Z]{2,6}\/?(USD|USDT|USDC|BTC)$/.test(symbol);
+
+// Leg prices are kept in cents, as submitted, so broker legs match them
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+// Quantities go to the broker as strings; crypto trades fractions
+const quantity = (value: number) => String(Number(value.toFixed(9)));
+
+/**
+ * Why the exit prices can't protect a position on this side, or null when
+ * they can: the stop sits below the entry and the target above it for a
+ * long, the other way round for a short
+ */
+export const validateExitPrices = (positionSide: OrderSide, referencePrice: number | undefined, exits: ExitPrices): string | null => {
+  if (!(exits.stopPrice > 0) || !(exits.takeProfitPrice > 0)) {
+    return 'Stop and take-profit prices must be positive';
+  }
+  const long = positionSide === 'buy';
+  if (long ? exits.stopPrice >= exits.takeProfitPrice : exits.stopPrice <= exits.takeProfitPrice) {
+    return long
+      ? 'For a long position the stop must be below the take-profit price'
+      : 'For a short position the stop must be above the take-profit price';
+  }
+  if (referencePrice !== undefined) {
+    if (long ? exits.stopPrice >= referencePrice : exits.stopPrice <= referencePrice) {
+      return `Stop price ${exits.stopPrice} is on the wrong side of the ${referencePrice} entry`;
+    }
+    if (long ? exits.takeProfitPrice <= referencePrice : exits.takeProfitPrice >= referencePrice) {
+      return `Take-profit price ${exits.takeProfitPrice} is on the wrong side of the ${referencePrice} entry`;
+    }
+  }
+  return null;
+};
+
+const exitLegs = (side: OrderSide, qty: string, exits: ExitPrices): OrderGroupLeg[] => [
+  {
+    role: 'stop',
+    side,
+    type: exits.stopLimitPrice !== undefined ? 'stop_limit' : 'stop',
+    qty,
+    stopPrice: cents(exits.stopPrice),
+    limitPrice: exits.stopLimitPrice !== undefined ? cents(exits.stopLimitPrice) : undefined,
+    status: 'held',
+  },
+  { role: 'target', side, type: 'limit', qty, limitPrice: cents(exits.takeProfitPrice), status: 'held' },
+];
+
+export const newOrderGroup = (
+  type: OrderGroupType,
+  request: BracketOrderRequest | OcoOrderRequest,
+  managed: OrderGroup['managed'],
+  source: string
+): OrderGroup => {
+  const legs = 'type' in request
+    ? [
+        {
+          role: 'entry' as const,
+          side: request.side,
+          type: request.type,
+          qty: request.qty,
+          limitPrice: request.limitPrice !== undefined ? cents(request.limitPrice) : undefined,
+          status: 'held',
+        },
+        ...exitLegs(exitSide(request.side), request.qty, request),
+      ]
+    : exitLegs(request.side, request.qty, request);
+
+  return {
+    id: `${type}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    symbol: request.symbol,
+    managed,
+    status: type === 'bracket' ? 'pending_entry' : 'working',
+    timeInForce: request.timeInForce,
+    qty: request.qty,
+    legs,
+    source,
+    createdAt: new Date().toISOString(),
+  };
+};
+
+const price = (value?: number) => (value !== undefined ? value.toFixed(2) : undefined);
+
+/** One leg as a simple broker order */
+export const legOrderRequest = (group: OrderGroup, leg: OrderGroupLeg): CreateOrderRequest => ({
+  symbol: group.symbol,
+  qty: leg.qty,
+  side: leg.side,
+  type: leg.type,
+  time_in_force: group.timeInForce,
+  limit_price: price(leg.limitPrice),
+  stop_price: price(leg.stopPrice),
+});
+
+/** The leg a native group is submitted as; Alpaca takes an OCO as its limit order */
+export const parentLeg = (group: OrderGroup): OrderGroupLeg =>
+  legOf(group, group.type === 'bracket' ? 'entry' : 'target')!;
+
+/** The whole group as one order for brokers that link the legs themselves */
+export const nativeOrderRequest = (group: OrderGroup): CreateOrderRequest => {
+  const stop = legOf(group, 'stop')!;
+  const target = legOf(group, 'target')!;
+
+  return {
+    ...legOrderRequest(group, parentLeg(group)),
+    order_class: group.type,
+    take_profit: { limit_price: price(target.limitPrice)! },
+    stop_loss: { stop_price: price(stop.stopPrice)!, limit_price: price(stop.limitPrice) },
+  };
+};
+
+const legState = (leg: OrderGroupLeg, order: Order): OrderGroupLeg => ({
+  ...leg,
+  orderId: order.id,
+  qty: order.qty,
+  status: order.status,
+  filledQty: parseFloat(order.filledQty) || 0,
+  filledAvgPrice: order.filledAvgPrice,
+});
+
+/** Records the order a local leg was submitted as */
+export const assignLeg = (group: OrderGroup, role: OrderLegRole, order: Order): OrderGroup => ({
+  ...group,
+  legs: group.legs.map(leg => (leg.role === role ? legState(leg, order) : leg)),
+});
+
+/** Legs whose orders are submitted and not yet done, i.e. worth asking the broker about */
+export const pendingLegs = (group: OrderGroup): OrderGroupLeg[] =>
+  group.legs.filter(leg => leg.orderId !== undefined && leg.status !== 'filled' && !isDead(leg));
+
+/** Marks a group closed, e.g. once its open legs are cancelled */
+export const closeOrderGroup = (group: OrderGroup, status: 'completed' | 'canceled'): OrderGroup => ({
+  ...group,
+  status,
+  closedAt: new Date().toISOString(),
+  legs: group.legs.map(leg => (status === 'canceled' && !isDead(leg) && leg.status !== 'filled' ? { ...leg, status: 'canceled' } : leg)),
+});
+
+/**
+ * Copies order ids and statuses into the group's legs. Takes the parent
+ * order of a native group, whose child legs the broker returns with it, or
+ * any order of a local group
+ */
+export const applyOrderToGroup = (group: OrderGroup, order: Order): OrderGroup => {
+  const orders = [order, ...(order.legs || [])];
+  const legs = group.legs.map(leg => {
+    const match = orders.find(candidate =>
+      leg.orderId ? candidate.id === leg.orderId : group.managed === 'native' && matchesLeg(leg, candidate)
+    );
+    return match ? legState(leg, match) : leg;
+  });
+  return { ...group, legs };
+};
+
+// Native legs arrive without our roles; match them on side, type and price
+const matchesLeg = (leg: OrderGroupLeg, order: Order): boolean =>
+  order.side === leg.side &&
+  order.type === leg.type &&
+  (leg.role !== 'target' || order.limitPrice === leg.limitPrice) &&
+  (leg.role !== 'stop' || order.stopPrice === leg.stopPrice);
+
+/**
+ * Works out a group's status from its legs and, for a local group, the
+ * orders to submit, resize or cancel next: exits go in once the entry fills,
+ * a partial fill on one exit shrinks the others to what is still held, and a
+ * full fill cancels them. A group only completes once the other exits are no
+ * longer working, so a failed cancel is asked for again on the next pass.
+ * `alert` is set when the group closes with part of its position unprotected
+ */
+export const advanceOrderGroup = (
+  group: OrderGroup
+): { group: OrderGroup; actions: OrderGroupAction[]; alert?: string } => {
+  if (!isGroupOpen(group)) return { group, actions: [] };
+
+  const entry = legOf(group, 'entry');
+  const actions: OrderGroupAction[] = [];
+
+  if (entry && entry.status !== 'filled') {
+    if (!isDead(entry)) return { group, actions };
+    // A dead entry takes its exits with it, unless part of it filled: that
+    // part still needs its exits
+    const filledQty = entry.filledQty ?? 0;
+    if (!(filledQty > 0)) return { group: closeOrderGroup(group, 'canceled'), actions };
+    group = { ...group, qty: quantity(filledQty) };
+  }
+
+  const local = group.managed === 'local';
+  const held = parseFloat(group.qty) - group.legs.reduce((sum, leg) => sum + (leg.role !== 'entry' ? leg.filledQty ?? 0 : 0), 0);
+
+  // Exits not yet submitted go in sized to what is still held
+  if (local) {
+    group = {
+      ...group,
+      legs: group.legs.map(leg =>
+        leg.role !== 'entry' && leg.orderId === undefined && parseFloat(leg.qty) > held ? { ...leg, qty: quantity(held) } : leg
+      ),
+    };
+  }
+
+  const exits = group.legs.filter(leg => leg.role !== 'entry');
+  if (exits.some(leg => leg.status === 'filled') || held <= 0) {
+    const working = local ? exits.filter(leg => leg.status !== 'filled' && isOpen(leg)) : [];
+    if (working.length > 0) {
+      working.forEach(leg => actions.push({ type: 'cancel', leg }));
+      return { group: { ...group, status: 'working' }, actions };
+    }
+    return { group: closeOrderGroup(group, 'completed'), actions };
+  }
+
+  if (exits.every(isDead)) {
+    const alert = `${group.symbol} ${group.type} exits all closed with ${quantity(held)} still held and unprotected`;
+    return { group: closeOrderGroup(group, 'canceled'), actions, alert };
+  }
+
+  if (local) {
+    exits.forEach(leg => {
+      // A working leg may cover only its own fills and what is still held
+      const covers = (leg.filledQty ?? 0) + held;
+      if (isOpen(leg) && parseFloat(leg.qty) > covers) {
+        actions.push({ type: 'resize', leg, qty: quantity(covers) });
+      } else if (leg.orderId === undefined && leg.status === 'held') {
+        // Legs the broker refused are not sent again
+        actions.push({ type: 'submit', leg });
+      }
+    });
+  }
+  return { group: { ...group, status: 'working' }, actions };
+};
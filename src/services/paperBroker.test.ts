@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./databaseService', () => ({ default: {} }));
+
+import { applyFill, simulatedFillPrice, stopTriggered } from './paperBroker';
+
+describe('stopTriggered', () => {
+  it('triggers buy stops at or above and sell stops at or below the stop price', () => {
+    expect(stopTriggered({ side: 'buy', type: 'stop', stopPrice: 100 }, 99.99)).toBe(false);
+    expect(stopTriggered({ side: 'buy', type: 'stop', stopPrice: 100 }, 100)).toBe(true);
+    expect(stopTriggered({ side: 'sell', type: 'stop', stopPrice: 100 }, 100.01)).toBe(false);
+    expect(stopTriggered({ side: 'sell', type: 'stop', stopPrice: 100 }, 100)).toBe(true);
+  });
+
+  it('stays triggered once the stop has been reached', () => {
+    expect(stopTriggered({ side: 'buy', type: 'stop_limit', stopPrice: 100, triggered: true }, 90)).toBe(true);
+  });
+});
+
+describe('simulatedFillPrice', () => {
+  it('fills market orders with adverse slippage', () => {
+    expect(simulatedFillPrice({ side: 'buy', type: 'market' }, 100, 50)).toBeCloseTo(100.5, 10);
+    expect(simulatedFillPrice({ side: 'sell', type: 'market' }, 100, 50)).toBeCloseTo(99.5, 10);
+  });
+
+  it('fills limit orders at the quote only when it is at the limit or better', () => {
+    expect(simulatedFillPrice({ side: 'buy', type: 'limit', limitPrice: 100 }, 100.01, 50)).toBeNull();
+    expect(simulatedFillPrice({ side: 'buy', type: 'limit', limitPrice: 100 }, 99, 50)).toBe(99);
+    expect(simulatedFillPrice({ side: 'sell', type: 'limit', limitPrice: 100 }, 99.99, 50)).toBeNull();
+    expect(simulatedFillPrice({ side: 'sell', type: 'limit', limitPrice: 100 }, 101, 50)).toBe(101);
+  });
+
+  it('fills triggered stops like market orders', () => {
+    expect(simulatedFillPrice({ side: 'sell', type: 'stop', stopPrice: 95 }, 96, 50)).toBeNull();
+    expect(simulatedFillPrice({ side: 'sell', type: 'stop', stopPrice: 95 }, 94, 50)).toBeCloseTo(93.53, 10);
+  });
+
+  it('needs both the stop and the limit for stop-limit orders', () => {
+    const order = { side: 'buy' as const, type: 'stop_limit' as const, stopPrice: 100, limitPrice: 101 };
+    expect(simulatedFillPrice(order, 99, 50)).toBeNull();
+    expect(simulatedFillPrice(order, 100.5, 50)).toBe(100.5);
+    expect(simulatedFillPrice(order, 102, 50)).toBeNull();
+    expect(simulatedFillPrice({ ...order, triggered: true }, 99, 50)).toBe(99);
+  });
+});
+
+describe('applyFill', () => {
+  it('opens a position at the fill price', () => {
+    expect(applyFill(null, 'buy', 10, 100)).toEqual({ qty: 10, avgEntryPrice: 100 });
+    expect(applyFill(null, 'sell', 10, 100)).toEqual({ qty: -10, avgEntryPrice: 100 });
+  });
+
+  it('averages the entry price when the position grows', () => {
+    expect(applyFill({ qty: 10, avgEntryPrice: 100 }, 'buy', 10, 110)).toEqual({ qty: 20, avgEntryPrice: 105 });
+    expect(applyFill({ qty: -10, avgEntryPrice: 100 }, 'sell', 30, 120)).toEqual({ qty: -40, avgEntryPrice: 115 });
+  });
+
+  it('keeps the entry price when the position shrinks or closes', () => {
+    expect(applyFill({ qty: 10, avgEntryPrice: 100 }, 'sell', 4, 120)).toEqual({ qty: 6, avgEntryPrice: 100 });
+    expect(applyFill({ qty: 10, avgEntryPrice: 100 }, 'sell', 10, 120)).toEqual({ qty: 0, avgEntryPrice: 100 });
+  });
+
+  it('starts a new entry price when the position flips side', () => {
+    expect(applyFill({ qty: 10, avgEntryPrice: 100 }, 'sell', 15, 120)).toEqual({ qty: -5, avgEntryPrice: 120 });
+  });
+});
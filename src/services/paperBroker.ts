@@ -0,0 +1,705 @@
+// In-process simulated broker with the same surface as the Alpaca service
+import { Prisma } from '@prisma/client';
+import DatabaseService from './databaseService';
+import { Order, Position, Account } from '../store/slices/types';
+import type { AlpacaPortfolioHistory, CreateOrderRequest, ModifyOrderRequest } from './alpacaService';
+import type { BrokerService } from './brokerService';
+
+export interface PaperBrokerSettings {
+  latencyMs: number; // delay before a submitted order reaches the simulated exchange
+  slippageBps: number; // adverse slippage applied to market and triggered stop fills
+  startingCash: number;
+}
+
+export const DEFAULT_PAPER_SETTINGS: PaperBrokerSettings = {
+  latencyMs: 250,
+  slippageBps: 5,
+  startingCash: 10000,
+};
+
+type OrderSide = 'buy' | 'sell';
+
+interface PaperOrderRow {
+  id: string;
+  accountId: string;
+  clientOrderId: string;
+  symbol: string;
+  side: string;
+  type: string;
+  timeInForce: string;
+  qty: number;
+  filledQty: number;
+  filledAvgPrice: number | null;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  triggered: boolean;
+  status: string;
+  activeAt: Date;
+  submittedAt: Date;
+  filledAt: Date | null;
+  canceledAt: Date | null;
+  replacedAt: Date | null;
+  replacedBy: string | null;
+  replaces: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PaperPositionRow {
+  symbol: string;
+  qty: number;
+  avgEntryPrice: number;
+  lastPrice: number;
+}
+
+/** Open order quantity and prices, as the fill model sees them */
+export interface SimulatedOrder {
+  side: OrderSide;
+  type: 'market' | 'limit' | 'stop' | 'stop_limit';
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  triggered?: boolean;
+}
+
+/** Whether a stop order's stop price has been reached at `price` */
+export const stopTriggered = (order: SimulatedOrder, price: number): boolean => {
+  if (order.triggered || order.stopPrice == null) return true;
+  return order.side === 'buy' ? price >= order.stopPrice : price <= order.stopPrice;
+};
+
+/**
+ * Price an order fills at against a quote, or null when it can't fill yet.
+ * Market fills (including triggered stops) pay the slippage; limit fills get
+ * the quote, which is at the limit or better
+ */
+export const simulatedFillPrice = (order: SimulatedOrder, price: number, slippageBps: number): number | null => {
+  const slipped = order.side === 'buy' ? price * (1 + slippageBps / 10000) : price * (1 - slippageBps / 10000);
+
+  switch (order.type) {
+    case 'market':
+      return slipped;
+    case 'stop':
+      return stopTriggered(order, price) ? slipped : null;
+    case 'stop_limit':
+    case 'limit':
+      if (order.type === 'stop_limit' && !stopTriggered(order, price)) return null;
+      if (order.limitPrice == null) return null;
+      return (order.side === 'buy' ? price <= order.limitPrice : price >= order.limitPrice) ? price : null;
+  }
+};
+
+/**
+ * A position after a fill. Quantities are signed (short is negative); the
+ * average entry price only moves when the position grows or flips side
+ */
+export const applyFill = (
+  held: { qty: number; avgEntryPrice: number } | null,
+  side: OrderSide,
+  qty: number,
+  price: number
+): { qty: number; avgEntryPrice: number } => {
+  const current = held?.qty ?? 0;
+  const delta = side === 'buy' ? qty : -qty;
+  const next = current + delta;
+
+  if (current === 0 || Math.sign(current) === Math.sign(delta)) {
+    const avgEntryPrice = (Math.abs(current) * (held?.avgEntryPrice ?? 0) + qty * price) / Math.abs(next);
+    return { qty: next, avgEntryPrice };
+  }
+  if (Math.sign(next) === Math.sign(current) || next === 0) {
+    return { qty: next, avgEntryPrice: held!.avgEntryPrice };
+  }
+  return { qty: next, avgEntryPrice: price };
+};
+
+const PERIOD_MS: Record<string, number> = {
+  '1D': 24 * 60 * 60 * 1000,
+  '1W': 7 * 24 * 60 * 60 * 1000,
+  '1M': 30 * 24 * 60 * 60 * 1000,
+  '3M': 90 * 24 * 60 * 60 * 1000,
+  '1A': 365 * 24 * 60 * 60 * 1000,
+};
+
+const TIMEFRAME_MS: Record<string, number> = {
+  '1Min': 60 * 1000,
+  '5Min': 5 * 60 * 1000,
+  '15Min': 15 * 60 * 1000,
+  '1H': 60 * 60 * 1000,
+  '1D': 24 * 60 * 60 * 1000,
+};
+
+// Equity is snapshotted at most this often outside of fills
+const SNAPSHOT_INTERVAL_MS = 60 * 1000;
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Simulated broker for one user. Orders reach the exchange `latencyMs` after
+ * submission and fill against the latest price it has been fed, live or
+ * replayed; the account, orders, positions and equity history live in SQLite
+ */
+export class PaperBroker implements BrokerService {
+  private quotes: Map<string, { price: number; timestamp: number }> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+  private lastSnapshot = 0;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(readonly userId: string, private settings: PaperBrokerSettings = DEFAULT_PAPER_SETTINGS) {}
+
+  configure(settings: Partial<PaperBrokerSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  getSettings(): PaperBrokerSettings {
+    return { ...this.settings };
+  }
+
+  /** Stops pending latency timers; stored state is kept */
+  dispose(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /** Calls `listener` whenever orders fill, trigger or are cancelled by the simulation */
+  onOrdersChanged(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Price feed
+
+  /** Feeds a price and fills any open orders it satisfies */
+  updatePrice(symbol: string, price: number, timestamp: number = Date.now()): Promise<void> {
+    this.quotes.set(symbol, { price, timestamp });
+    return this.process(symbol);
+  }
+
+  /**
+   * Replays stored bars for a symbol through the fill model, one close every
+   * `intervalMs`. Returns a function that stops the replay
+   */
+  replayMarketData(symbol: string, startDate: Date, endDate: Date, intervalMs: number = 1000): () => void {
+    let stopped = false;
+
+    (async () => {
+      const bars = await DatabaseService.getMarketData(symbol, startDate, endDate);
+      for (const bar of bars) {
+        if (stopped) return;
+        await this.updatePrice(symbol, bar.close, new Date(bar.timestamp).getTime());
+        await new Promise(resolve => setTimeout(resolve, intervalMs));
+      }
+    })().catch(error => console.error('Error replaying market data:', error));
+
+    return () => {
+      stopped = true;
+    };
+  }
+
+  // Account Methods
+  async getAccount(): Promise<Account> {
+    const account = await this.account();
+    const positions: PaperPositionRow[] = await DatabaseService.getClient().paperPosition.findMany({
+      where: { accountId: account.id },
+    });
+
+    let longMarketValue = 0;
+    let shortMarketValue = 0;
+    let unrealizedPL = 0;
+    let costBasis = 0;
+    for (const position of positions) {
+      const price = this.lastPrice(position);
+      if (position.qty > 0) longMarketValue += position.qty * price;
+      else shortMarketValue += position.qty * price;
+      unrealizedPL += position.qty * (price - position.avgEntryPrice);
+      costBasis += Math.abs(position.qty) * position.avgEntryPrice;
+    }
+
+    const equity = account.cash + longMarketValue + shortMarketValue;
+    const now = new Date();
+    let lastEquity = account.lastEquity;
+    if (new Date(account.equityDate) < startOfDay(now)) {
+      lastEquity = equity;
+      await DatabaseService.getClient().paperAccount.update({
+        where: { id: account.id },
+        data: { lastEquity, equityDate: startOfDay(now) },
+      });
+    }
+    await this.snapshot(account.id, equity);
+
+    const buyingPower = Math.max(0, equity - longMarketValue + shortMarketValue);
+    return {
+      id: account.id,
+      accountNumber: `PAPER-${account.id.slice(-8).toUpperCase()}`,
+      status: 'ACTIVE',
+      currency: 'USD',
+      cash: account.cash,
+      buyingPower,
+      portfolioValue: equity,
+      equity,
+      lastEquity,
+      longMarketValue,
+      shortMarketValue,
+      dayPL: equity - lastEquity,
+      dayPLPercent: lastEquity ? ((equity - lastEquity) / lastEquity) * 100 : 0,
+      unrealizedPL,
+      unrealizedPLPercent: costBasis ? (unrealizedPL / costBasis) * 100 : 0,
+      tradingBlocked: false,
+      transfersBlocked: true,
+      accountBlocked: false,
+      patternDayTrader: false,
+      daytradingBuyingPower: buyingPower,
+      regtBuyingPower: buyingPower,
+      createdAt: new Date(account.createdAt).toISOString(),
+    };
+  }
+
+  /** Deletes the account with its orders, positions and history and starts over */
+  async reset(startingCash: number = this.settings.startingCash): Promise<void> {
+    this.dispose();
+    this.settings.startingCash = startingCash;
+    await DatabaseService.getClient().paperAccount.deleteMany({ where: { userId: this.userId } });
+    await this.account();
+  }
+
+  // Order Methods
+  async getOrders(status?: 'open' | 'closed' | 'all', limit: number = 50): Promise<Order[]> {
+    const account = await this.account();
+    await this.expireDayOrders(account.id);
+    const orders: PaperOrderRow[] = await DatabaseService.getClient().paperOrder.findMany({
+      where: {
+        accountId: account.id,
+        ...(status === 'open' && { status: 'new' }),
+        ...(status === 'closed' && { status: { not: 'new' } }),
+      },
+      orderBy: { submittedAt: 'desc' },
+      take: limit,
+    });
+    return orders.map(order => this.transformOrder(order));
+  }
+
+  async getOrder(orderId: string): Promise<Order> {
+    return this.transformOrder(await this.findOrder(orderId));
+  }
+
+  async createOrder(orderData: CreateOrderRequest): Promise<Order> {
+    const account = await this.account();
+    const qty = parseFloat(orderData.qty);
+    if (!(qty > 0)) {
+      throw new Error('Order quantity must be positive');
+    }
+    if (orderData.type !== 'market' && orderData.type !== 'stop' && !orderData.limit_price) {
+      throw new Error(`A ${orderData.type} order requires a limit price`);
+    }
+    if ((orderData.type === 'stop' || orderData.type === 'stop_limit') && !orderData.stop_price) {
+      throw new Error(`A ${orderData.type} order requires a stop price`);
+    }
+    if (orderData.order_class && orderData.order_class !== 'simple') {
+      throw new Error(`The paper broker does not support ${orderData.order_class} orders`);
+    }
+
+    const price = orderData.limit_price ? parseFloat(orderData.limit_price) : await this.price(orderData.symbol);
+    if (price !== undefined) {
+      await this.ensureBuyingPower(account.id, orderData.symbol, orderData.side, qty, price);
+    }
+
+    const order: PaperOrderRow = await DatabaseService.getClient().paperOrder.create({
+      data: {
+        accountId: account.id,
+        clientOrderId: orderData.client_order_id || `paper_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        symbol: orderData.symbol,
+        side: orderData.side,
+        type: orderData.type,
+        timeInForce: orderData.time_in_force,
+        qty,
+        limitPrice: orderData.limit_price ? parseFloat(orderData.limit_price) : null,
+        stopPrice: orderData.stop_price ? parseFloat(orderData.stop_price) : null,
+        activeAt: new Date(Date.now() + this.settings.latencyMs),
+      },
+    });
+
+    this.schedule(order);
+    return this.transformOrder(order);
+  }
+
+  /** Replaces an open order, as Alpaca does: the original is marked replaced */
+  async modifyOrder(orderId: string, modifications: ModifyOrderRequest): Promise<Order> {
+    const original = await this.findOrder(orderId);
+    if (original.status !== 'new') {
+      throw new Error(`Order ${orderId} is ${original.status} and cannot be replaced`);
+    }
+
+    const now = new Date();
+    const replacement: PaperOrderRow = await DatabaseService.getClient().$transaction(async (tx: Prisma.TransactionClient) => {
+      const created = await tx.paperOrder.create({
+        data: {
+          accountId: original.accountId,
+          clientOrderId: modifications.client_order_id || `${original.clientOrderId}_r`,
+          symbol: original.symbol,
+          side: original.side,
+          type: original.type,
+          timeInForce: modifications.time_in_force || original.timeInForce,
+          qty: modifications.qty ? parseFloat(modifications.qty) : original.qty,
+          limitPrice: modifications.limit_price ? parseFloat(modifications.limit_price) : original.limitPrice,
+          stopPrice: modifications.stop_price ? parseFloat(modifications.stop_price) : original.stopPrice,
+          triggered: original.triggered,
+          replaces: original.id,
+          activeAt: new Date(now.getTime() + this.settings.latencyMs),
+        },
+      });
+      const { count } = await tx.paperOrder.updateMany({
+        where: { id: original.id, status: 'new' },
+        data: { status: 'replaced', replacedAt: now, replacedBy: created.id },
+      });
+      if (count === 0) throw new Error(`Order ${orderId} was filled before it could be replaced`);
+      return created;
+    });
+
+    this.schedule(replacement);
+    return this.transformOrder(replacement);
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    const order = await this.findOrder(orderId);
+    if (order.status !== 'new') {
+      throw new Error(`Order ${orderId} is ${order.status} and cannot be canceled`);
+    }
+    // Conditional, as a fill may land between the read and the cancel
+    const { count } = await DatabaseService.getClient().paperOrder.updateMany({
+      where: { id: orderId, status: 'new' },
+      data: { status: 'canceled', canceledAt: new Date() },
+    });
+    if (count === 0) {
+      throw new Error(`Order ${orderId} was filled before it could be canceled`);
+    }
+  }
+
+  async cancelAllOrders(): Promise<void> {
+    const account = await this.account();
+    await DatabaseService.getClient().paperOrder.updateMany({
+      where: { accountId: account.id, status: 'new' },
+      data: { status: 'canceled', canceledAt: new Date() },
+    });
+  }
+
+  // Bracket and OCO legs are linked by the app, not the simulated exchange
+  supportsOrderClass(_orderClass: 'bracket' | 'oco', _symbol: string): boolean {
+    return false;
+  }
+
+  // Position Methods
+  async getPositions(): Promise<Position[]> {
+    const account = await this.account();
+    const positions: PaperPositionRow[] = await DatabaseService.getClient().paperPosition.findMany({
+      where: { accountId: account.id },
+      orderBy: { symbol: 'asc' },
+    });
+    return positions.map(position => this.transformPosition(position));
+  }
+
+  async getPosition(symbol: string): Promise<Position> {
+    const position = await this.findPosition(symbol);
+    if (!position) {
+      throw new Error(`No open position for ${symbol}`);
+    }
+    return this.transformPosition(position);
+  }
+
+  async closePosition(symbol: string, qty?: string, percentage?: string): Promise<Order> {
+    const position = await this.findPosition(symbol);
+    if (!position) {
+      throw new Error(`No open position for ${symbol}`);
+    }
+
+    const held = Math.abs(position.qty);
+    const closeQty = qty ? Math.min(parseFloat(qty), held) : percentage ? held * (parseFloat(percentage) / 100) : held;
+    return this.createOrder({
+      symbol,
+      qty: closeQty.toString(),
+      side: position.qty > 0 ? 'sell' : 'buy',
+      type: 'market',
+      time_in_force: 'day',
+    });
+  }
+
+  async closeAllPositions(): Promise<Order[]> {
+    const positions = await this.getPositions();
+    return Promise.all(positions.map(position => this.closePosition(position.symbol)));
+  }
+
+  // Portfolio History
+  async getPortfolioHistory(
+    period?: '1D' | '1W' | '1M' | '3M' | '1A' | 'all',
+    timeframe?: '1Min' | '5Min' | '15Min' | '1H' | '1D'
+  ): Promise<AlpacaPortfolioHistory> {
+    const account = await this.account();
+    const since = period && period !== 'all' ? new Date(Date.now() - PERIOD_MS[period]) : undefined;
+    const snapshots: Array<{ timestamp: Date; equity: number }> = await DatabaseService.getClient().paperEquitySnapshot.findMany({
+      where: { accountId: account.id, ...(since && { timestamp: { gte: since } }) },
+      orderBy: { timestamp: 'asc' },
+    });
+
+    // The last snapshot in each timeframe bucket stands for that bucket
+    const bucketMs = TIMEFRAME_MS[timeframe || '1D'];
+    const buckets: Map<number, number> = new Map();
+    for (const snapshot of snapshots) {
+      const time = new Date(snapshot.timestamp).getTime();
+      buckets.set(Math.floor(time / bucketMs) * bucketMs, snapshot.equity);
+    }
+
+    const baseValue = account.startingCash;
+    const entries = Array.from(buckets.entries());
+    return {
+      timestamp: entries.map(([time]) => Math.floor(time / 1000)),
+      equity: entries.map(([, equity]) => equity),
+      profit_loss: entries.map(([, equity]) => equity - baseValue),
+      profit_loss_pct: entries.map(([, equity]) => (equity - baseValue) / baseValue),
+      base_value: baseValue,
+      timeframe: timeframe || '1D',
+    };
+  }
+
+  // Simulation
+
+  /** Runs the fill model for an order once it reaches the exchange */
+  private schedule(order: PaperOrderRow): void {
+    const delay = Math.max(0, new Date(order.activeAt).getTime() - Date.now()) + 1;
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.process(order.symbol);
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  /** Fills are processed one at a time so cash and positions stay consistent */
+  private process(symbol: string): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.fillOpenOrders(symbol))
+      .catch(error => console.error('Error filling paper orders:', error));
+    return this.queue;
+  }
+
+  private async fillOpenOrders(symbol: string): Promise<void> {
+    const account = await this.account();
+    await this.expireDayOrders(account.id);
+    const orders: PaperOrderRow[] = await DatabaseService.getClient().paperOrder.findMany({
+      where: { accountId: account.id, symbol, status: 'new', activeAt: { lte: new Date() } },
+      orderBy: { activeAt: 'asc' },
+    });
+    if (orders.length === 0) return;
+
+    const price = await this.price(symbol);
+    if (price === undefined) return;
+
+    let changed = false;
+    for (const order of orders) {
+      const simulated = { ...order, side: order.side as OrderSide, type: order.type as SimulatedOrder['type'] };
+      const fillPrice = simulatedFillPrice(simulated, price, this.settings.slippageBps);
+
+      if (fillPrice === null) {
+        if (order.timeInForce === 'ioc' || order.timeInForce === 'fok') {
+          const { count } = await DatabaseService.getClient().paperOrder.updateMany({
+            where: { id: order.id, status: 'new' },
+            data: { status: 'canceled', canceledAt: new Date() },
+          });
+          changed = changed || count > 0;
+        } else if (!order.triggered && order.stopPrice != null && stopTriggered({ ...simulated, triggered: false }, price)) {
+          await DatabaseService.getClient().paperOrder.update({ where: { id: order.id }, data: { triggered: true } });
+        }
+        continue;
+      }
+
+      try {
+        await this.ensureBuyingPower(account.id, symbol, simulated.side, order.qty, fillPrice);
+      } catch (error) {
+        const { count } = await DatabaseService.getClient().paperOrder.updateMany({
+          where: { id: order.id, status: 'new' },
+          data: { status: 'rejected', canceledAt: new Date() },
+        });
+        changed = changed || count > 0;
+        continue;
+      }
+
+      changed = (await this.fill(account.id, order, simulated.side, fillPrice)) || changed;
+    }
+    if (changed) this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Fills an order that is still open, returning false when it was cancelled
+   * after the open orders were loaded
+   */
+  private async fill(accountId: string, order: PaperOrderRow, side: OrderSide, price: number): Promise<boolean> {
+    const now = new Date();
+    const filled = await DatabaseService.getClient().$transaction(async (tx: Prisma.TransactionClient) => {
+      const { count } = await tx.paperOrder.updateMany({
+        where: { id: order.id, status: 'new' },
+        data: { status: 'filled', filledQty: order.qty, filledAvgPrice: price, filledAt: now },
+      });
+      if (count === 0) return false;
+
+      const held: PaperPositionRow | null = await tx.paperPosition.findUnique({
+        where: { accountId_symbol: { accountId, symbol: order.symbol } },
+      });
+      const next = applyFill(held, side, order.qty, price);
+
+      if (next.qty === 0) {
+        await tx.paperPosition.delete({ where: { accountId_symbol: { accountId, symbol: order.symbol } } });
+      } else {
+        await tx.paperPosition.upsert({
+          where: { accountId_symbol: { accountId, symbol: order.symbol } },
+          update: { qty: next.qty, avgEntryPrice: next.avgEntryPrice, lastPrice: price },
+          create: { accountId, symbol: order.symbol, qty: next.qty, avgEntryPrice: next.avgEntryPrice, lastPrice: price },
+        });
+      }
+
+      const cashChange = side === 'buy' ? -order.qty * price : order.qty * price;
+      await tx.paperAccount.update({ where: { id: accountId }, data: { cash: { increment: cashChange } } });
+      return true;
+    });
+    if (!filled) return false;
+
+    this.lastSnapshot = 0;
+    await this.getAccount();
+    return true;
+  }
+
+  /** Day orders still open from an earlier day expire, as they would at the close */
+  private async expireDayOrders(accountId: string): Promise<void> {
+    const { count } = await DatabaseService.getClient().paperOrder.updateMany({
+      where: { accountId, timeInForce: 'day', status: 'new', submittedAt: { lt: startOfDay(new Date()) } },
+      data: { status: 'expired' },
+    });
+    if (count > 0) this.listeners.forEach(listener => listener());
+  }
+
+  /** Rejects orders that would grow exposure beyond the account's buying power */
+  private async ensureBuyingPower(accountId: string, symbol: string, side: OrderSide, qty: number, price: number): Promise<void> {
+    const held = await DatabaseService.getClient().paperPosition.findUnique({
+      where: { accountId_symbol: { accountId, symbol } },
+    });
+    const current = held?.qty ?? 0;
+    const next = current + (side === 'buy' ? qty : -qty);
+    const added = Math.max(0, Math.abs(next) - Math.abs(current)) * price;
+    if (added === 0) return;
+
+    const { buyingPower } = await this.getAccount();
+    if (added > buyingPower) {
+      throw new Error(`Insufficient buying power: order needs $${added.toFixed(2)}, $${buyingPower.toFixed(2)} available`);
+    }
+  }
+
+  private async snapshot(accountId: string, equity: number): Promise<void> {
+    if (Date.now() - this.lastSnapshot < SNAPSHOT_INTERVAL_MS) return;
+    this.lastSnapshot = Date.now();
+    await DatabaseService.getClient().paperEquitySnapshot.create({ data: { accountId, equity } });
+  }
+
+  // Storage
+
+  private async account() {
+    const now = new Date();
+    return DatabaseService.getClient().paperAccount.upsert({
+      where: { userId: this.userId },
+      update: {},
+      create: {
+        userId: this.userId,
+        cash: this.settings.startingCash,
+        startingCash: this.settings.startingCash,
+        lastEquity: this.settings.startingCash,
+        equityDate: startOfDay(now),
+      },
+    });
+  }
+
+  private async findOrder(orderId: string): Promise<PaperOrderRow> {
+    const account = await this.account();
+    await this.expireDayOrders(account.id);
+    const order = await DatabaseService.getClient().paperOrder.findFirst({
+      where: { id: orderId, accountId: account.id },
+    });
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    return order;
+  }
+
+  private async findPosition(symbol: string): Promise<PaperPositionRow | null> {
+    const account = await this.account();
+    return DatabaseService.getClient().paperPosition.findUnique({
+      where: { accountId_symbol: { accountId: account.id, symbol } },
+    });
+  }
+
+  /** Latest fed price, falling back to the latest stored bar */
+  private async price(symbol: string): Promise<number | undefined> {
+    const quote = this.quotes.get(symbol);
+    if (quote) return quote.price;
+
+    const bar = await DatabaseService.getClient().marketData.findFirst({
+      where: { symbol },
+      orderBy: { timestamp: 'desc' },
+    });
+    return bar?.close;
+  }
+
+  private lastPrice(position: PaperPositionRow): number {
+    return this.quotes.get(position.symbol)?.price ?? position.lastPrice;
+  }
+
+  // Utility Methods
+  private transformOrder(order: PaperOrderRow): Order {
+    const iso = (date: Date | null) => (date ? new Date(date).toISOString() : undefined);
+    return {
+      id: order.id,
+      clientOrderId: order.clientOrderId,
+      symbol: order.symbol,
+      assetClass: 'us_equity',
+      side: order.side as 'buy' | 'sell',
+      type: order.type as 'market' | 'limit' | 'stop' | 'stop_limit',
+      timeInForce: order.timeInForce as 'day' | 'gtc' | 'ioc' | 'fok',
+      qty: order.qty.toString(),
+      filledQty: order.filledQty.toString(),
+      filledAvgPrice: order.filledAvgPrice ?? undefined,
+      limitPrice: order.limitPrice ?? undefined,
+      stopPrice: order.stopPrice ?? undefined,
+      status: order.status,
+      extendedHours: false,
+      createdAt: new Date(order.createdAt).toISOString(),
+      updatedAt: new Date(order.updatedAt).toISOString(),
+      submittedAt: new Date(order.submittedAt).toISOString(),
+      filledAt: iso(order.filledAt),
+      canceledAt: iso(order.canceledAt),
+      expiredAt: order.status === 'expired' ? iso(order.updatedAt) : undefined,
+      replacedAt: iso(order.replacedAt),
+      replacedBy: order.replacedBy ?? undefined,
+      replaces: order.replaces ?? undefined,
+    };
+  }
+
+  private transformPosition(position: PaperPositionRow): Position {
+    const qty = Math.abs(position.qty);
+    const currentPrice = this.lastPrice(position);
+    const costBasis = qty * position.avgEntryPrice;
+    const unrealizedPL = position.qty * (currentPrice - position.avgEntryPrice);
+
+    return {
+      symbol: position.symbol,
+      assetClass: 'us_equity',
+      exchange: 'PAPER',
+      side: position.qty > 0 ? 'long' : 'short',
+      qty,
+      avgEntryPrice: position.avgEntryPrice,
+      currentPrice,
+      marketValue: qty * currentPrice,
+      costBasis,
+      unrealizedPL,
+      unrealizedPLPercent: costBasis ? (unrealizedPL / costBasis) * 100 : 0,
+      unrealizedIntradayPL: 0,
+      unrealizedIntradayPLPercent: 0,
+      changeToday: 0,
+    };
+  }
+}
@@ -0,0 +1,292 @@
+// Risk-adjusted performance statistics shared by backtests and live trade history
+
+export interface EquityPoint {
+  date: string;
+  value: number;
+}
+
+export interface StatisticsTrade {
+  entryDate: string | Date;
+  exitDate?: string | Date | null;
+  pnl: number; // net of costs
+}
+
+export interface PnlPercentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface PerformanceStatistics {
+  totalReturnPercent: number;
+  annualizedReturn: number; // percent, compounded
+  annualizedVolatility: number; // percent, from per-period equity returns
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number; // annualized return / max drawdown
+  maxDrawdown: number; // percent of the running peak
+  maxDrawdownAmount: number;
+  maxDrawdownDurationDays: number; // longest peak-to-recovery (or to end) stretch
+  exposureTime: number; // percent of equity periods with an open trade
+  totalTrades: number;
+  grossProfit: number;
+  grossLoss: number;
+  profitFactor: number; // gross profit / gross loss; Infinity when there are no losing trades
+  expectancy: number; // average net P&L per trade
+  averageHoldingHours: number;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  pnlPercentiles: PnlPercentiles;
+}
+
+export interface StatisticsInput {
+  equity: EquityPoint[];
+  trades: StatisticsTrade[];
+  initialCapital: number;
+  periodMs: number; // spacing of the equity points, e.g. TIMEFRAME_MS['1d']
+  riskFreeRate?: number; // annual, percent
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const YEAR_MS = 365 * DAY_MS; // crypto trades every day
+
+const toTime = (date: string | Date) => new Date(date).getTime();
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const sampleStdDev = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - avg, 2), 0) / (values.length - 1));
+};
+
+/**
+ * Linear-interpolated percentile of an ascending sorted list
+ */
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+/**
+ * Per-period simple returns of an equity curve
+ */
+export const periodReturns = (equity: EquityPoint[]): number[] => {
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1].value > 0) {
+      returns.push(equity[i].value / equity[i - 1].value - 1);
+    }
+  }
+  return returns;
+};
+
+/**
+ * Annualized Sharpe ratio of an equity curve sampled every periodMs
+ */
+export const calculateSharpeRatio = (equity: EquityPoint[], periodMs: number, riskFreeRate: number = 0): number => {
+  const returns = periodReturns(equity);
+  const stdDev = sampleStdDev(returns);
+  if (stdDev === 0) return 0;
+
+  const periodsPerYear = YEAR_MS / periodMs;
+  const riskFreePerPeriod = riskFreeRate / 100 / periodsPerYear;
+  return ((mean(returns) - riskFreePerPeriod) / stdDev) * Math.sqrt(periodsPerYear);
+};
+
+/**
+ * Annualized Sortino ratio; only returns below the risk-free rate count as risk
+ */
+export const calculateSortinoRatio = (equity: EquityPoint[], periodMs: number, riskFreeRate: number = 0): number => {
+  const returns = periodReturns(equity);
+  if (returns.length < 2) return 0;
+
+  const periodsPerYear = YEAR_MS / periodMs;
+  const riskFreePerPeriod = riskFreeRate / 100 / periodsPerYear;
+  const downside = returns.map(r => Math.min(0, r - riskFreePerPeriod));
+  const downsideDeviation = Math.sqrt(downside.reduce((sum, d) => sum + d * d, 0) / returns.length);
+  if (downsideDeviation === 0) return 0;
+
+  return ((mean(returns) - riskFreePerPeriod) / downsideDeviation) * Math.sqrt(periodsPerYear);
+};
+
+/**
+ * Deepest peak-to-trough decline and the longest time spent below a prior peak
+ */
+export const calculateDrawdown = (
+  equity: EquityPoint[],
+  initialCapital: number
+): { maxDrawdown: number; maxDrawdownAmount: number; maxDrawdownDurationDays: number } => {
+  let peak = initialCapital;
+  let peakTime = equity.length > 0 ? toTime(equity[0].date) : 0;
+  let maxDrawdown = 0;
+  let maxDrawdownAmount = 0;
+  let maxDuration = 0;
+
+  equity.forEach(point => {
+    const time = toTime(point.date);
+    if (point.value >= peak) {
+      peak = point.value;
+      peakTime = time;
+    } else {
+      maxDuration = Math.max(maxDuration, time - peakTime);
+    }
+
+    const amount = peak - point.value;
+    if (amount > maxDrawdownAmount) maxDrawdownAmount = amount;
+    const drawdown = peak > 0 ? (amount / peak) * 100 : 0;
+    if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+  });
+
+  return { maxDrawdown, maxDrawdownAmount, maxDrawdownDurationDays: maxDuration / DAY_MS };
+};
+
+/**
+ * Longest runs of consecutive winning and losing trades, in exit order
+ */
+export const calculateStreaks = (trades: StatisticsTrade[]): { longestWinStreak: number; longestLossStreak: number } => {
+  const ordered = [...trades].sort((a, b) => toTime(a.exitDate ?? a.entryDate) - toTime(b.exitDate ?? b.entryDate));
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let wins = 0;
+  let losses = 0;
+
+  ordered.forEach(trade => {
+    if (trade.pnl > 0) {
+      wins++;
+      losses = 0;
+    } else if (trade.pnl < 0) {
+      losses++;
+      wins = 0;
+    } else {
+      wins = 0;
+      losses = 0;
+    }
+    longestWinStreak = Math.max(longestWinStreak, wins);
+    longestLossStreak = Math.max(longestLossStreak, losses);
+  });
+
+  return { longestWinStreak, longestLossStreak };
+};
+
+/**
+ * Percent of equity points that fall inside an open trade
+ */
+export const calculateExposureTime = (equity: EquityPoint[], trades: StatisticsTrade[]): number => {
+  if (equity.length === 0 || trades.length === 0) return 0;
+
+  const intervals = trades.map(trade => [
+    toTime(trade.entryDate),
+    trade.exitDate ? toTime(trade.exitDate) : Number.POSITIVE_INFINITY,
+  ]);
+  const exposed = equity.filter(point => {
+    const time = toTime(point.date);
+    return intervals.some(([entry, exit]) => time >= entry && time < exit);
+  }).length;
+
+  return (exposed / equity.length) * 100;
+};
+
+/**
+ * Compute the full statistics set for an equity curve and its trades
+ */
+export const calculatePerformanceStatistics = (input: StatisticsInput): PerformanceStatistics => {
+  const { equity, trades, initialCapital, periodMs, riskFreeRate = 0 } = input;
+
+  const finalValue = equity.length > 0 ? equity[equity.length - 1].value : initialCapital;
+  const totalReturnPercent = initialCapital > 0 ? ((finalValue - initialCapital) / initialCapital) * 100 : 0;
+
+  // Calendar span covered by the curve, counting the last period
+  const spanMs = equity.length > 0
+    ? toTime(equity[equity.length - 1].date) - toTime(equity[0].date) + periodMs
+    : 0;
+  const years = spanMs / YEAR_MS;
+  const growth = initialCapital > 0 ? finalValue / initialCapital : 0;
+  const annualizedReturn = years > 0 && growth > 0 ? (Math.pow(growth, 1 / years) - 1) * 100 : 0;
+
+  const annualizedVolatility = sampleStdDev(periodReturns(equity)) * Math.sqrt(YEAR_MS / periodMs) * 100;
+  const drawdown = calculateDrawdown(equity, initialCapital);
+
+  const closed = trades.filter(t => t.exitDate);
+  const pnls = closed.map(t => t.pnl);
+  const grossProfit = pnls.filter(p => p > 0).reduce((a, b) => a + b, 0);
+  const grossLoss = Math.abs(pnls.filter(p => p < 0).reduce((a, b) => a + b, 0));
+  const holdingHours = closed.map(t => (toTime(t.exitDate!) - toTime(t.entryDate)) / (60 * 60 * 1000));
+  const sortedPnls = [...pnls].sort((a, b) => a - b);
+
+  return {
+    totalReturnPercent,
+    annualizedReturn,
+    annualizedVolatility,
+    sharpeRatio: calculateSharpeRatio(equity, periodMs, riskFreeRate),
+    sortinoRatio: calculateSortinoRatio(equity, periodMs, riskFreeRate),
+    calmarRatio: drawdown.maxDrawdown > 0 ? annualizedReturn / drawdown.maxDrawdown : 0,
+    ...drawdown,
+    exposureTime: calculateExposureTime(equity, trades),
+    totalTrades: closed.length,
+    grossProfit,
+    grossLoss,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : (grossProfit > 0 ? Number.POSITIVE_INFINITY : 0),
+    expectancy: mean(pnls),
+    averageHoldingHours: mean(holdingHours),
+    ...calculateStreaks(closed),
+    pnlPercentiles: {
+      p5: percentile(sortedPnls, 5),
+      p25: percentile(sortedPnls, 25),
+      p50: percentile(sortedPnls, 50),
+      p75: percentile(sortedPnls, 75),
+      p95: percentile(sortedPnls, 95),
+    },
+  };
+};
+
+/**
+ * Daily equity curve built from realized trade P&L, for trade histories that
+ * have no recorded equity series (e.g. live trading)
+ */
+export const buildDailyEquityFromTrades = (trades: StatisticsTrade[], initialCapital: number): EquityPoint[] => {
+  const closed = trades
+    .filter(t => t.exitDate)
+    .sort((a, b) => toTime(a.exitDate!) - toTime(b.exitDate!));
+  if (closed.length === 0) return [];
+
+  const pnlByDay = new Map<number, number>();
+  closed.forEach(trade => {
+    const day = Math.floor(toTime(trade.exitDate!) / DAY_MS) * DAY_MS;
+    pnlByDay.set(day, (pnlByDay.get(day) ?? 0) + trade.pnl);
+  });
+
+  const firstDay = Math.floor(Math.min(...trades.map(t => toTime(t.entryDate))) / DAY_MS) * DAY_MS;
+  const lastDay = Math.max(...Array.from(pnlByDay.keys()));
+
+  const equity: EquityPoint[] = [];
+  let value = initialCapital;
+  for (let day = firstDay; day <= lastDay; day += DAY_MS) {
+    value += pnlByDay.get(day) ?? 0;
+    equity.push({ date: new Date(day).toISOString().split('T')[0], value });
+  }
+  return equity;
+};
+
+/**
+ * Statistics for a realized trade history on a daily equity basis
+ */
+export const calculateTradeHistoryStatistics = (
+  trades: StatisticsTrade[],
+  initialCapital: number,
+  riskFreeRate: number = 0
+): PerformanceStatistics =>
+  calculatePerformanceStatistics({
+    equity: buildDailyEquityFromTrades(trades, initialCapital),
+    trades,
+    initialCapital,
+    periodMs: DAY_MS,
+    riskFreeRate,
+  });
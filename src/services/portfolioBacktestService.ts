@@ -0,0 +1,507 @@
+import { StrategySignal } from '../store/slices/strategiesSlice';
+import {
+  backtestingService,
+  BacktestDataSource,
+  BacktestTimeframe,
+  BacktestTrade,
+  DataQualityReport,
+  HistoricalPrice,
+  TIMEFRAME_MS,
+} from './backtestingService';
+import { CostModel, DEFAULT_COST_MODEL_CONFIG, ConfigurableCostModel } from './tradingCostModel';
+import { calculatePerformanceStatistics, PerformanceStatistics } from './performanceStatistics';
+import { PositionSide, positionChange, StrategyParameters } from './strategyRegistry';
+
+export interface PortfolioSleeveConfig {
+  id: string;
+  strategyName: string;
+  templateId: string;
+  parameters: StrategyParameters;
+  symbol: string;
+  allocationPercent: number; // share of portfolio equity budgeted to this sleeve
+  maxExposurePercent: number; // cap on this sleeve's open notional, percent of portfolio equity
+}
+
+export interface PortfolioBacktestConfig {
+  startDate: Date;
+  endDate: Date;
+  timeframe: BacktestTimeframe;
+  dataSource: BacktestDataSource;
+  initialCapital: number;
+  maxGrossExposurePercent: number; // cap on total open notional across all sleeves
+  costModel?: CostModel; // defaults to DEFAULT_COST_MODEL_CONFIG
+  sleeves: PortfolioSleeveConfig[];
+}
+
+export type SkippedSignalReason = 'sleeve_exposure_cap' | 'gross_exposure_cap' | 'insufficient_cash';
+
+export interface SleeveAttribution {
+  netPnl: number;
+  grossPnl: number;
+  totalCosts: number; // commission + spread + slippage
+  contributionPercent: number; // net P&L as percent of portfolio initial capital
+  shareOfPnl: number; // percent of the portfolio's total net P&L
+  totalTrades: number;
+  winRate: number;
+  exposureTimePercent: number; // share of sleeve bars with an open position
+  averageExposurePercent: number; // mean open notional as percent of portfolio equity while invested
+  skippedSignals: Record<SkippedSignalReason, number>;
+}
+
+export interface PortfolioSleeveResult {
+  sleeve: PortfolioSleeveConfig;
+  trades: BacktestTrade[];
+  equity: Array<{ date: string; value: number }>; // allocated capital plus cumulative P&L
+  attribution: SleeveAttribution;
+}
+
+export interface SymbolAlignment {
+  symbol: string;
+  bars: number;
+  missingBars: number; // timeline bars with no bar for this symbol (marked at last close)
+  firstDate: string;
+  lastDate: string;
+}
+
+export interface PortfolioBacktestResult {
+  period: {
+    startDate: string;
+    endDate: string;
+    timeframe: BacktestTimeframe;
+  };
+  initialCapital: number;
+  finalCapital: number;
+  equity: Array<{ date: string; value: number; exposure: number }>;
+  sleeves: PortfolioSleeveResult[];
+  performance: {
+    totalReturn: number;
+    totalReturnPercent: number;
+    maxDrawdown: number;
+    sharpeRatio: number;
+    totalTrades: number;
+    totalCosts: number;
+    peakExposurePercent: number;
+    averageExposurePercent: number;
+  };
+  statistics: PerformanceStatistics;
+  alignment: {
+    timelineBars: number;
+    symbols: SymbolAlignment[];
+    warnings: string[];
+  };
+  dataQuality: Record<string, DataQualityReport>;
+}
+
+interface OpenPosition {
+  symbol: string;
+  trade: BacktestTrade;
+  collateral: number; // cash reserved at entry (entry notional)
+}
+
+// Crypto trades in fractional units; round quantities to this many decimals
+const QUANTITY_DECIMALS = 6;
+
+const roundQuantity = (quantity: number) =>
+  Math.floor(quantity * Math.pow(10, QUANTITY_DECIMALS)) / Math.pow(10, QUANTITY_DECIMALS);
+
+const emptySkips = (): Record<SkippedSignalReason, number> => ({
+  sleeve_exposure_cap: 0,
+  gross_exposure_cap: 0,
+  insufficient_cash: 0,
+});
+
+/**
+ * Portfolio backtests: several (strategy, symbol) sleeves trading on one
+ * shared cash balance with per-sleeve allocation and exposure caps
+ */
+class PortfolioBacktestService {
+  /**
+   * Validate sleeve allocations and exposure limits
+   */
+  validateConfig(config: PortfolioBacktestConfig): void {
+    if (config.sleeves.length === 0) {
+      throw new Error('Add at least one strategy sleeve to the portfolio');
+    }
+    if (config.initialCapital <= 0) {
+      throw new Error('Initial capital must be positive');
+    }
+
+    const ids = new Set(config.sleeves.map(s => s.id));
+    if (ids.size !== config.sleeves.length) {
+      throw new Error('Sleeve ids must be unique');
+    }
+
+    const totalAllocation = config.sleeves.reduce((sum, s) => sum + s.allocationPercent, 0);
+    if (totalAllocation > 100) {
+      throw new Error(`Sleeve allocations add up to ${totalAllocation}% which exceeds 100% of capital`);
+    }
+
+    config.sleeves.forEach(sleeve => {
+      if (sleeve.allocationPercent <= 0) {
+        throw new Error(`Sleeve ${sleeve.strategyName} (${sleeve.symbol}) needs a positive allocation`);
+      }
+      if (sleeve.maxExposurePercent <= 0) {
+        throw new Error(`Sleeve ${sleeve.strategyName} (${sleeve.symbol}) needs a positive exposure cap`);
+      }
+    });
+  }
+
+  /**
+   * Merge per-symbol bars into one sorted timeline of bar dates
+   */
+  alignBars(dataBySymbol: Record<string, HistoricalPrice[]>): {
+    timeline: string[];
+    barsBySymbol: Record<string, Map<string, HistoricalPrice>>;
+    symbols: SymbolAlignment[];
+  } {
+    const barsBySymbol: Record<string, Map<string, HistoricalPrice>> = {};
+    const dates = new Set<string>();
+
+    Object.entries(dataBySymbol).forEach(([symbol, data]) => {
+      barsBySymbol[symbol] = new Map(data.map(bar => [bar.date, bar]));
+      data.forEach(bar => dates.add(bar.date));
+    });
+
+    const timeline = Array.from(dates).sort();
+
+    const symbols = Object.entries(dataBySymbol).map(([symbol, data]) => ({
+      symbol,
+      bars: data.length,
+      missingBars: timeline.length - data.length,
+      firstDate: data[0].date,
+      lastDate: data[data.length - 1].date,
+    }));
+
+    return { timeline, barsBySymbol, symbols };
+  }
+
+  /**
+   * Load bars for every symbol in the portfolio and run the simulation
+   */
+  async runPortfolioBacktest(config: PortfolioBacktestConfig): Promise<PortfolioBacktestResult> {
+    this.validateConfig(config);
+
+    const dataBySymbol: Record<string, HistoricalPrice[]> = {};
+    const dataQuality: Record<string, DataQualityReport> = {};
+
+    for (const symbol of Array.from(new Set(config.sleeves.map(s => s.symbol)))) {
+      const { data, quality } = await backtestingService.loadHistoricalData({
+        symbol,
+        startDate: config.startDate,
+        endDate: config.endDate,
+        timeframe: config.timeframe,
+        dataSource: config.dataSource,
+        initialCapital: config.initialCapital,
+      });
+      dataBySymbol[symbol] = data;
+      dataQuality[symbol] = quality;
+    }
+
+    return this.simulatePortfolio(config, dataBySymbol, dataQuality);
+  }
+
+  /**
+   * Execute a portfolio simulation over already loaded bars
+   */
+  simulatePortfolio(
+    config: PortfolioBacktestConfig,
+    dataBySymbol: Record<string, HistoricalPrice[]>,
+    dataQuality: Record<string, DataQualityReport>
+  ): PortfolioBacktestResult {
+    const { initialCapital, sleeves } = config;
+    const costModel = config.costModel ?? new ConfigurableCostModel(DEFAULT_COST_MODEL_CONFIG);
+    const { timeline, barsBySymbol, symbols } = this.alignBars(dataBySymbol);
+
+    const warnings: string[] = [];
+    symbols.forEach(s => {
+      if (s.missingBars > 0) {
+        warnings.push(
+          `${s.symbol} has no bar for ${s.missingBars} of ${timeline.length} timeline bars; positions are marked at the last close`
+        );
+      }
+    });
+
+    // Each sleeve evaluates its strategy on its own symbol's bars
+    const signalsBySleeve: Record<string, Map<string, StrategySignal>> = {};
+    sleeves.forEach(sleeve => {
+      const signals = backtestingService.generateSignals(
+        dataBySymbol[sleeve.symbol],
+        sleeve.templateId,
+        sleeve.parameters,
+        undefined,
+        { symbol: sleeve.symbol, timeframe: config.timeframe }
+      );
+      signalsBySleeve[sleeve.id] = new Map(signals.map(s => [s.date, s.signal]));
+    });
+
+    const lastPrice: Record<string, number> = {};
+    const lastBar: Record<string, HistoricalPrice> = {};
+    const positions: Record<string, OpenPosition | null> = {};
+    const trades: Record<string, BacktestTrade[]> = {};
+    const realizedPnl: Record<string, number> = {};
+    const sleeveEquity: Record<string, Array<{ date: string; value: number }>> = {};
+    const skipped: Record<string, Record<SkippedSignalReason, number>> = {};
+    const sleeveBars: Record<string, number> = {};
+    const investedBars: Record<string, number> = {};
+    const exposureSum: Record<string, number> = {};
+
+    sleeves.forEach(sleeve => {
+      positions[sleeve.id] = null;
+      trades[sleeve.id] = [];
+      realizedPnl[sleeve.id] = 0;
+      sleeveEquity[sleeve.id] = [];
+      skipped[sleeve.id] = emptySkips();
+      sleeveBars[sleeve.id] = 0;
+      investedBars[sleeve.id] = 0;
+      exposureSum[sleeve.id] = 0;
+    });
+
+    const equity: Array<{ date: string; value: number; exposure: number }> = [];
+    let cash = initialCapital;
+    let tradedVolume = 0;
+    let tradeCounter = 0;
+
+    const unrealized = (position: OpenPosition) => {
+      const { trade } = position;
+      const direction = trade.type === 'buy' ? 1 : -1;
+      return (lastPrice[position.symbol] - trade.entryPrice) * trade.quantity * direction;
+    };
+
+    const notional = (position: OpenPosition) => lastPrice[position.symbol] * position.trade.quantity;
+
+    const portfolioEquity = () =>
+      cash + sleeves.reduce((sum, s) => {
+        const position = positions[s.id];
+        return position ? sum + position.collateral + unrealized(position) : sum;
+      }, 0);
+
+    const grossExposure = () =>
+      sleeves.reduce((sum, s) => {
+        const position = positions[s.id];
+        return position ? sum + notional(position) : sum;
+      }, 0);
+
+    const closePosition = (sleeveId: string, bar: HistoricalPrice) => {
+      const position = positions[sleeveId];
+      if (!position) return;
+      const { trade } = position;
+
+      const fill = costModel.estimateFill({
+        side: trade.type === 'buy' ? 'sell' : 'buy',
+        price: bar.close,
+        quantity: trade.quantity,
+        barVolume: bar.volume,
+        liquidity: 'taker',
+        tradedVolume,
+      });
+      tradedVolume += fill.fillPrice * trade.quantity;
+
+      const direction = trade.type === 'buy' ? 1 : -1;
+      const entryCommission = trade.commission;
+      const proceeds = (fill.fillPrice - trade.entryPrice) * trade.quantity * direction - fill.commission;
+
+      trade.exitDate = bar.date;
+      trade.exitPrice = fill.fillPrice;
+      trade.status = 'closed';
+      trade.commission += fill.commission;
+      trade.spreadCost += fill.spreadCost;
+      trade.slippageCost += fill.slippageCost;
+      trade.pnl = proceeds - entryCommission;
+      trade.grossPnl = trade.pnl + trade.commission + trade.spreadCost + trade.slippageCost;
+      trade.pnlPercent = (trade.pnl / (trade.entryPrice * trade.quantity)) * 100;
+
+      // Entry commission was already deducted from cash when the position was opened
+      cash += position.collateral + proceeds;
+      realizedPnl[sleeveId] += trade.pnl;
+      trades[sleeveId].push(trade);
+      positions[sleeveId] = null;
+    };
+
+    const openPosition = (sleeve: PortfolioSleeveConfig, side: PositionSide, bar: HistoricalPrice) => {
+      const currentEquity = portfolioEquity();
+      const budget = currentEquity * sleeve.allocationPercent / 100;
+      const sleeveCap = currentEquity * sleeve.maxExposurePercent / 100;
+      const grossRoom = currentEquity * config.maxGrossExposurePercent / 100 - grossExposure();
+
+      let target = budget;
+      let limitedBy: SkippedSignalReason | null = null;
+      if (sleeveCap < target) {
+        target = sleeveCap;
+        limitedBy = 'sleeve_exposure_cap';
+      }
+      if (grossRoom < target) {
+        target = grossRoom;
+        limitedBy = 'gross_exposure_cap';
+      }
+      if (cash < target) {
+        target = cash;
+        limitedBy = 'insufficient_cash';
+      }
+
+      const type = side === 'long' ? 'buy' : 'short';
+      const orderSide = type === 'buy' ? 'buy' : 'sell';
+      let quantity = target > 0 ? roundQuantity(target / bar.close) : 0;
+      let fill = costModel.estimateFill({
+        side: orderSide, price: bar.close, quantity, barVolume: bar.volume, liquidity: 'taker', tradedVolume,
+      });
+
+      // Leave room in cash for the entry commission
+      if (quantity > 0 && fill.fillPrice * quantity + fill.commission > cash) {
+        quantity = roundQuantity((cash - fill.commission) / fill.fillPrice);
+        fill = costModel.estimateFill({
+          side: orderSide, price: bar.close, quantity, barVolume: bar.volume, liquidity: 'taker', tradedVolume,
+        });
+        limitedBy = 'insufficient_cash';
+      }
+
+      if (quantity <= 0) {
+        skipped[sleeve.id][limitedBy ?? 'insufficient_cash']++;
+        return;
+      }
+
+      tradedVolume += fill.fillPrice * quantity;
+      const collateral = fill.fillPrice * quantity;
+      cash -= collateral + fill.commission;
+
+      positions[sleeve.id] = {
+        symbol: sleeve.symbol,
+        collateral,
+        trade: {
+          id: `${sleeve.id}-trade-${++tradeCounter}`,
+          entryDate: bar.date,
+          entryPrice: fill.fillPrice,
+          type,
+          quantity,
+          commission: fill.commission,
+          spreadCost: fill.spreadCost,
+          slippageCost: fill.slippageCost,
+          status: 'open',
+        },
+      };
+    };
+
+    timeline.forEach(date => {
+      Object.keys(barsBySymbol).forEach(symbol => {
+        const bar = barsBySymbol[symbol].get(date);
+        if (bar) {
+          lastPrice[symbol] = bar.close;
+          lastBar[symbol] = bar;
+        }
+      });
+
+      // Sleeves only trade on bars their symbol actually printed
+      sleeves.forEach(sleeve => {
+        const bar = barsBySymbol[sleeve.symbol].get(date);
+        if (!bar) return;
+        sleeveBars[sleeve.id]++;
+
+        const signal = signalsBySleeve[sleeve.id].get(date);
+        if (!signal || signal === 'none') return;
+
+        const held = positions[sleeve.id];
+        const { close, open } = positionChange(signal, held ? (held.trade.type === 'buy' ? 'long' : 'short') : null);
+        if (close) closePosition(sleeve.id, bar);
+        if (open) openPosition(sleeve, open, bar);
+      });
+
+      const value = portfolioEquity();
+      const exposure = grossExposure();
+      equity.push({ date, value, exposure: value > 0 ? (exposure / value) * 100 : 0 });
+
+      sleeves.forEach(sleeve => {
+        const position = positions[sleeve.id];
+        if (position && barsBySymbol[sleeve.symbol].has(date)) {
+          investedBars[sleeve.id]++;
+          exposureSum[sleeve.id] += value > 0 ? (notional(position) / value) * 100 : 0;
+        }
+        sleeveEquity[sleeve.id].push({
+          date,
+          value: initialCapital * sleeve.allocationPercent / 100
+            + realizedPnl[sleeve.id]
+            + (position ? unrealized(position) : 0),
+        });
+      });
+    });
+
+    // Close anything still open at each symbol's last bar
+    sleeves.forEach(sleeve => closePosition(sleeve.id, lastBar[sleeve.symbol]));
+
+    const finalCapital = cash;
+    const totalReturn = finalCapital - initialCapital;
+    if (equity.length > 0) {
+      equity[equity.length - 1] = { ...equity[equity.length - 1], value: finalCapital, exposure: 0 };
+    }
+
+    const sleeveResults: PortfolioSleeveResult[] = sleeves.map(sleeve => {
+      const sleeveTrades = trades[sleeve.id];
+      const netPnl = sleeveTrades.reduce((sum, t) => sum + (t.pnl || 0), 0);
+      const grossPnl = sleeveTrades.reduce((sum, t) => sum + (t.grossPnl || 0), 0);
+      const wins = sleeveTrades.filter(t => (t.pnl || 0) > 0).length;
+      const curve = sleeveEquity[sleeve.id];
+      if (curve.length > 0) {
+        curve[curve.length - 1] = {
+          ...curve[curve.length - 1],
+          value: initialCapital * sleeve.allocationPercent / 100 + netPnl,
+        };
+      }
+
+      return {
+        sleeve,
+        trades: sleeveTrades,
+        equity: curve,
+        attribution: {
+          netPnl,
+          grossPnl,
+          totalCosts: grossPnl - netPnl,
+          contributionPercent: (netPnl / initialCapital) * 100,
+          shareOfPnl: totalReturn !== 0 ? (netPnl / totalReturn) * 100 : 0,
+          totalTrades: sleeveTrades.length,
+          winRate: sleeveTrades.length > 0 ? (wins / sleeveTrades.length) * 100 : 0,
+          exposureTimePercent: sleeveBars[sleeve.id] > 0 ? (investedBars[sleeve.id] / sleeveBars[sleeve.id]) * 100 : 0,
+          averageExposurePercent: investedBars[sleeve.id] > 0 ? exposureSum[sleeve.id] / investedBars[sleeve.id] : 0,
+          skippedSignals: skipped[sleeve.id],
+        },
+      };
+    });
+
+    const exposures = equity.map(point => point.exposure);
+    const statistics = calculatePerformanceStatistics({
+      equity,
+      trades: sleeveResults.flatMap(s => s.trades.map(t => ({ entryDate: t.entryDate, exitDate: t.exitDate, pnl: t.pnl || 0 }))),
+      initialCapital,
+      periodMs: TIMEFRAME_MS[config.timeframe],
+    });
+
+    return {
+      period: {
+        startDate: timeline[0],
+        endDate: timeline[timeline.length - 1],
+        timeframe: config.timeframe,
+      },
+      initialCapital,
+      finalCapital,
+      equity,
+      sleeves: sleeveResults,
+      performance: {
+        totalReturn,
+        totalReturnPercent: (totalReturn / initialCapital) * 100,
+        maxDrawdown: statistics.maxDrawdown,
+        sharpeRatio: statistics.sharpeRatio,
+        totalTrades: sleeveResults.reduce((sum, s) => sum + s.attribution.totalTrades, 0),
+        totalCosts: sleeveResults.reduce((sum, s) => sum + s.attribution.totalCosts, 0),
+        peakExposurePercent: exposures.length > 0 ? Math.max(...exposures) : 0,
+        averageExposurePercent: exposures.length > 0 ? exposures.reduce((a, b) => a + b, 0) / exposures.length : 0,
+      },
+      statistics,
+      alignment: {
+        timelineBars: timeline.length,
+        symbols,
+        warnings,
+      },
+      dataQuality,
+    };
+  }
+
+}
+
+export const portfolioBacktestService = new PortfolioBacktestService();
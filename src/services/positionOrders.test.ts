@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { ordersForSignal } from './positionOrders';
+
+describe('ordersForSignal', () => {
+  it('opens a position from flat', () => {
+    expect(ordersForSignal('buy', null, 10)).toEqual([{ side: 'buy', qty: 10, effect: 'open' }]);
+    expect(ordersForSignal('short', null, 10)).toEqual([{ side: 'sell', qty: 10, effect: 'open' }]);
+  });
+
+  it('places nothing for exits with nothing to close', () => {
+    expect(ordersForSignal('sell', null, 10)).toEqual([]);
+    expect(ordersForSignal('cover', null, 10)).toEqual([]);
+    expect(ordersForSignal('cover', { side: 'long', qty: 5 }, 10)).toEqual([]);
+    expect(ordersForSignal('none', { side: 'long', qty: 5 }, 10)).toEqual([]);
+  });
+
+  it('closes the held quantity rather than the signal quantity', () => {
+    expect(ordersForSignal('sell', { side: 'long', qty: 7 }, 10)).toEqual([{ side: 'sell', qty: 7, effect: 'close' }]);
+    expect(ordersForSignal('cover', { side: 'short', qty: 3 }, 10)).toEqual([{ side: 'buy', qty: 3, effect: 'close' }]);
+  });
+
+  it('reverses a position by closing it before opening the other side', () => {
+    expect(ordersForSignal('short', { side: 'long', qty: 7 }, 10)).toEqual([
+      { side: 'sell', qty: 7, effect: 'close' },
+      { side: 'sell', qty: 10, effect: 'open' },
+    ]);
+  });
+
+  it('does not add to a position already held on the signal side', () => {
+    expect(ordersForSignal('buy', { side: 'long', qty: 7 }, 10)).toEqual([]);
+  });
+
+  it('treats a zero quantity holding as flat', () => {
+    expect(ordersForSignal('buy', { side: 'short', qty: 0 }, 10)).toEqual([{ side: 'buy', qty: 10, effect: 'open' }]);
+  });
+});
@@ -0,0 +1,38 @@
+import { StrategySignal } from '../store/slices/strategiesSlice';
+import { PositionSide, positionChange } from './strategyRegistry';
+
+export interface HeldPosition {
+  side: PositionSide;
+  qty: number; // absolute quantity
+}
+
+export interface PositionOrder {
+  side: 'buy' | 'sell';
+  qty: number;
+  effect: 'close' | 'open';
+}
+
+/**
+ * Broker orders that carry out a signal given the position currently held.
+ * Closing orders are sized to the held quantity so they flatten rather than
+ * flip it, and a sell or cover with nothing to close places no order at all
+ */
+export const ordersForSignal = (
+  signal: StrategySignal,
+  held: HeldPosition | null,
+  quantity: number
+): PositionOrder[] => {
+  if (signal === 'none') return [];
+
+  const side = held && held.qty > 0 ? held.side : null;
+  const { close, open } = positionChange(signal, side);
+  const orders: PositionOrder[] = [];
+
+  if (close && held) {
+    orders.push({ side: held.side === 'long' ? 'sell' : 'buy', qty: held.qty, effect: 'close' });
+  }
+  if (open && quantity > 0) {
+    orders.push({ side: open === 'long' ? 'buy' : 'sell', qty: quantity, effect: 'open' });
+  }
+  return orders;
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./databaseService', () => ({ default: { logAudit: vi.fn(async () => undefined) } }));
+vi.mock('./brokerService', () => ({ brokerService: {} }));
+
+import {
+  DEFAULT_PRE_TRADE_LIMITS,
+  PreTradeContext,
+  PreTradeOrder,
+  PreTradeRiskError,
+  PreTradeRiskPipeline,
+} from './preTradeRisk';
+
+// A $1,000 order against a flat $100,000 account; tests spread over these
+const CONTEXT: PreTradeContext = {
+  account: { buyingPower: 100000, equity: 100000 },
+  positions: [],
+  openOrders: [],
+  referencePrice: 100,
+  limits: DEFAULT_PRE_TRADE_LIMITS,
+};
+const ORDER: PreTradeOrder = { symbol: 'AAPL', side: 'buy', qty: 10, type: 'market' };
+
+const codes = (pipeline: PreTradeRiskPipeline, o: PreTradeOrder, c: PreTradeContext) =>
+  pipeline.evaluate(o, c).rejections.map(rejection => rejection.code);
+
+describe('PreTradeRiskPipeline', () => {
+  it('approves an order inside every limit', () => {
+    expect(new PreTradeRiskPipeline().evaluate(ORDER, CONTEXT)).toEqual({ approved: true, rejections: [] });
+  });
+
+  it('refuses orders it cannot value', () => {
+    expect(codes(new PreTradeRiskPipeline(), ORDER, { ...CONTEXT, referencePrice: undefined })).toContain('NO_REFERENCE_PRICE');
+  });
+
+  it('reports every limit an order breaks', () => {
+    const rejected = codes(
+      new PreTradeRiskPipeline(),
+      { ...ORDER, qty: 600 },
+      { ...CONTEXT, account: { buyingPower: 50000, equity: 100000 } }
+    );
+    expect(rejected).toEqual(['INSUFFICIENT_BUYING_POWER', 'ORDER_NOTIONAL_LIMIT', 'CONCENTRATION_LIMIT']);
+  });
+
+  it('lets orders that only reduce a position through the exposure limits', () => {
+    const held: PreTradeContext = { ...CONTEXT, positions: [{ symbol: 'AAPL', side: 'long', qty: 1000 }], account: { buyingPower: 0, equity: 100000 } };
+    expect(codes(new PreTradeRiskPipeline(), { ...ORDER, side: 'sell', qty: 600 }, held)).toEqual([]);
+  });
+
+  it('counts open orders towards the projected position', () => {
+    const pipeline = new PreTradeRiskPipeline();
+    const assessment = pipeline.assess(
+      { ...ORDER, qty: 5 },
+      { ...CONTEXT, positions: [{ symbol: 'AAPL', side: 'short', qty: 20 }], openOrders: [{ symbol: 'AAPL', side: 'buy', qty: 5 }] }
+    );
+    expect(assessment.heldQty).toBe(-15);
+    expect(assessment.projectedQty).toBe(-10);
+    expect(assessment.addedExposure).toBe(0);
+  });
+
+  it('refuses limit and stop prices too far from the market', () => {
+    const pipeline = new PreTradeRiskPipeline();
+    expect(codes(pipeline, { ...ORDER, type: 'limit', limitPrice: 94 }, CONTEXT)).toEqual(['PRICE_DEVIATION']);
+    expect(codes(pipeline, { ...ORDER, type: 'stop', stopPrice: 104 }, CONTEXT)).toEqual([]);
+  });
+
+  it('refuses an identical order inside the duplicate window once the first was submitted', async () => {
+    const pipeline = new PreTradeRiskPipeline();
+    await pipeline.enforce(ORDER, CONTEXT, { source: 'manual' });
+    await expect(pipeline.enforce(ORDER, CONTEXT, { source: 'manual' })).resolves.toBeUndefined();
+
+    pipeline.record(ORDER);
+    await expect(pipeline.enforce(ORDER, CONTEXT, { source: 'manual' })).rejects.toBeInstanceOf(PreTradeRiskError);
+    await expect(pipeline.enforce({ ...ORDER, qty: 11 }, CONTEXT, { source: 'manual' })).resolves.toBeUndefined();
+  });
+
+  it('lets a reversal open the same side and size it just closed', () => {
+    const pipeline = new PreTradeRiskPipeline();
+    pipeline.record({ ...ORDER, side: 'sell', effect: 'close' });
+
+    expect(codes(pipeline, { ...ORDER, side: 'sell', effect: 'open' }, CONTEXT)).toEqual([]);
+    pipeline.record({ ...ORDER, side: 'sell', effect: 'open' });
+    expect(codes(pipeline, { ...ORDER, side: 'sell', effect: 'open' }, CONTEXT)).toEqual(['DUPLICATE_ORDER']);
+    expect(codes(pipeline, { ...ORDER, side: 'sell', effect: 'close' }, CONTEXT)).toEqual([]);
+  });
+
+  it('runs added checks after the defaults', () => {
+    const pipeline = new PreTradeRiskPipeline().use(() => ({ code: 'KILL_SWITCH_ACTIVE', message: 'halted' }));
+    expect(codes(pipeline, ORDER, CONTEXT)).toEqual(['KILL_SWITCH_ACTIVE']);
+  });
+});
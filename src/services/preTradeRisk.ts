@@ -0,0 +1,272 @@
+// Pre-trade risk checks every order passes before it reaches a broker
+import DatabaseService from './databaseService';
+import { killSwitchCheck } from './killSwitch';
+
+export type RiskRejectionCode =
+  | 'KILL_SWITCH_ACTIVE'
+  | 'NO_REFERENCE_PRICE'
+  | 'INSUFFICIENT_BUYING_POWER'
+  | 'ORDER_NOTIONAL_LIMIT'
+  | 'SYMBOL_EXPOSURE_LIMIT'
+  | 'CONCENTRATION_LIMIT'
+  | 'DUPLICATE_ORDER'
+  | 'PRICE_DEVIATION';
+
+/** Why a check refused an order, with the limit and the value that broke it */
+export interface RiskRejection {
+  code: RiskRejectionCode;
+  message: string;
+  limit?: number;
+  actual?: number;
+}
+
+export interface PreTradeLimits {
+  maxOrderNotional: number; // dollars per order
+  maxSymbolExposure: number; // dollars held in one symbol after the order
+  maxConcentrationPercent: number; // one symbol's share of equity after the order
+  maxPriceDeviationPercent: number; // limit or stop price away from the market
+  duplicateWindowSeconds: number; // identical orders inside this window are duplicates
+}
+
+export const DEFAULT_PRE_TRADE_LIMITS: PreTradeLimits = {
+  maxOrderNotional: 50000,
+  maxSymbolExposure: 100000,
+  maxConcentrationPercent: 25,
+  maxPriceDeviationPercent: 5,
+  duplicateWindowSeconds: 10,
+};
+
+export interface PreTradeOrder {
+  symbol: string;
+  side: 'buy' | 'sell';
+  qty: number;
+  type: 'market' | 'limit' | 'stop' | 'stop_limit';
+  limitPrice?: number;
+  stopPrice?: number;
+  effect?: 'open' | 'close'; // set when the order carries out a signal against a position
+}
+
+/** What the checks know about the account when an order is submitted */
+export interface PreTradeContext {
+  account: { buyingPower: number; equity: number } | null; // null when unknown; account checks are skipped
+  positions: Array<{ symbol: string; side: 'long' | 'short'; qty: number }>;
+  openOrders: Array<{ symbol: string; side: 'buy' | 'sell'; qty: number }>;
+  referencePrice?: number; // latest market price of the symbol
+  limits: PreTradeLimits;
+}
+
+/** Figures derived once per order and shared by every check */
+export interface PreTradeAssessment {
+  price?: number; // price the order is valued at
+  notional: number;
+  heldQty: number; // signed, including open orders
+  projectedQty: number; // signed, after the order
+  addedExposure: number; // dollars of new exposure; 0 for orders that only reduce
+  recentOrders: Array<PreTradeOrder & { submittedAt: number }>;
+}
+
+export type PreTradeCheck = (
+  order: PreTradeOrder,
+  assessment: PreTradeAssessment,
+  context: PreTradeContext
+) => RiskRejection | null;
+
+export interface PreTradeResult {
+  approved: boolean;
+  rejections: RiskRejection[];
+}
+
+export class PreTradeRiskError extends Error {
+  constructor(public rejections: RiskRejection[]) {
+    super(`Order rejected by pre-trade risk checks: ${rejections.map(rejection => rejection.message).join('; ')}`);
+    this.name = 'PreTradeRiskError';
+  }
+}
+
+const dollars = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+export const requireReferencePrice: PreTradeCheck = (order, { price }) =>
+  price === undefined
+    ? { code: 'NO_REFERENCE_PRICE', message: `No market price for ${order.symbol} to value the order against` }
+    : null;
+
+export const buyingPowerCheck: PreTradeCheck = (_order, { addedExposure }, { account }) =>
+  account && addedExposure > account.buyingPower
+    ? {
+        code: 'INSUFFICIENT_BUYING_POWER',
+        message: `Order needs ${dollars(addedExposure)} of buying power, ${dollars(account.buyingPower)} available`,
+        limit: account.buyingPower,
+        actual: addedExposure,
+      }
+    : null;
+
+export const orderNotionalCheck: PreTradeCheck = (_order, { notional, addedExposure }, { limits }) =>
+  addedExposure > 0 && notional > limits.maxOrderNotional
+    ? {
+        code: 'ORDER_NOTIONAL_LIMIT',
+        message: `Order value ${dollars(notional)} exceeds the ${dollars(limits.maxOrderNotional)} per-order limit`,
+        limit: limits.maxOrderNotional,
+        actual: notional,
+      }
+    : null;
+
+export const symbolExposureCheck: PreTradeCheck = (order, { price, projectedQty, addedExposure }, { limits }) => {
+  const exposure = Math.abs(projectedQty) * (price ?? 0);
+  return addedExposure > 0 && exposure > limits.maxSymbolExposure
+    ? {
+        code: 'SYMBOL_EXPOSURE_LIMIT',
+        message: `${order.symbol} exposure would reach ${dollars(exposure)}, above the ${dollars(limits.maxSymbolExposure)} limit`,
+        limit: limits.maxSymbolExposure,
+        actual: exposure,
+      }
+    : null;
+};
+
+export const concentrationCheck: PreTradeCheck = (order, { price, projectedQty, addedExposure }, { account, limits }) => {
+  if (!account || account.equity <= 0 || addedExposure === 0) return null;
+  const percent = ((Math.abs(projectedQty) * (price ?? 0)) / account.equity) * 100;
+  return percent > limits.maxConcentrationPercent
+    ? {
+        code: 'CONCENTRATION_LIMIT',
+        message: `${order.symbol} would be ${percent.toFixed(1)}% of equity, above the ${limits.maxConcentrationPercent}% limit`,
+        limit: limits.maxConcentrationPercent,
+        actual: percent,
+      }
+    : null;
+};
+
+// Closing orders are exempt: a reversal closes and then opens the same side
+// and size, and flattening should never be held back
+export const duplicateOrderCheck: PreTradeCheck = (order, { recentOrders }, { limits }) => {
+  if (order.effect === 'close') return null;
+
+  const since = Date.now() - limits.duplicateWindowSeconds * 1000;
+  const duplicate = recentOrders.find(recent =>
+    recent.submittedAt >= since &&
+    recent.effect === order.effect &&
+    recent.symbol === order.symbol &&
+    recent.side === order.side &&
+    recent.qty === order.qty &&
+    recent.type === order.type &&
+    recent.limitPrice === order.limitPrice &&
+    recent.stopPrice === order.stopPrice
+  );
+  return duplicate
+    ? {
+        code: 'DUPLICATE_ORDER',
+        message: `Identical ${order.side} ${order.qty} ${order.symbol} order submitted ${Math.round((Date.now() - duplicate.submittedAt) / 1000)}s ago`,
+        limit: limits.duplicateWindowSeconds,
+        actual: (Date.now() - duplicate.submittedAt) / 1000,
+      }
+    : null;
+};
+
+export const priceDeviationCheck: PreTradeCheck = (order, _assessment, { referencePrice, limits }) => {
+  if (!referencePrice) return null;
+  for (const [label, price] of [['Limit', order.limitPrice], ['Stop', order.stopPrice]] as const) {
+    if (price === undefined) continue;
+    const percent = (Math.abs(price - referencePrice) / referencePrice) * 100;
+    if (percent > limits.maxPriceDeviationPercent) {
+      return {
+        code: 'PRICE_DEVIATION',
+        message: `${label} price ${dollars(price)} is ${percent.toFixed(1)}% from the ${dollars(referencePrice)} market price`,
+        limit: limits.maxPriceDeviationPercent,
+        actual: percent,
+      };
+    }
+  }
+  return null;
+};
+
+export const DEFAULT_PRE_TRADE_CHECKS: PreTradeCheck[] = [
+  requireReferencePrice,
+  buyingPowerCheck,
+  orderNotionalCheck,
+  symbolExposureCheck,
+  concentrationCheck,
+  duplicateOrderCheck,
+  priceDeviationCheck,
+];
+
+// Submitted orders are remembered this long for duplicate detection
+const RECENT_ORDER_RETENTION_MS = 10 * 60 * 1000;
+
+/**
+ * Runs every check over an order and collects all the rejections, so a
+ * refused order reports each limit it breaks
+ */
+export class PreTradeRiskPipeline {
+  private checks: PreTradeCheck[];
+  private recentOrders: Array<PreTradeOrder & { submittedAt: number }> = [];
+
+  constructor(checks: PreTradeCheck[] = DEFAULT_PRE_TRADE_CHECKS) {
+    this.checks = [...checks];
+  }
+
+  use(check: PreTradeCheck): this {
+    this.checks.push(check);
+    return this;
+  }
+
+  assess(order: PreTradeOrder, context: PreTradeContext): PreTradeAssessment {
+    const price = order.limitPrice ?? order.stopPrice ?? context.referencePrice;
+    const signed = (side: 'buy' | 'sell' | 'long' | 'short', qty: number) =>
+      side === 'buy' || side === 'long' ? qty : -qty;
+
+    const heldQty =
+      context.positions
+        .filter(position => position.symbol === order.symbol)
+        .reduce((sum, position) => sum + signed(position.side, position.qty), 0) +
+      context.openOrders
+        .filter(open => open.symbol === order.symbol)
+        .reduce((sum, open) => sum + signed(open.side, open.qty), 0);
+    const projectedQty = heldQty + signed(order.side, order.qty);
+
+    return {
+      price,
+      notional: order.qty * (price ?? 0),
+      heldQty,
+      projectedQty,
+      addedExposure: Math.max(0, Math.abs(projectedQty) - Math.abs(heldQty)) * (price ?? 0),
+      recentOrders: this.recentOrders,
+    };
+  }
+
+  evaluate(order: PreTradeOrder, context: PreTradeContext): PreTradeResult {
+    const assessment = this.assess(order, context);
+    const rejections = this.checks
+      .map(check => check(order, assessment, context))
+      .filter((rejection): rejection is RiskRejection => rejection !== null);
+    return { approved: rejections.length === 0, rejections };
+  }
+
+  /**
+   * Evaluates an order and throws a PreTradeRiskError when it is refused.
+   * Rejections are written to the audit log
+   */
+  async enforce(order: PreTradeOrder, context: PreTradeContext, audit: { userId?: string; source: string }): Promise<void> {
+    const result = this.evaluate(order, context);
+
+    if (!result.approved) {
+      await DatabaseService.logAudit({
+        userId: audit.userId,
+        action: 'ORDER_REJECTED',
+        details: { source: audit.source, order, referencePrice: context.referencePrice, rejections: result.rejections },
+      });
+      throw new PreTradeRiskError(result.rejections);
+    }
+  }
+
+  /**
+   * Counts an order towards duplicate detection once the broker has taken
+   * it, so a retry after a refusal isn't held back as a duplicate
+   */
+  record(order: PreTradeOrder): void {
+    const now = Date.now();
+    this.recentOrders = this.recentOrders.filter(recent => now - recent.submittedAt < RECENT_ORDER_RETENTION_MS);
+    this.recentOrders.push({ ...order, submittedAt: now });
+  }
+}
+
+// Export singleton instance; nothing passes while the kill switch is tripped
+export const preTradeRisk = new PreTradeRiskPipeline([killSwitchCheck, ...DEFAULT_PRE_TRADE_CHECKS]);
@@ -0,0 +1,493 @@
+// Declarative rule strategies: JSON entry/exit conditions stored in
+// Strategy.parameters, validated and evaluated bar by bar
+import { bollingerIndicatorName, macdIndicatorName } from './indicatorCache';
+import {
+  createStreamingMovingAverage,
+  StreamingATR,
+  StreamingBollingerBands,
+  StreamingIndicator,
+  StreamingMACD,
+  StreamingOBV,
+  StreamingRSI,
+  StreamingVWAP,
+} from './streamingIndicators';
+import { BandPoint, MacdPoint, OhlcvBar } from './technicalIndicators';
+import { StrategyContext, StrategyIntent, StrategyPlugin } from './strategyRegistry';
+
+export type RulePriceField = 'open' | 'high' | 'low' | 'close' | 'volume';
+
+export type RuleIndicator =
+  | 'sma'
+  | 'ema'
+  | 'wma'
+  | 'rsi'
+  | 'atr'
+  | 'bb_upper'
+  | 'bb_middle'
+  | 'bb_lower'
+  | 'macd'
+  | 'macd_signal'
+  | 'macd_histogram'
+  | 'obv'
+  | 'vwap';
+
+export type RuleOperand =
+  | { kind: 'price'; field: RulePriceField }
+  | { kind: 'value'; value: number }
+  | {
+      kind: 'indicator';
+      indicator: RuleIndicator;
+      period: number; // slow period for MACD lines; ignored for OBV
+      deviations?: number; // Bollinger Bands, default 2
+      fastPeriod?: number; // MACD, default 12
+      signalPeriod?: number; // MACD, default 9
+    };
+
+export type RuleOperator = '<' | '<=' | '>' | '>=' | 'crosses_above' | 'crosses_below';
+
+export interface RuleComparison {
+  type: 'compare';
+  left: RuleOperand;
+  operator: RuleOperator;
+  right: RuleOperand;
+}
+
+export interface RuleGroup {
+  type: 'group';
+  combinator: 'and' | 'or';
+  conditions: RuleCondition[];
+}
+
+export type RuleCondition = RuleComparison | RuleGroup;
+
+export interface RuleStrategyDefinition {
+  version: 1;
+  entry: { long?: RuleCondition; short?: RuleCondition };
+  exit: {
+    long?: RuleCondition;
+    short?: RuleCondition;
+    stopLossPercent?: number; // from the entry price, checked at each close
+    takeProfitPercent?: number;
+  };
+}
+
+export const RULE_PRICE_FIELDS: RulePriceField[] = ['open', 'high', 'low', 'close', 'volume'];
+
+export const RULE_INDICATORS: RuleIndicator[] = [
+  'sma', 'ema', 'wma', 'rsi', 'atr', 'bb_upper', 'bb_middle', 'bb_lower',
+  'macd', 'macd_signal', 'macd_histogram', 'obv', 'vwap',
+];
+
+export const RULE_OPERATORS: RuleOperator[] = ['<', '<=', '>', '>=', 'crosses_above', 'crosses_below'];
+
+const MAX_PERIOD = 500;
+const MAX_DEPTH = 5;
+
+/**
+ * RSI(14) < 30 AND close > SMA(200)
+ */
+export const DEFAULT_RULE_STRATEGY: RuleStrategyDefinition = {
+  version: 1,
+  entry: {
+    long: {
+      type: 'group',
+      combinator: 'and',
+      conditions: [
+        {
+          type: 'compare',
+          left: { kind: 'indicator', indicator: 'rsi', period: 14 },
+          operator: '<',
+          right: { kind: 'value', value: 30 },
+        },
+        {
+          type: 'compare',
+          left: { kind: 'price', field: 'close' },
+          operator: '>',
+          right: { kind: 'indicator', indicator: 'sma', period: 200 },
+        },
+      ],
+    },
+  },
+  exit: {
+    long: {
+      type: 'compare',
+      left: { kind: 'indicator', indicator: 'rsi', period: 14 },
+      operator: '>',
+      right: { kind: 'value', value: 70 },
+    },
+    stopLossPercent: 5,
+  },
+};
+
+export class RuleValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid strategy rules: ${errors.join('; ')}`);
+    this.name = 'RuleValidationError';
+  }
+}
+
+const isPositiveInteger = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_PERIOD;
+
+// Rules arrive as untrusted JSON; validation reads them field by field
+type UntypedFields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is UntypedFields => !!value && typeof value === 'object';
+
+const oneOf = <T>(values: readonly T[], value: unknown): value is T => (values as readonly unknown[]).includes(value);
+
+const validateOperand = (operand: unknown, path: string, errors: string[]) => {
+  if (!isFields(operand)) {
+    errors.push(`${path} is missing`);
+    return;
+  }
+
+  switch (operand.kind) {
+    case 'price':
+      if (!oneOf(RULE_PRICE_FIELDS, operand.field)) errors.push(`${path}.field must be one of ${RULE_PRICE_FIELDS.join(', ')}`);
+      break;
+    case 'value':
+      if (typeof operand.value !== 'number' || !Number.isFinite(operand.value)) errors.push(`${path}.value must be a number`);
+      break;
+    case 'indicator':
+      if (!oneOf(RULE_INDICATORS, operand.indicator)) {
+        errors.push(`${path}.indicator must be one of ${RULE_INDICATORS.join(', ')}`);
+        break;
+      }
+      if (operand.indicator !== 'obv' && !isPositiveInteger(operand.period)) {
+        errors.push(`${path}.period must be a whole number from 1 to ${MAX_PERIOD}`);
+      }
+      if (operand.deviations !== undefined && !(typeof operand.deviations === 'number' && operand.deviations > 0)) {
+        errors.push(`${path}.deviations must be positive`);
+      }
+      ['fastPeriod', 'signalPeriod'].forEach(key => {
+        if (operand[key] !== undefined && !isPositiveInteger(operand[key])) {
+          errors.push(`${path}.${key} must be a whole number from 1 to ${MAX_PERIOD}`);
+        }
+      });
+      break;
+    default:
+      errors.push(`${path}.kind must be price, value or indicator`);
+  }
+};
+
+const validateCondition = (condition: unknown, path: string, errors: string[], depth: number = 0) => {
+  if (!isFields(condition)) {
+    errors.push(`${path} is missing`);
+    return;
+  }
+  if (depth > MAX_DEPTH) {
+    errors.push(`${path} nests groups more than ${MAX_DEPTH} levels deep`);
+    return;
+  }
+
+  if (condition.type === 'group') {
+    if (condition.combinator !== 'and' && condition.combinator !== 'or') errors.push(`${path}.combinator must be and or or`);
+    if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+      errors.push(`${path} needs at least one condition`);
+      return;
+    }
+    condition.conditions.forEach((child: unknown, i: number) =>
+      validateCondition(child, `${path}.conditions[${i}]`, errors, depth + 1)
+    );
+  } else if (condition.type === 'compare') {
+    if (!oneOf(RULE_OPERATORS, condition.operator)) errors.push(`${path}.operator must be one of ${RULE_OPERATORS.join(', ')}`);
+    validateOperand(condition.left, `${path}.left`, errors);
+    validateOperand(condition.right, `${path}.right`, errors);
+  } else {
+    errors.push(`${path}.type must be compare or group`);
+  }
+};
+
+/**
+ * Problems with a rule definition, each prefixed with the path to the
+ * offending field. Empty when the rules are valid
+ */
+export const validateRuleStrategy = (definition: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isFields(definition)) return ['rules must be an object'];
+  if (definition.version !== 1) errors.push('version must be 1');
+
+  const entry = isFields(definition.entry) ? definition.entry : {};
+  const exit = isFields(definition.exit) ? definition.exit : {};
+  if (!entry.long && !entry.short) errors.push('entry needs a long or short condition');
+
+  (['long', 'short'] as const).forEach(side => {
+    if (entry[side] !== undefined) validateCondition(entry[side], `entry.${side}`, errors);
+    if (exit[side] !== undefined) validateCondition(exit[side], `exit.${side}`, errors);
+  });
+  (['stopLossPercent', 'takeProfitPercent'] as const).forEach(key => {
+    const value = exit[key];
+    if (value !== undefined && !(typeof value === 'number' && value > 0 && value < 100)) {
+      errors.push(`exit.${key} must be between 0 and 100`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Rules from a strategy parameter, which may be stored as JSON text
+ */
+export const parseRuleStrategy = (rules: unknown): RuleStrategyDefinition => {
+  let definition = rules;
+  if (typeof rules === 'string') {
+    try {
+      definition = JSON.parse(rules);
+    } catch (error) {
+      throw new RuleValidationError([`rules are not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+  }
+
+  const errors = validateRuleStrategy(definition);
+  if (errors.length > 0) throw new RuleValidationError(errors);
+  return definition as RuleStrategyDefinition;
+};
+
+export const describeOperand = (operand: RuleOperand): string => {
+  switch (operand.kind) {
+    case 'price':
+      return operand.field;
+    case 'value':
+      return String(operand.value);
+    case 'indicator': {
+      const name = operand.indicator.toUpperCase();
+      if (operand.indicator === 'obv') return name;
+      if (operand.indicator.startsWith('bb_')) return `${name}(${operand.period}, ${operand.deviations ?? 2})`;
+      if (operand.indicator.startsWith('macd')) {
+        return `${name}(${operand.fastPeriod ?? 12}, ${operand.period}, ${operand.signalPeriod ?? 9})`;
+      }
+      return `${name}(${operand.period})`;
+    }
+  }
+};
+
+/**
+ * Readable form of a condition, e.g. "RSI(14) < 30 AND close > SMA(200)"
+ */
+export const describeCondition = (condition: RuleCondition, nested: boolean = false): string => {
+  if (condition.type === 'compare') {
+    const operator = condition.operator.replace('_', ' ');
+    return `${describeOperand(condition.left)} ${operator} ${describeOperand(condition.right)}`;
+  }
+
+  const text = condition.conditions
+    .map(child => describeCondition(child, true))
+    .join(` ${condition.combinator.toUpperCase()} `);
+  return nested && condition.conditions.length > 1 ? `(${text})` : text;
+};
+
+interface OperandSeries {
+  // The operand's value on a bar; completed bars (commit) advance its state
+  value: (bar: OhlcvBar, commit: boolean) => number;
+  cached?: [string, number]; // TechnicalIndicator name and period
+  warmupBars: number;
+}
+
+const closeInput = (bar: OhlcvBar) => bar.close;
+const barInput = (bar: OhlcvBar) => bar;
+const asNumber = (output: number) => output;
+
+const tracked = <TInput, TOutput>(
+  indicator: StreamingIndicator<TInput, TOutput>,
+  input: (bar: OhlcvBar) => TInput,
+  pick: (output: TOutput) => number
+): OperandSeries['value'] =>
+  (bar, commit) => pick(commit ? indicator.update(input(bar)) : indicator.preview(input(bar)));
+
+const operandSeries = (operand: RuleOperand): OperandSeries => {
+  if (operand.kind === 'price') {
+    return { value: bar => bar[operand.field], warmupBars: 1 };
+  }
+  if (operand.kind === 'value') {
+    return { value: () => operand.value, warmupBars: 1 };
+  }
+
+  const { indicator, period } = operand;
+  switch (indicator) {
+    case 'sma':
+    case 'ema':
+    case 'wma':
+      return {
+        value: tracked(createStreamingMovingAverage(period, indicator), closeInput, asNumber),
+        cached: [indicator, period],
+        warmupBars: period,
+      };
+    case 'rsi':
+      return { value: tracked(new StreamingRSI(period), closeInput, asNumber), cached: ['rsi', period], warmupBars: period + 1 };
+    case 'atr':
+      return { value: tracked(new StreamingATR(period), barInput, asNumber), cached: ['atr', period], warmupBars: period };
+    case 'obv':
+      return { value: tracked(new StreamingOBV(), barInput, asNumber), warmupBars: 1 };
+    case 'vwap':
+      return { value: tracked(new StreamingVWAP(period), barInput, asNumber), cached: ['vwap', period], warmupBars: period };
+    case 'bb_upper':
+    case 'bb_middle':
+    case 'bb_lower': {
+      const deviations = operand.deviations ?? 2;
+      const band = indicator.replace('bb_', '') as keyof BandPoint;
+      return {
+        value: tracked(new StreamingBollingerBands(period, deviations), closeInput, (output: BandPoint) => output[band]),
+        cached: [bollingerIndicatorName(band, deviations), period],
+        warmupBars: period,
+      };
+    }
+    case 'macd':
+    case 'macd_signal':
+    case 'macd_histogram': {
+      const fastPeriod = operand.fastPeriod ?? 12;
+      const signalPeriod = operand.signalPeriod ?? 9;
+      const line = (indicator === 'macd' ? 'macd' : indicator.replace('macd_', '')) as keyof MacdPoint;
+      return {
+        value: tracked(new StreamingMACD(fastPeriod, period, signalPeriod), closeInput, (output: MacdPoint) => output[line]),
+        cached: [macdIndicatorName(line, fastPeriod, signalPeriod), period],
+        warmupBars: Math.max(fastPeriod, period) + (line === 'macd' ? 0 : signalPeriod - 1),
+      };
+    }
+  }
+};
+
+const operandKey = (operand: RuleOperand) => JSON.stringify(operand);
+
+const collectComparisons = (condition: RuleCondition | undefined, into: RuleComparison[] = []): RuleComparison[] => {
+  if (!condition) return into;
+  if (condition.type === 'compare') into.push(condition);
+  else condition.conditions.forEach(child => collectComparisons(child, into));
+  return into;
+};
+
+export interface RuleDecision {
+  enterLong: boolean;
+  enterShort: boolean;
+  exitLong: boolean;
+  exitShort: boolean;
+}
+
+/**
+ * Evaluates a rule definition over a bar stream. Every operand is tracked
+ * with a streaming indicator; crosses compare with the previous completed bar
+ */
+export class RuleEvaluator {
+  readonly warmupBars: number;
+  private series: Map<string, OperandSeries> = new Map();
+  private previous: Map<string, number> = new Map();
+
+  constructor(private definition: RuleStrategyDefinition) {
+    const { entry, exit } = definition;
+    const comparisons = [entry.long, entry.short, exit.long, exit.short].flatMap(condition => collectComparisons(condition));
+
+    comparisons.forEach(comparison => {
+      [comparison.left, comparison.right].forEach(operand => {
+        const key = operandKey(operand);
+        if (!this.series.has(key)) this.series.set(key, operandSeries(operand));
+      });
+    });
+
+    const crosses = comparisons.some(c => c.operator === 'crosses_above' || c.operator === 'crosses_below');
+    const longest = Math.max(1, ...Array.from(this.series.values()).map(series => series.warmupBars));
+    this.warmupBars = longest + (crosses ? 1 : 0);
+  }
+
+  /**
+   * Evaluate a bar. Completed bars (commit) advance indicator state; the
+   * forming bar is evaluated without changing it
+   */
+  evaluate(bar: OhlcvBar, context: StrategyContext, commit: boolean): RuleDecision {
+    const current = new Map<string, number>();
+    this.series.forEach((series, key) => {
+      const computed = series.value(bar, commit);
+      current.set(key, (series.cached && context.indicator(...series.cached)) ?? computed);
+    });
+
+    const test = (condition: RuleCondition | undefined): boolean => {
+      if (!condition) return false;
+      if (condition.type === 'group') {
+        return condition.combinator === 'and'
+          ? condition.conditions.every(test)
+          : condition.conditions.some(test);
+      }
+
+      const left = current.get(operandKey(condition.left))!;
+      const right = current.get(operandKey(condition.right))!;
+      const previousLeft = this.previous.get(operandKey(condition.left)) ?? NaN;
+      const previousRight = this.previous.get(operandKey(condition.right)) ?? NaN;
+      switch (condition.operator) {
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case 'crosses_above': return left > right && previousLeft <= previousRight;
+        case 'crosses_below': return left < right && previousLeft >= previousRight;
+      }
+    };
+
+    const { entry, exit } = this.definition;
+    const decision = {
+      enterLong: test(entry.long),
+      enterShort: test(entry.short),
+      exitLong: test(exit.long),
+      exitShort: test(exit.short),
+    };
+
+    if (commit) this.previous = current;
+    return decision;
+  }
+}
+
+/**
+ * Intents for a bar given the open position. Exits (rule, stop or target)
+ * come first; entries are skipped when already positioned that way
+ */
+const ruleIntents = (
+  definition: RuleStrategyDefinition,
+  decision: RuleDecision,
+  bar: OhlcvBar,
+  context: StrategyContext
+): StrategyIntent[] => {
+  const { position } = context;
+  const intents: StrategyIntent[] = [];
+  let side = position?.side ?? null;
+
+  if (position) {
+    const direction = position.side === 'long' ? 1 : -1;
+    const movePercent = ((bar.close - position.entryPrice) / position.entryPrice) * 100 * direction;
+    const { stopLossPercent, takeProfitPercent } = definition.exit;
+
+    let reason: string | null = null;
+    if (position.side === 'long' ? decision.exitLong : decision.exitShort) reason = 'Exit rule matched';
+    else if (stopLossPercent !== undefined && movePercent <= -stopLossPercent) reason = `Stop loss at ${stopLossPercent}%`;
+    else if (takeProfitPercent !== undefined && movePercent >= takeProfitPercent) reason = `Take profit at ${takeProfitPercent}%`;
+
+    if (reason) {
+      intents.push({ action: position.side === 'long' ? 'sell' : 'cover', reason });
+      side = null;
+    }
+  }
+
+  if (decision.enterLong && side !== 'long') {
+    intents.push({ action: 'buy', reason: `Entry rule: ${describeCondition(definition.entry.long!)}` });
+  } else if (decision.enterShort && side !== 'short') {
+    intents.push({ action: 'short', reason: `Entry rule: ${describeCondition(definition.entry.short!)}` });
+  }
+  return intents;
+};
+
+export const ruleBasedStrategy: StrategyPlugin = {
+  id: 'rule-based',
+  name: 'Rule Builder',
+  description: 'Entry and exit conditions composed from indicators, prices and values without writing code',
+  category: 'custom',
+  parameters: [
+    { name: 'rules', type: 'rules', value: DEFAULT_RULE_STRATEGY, description: 'Entry and exit rules' },
+  ],
+  warmupBars: ({ rules = DEFAULT_RULE_STRATEGY }) => new RuleEvaluator(parseRuleStrategy(rules)).warmupBars,
+  create: ({ rules = DEFAULT_RULE_STRATEGY }) => {
+    const definition = parseRuleStrategy(rules);
+    const evaluator = new RuleEvaluator(definition);
+
+    return {
+      onBar: (bar, context) => ruleIntents(definition, evaluator.evaluate(bar, context, true), bar, context),
+      preview: (bar, context) => ruleIntents(definition, evaluator.evaluate(bar, context, false), bar, context),
+    };
+  },
+};
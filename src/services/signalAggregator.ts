@@ -0,0 +1,166 @@
+import { AutoTradingSettings, StrategySignal } from '../store/slices/strategiesSlice';
+
+export type SignalAggregationSettings = AutoTradingSettings['signalAggregation'];
+
+export type VoteSignal = Exclude<StrategySignal, 'none'>;
+
+/**
+ * One strategy's latest signal for a symbol
+ */
+export interface StrategyVote {
+  strategyId: string;
+  symbol: string;
+  signal: VoteSignal;
+  confidence: number; // 0-1
+  price: number;
+  timestamp: number; // ms since epoch
+}
+
+export interface AggregationResult {
+  signal: StrategySignal;
+  scores: Record<VoteSignal, number>;
+  confidence: number; // winning signal's share of the total score, 0 when no decision
+  reason: string;
+}
+
+/**
+ * A consolidated decision for a symbol with the votes that produced it
+ */
+export interface AggregatedDecision extends AggregationResult {
+  symbol: string;
+  method: SignalAggregationSettings['method'];
+  price: number; // latest contributing price
+  timestamp: number;
+  contributions: StrategyVote[];
+}
+
+export const DEFAULT_AGGREGATION_WINDOW_SECONDS = 300;
+export const DEFAULT_CUSTOM_THRESHOLD = 0.6;
+
+const VOTE_SIGNALS: VoteSignal[] = ['buy', 'sell', 'short', 'cover'];
+
+const strategyWeight = (settings: SignalAggregationSettings, strategyId: string): number =>
+  settings.weights[strategyId] ?? 1;
+
+/**
+ * Combine strategy votes by the configured method. Each of buy, sell, short
+ * and cover is scored separately:
+ * - majority: more strategies on one signal than on any other
+ * - unanimous: every vote on the same signal
+ * - weighted: highest sum of weight × confidence (unlisted strategies weigh 1)
+ * - custom: weighted, but the winner needs `threshold` of the total score
+ * Fewer than `minimumSignals` votes never produce a decision
+ */
+export const aggregateSignals = (votes: StrategyVote[], settings: SignalAggregationSettings): AggregationResult => {
+  const weighted = settings.method === 'weighted' || settings.method === 'custom';
+  const scores = VOTE_SIGNALS.reduce((totals, signal) => ({
+    ...totals,
+    [signal]: votes
+      .filter(vote => vote.signal === signal)
+      .reduce((sum, vote) => sum + (weighted ? strategyWeight(settings, vote.strategyId) * vote.confidence : 1), 0),
+  }), {} as Record<VoteSignal, number>);
+  const none = (reason: string): AggregationResult => ({ signal: 'none', scores, confidence: 0, reason });
+
+  if (votes.length === 0 || votes.length < settings.minimumSignals) {
+    return none(`${votes.length} of ${settings.minimumSignals} required signals`);
+  }
+
+  const total = VOTE_SIGNALS.reduce((sum, signal) => sum + scores[signal], 0);
+  if (total <= 0) return none('No strategy carries weight');
+
+  const ranked = [...VOTE_SIGNALS].sort((a, b) => scores[b] - scores[a]);
+  const [signal, runnerUp] = ranked;
+  if (scores[signal] === scores[runnerUp]) return none('Signals are evenly split');
+  const share = scores[signal] / total;
+
+  switch (settings.method) {
+    case 'unanimous':
+      if (share < 1) return none('Strategies disagree');
+      break;
+    case 'custom': {
+      const threshold = settings.threshold ?? DEFAULT_CUSTOM_THRESHOLD;
+      if (share < threshold) {
+        return none(`${(share * 100).toFixed(0)}% agreement is below ${(threshold * 100).toFixed(0)}%`);
+      }
+      break;
+    }
+    default:
+      break;
+  }
+
+  const summary = ranked
+    .filter(s => scores[s] > 0)
+    .map(s => `${scores[s].toFixed(2)} ${s}`)
+    .join(' vs ');
+  return { signal, scores, confidence: share, reason: `${settings.method}: ${summary}` };
+};
+
+/**
+ * Collects strategy votes per symbol and combines those inside the
+ * aggregation window. Each strategy counts once per symbol, by its latest vote
+ */
+export class SignalAggregator {
+  private votes: Map<string, Map<string, StrategyVote>> = new Map();
+  private lastDecisions: Map<string, StrategySignal> = new Map();
+
+  addVote(vote: StrategyVote): void {
+    if (!this.votes.has(vote.symbol)) this.votes.set(vote.symbol, new Map());
+    this.votes.get(vote.symbol)!.set(vote.strategyId, vote);
+  }
+
+  /**
+   * Votes for a symbol still inside the window; expired votes are dropped
+   */
+  activeVotes(symbol: string, settings: SignalAggregationSettings, now: number = Date.now()): StrategyVote[] {
+    const bySymbol = this.votes.get(symbol);
+    if (!bySymbol) return [];
+
+    const windowMs = (settings.windowSeconds ?? DEFAULT_AGGREGATION_WINDOW_SECONDS) * 1000;
+    Array.from(bySymbol.entries()).forEach(([strategyId, vote]) => {
+      if (now - vote.timestamp > windowMs) bySymbol.delete(strategyId);
+    });
+    return Array.from(bySymbol.values());
+  }
+
+  decide(symbol: string, settings: SignalAggregationSettings, now: number = Date.now()): AggregatedDecision {
+    const contributions = this.activeVotes(symbol, settings, now);
+    const latest = contributions.reduce<StrategyVote | null>(
+      (newest, vote) => (!newest || vote.timestamp > newest.timestamp ? vote : newest),
+      null
+    );
+
+    return {
+      ...aggregateSignals(contributions, settings),
+      symbol,
+      method: settings.method,
+      price: latest?.price ?? 0,
+      timestamp: now,
+      contributions,
+    };
+  }
+
+  /**
+   * The decision for a symbol when it differs from the last one emitted, so
+   * a standing consensus is acted on once
+   */
+  nextDecision(symbol: string, settings: SignalAggregationSettings, now: number = Date.now()): AggregatedDecision | null {
+    const decision = this.decide(symbol, settings, now);
+    if (this.lastDecisions.get(symbol) === decision.signal) return null;
+
+    const first = !this.lastDecisions.has(symbol);
+    this.lastDecisions.set(symbol, decision.signal);
+    return first && decision.signal === 'none' ? null : decision;
+  }
+
+  /**
+   * Forget a strategy's votes, e.g. when it is disabled
+   */
+  removeStrategy(strategyId: string): void {
+    this.votes.forEach(bySymbol => bySymbol.delete(strategyId));
+  }
+
+  clear(): void {
+    this.votes.clear();
+    this.lastDecisions.clear();
+  }
+}
@@ -0,0 +1,220 @@
+import { StrategyParameter, StrategySignal, StrategyTemplate } from '../store/slices/strategiesSlice';
+import { BUILT_IN_STRATEGIES } from './builtInStrategies';
+import { TimeframeBar, TimeframeFeed } from './multiTimeframe';
+
+export type StrategyBar = TimeframeBar;
+
+/** Parameter values by name, as stored or chosen in the UI */
+export type StrategyParameters = Record<string, unknown>;
+
+export type PositionSide = 'long' | 'short';
+
+export interface StrategyPosition {
+  side: PositionSide;
+  quantity: number;
+  entryPrice: number;
+}
+
+/**
+ * What a strategy wants done after a bar: open long (buy), close long (sell),
+ * open short (short) or close short (cover). Engines decide how (and whether)
+ * to trade it
+ */
+export interface StrategyIntent {
+  action: Exclude<StrategySignal, 'none'>;
+  reason?: string;
+}
+
+export interface PositionChange {
+  close: boolean; // close the open position
+  open: PositionSide | null; // then open this side
+}
+
+export interface StrategyFill {
+  side: 'buy' | 'sell';
+  price: number;
+  quantity: number;
+  time: number;
+}
+
+export interface StrategyContext {
+  symbol: string;
+  timeframe: string;
+  position: StrategyPosition | null;
+  // Precomputed value of a cached indicator for the current bar, when available
+  indicator(name: string, period: number): number | undefined;
+  // Completed bars of a declared higher timeframe, oldest first
+  bars(timeframe: string): StrategyBar[];
+}
+
+/**
+ * One run of a strategy over a bar stream. Instances are stateful and never
+ * shared between symbols, runs or engines
+ */
+export interface StrategyInstance {
+  onBar(bar: StrategyBar, context: StrategyContext): StrategyIntent[];
+  // Intents if the still-forming bar closed as it is now, without changing
+  // state. Without it, live engines act on completed bars only
+  preview?(bar: StrategyBar, context: StrategyContext): StrategyIntent[];
+  onFill?(fill: StrategyFill, context: StrategyContext): void;
+  // A bar of a declared higher timeframe closed; called before the base bar
+  // that completed it
+  onTimeframeBar?(timeframe: string, bar: StrategyBar, context: StrategyContext): void;
+}
+
+/**
+ * A strategy the engines and backtests can run. `P` is the shape of its
+ * parameter values; plugins declare their own
+ */
+export interface StrategyPlugin<P extends object = StrategyParameters> {
+  id: string;
+  name: string;
+  description: string;
+  category: StrategyTemplate['category'];
+  // Schema; each `value` is the default. `timeframe` parameters other than one
+  // named `timeframe` (the base bar size) declare higher timeframes to resample
+  parameters: StrategyParameter[];
+  // Completed base bars before intents are meaningful
+  warmupBars(parameters: P, timeframe: string): number;
+  create(parameters: P): StrategyInstance;
+}
+
+/**
+ * A strategy instance wired to its context, fed base bars by an engine
+ */
+export interface StrategyDriver {
+  instance: StrategyInstance;
+  context: StrategyContext;
+  warmupBars: number;
+  onBar(bar: StrategyBar): StrategyIntent[]; // a completed base bar
+  preview(bar: StrategyBar): StrategyIntent[]; // the base bar still forming
+}
+
+export const NO_CACHED_INDICATORS: StrategyContext['indicator'] = () => undefined;
+
+/**
+ * The signal a list of intents amounts to for engines that act on one signal
+ * per bar. Entries win over exits, since an entry against an open position
+ * closes it too
+ */
+export const intentSignal = (intents: StrategyIntent[]): StrategySignal => {
+  const intent = intents.find(i => i.action === 'buy' || i.action === 'short') ?? intents[0];
+  return intent ? intent.action : 'none';
+};
+
+/**
+ * What an intent does to a position held on `side` (null when flat). Entries
+ * against an open position reverse it; exits of a side that isn't held and
+ * entries on the side already held do nothing, so a sell never opens a short
+ */
+export const positionChange = (action: StrategyIntent['action'], side: PositionSide | null): PositionChange => {
+  switch (action) {
+    case 'buy':
+      return { close: side === 'short', open: side === 'long' ? null : 'long' };
+    case 'short':
+      return { close: side === 'long', open: side === 'short' ? null : 'short' };
+    case 'sell':
+      return { close: side === 'long', open: null };
+    case 'cover':
+      return { close: side === 'short', open: null };
+  }
+};
+
+/**
+ * Fill intents at `price` against the context's own position, for runs with
+ * no broker behind them (signal generation, live monitoring), so exit rules
+ * see the position they would close
+ */
+export const trackIntents = (context: StrategyContext, intents: StrategyIntent[], price: number): void => {
+  intents.forEach(intent => {
+    const { close, open } = positionChange(intent.action, context.position?.side ?? null);
+    if (close) context.position = null;
+    if (open) context.position = { side: open, quantity: 1, entryPrice: price };
+  });
+};
+
+/**
+ * Higher timeframes a strategy declares through its `timeframe` parameters
+ */
+export const strategyTimeframes = (
+  plugin: StrategyPlugin,
+  parameters: StrategyParameters,
+  baseTimeframe: string
+): string[] =>
+  plugin.parameters
+    .filter(parameter => parameter.type === 'timeframe' && parameter.name !== 'timeframe')
+    .map(parameter => String(parameters[parameter.name] ?? parameter.value))
+    .filter((timeframe, i, all) => timeframe !== baseTimeframe && all.indexOf(timeframe) === i);
+
+/**
+ * Create a strategy instance over a base bar stream. Each completed base bar
+ * first releases the higher-timeframe bars it completes, so strategies only
+ * ever see closed higher bars
+ */
+export const driveStrategy = (
+  plugin: StrategyPlugin,
+  parameters: StrategyParameters,
+  market: { symbol: string; timeframe: string },
+  indicator: StrategyContext['indicator'] = NO_CACHED_INDICATORS
+): StrategyDriver => {
+  const instance = plugin.create(parameters);
+  const feed = new TimeframeFeed(market.timeframe, strategyTimeframes(plugin, parameters, market.timeframe));
+  const context: StrategyContext = { ...market, position: null, indicator, bars: timeframe => feed.bars(timeframe) };
+
+  return {
+    instance,
+    context,
+    warmupBars: plugin.warmupBars(parameters, market.timeframe),
+    onBar: bar => {
+      feed.advance(bar).forEach(released => instance.onTimeframeBar?.(released.timeframe, released.bar, context));
+      return instance.onBar(bar, context);
+    },
+    preview: bar => (instance.preview ? instance.preview(bar, context) : []),
+  };
+};
+
+/**
+ * Strategy plugins by id. Built-in strategies are registered up front;
+ * separate modules call `strategyRegistry.register` when imported
+ */
+class StrategyRegistry {
+  private plugins: Map<string, StrategyPlugin> = new Map();
+
+  constructor(plugins: StrategyPlugin[]) {
+    plugins.forEach(plugin => this.register(plugin));
+  }
+
+  register(plugin: StrategyPlugin): void {
+    if (this.plugins.has(plugin.id)) {
+      console.warn(`Replacing registered strategy ${plugin.id}`);
+    }
+    this.plugins.set(plugin.id, plugin);
+  }
+
+  unregister(id: string): void {
+    this.plugins.delete(id);
+  }
+
+  get(id: string): StrategyPlugin | undefined {
+    return this.plugins.get(id);
+  }
+
+  list(): StrategyPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  /**
+   * Registered strategies as UI templates
+   */
+  templates(): StrategyTemplate[] {
+    return this.list().map(plugin => ({
+      id: plugin.id,
+      name: plugin.name,
+      description: plugin.description,
+      category: plugin.category,
+      defaultParameters: plugin.parameters.map(parameter => ({ ...parameter })),
+    }));
+  }
+}
+
+export const strategyRegistry = new StrategyRegistry(BUILT_IN_STRATEGIES);
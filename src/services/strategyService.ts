@@ -1,160 +1,150 @@
-import { StrategySignal } from '../store/slices/strategiesSlice';
+import { StrategyParameter, StrategySignal } from '../store/slices/strategiesSlice';
+import { BacktestTimeframe, backtestingService, barTime, TIMEFRAME_MS } from './backtestingService';
+import { strategyRegistry } from './strategyRegistry';
+
+export interface StrategyEvaluation {
+  signal: StrategySignal;
+  price: number; // close of the latest stored bar
+  barTime: Date;
+  barsUsed: number;
+  ready: boolean; // enough bars for the template's indicators
+  recentCloses: number[];
+}
+
+export const DEFAULT_SIGNAL_SYMBOL = 'BTCUSD';
+export const DEFAULT_SIGNAL_TIMEFRAME: BacktestTimeframe = '1d';
+
+// Load a few times the strict minimum so EMA-based indicators have converged
+const HISTORY_MULTIPLIER = 3;
+const MIN_HISTORY_BARS = 50;
+const RECENT_CLOSES = 10;
+
+/**
+ * Strategy parameters as a name/value object, from either the UI's parameter
+ * list or a stored parameter object
+ */
+export const strategyParameterValues = (
+  parameters: StrategyParameter[] | Record<string, any> = {}
+): Record<string, any> =>
+  Array.isArray(parameters)
+    ? parameters.reduce((values, param) => ({ ...values, [param.name]: param.value }), {} as Record<string, any>)
+    : parameters;
+
+/**
+ * Confidence from recent closes: lower volatility gives higher confidence
+ */
+export const signalConfidence = (recentCloses: number[]): number => {
+  if (recentCloses.length === 0) return 0.1;
+
+  const avgPrice = recentCloses.reduce((a, b) => a + b, 0) / recentCloses.length;
+  const volatility = Math.sqrt(
+    recentCloses.reduce((sum, price) => sum + Math.pow(price - avgPrice, 2), 0) / recentCloses.length
+  ) / avgPrice;
+
+  return Math.max(0.1, Math.min(1.0, 1 - volatility * 10));
+};
 
 /**
- * Strategy Service - Simulates trading strategy logic and signal generation
- * In a real implementation, this would connect to technical analysis libraries,
- * market data feeds, and implement actual strategy algorithms.
+ * Strategy Service - evaluates strategies against recent bars from the market
+ * data store. Signals come from BacktestingService.generateSignals over the
+ * same bars and cached indicators a backtest would use, so live signals and
+ * backtests agree
  */
 class StrategyService {
-  
-  /**
-   * Simulate RSI-based strategy signal
-   */
-  calculateRSISignal(parameters: Record<string, any>): StrategySignal {
-    const { rsiPeriod = 14, oversoldLevel = 30, overboughtLevel = 70 } = parameters;
-    
-    // Simulate RSI calculation (normally would use real price data)
-    const mockRSI = Math.random() * 100;
-    
-    if (mockRSI < oversoldLevel) {
-      return 'buy'; // RSI oversold - potential buy signal
-    } else if (mockRSI > overboughtLevel) {
-      return 'short'; // RSI overbought - potential short signal
-    }
-    
-    return 'none';
-  }
+  private monitoredSignals: Map<string, StrategySignal> = new Map();
+  private reportedSignals: Map<string, string> = new Map();
 
   /**
-   * Simulate Moving Average Crossover strategy signal
+   * Evaluate a strategy template on the latest stored bars for a symbol.
+   * Returns null for templates with no registered strategy
    */
-  calculateMASignal(parameters: Record<string, any>): StrategySignal {
-    const { fastPeriod = 10, slowPeriod = 30 } = parameters;
-    
-    // Simulate moving average crossover (normally would use real price data)
-    const fastMA = Math.random() * 1000 + 40000; // Mock price around $40k
-    const slowMA = Math.random() * 1000 + 40000;
-    
-    if (fastMA > slowMA * 1.001) { // Fast MA crosses above slow MA
-      return 'buy';
-    } else if (fastMA < slowMA * 0.999) { // Fast MA crosses below slow MA
-      return 'short';
-    }
-    
-    return 'none';
-  }
+  async evaluateStrategy(
+    templateId: string,
+    parameters: Record<string, any>,
+    symbol: string,
+    timeframe: BacktestTimeframe = DEFAULT_SIGNAL_TIMEFRAME,
+    endDate: Date = new Date()
+  ): Promise<StrategyEvaluation | null> {
+    const plugin = strategyRegistry.get(templateId);
+    if (!plugin) return null;
 
-  /**
-   * Simulate Bollinger Bands strategy signal
-   */
-  calculateBollingerSignal(parameters: Record<string, any>): StrategySignal {
-    const { period = 20, standardDeviations = 2 } = parameters;
-    
-    // Simulate Bollinger Bands breakout (normally would use real price data)
-    const currentPrice = Math.random() * 1000 + 40000;
-    const middleBand = 40000;
-    const upperBand = middleBand + (standardDeviations * 500);
-    const lowerBand = middleBand - (standardDeviations * 500);
-    
-    if (currentPrice > upperBand) {
-      return 'short'; // Price breaks above upper band - potential short
-    } else if (currentPrice < lowerBand) {
-      return 'buy'; // Price breaks below lower band - potential buy
-    }
-    
-    return 'none';
-  }
+    const history = Math.max(plugin.warmupBars(parameters, timeframe) * HISTORY_MULTIPLIER, MIN_HISTORY_BARS);
+    const config = {
+      symbol,
+      timeframe,
+      dataSource: 'database' as const,
+      startDate: new Date(endDate.getTime() - history * TIMEFRAME_MS[timeframe]),
+      endDate,
+      initialCapital: 0,
+    };
+    const bars = await backtestingService.loadBars(config);
+    if (bars.length === 0) return null;
 
-  /**
-   * Simulate MACD strategy signal
-   */
-  calculateMACDSignal(parameters: Record<string, any>): StrategySignal {
-    const { fastPeriod = 12, slowPeriod = 26, signalPeriod = 9 } = parameters;
-    
-    // Simulate MACD calculation (normally would use real price data)
-    const macdLine = Math.random() * 100 - 50; // Random value between -50 and 50
-    const signalLine = Math.random() * 100 - 50;
-    
-    if (macdLine > signalLine && macdLine > 0) {
-      return 'buy'; // MACD crosses above signal line and is positive
-    } else if (macdLine < signalLine && macdLine < 0) {
-      return 'short'; // MACD crosses below signal line and is negative
-    }
-    
-    return 'none';
-  }
+    const cached = await backtestingService.loadCachedIndicators(symbol, timeframe, bars);
+    const signals = backtestingService.generateSignals(bars, templateId, parameters, cached, { symbol, timeframe });
+    const latest = bars[bars.length - 1];
 
-  /**
-   * Simulate Volume Spike strategy signal
-   */
-  calculateVolumeSignal(parameters: Record<string, any>): StrategySignal {
-    const { volumeMultiplier = 2, priceChangeThreshold = 2 } = parameters;
-    
-    // Simulate volume and price change (normally would use real market data)
-    const currentVolume = Math.random() * 1000000;
-    const averageVolume = 500000;
-    const priceChange = (Math.random() - 0.5) * 10; // Price change between -5% and +5%
-    
-    const volumeSpike = currentVolume > (averageVolume * volumeMultiplier);
-    const significantPriceMove = Math.abs(priceChange) > priceChangeThreshold;
-    
-    if (volumeSpike && significantPriceMove) {
-      return priceChange > 0 ? 'buy' : 'short';
-    }
-    
-    return 'none';
+    return {
+      // generateSignals has an entry for every bar past the warm-up, so the
+      // last one is the latest bar's
+      signal: signals.length > 0 ? signals[signals.length - 1].signal : 'none',
+      price: latest.close,
+      barTime: new Date(barTime(latest)),
+      barsUsed: bars.length,
+      ready: signals.length > 0,
+      recentCloses: bars.slice(-RECENT_CLOSES).map(bar => bar.close),
+    };
   }
 
   /**
-   * Calculate signal for a strategy based on its template ID and parameters
+   * Evaluate a UI strategy on its configured symbol and timeframe
    */
-  calculateStrategySignal(templateId: string, parameters: Record<string, any>): StrategySignal {
-    switch (templateId) {
-      case 'rsi-oversold':
-        return this.calculateRSISignal(parameters);
-      case 'moving-average-crossover':
-        return this.calculateMASignal(parameters);
-      case 'bollinger-bands':
-        return this.calculateBollingerSignal(parameters);
-      case 'macd-momentum':
-        return this.calculateMACDSignal(parameters);
-      case 'volume-spike':
-        return this.calculateVolumeSignal(parameters);
-      default:
-        return 'none';
-    }
+  async evaluateTradeStrategy(strategy: {
+    templateId?: string;
+    parameters: StrategyParameter[] | Record<string, any>;
+  }): Promise<StrategyEvaluation | null> {
+    if (!strategy.templateId) return null;
+
+    const parameters = strategyParameterValues(strategy.parameters);
+    return this.evaluateStrategy(
+      strategy.templateId,
+      parameters,
+      parameters.symbol ?? DEFAULT_SIGNAL_SYMBOL,
+      parameters.timeframe ?? DEFAULT_SIGNAL_TIMEFRAME
+    );
   }
 
   /**
-   * Start monitoring strategies and generating signals
-   * In a real implementation, this would run continuously and update signals based on real market data
+   * Start monitoring strategies, reporting each enabled strategy's signal
+   * whenever it changes
    */
-  startStrategyMonitoring(strategies: any[], onSignalUpdate: (strategyId: string, signal: StrategySignal) => void) {
+  startStrategyMonitoring(
+    strategies: any[],
+    onSignalUpdate: (strategyId: string, signal: StrategySignal) => void,
+    intervalMs: number = 60000
+  ) {
     console.log('Starting strategy monitoring for', strategies.length, 'strategies');
-    
-    // Simulate periodic signal updates
-    const interval = setInterval(() => {
-      strategies.forEach(strategy => {
-        if (strategy.enabled) {
-          // Convert parameters array to object for easier access
-          const paramObj = strategy.parameters.reduce((acc: any, param: any) => {
-            acc[param.name] = param.value;
-            return acc;
-          }, {});
-          
-          // Calculate new signal based on strategy template
-          const newSignal = this.calculateStrategySignal(strategy.category, paramObj);
-          
-          // Only update if signal changed (to avoid unnecessary updates)
-          if (newSignal !== strategy.currentSignal) {
-            console.log(`Strategy ${strategy.name} signal changed: ${strategy.currentSignal} -> ${newSignal}`);
+
+    const evaluateAll = async () => {
+      for (const strategy of strategies.filter(s => s.enabled)) {
+        try {
+          const evaluation = await this.evaluateTradeStrategy(strategy);
+          const newSignal = evaluation?.signal ?? 'none';
+          const previousSignal = this.monitoredSignals.get(strategy.id) ?? strategy.currentSignal;
+
+          if (newSignal !== previousSignal) {
+            console.log(`Strategy ${strategy.name} signal changed: ${previousSignal} -> ${newSignal}`);
             onSignalUpdate(strategy.id, newSignal);
           }
+          this.monitoredSignals.set(strategy.id, newSignal);
+        } catch (error) {
+          console.error(`Error evaluating strategy ${strategy.name}:`, error);
         }
-      });
-    }, 10000); // Update every 10 seconds for demo purposes
+      }
+    };
 
-    return interval;
+    evaluateAll();
+    return setInterval(evaluateAll, intervalMs);
   }
 
   /**
@@ -166,39 +156,48 @@ class StrategyService {
   }
 
   /**
-   * Generate trading signals for a strategy
+   * Generate trading signals for a strategy across the symbols in the market
+   * data snapshot. Each bar's signal is reported once
    */
-  async generateSignals(strategyId: string, marketData: any): Promise<any[]> {
-    try {
-      // Mock signal generation based on strategy type
-      const signals = [];
-      
-      // Simulate signal generation based on market data
-      const symbols = Object.keys(marketData);
-      
-      for (const symbol of symbols) {
-        const price = marketData[symbol]?.price || 0;
-        
-        // Generate random signal for demo purposes
-        const signal = {
+  async generateSignals(
+    strategy: { id: string; templateId?: string; parameters: StrategyParameter[] | Record<string, any> },
+    marketData: Record<string, { price?: number } | undefined>
+  ): Promise<any[]> {
+    if (!strategy.templateId) return [];
+
+    const parameters = strategyParameterValues(strategy.parameters);
+    const timeframe: BacktestTimeframe = parameters.timeframe ?? DEFAULT_SIGNAL_TIMEFRAME;
+    const signals = [];
+
+    for (const symbol of Object.keys(marketData)) {
+      try {
+        const evaluation = await this.evaluateStrategy(strategy.templateId, parameters, symbol, timeframe);
+        if (!evaluation || evaluation.signal === 'none') continue;
+
+        const key = `${strategy.id}|${symbol}`;
+        const barKey = `${evaluation.barTime.getTime()}|${evaluation.signal}`;
+        if (this.reportedSignals.get(key) === barKey) continue;
+        this.reportedSignals.set(key, barKey);
+
+        signals.push({
           symbol,
-          strategyId,
-          signal: Math.random() > 0.7 ? (Math.random() > 0.5 ? 'buy' : 'sell') : 'none',
-          confidence: Math.random(),
-          price,
-          timestamp: new Date()
-        };
-        
-        if (signal.signal !== 'none') {
-          signals.push(signal);
-        }
+          strategyId: strategy.id,
+          action: evaluation.signal.toUpperCase(),
+          confidence: signalConfidence(evaluation.recentCloses),
+          price: evaluation.price,
+          timestamp: new Date(),
+          metadata: {
+            reasoning: `${strategy.templateId} signal on the ${timeframe} bar of ${evaluation.barTime.toISOString()}`,
+            timeframe,
+            barsUsed: evaluation.barsUsed,
+          },
+        });
+      } catch (error) {
+        console.error(`Error generating ${symbol} signals for strategy ${strategy.id}:`, error);
       }
-      
-      return signals;
-    } catch (error) {
-      console.error('Error generating signals:', error);
-      return [];
     }
+
+    return signals;
   }
 }
 
@@ -0,0 +1,44 @@
+// Comparing saved versions of a strategy's parameters
+import { StrategyParameter } from '../store/slices/strategiesSlice';
+
+export interface ParameterChange {
+  name: string;
+  before: unknown; // undefined when the parameter was added
+  after: unknown; // undefined when the parameter was removed
+}
+
+/**
+ * Parameter values by name. Strategies saved from the UI store a
+ * StrategyParameter list, those saved by the engines a plain object
+ */
+export const parameterValues = (parameters: StrategyParameter[] | Record<string, unknown>): Record<string, unknown> =>
+  Array.isArray(parameters)
+    ? parameters.reduce((values, parameter) => ({ ...values, [parameter.name]: parameter.value }), {} as Record<string, unknown>)
+    : { ...parameters };
+
+/**
+ * Parameters whose values differ between two versions, in the order they
+ * first appear
+ */
+export const diffParameters = (
+  before: StrategyParameter[] | Record<string, unknown>,
+  after: StrategyParameter[] | Record<string, unknown>
+): ParameterChange[] => {
+  const beforeValues = parameterValues(before);
+  const afterValues = parameterValues(after);
+  const names = Array.from(new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)]));
+
+  return names
+    .filter(name => JSON.stringify(beforeValues[name]) !== JSON.stringify(afterValues[name]))
+    .map(name => ({ name, before: beforeValues[name], after: afterValues[name] }));
+};
+
+/**
+ * Short display form of a parameter value; rule sets and other objects are
+ * shown as JSON
+ */
+export const formatParameterValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(value);
+};
@@ -0,0 +1,421 @@
+// Incremental versions of the technical indicators for live data. Each update
+// is O(1) regardless of the lookback, and values match technicalIndicators.ts
+// bar for bar (NaN until the indicator has enough history).
+import { BandPoint, MacdPoint, MovingAverageType, OhlcvBar } from './technicalIndicators';
+
+export interface StreamingIndicator<TInput, TOutput> {
+  /** Add a completed bar and return the new value */
+  update(input: TInput): TOutput;
+  /** Value as if `input` were the next bar, without changing any state (for a bar still forming) */
+  preview(input: TInput): TOutput;
+  /** Last value returned by update */
+  readonly value: TOutput;
+  readonly isReady: boolean;
+}
+
+/**
+ * Fixed-size FIFO of the most recent values
+ */
+class RingBuffer {
+  private values: number[];
+  private start = 0;
+  length = 0;
+
+  constructor(private capacity: number) {
+    this.values = new Array(capacity);
+  }
+
+  get isFull(): boolean {
+    return this.length === this.capacity;
+  }
+
+  /** Value that the next push will evict, if the buffer is full */
+  get oldest(): number {
+    return this.values[this.start];
+  }
+
+  push(value: number): void {
+    if (this.isFull) {
+      this.values[this.start] = value;
+      this.start = (this.start + 1) % this.capacity;
+    } else {
+      this.values[(this.start + this.length) % this.capacity] = value;
+      this.length++;
+    }
+  }
+}
+
+export class StreamingSMA implements StreamingIndicator<number, number> {
+  private window: RingBuffer;
+  private sum = 0;
+  value = NaN;
+
+  constructor(private period: number) {
+    this.window = new RingBuffer(period);
+  }
+
+  get isReady(): boolean {
+    return this.window.isFull;
+  }
+
+  private next(input: number): { sum: number; value: number } {
+    const sum = this.sum + input - (this.window.isFull ? this.window.oldest : 0);
+    const value = this.window.length + 1 >= this.period ? sum / this.period : NaN;
+    return { sum, value };
+  }
+
+  update(input: number): number {
+    const { sum, value } = this.next(input);
+    this.window.push(input);
+    this.sum = sum;
+    this.value = value;
+    return value;
+  }
+
+  preview(input: number): number {
+    return this.next(input).value;
+  }
+}
+
+/**
+ * EMA seeded with the SMA of its first `period` inputs. NaN inputs before the
+ * first real value are ignored, as in the batch version
+ */
+export class StreamingEMA implements StreamingIndicator<number, number> {
+  private seed: StreamingSMA;
+  private alpha: number;
+  value = NaN;
+
+  constructor(period: number) {
+    this.seed = new StreamingSMA(period);
+    this.alpha = 2 / (period + 1);
+  }
+
+  get isReady(): boolean {
+    return !Number.isNaN(this.value);
+  }
+
+  update(input: number): number {
+    if (Number.isNaN(input) && !this.seed.isReady) return this.value;
+    this.value = this.seed.isReady
+      ? this.alpha * input + (1 - this.alpha) * this.value
+      : this.seed.update(input);
+    return this.value;
+  }
+
+  preview(input: number): number {
+    if (Number.isNaN(input) && !this.seed.isReady) return this.value;
+    return this.seed.isReady ? this.alpha * input + (1 - this.alpha) * this.value : this.seed.preview(input);
+  }
+}
+
+/**
+ * Linearly weighted moving average, kept as a running plain sum and weighted sum
+ */
+export class StreamingWMA implements StreamingIndicator<number, number> {
+  private window: RingBuffer;
+  private sum = 0;
+  private weightedSum = 0;
+  private divisor: number;
+  value = NaN;
+
+  constructor(private period: number) {
+    this.window = new RingBuffer(period);
+    this.divisor = (period * (period + 1)) / 2;
+  }
+
+  get isReady(): boolean {
+    return this.window.isFull;
+  }
+
+  private next(input: number): { sum: number; weightedSum: number; value: number } {
+    // Once full, every weight drops by one and the oldest value leaves
+    const weightedSum = this.window.isFull
+      ? this.weightedSum + this.period * input - this.sum
+      : this.weightedSum + (this.window.length + 1) * input;
+    const sum = this.sum + input - (this.window.isFull ? this.window.oldest : 0);
+    const value = this.window.length + 1 >= this.period ? weightedSum / this.divisor : NaN;
+    return { sum, weightedSum, value };
+  }
+
+  update(input: number): number {
+    const { sum, weightedSum, value } = this.next(input);
+    this.window.push(input);
+    this.sum = sum;
+    this.weightedSum = weightedSum;
+    this.value = value;
+    return value;
+  }
+
+  preview(input: number): number {
+    return this.next(input).value;
+  }
+}
+
+/**
+ * Streaming moving average of the requested type
+ */
+export const createStreamingMovingAverage = (
+  period: number,
+  type: MovingAverageType = 'sma'
+): StreamingIndicator<number, number> => {
+  switch (type) {
+    case 'ema':
+      return new StreamingEMA(period);
+    case 'wma':
+      return new StreamingWMA(period);
+    case 'sma':
+    default:
+      return new StreamingSMA(period);
+  }
+};
+
+/**
+ * Wilder's RSI
+ */
+export class StreamingRSI implements StreamingIndicator<number, number> {
+  private previousClose = NaN;
+  private count = 0; // changes seen
+  private avgGain = 0;
+  private avgLoss = 0;
+  value = NaN;
+
+  constructor(private period: number) {}
+
+  get isReady(): boolean {
+    return this.count >= this.period;
+  }
+
+  private next(input: number): { avgGain: number; avgLoss: number; value: number } {
+    if (Number.isNaN(this.previousClose)) {
+      return { avgGain: 0, avgLoss: 0, value: NaN };
+    }
+
+    const change = input - this.previousClose;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    const count = this.count + 1;
+    let { avgGain, avgLoss } = this;
+
+    if (count < this.period) {
+      // Still accumulating the first average (kept as a running sum)
+      return { avgGain: avgGain + gain, avgLoss: avgLoss + loss, value: NaN };
+    }
+    if (count === this.period) {
+      avgGain = (avgGain + gain) / this.period;
+      avgLoss = (avgLoss + loss) / this.period;
+    } else {
+      avgGain = (avgGain * (this.period - 1) + gain) / this.period;
+      avgLoss = (avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    const value = avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss);
+    return { avgGain, avgLoss, value };
+  }
+
+  update(input: number): number {
+    const next = this.next(input);
+    if (!Number.isNaN(this.previousClose)) this.count++;
+    this.previousClose = input;
+    this.avgGain = next.avgGain;
+    this.avgLoss = next.avgLoss;
+    this.value = next.value;
+    return next.value;
+  }
+
+  preview(input: number): number {
+    return this.next(input).value;
+  }
+}
+
+/**
+ * Bollinger Bands from a running sum and sum of squares
+ */
+export class StreamingBollingerBands implements StreamingIndicator<number, BandPoint> {
+  private window: RingBuffer;
+  private sum = 0;
+  private sumOfSquares = 0;
+  value: BandPoint = { upper: NaN, middle: NaN, lower: NaN };
+
+  constructor(private period: number, private deviations: number) {
+    this.window = new RingBuffer(period);
+  }
+
+  get isReady(): boolean {
+    return this.window.isFull;
+  }
+
+  private next(input: number): { sum: number; sumOfSquares: number; value: BandPoint } {
+    const leaving = this.window.isFull ? this.window.oldest : 0;
+    const sum = this.sum + input - leaving;
+    const sumOfSquares = this.sumOfSquares + input * input - leaving * leaving;
+    if (this.window.length + 1 < this.period) {
+      return { sum, sumOfSquares, value: { upper: NaN, middle: NaN, lower: NaN } };
+    }
+
+    const middle = sum / this.period;
+    const deviation = Math.sqrt(Math.max(0, sumOfSquares / this.period - middle * middle));
+    return {
+      sum,
+      sumOfSquares,
+      value: { upper: middle + deviation * this.deviations, middle, lower: middle - deviation * this.deviations },
+    };
+  }
+
+  update(input: number): BandPoint {
+    const next = this.next(input);
+    this.window.push(input);
+    this.sum = next.sum;
+    this.sumOfSquares = next.sumOfSquares;
+    this.value = next.value;
+    return next.value;
+  }
+
+  preview(input: number): BandPoint {
+    return this.next(input).value;
+  }
+}
+
+export class StreamingMACD implements StreamingIndicator<number, MacdPoint> {
+  private fast: StreamingEMA;
+  private slow: StreamingEMA;
+  private signal: StreamingEMA;
+  value: MacdPoint = { macd: NaN, signal: NaN, histogram: NaN };
+
+  constructor(fastPeriod: number, slowPeriod: number, signalPeriod: number) {
+    this.fast = new StreamingEMA(fastPeriod);
+    this.slow = new StreamingEMA(slowPeriod);
+    this.signal = new StreamingEMA(signalPeriod);
+  }
+
+  get isReady(): boolean {
+    return this.signal.isReady;
+  }
+
+  update(input: number): MacdPoint {
+    const line = this.fast.update(input) - this.slow.update(input);
+    const signal = this.signal.update(line);
+    this.value = { macd: line, signal, histogram: line - signal };
+    return this.value;
+  }
+
+  preview(input: number): MacdPoint {
+    const line = this.fast.preview(input) - this.slow.preview(input);
+    const signal = this.signal.preview(line);
+    return { macd: line, signal, histogram: line - signal };
+  }
+}
+
+/**
+ * Wilder-smoothed Average True Range
+ */
+export class StreamingATR implements StreamingIndicator<OhlcvBar, number> {
+  private previousClose = NaN;
+  private seed: StreamingSMA;
+  value = NaN;
+
+  constructor(private period: number) {
+    this.seed = new StreamingSMA(period);
+  }
+
+  get isReady(): boolean {
+    return !Number.isNaN(this.value);
+  }
+
+  private range(bar: OhlcvBar): number {
+    if (Number.isNaN(this.previousClose)) return bar.high - bar.low;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - this.previousClose), Math.abs(bar.low - this.previousClose));
+  }
+
+  update(bar: OhlcvBar): number {
+    const range = this.range(bar);
+    this.value = this.seed.isReady
+      ? (this.value * (this.period - 1) + range) / this.period
+      : this.seed.update(range);
+    this.previousClose = bar.close;
+    return this.value;
+  }
+
+  preview(bar: OhlcvBar): number {
+    const range = this.range(bar);
+    return this.seed.isReady ? (this.value * (this.period - 1) + range) / this.period : this.seed.preview(range);
+  }
+}
+
+/**
+ * On-Balance Volume, starting from zero at the first bar
+ */
+export class StreamingOBV implements StreamingIndicator<OhlcvBar, number> {
+  private previousClose = NaN;
+  value = NaN;
+
+  get isReady(): boolean {
+    return !Number.isNaN(this.value);
+  }
+
+  private next(bar: OhlcvBar): number {
+    if (Number.isNaN(this.previousClose)) return 0;
+    if (bar.close > this.previousClose) return this.value + bar.volume;
+    if (bar.close < this.previousClose) return this.value - bar.volume;
+    return this.value;
+  }
+
+  update(bar: OhlcvBar): number {
+    this.value = this.next(bar);
+    this.previousClose = bar.close;
+    return this.value;
+  }
+
+  preview(bar: OhlcvBar): number {
+    return this.next(bar);
+  }
+}
+
+/**
+ * VWAP of the typical price, cumulative or over a rolling window
+ */
+export class StreamingVWAP implements StreamingIndicator<OhlcvBar, number> {
+  private priceVolume: StreamingSMA | null;
+  private volume: StreamingSMA | null;
+  private totalPriceVolume = 0;
+  private totalVolume = 0;
+  value = NaN;
+
+  constructor(period?: number) {
+    // Rolling sums are the rolling means scaled by the same period, so the ratio is unchanged
+    this.priceVolume = period ? new StreamingSMA(period) : null;
+    this.volume = period ? new StreamingSMA(period) : null;
+  }
+
+  get isReady(): boolean {
+    return !Number.isNaN(this.value);
+  }
+
+  private static typicalPriceVolume(bar: OhlcvBar): number {
+    return ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+  }
+
+  update(bar: OhlcvBar): number {
+    const priceVolume = StreamingVWAP.typicalPriceVolume(bar);
+    if (this.priceVolume && this.volume) {
+      const volume = this.volume.update(bar.volume);
+      const meanPriceVolume = this.priceVolume.update(priceVolume);
+      this.value = volume > 0 ? meanPriceVolume / volume : NaN;
+    } else {
+      this.totalPriceVolume += priceVolume;
+      this.totalVolume += bar.volume;
+      this.value = this.totalVolume > 0 ? this.totalPriceVolume / this.totalVolume : NaN;
+    }
+    return this.value;
+  }
+
+  preview(bar: OhlcvBar): number {
+    const priceVolume = StreamingVWAP.typicalPriceVolume(bar);
+    if (this.priceVolume && this.volume) {
+      const volume = this.volume.preview(bar.volume);
+      return volume > 0 ? this.priceVolume.preview(priceVolume) / volume : NaN;
+    }
+    const totalVolume = this.totalVolume + bar.volume;
+    return totalVolume > 0 ? (this.totalPriceVolume + priceVolume) / totalVolume : NaN;
+  }
+}
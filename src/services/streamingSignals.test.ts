@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./databaseService', () => ({ default: {} }));
+
+import { backtestingService, barTime, HistoricalPrice } from './backtestingService';
+import { CachedIndicators } from './indicatorCache';
+import { createStreamingSignalModel } from './streamingSignals';
+import { strategyRegistry } from './strategyRegistry';
+import { ema } from './technicalIndicators';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const bars: HistoricalPrice[] = Array.from({ length: 40 }, (_, i) => {
+  const close = 100 + 10 * Math.sin(i / 3) + i;
+  return {
+    date: new Date(i * DAY_MS).toISOString().slice(0, 10),
+    timestamp: new Date(i * DAY_MS),
+    open: close - 1,
+    high: close + 2,
+    low: close - 2,
+    close,
+    volume: 1000,
+  };
+});
+
+// Records the cached EMA each completed bar sees
+const seen: Array<number | undefined> = [];
+strategyRegistry.register({
+  id: 'cached_ema_probe',
+  name: 'Cached EMA probe',
+  description: 'Records cached EMA values',
+  category: 'technical',
+  parameters: [],
+  warmupBars: () => 1,
+  create: () => ({
+    onBar: (_bar, context) => {
+      seen.push(context.indicator('ema', 5));
+      return [];
+    },
+  }),
+});
+
+describe('cached indicators in backtests and live streams', () => {
+  it('gives a strategy the same values for the same bars', () => {
+    // The cache is computed over the full history, the runs see the last 20 bars
+    const full = ema(bars.map(bar => bar.close), 5);
+    const rows = bars.map((bar, i) => ({ timestamp: new Date(barTime(bar)), indicator: 'ema', period: 5, value: full[i] }));
+    const window = bars.slice(-20);
+    const cached = () => new CachedIndicators(window.map(barTime), rows);
+
+    seen.length = 0;
+    backtestingService.generateSignals(window, 'cached_ema_probe', {}, cached());
+    const backtest = [...seen];
+
+    seen.length = 0;
+    const model = createStreamingSignalModel('cached_ema_probe', {}, { symbol: 'TEST', timeframe: '1d' }, cached())!;
+    window.forEach(bar => model.update({ ...bar, time: barTime(bar) }));
+    const live = [...seen];
+
+    expect(live).toEqual(backtest);
+    expect(backtest).toEqual(full.slice(-20));
+    // Windowed recomputation would have differed from the full-history values
+    expect(ema(window.map(bar => bar.close), 5)[10]).not.toBeCloseTo(full[30], 6);
+  });
+});
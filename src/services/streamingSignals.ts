@@ -0,0 +1,246 @@
+import { StrategySignal } from '../store/slices/strategiesSlice';
+import { BacktestTimeframe, backtestingService, HistoricalPrice, TIMEFRAME_MS } from './backtestingService';
+import { CachedIndicators, cachedIndicatorLookup } from './indicatorCache';
+import { OhlcvBar } from './technicalIndicators';
+import { driveStrategy, intentSignal, StrategyBar, StrategyParameters, strategyRegistry, trackIntents } from './strategyRegistry';
+
+/**
+ * A registered strategy's signals over a live bar stream. Signals match
+ * BacktestingService.generateSignals for the same bars
+ */
+export interface StreamingSignalModel {
+  warmupBars: number; // completed bars needed before signals are meaningful
+  update(bar: StrategyBar): StrategySignal; // a completed bar
+  preview(bar: StrategyBar): StrategySignal; // the bar still forming; no state changes
+}
+
+export interface StreamingSignalResult {
+  signal: StrategySignal;
+  ready: boolean; // enough history for the template's indicators
+  barsSeen: number;
+  recentCloses: number[]; // up to RECENT_CLOSES completed closes plus the forming bar's
+}
+
+interface SignalStream {
+  model: StreamingSignalModel;
+  step: number;
+  forming: (OhlcvBar & { bucket: number }) | null;
+  barsSeen: number;
+  recentCloses: number[];
+}
+
+const RECENT_CLOSES = 10;
+
+// Load a few times the strict minimum so EMA-based indicators have converged
+const WARMUP_MULTIPLIER = 3;
+const MIN_WARMUP_BARS = 50;
+
+/**
+ * Drive a registered strategy from a live bar stream, or null if no strategy
+ * is registered under the template id. Strategies without `preview` only
+ * signal on completed bars. `cached` holds indicator values for the first
+ * completed bars, as BacktestingService.generateSignals would be given them
+ */
+export const createStreamingSignalModel = (
+  templateId: string,
+  parameters: StrategyParameters,
+  market: { symbol: string; timeframe: BacktestTimeframe } = { symbol: '', timeframe: '1d' },
+  cached?: CachedIndicators
+): StreamingSignalModel | null => {
+  const plugin = strategyRegistry.get(templateId);
+  if (!plugin) return null;
+
+  const lookup = cachedIndicatorLookup(cached);
+  const driver = driveStrategy(plugin, parameters, market, lookup.indicator);
+  const firstBar = Math.max(driver.warmupBars - 1, 1); // as in BacktestingService.generateSignals
+  let completed = 0;
+
+  return {
+    warmupBars: driver.warmupBars,
+    update: bar => {
+      lookup.at(completed);
+      const intents = driver.onBar(bar);
+      // Past the warm-up, intents fill at the close as they do in generateSignals
+      if (completed++ >= firstBar) trackIntents(driver.context, intents, bar.close);
+      return intentSignal(intents);
+    },
+    preview: bar => {
+      lookup.at(completed);
+      return intentSignal(driver.preview(bar));
+    },
+  };
+};
+
+/**
+ * Live signal evaluation over streaming indicators. State is kept per
+ * (symbol, timeframe, template, parameters); incoming bars or trades update
+ * the forming bar, and each completed bar is folded into the indicators once
+ */
+class StreamingSignalService {
+  private streams: Map<string, SignalStream> = new Map();
+  private pending: Map<string, Promise<SignalStream | null>> = new Map();
+
+  streamKey(symbol: string, timeframe: BacktestTimeframe, templateId: string, parameters: StrategyParameters): string {
+    const sortedParameters = JSON.stringify(parameters, Object.keys(parameters).sort());
+    return `${symbol}|${timeframe}|${templateId}|${sortedParameters}`;
+  }
+
+  /**
+   * Stream for a strategy, created and warmed up from stored bars on first use
+   */
+  async getStream(
+    symbol: string,
+    timeframe: BacktestTimeframe,
+    templateId: string,
+    parameters: StrategyParameters
+  ): Promise<SignalStream | null> {
+    const key = this.streamKey(symbol, timeframe, templateId, parameters);
+    const existing = this.streams.get(key);
+    if (existing) return existing;
+
+    // Concurrent ticks share one warm-up
+    let loading = this.pending.get(key);
+    if (!loading) {
+      loading = this.createStream(symbol, timeframe, templateId, parameters).finally(() => this.pending.delete(key));
+      this.pending.set(key, loading);
+    }
+
+    const stream = await loading;
+    if (stream) this.streams.set(key, stream);
+    return stream;
+  }
+
+  /**
+   * Warm up streams ahead of the first tick, e.g. at engine startup
+   */
+  async warmUp(
+    symbols: string[],
+    timeframe: BacktestTimeframe,
+    strategies: Array<{ templateId: string; parameters: StrategyParameters }>
+  ): Promise<void> {
+    await Promise.all(
+      symbols.flatMap(symbol =>
+        strategies.map(strategy => this.getStream(symbol, timeframe, strategy.templateId, strategy.parameters))
+      )
+    );
+  }
+
+  private async createStream(
+    symbol: string,
+    timeframe: BacktestTimeframe,
+    templateId: string,
+    parameters: StrategyParameters
+  ): Promise<SignalStream | null> {
+    const plugin = strategyRegistry.get(templateId);
+    if (!plugin) {
+      console.warn(`No signal rules for strategy template ${templateId}`);
+      return null;
+    }
+
+    // Recursive state such as Wilder's averages can't be rebuilt from cached
+    // indicator values, so warm-up replays stored bars through the model. The
+    // model reads the cache over those bars just as a backtest over them does
+    const step = TIMEFRAME_MS[timeframe];
+    let bars: HistoricalPrice[] = [];
+    let cached: CachedIndicators | undefined;
+    try {
+      const history = Math.max(plugin.warmupBars(parameters, timeframe) * WARMUP_MULTIPLIER, MIN_WARMUP_BARS);
+      const endDate = new Date();
+      bars = await backtestingService.loadBars({
+        symbol,
+        timeframe,
+        dataSource: 'database',
+        startDate: new Date(endDate.getTime() - history * step),
+        endDate,
+        initialCapital: 0,
+      });
+      cached = await backtestingService.loadCachedIndicators(symbol, timeframe, bars);
+    } catch (error) {
+      console.error(`Error warming up ${templateId} on ${symbol}:`, error);
+    }
+
+    const stream: SignalStream = {
+      model: createStreamingSignalModel(templateId, parameters, { symbol, timeframe }, cached)!,
+      step,
+      forming: null,
+      barsSeen: 0,
+      recentCloses: [],
+    };
+
+    bars.forEach(bar => this.addData(stream, { ...bar, timestamp: bar.timestamp ?? bar.date }));
+    console.log(`Warmed up ${templateId} on ${symbol} ${timeframe} with ${bars.length} bars`);
+    return stream;
+  }
+
+  private commit(stream: SignalStream, bar: OhlcvBar & { bucket: number }): void {
+    stream.model.update({ ...bar, time: bar.bucket });
+    stream.barsSeen++;
+    stream.recentCloses.push(bar.close);
+    if (stream.recentCloses.length > RECENT_CLOSES) stream.recentCloses.shift();
+  }
+
+  /**
+   * Fold a bar or trade into the stream. Returns false for data older than the
+   * forming bar
+   */
+  private addData(stream: SignalStream, data: OhlcvBar & { timestamp: Date | string }): boolean {
+    const bucket = Math.floor(new Date(data.timestamp).getTime() / stream.step) * stream.step;
+    const { forming } = stream;
+
+    if (forming && bucket < forming.bucket) return false;
+
+    if (forming && bucket === forming.bucket) {
+      forming.high = Math.max(forming.high, data.high);
+      forming.low = Math.min(forming.low, data.low);
+      forming.close = data.close;
+      forming.volume += data.volume;
+      return true;
+    }
+
+    if (forming) this.commit(stream, forming);
+    stream.forming = {
+      bucket,
+      open: data.open,
+      high: data.high,
+      low: data.low,
+      close: data.close,
+      volume: data.volume,
+    };
+    return true;
+  }
+
+  /**
+   * Update a strategy's stream with new market data and evaluate its signal
+   * on the bar currently forming
+   */
+  async onData(
+    symbol: string,
+    timeframe: BacktestTimeframe,
+    templateId: string,
+    parameters: StrategyParameters,
+    data: OhlcvBar & { timestamp: Date | string }
+  ): Promise<StreamingSignalResult> {
+    const stream = await this.getStream(symbol, timeframe, templateId, parameters);
+    if (!stream) {
+      return { signal: 'none', ready: false, barsSeen: 0, recentCloses: [] };
+    }
+
+    const accepted = this.addData(stream, data);
+    const forming = stream.forming!;
+    return {
+      signal: accepted ? stream.model.preview({ ...forming, time: forming.bucket }) : 'none',
+      ready: stream.barsSeen >= stream.model.warmupBars - 1,
+      barsSeen: stream.barsSeen,
+      recentCloses: [...stream.recentCloses, forming.close],
+    };
+  }
+
+  /**
+   * Drop all indicator state, e.g. after strategies are reloaded
+   */
+  clear(): void {
+    this.streams.clear();
+  }
+}
+
+export const streamingSignalService = new StreamingSignalService();
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { bollingerBands, ema, macd, rsi, sma } from './technicalIndicators';
+
+// Wilder's worked RSI example (14 periods), as published by StockCharts. The
+// published table rounds its averages to two decimals, so it agrees to ~0.1
+const WILDER_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+  46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13,
+];
+const WILDER_RSI = [
+  70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87,
+  45.46, 37.30, 33.08, 37.77,
+];
+
+const expectSeries = (actual: number[], expected: number[], digits: number = 6) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => {
+    if (Number.isNaN(value)) expect(actual[i]).toBeNaN();
+    else expect(actual[i]).toBeCloseTo(value, digits);
+  });
+};
+
+describe('sma', () => {
+  it('averages each full window and leaves the warm-up as NaN', () => {
+    expectSeries(sma([1, 2, 3, 4, 5, 6], 3), [NaN, NaN, 2, 3, 4, 5]);
+  });
+
+  it('yields NaN for windows containing NaN', () => {
+    expectSeries(sma([1, NaN, 3, 4, 5], 2), [NaN, NaN, NaN, 3.5, 4.5]);
+  });
+});
+
+describe('ema', () => {
+  it('seeds with the first SMA and then smooths by 2 / (period + 1)', () => {
+    expectSeries(ema([2, 4, 6, 8, 12, 14, 16], 3), [NaN, NaN, 4, 6, 9, 11.5, 13.75]);
+  });
+
+  it('skips leading NaNs before seeding', () => {
+    expectSeries(ema([NaN, 2, 4, 6, 8], 3), [NaN, NaN, NaN, 4, 6]);
+  });
+});
+
+describe('rsi', () => {
+  it("matches Wilder's reference values", () => {
+    const values = rsi(WILDER_CLOSES, 14);
+    values.slice(0, 14).forEach(value => expect(value).toBeNaN());
+    values.slice(14).forEach((value, i) => expect(Math.abs(value - WILDER_RSI[i])).toBeLessThan(0.1));
+  });
+
+  it('is 100 when prices only rise and 50 when they never move', () => {
+    expect(rsi([1, 2, 3, 4], 3)[3]).toBe(100);
+    expect(rsi([5, 5, 5, 5], 3)[3]).toBe(50);
+  });
+});
+
+describe('macd', () => {
+  it('is the fast EMA minus the slow EMA, with an EMA signal line', () => {
+    const points = macd([1, 2, 3, 4, 5, 6], 2, 3, 2);
+    expectSeries(points.map(point => point.macd), [NaN, NaN, 0.5, 0.5, 0.5, 0.5]);
+    expectSeries(points.map(point => point.signal), [NaN, NaN, NaN, 0.5, 0.5, 0.5]);
+    expectSeries(points.map(point => point.histogram), [NaN, NaN, NaN, 0, 0, 0]);
+  });
+
+  it('is zero on a flat series', () => {
+    const last = macd(new Array(40).fill(10)).at(-1)!;
+    expect(last).toEqual({ macd: 0, signal: 0, histogram: 0 });
+  });
+});
+
+describe('bollingerBands', () => {
+  it('spreads the bands by the population standard deviation', () => {
+    const band = bollingerBands([1, 2, 3, 4, 5], 5, 2)[4];
+    expect(band.middle).toBeCloseTo(3);
+    expect(band.upper).toBeCloseTo(3 + 2 * Math.SQRT2);
+    expect(band.lower).toBeCloseTo(3 - 2 * Math.SQRT2);
+  });
+
+  it('collapses onto the average of a flat series', () => {
+    expect(bollingerBands([7, 7, 7], 3)[2]).toEqual({ upper: 7, middle: 7, lower: 7 });
+  });
+});
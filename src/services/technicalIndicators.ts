@@ -0,0 +1,365 @@
+// Technical indicator library shared by backtests, live signal generation and charts.
+// Every series is aligned with its input: index i is the value as of bar i, and
+// bars before an indicator has enough history hold NaN.
+
+export interface OhlcvBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type MovingAverageType = 'sma' | 'ema' | 'wma';
+
+export interface BandPoint {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface MacdPoint {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface StochasticPoint {
+  k: number;
+  d: number;
+}
+
+export interface AdxPoint {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+const nanSeries = (length: number): number[] => new Array(length).fill(NaN);
+
+/**
+ * Simple moving average. A window containing NaN yields NaN
+ */
+export const sma = (values: number[], period: number): number[] => {
+  const result = nanSeries(values.length);
+  if (period < 1) return result;
+
+  let sum = 0;
+  let invalid = 0; // NaNs inside the current window
+  for (let i = 0; i < values.length; i++) {
+    if (Number.isNaN(values[i])) invalid++;
+    else sum += values[i];
+
+    if (i >= period) {
+      const leaving = values[i - period];
+      if (Number.isNaN(leaving)) invalid--;
+      else sum -= leaving;
+    }
+    if (i >= period - 1 && invalid === 0) result[i] = sum / period;
+  }
+  return result;
+};
+
+/**
+ * Exponential moving average seeded with the SMA of the first full window.
+ * Leading NaNs (e.g. from another indicator's warm-up) are skipped
+ */
+export const ema = (values: number[], period: number): number[] => {
+  const result = nanSeries(values.length);
+  if (period < 1) return result;
+
+  const start = values.findIndex(value => !Number.isNaN(value));
+  if (start < 0 || start + period > values.length) return result;
+
+  const alpha = 2 / (period + 1);
+  let previous = values.slice(start, start + period).reduce((a, b) => a + b, 0) / period;
+  result[start + period - 1] = previous;
+  for (let i = start + period; i < values.length; i++) {
+    previous = alpha * values[i] + (1 - alpha) * previous;
+    result[i] = previous;
+  }
+  return result;
+};
+
+/**
+ * Linearly weighted moving average; the newest bar has weight `period`
+ */
+export const wma = (values: number[], period: number): number[] => {
+  const result = nanSeries(values.length);
+  if (period < 1) return result;
+
+  const divisor = (period * (period + 1)) / 2;
+  for (let i = period - 1; i < values.length; i++) {
+    let weighted = 0;
+    for (let j = 0; j < period; j++) {
+      weighted += values[i - j] * (period - j);
+    }
+    result[i] = weighted / divisor;
+  }
+  return result;
+};
+
+/**
+ * Moving average of the requested type
+ */
+export const movingAverage = (values: number[], period: number, type: MovingAverageType = 'sma'): number[] => {
+  switch (type) {
+    case 'ema':
+      return ema(values, period);
+    case 'wma':
+      return wma(values, period);
+    case 'sma':
+    default:
+      return sma(values, period);
+  }
+};
+
+/**
+ * Rolling population standard deviation
+ */
+export const standardDeviation = (values: number[], period: number): number[] => {
+  const means = sma(values, period);
+  return means.map((mean, i) => {
+    if (Number.isNaN(mean)) return NaN;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += Math.pow(values[j] - mean, 2);
+    }
+    return Math.sqrt(variance / period);
+  });
+};
+
+/**
+ * Wilder's Relative Strength Index
+ */
+export const rsi = (closes: number[], period: number = 14): number[] => {
+  const result = nanSeries(closes.length);
+  if (period < 1 || closes.length <= period) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain += Math.max(change, 0);
+    avgLoss += Math.max(-change, 0);
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRsi = () => (avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss));
+  result[period] = toRsi();
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+};
+
+/**
+ * Bollinger Bands: a moving average plus and minus a multiple of the rolling
+ * standard deviation
+ */
+export const bollingerBands = (closes: number[], period: number = 20, deviations: number = 2): BandPoint[] => {
+  const middle = sma(closes, period);
+  const deviation = standardDeviation(closes, period);
+  return middle.map((mid, i) => ({
+    upper: mid + deviation[i] * deviations,
+    middle: mid,
+    lower: mid - deviation[i] * deviations,
+  }));
+};
+
+/**
+ * MACD line (fast EMA - slow EMA), its signal line EMA and the histogram
+ */
+export const macd = (
+  closes: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): MacdPoint[] => {
+  const fast = ema(closes, fastPeriod);
+  const slow = ema(closes, slowPeriod);
+  const line = fast.map((value, i) => value - slow[i]);
+  const signal = ema(line, signalPeriod);
+  return line.map((value, i) => ({ macd: value, signal: signal[i], histogram: value - signal[i] }));
+};
+
+/**
+ * True range; the first bar has no previous close and uses its high-low range
+ */
+export const trueRange = (bars: OhlcvBar[]): number[] =>
+  bars.map((bar, i) => {
+    if (i === 0) return bar.high - bar.low;
+    const previousClose = bars[i - 1].close;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+  });
+
+/**
+ * Wilder-smoothed Average True Range
+ */
+export const atr = (bars: OhlcvBar[], period: number = 14): number[] => {
+  const result = nanSeries(bars.length);
+  if (period < 1 || bars.length < period) return result;
+
+  const ranges = trueRange(bars);
+  let previous = ranges.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  result[period - 1] = previous;
+  for (let i = period; i < bars.length; i++) {
+    previous = (previous * (period - 1) + ranges[i]) / period;
+    result[i] = previous;
+  }
+  return result;
+};
+
+/**
+ * Stochastic oscillator. %K is optionally smoothed (slow stochastic) and %D
+ * is the SMA of %K
+ */
+export const stochastic = (
+  bars: OhlcvBar[],
+  kPeriod: number = 14,
+  dPeriod: number = 3,
+  smoothK: number = 1
+): StochasticPoint[] => {
+  const rawK = nanSeries(bars.length);
+  for (let i = kPeriod - 1; i < bars.length; i++) {
+    let highest = -Infinity;
+    let lowest = Infinity;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      highest = Math.max(highest, bars[j].high);
+      lowest = Math.min(lowest, bars[j].low);
+    }
+    rawK[i] = highest === lowest ? 50 : ((bars[i].close - lowest) / (highest - lowest)) * 100;
+  }
+
+  const k = smoothK > 1 ? sma(rawK, smoothK) : rawK;
+  const d = sma(k, dPeriod);
+  return k.map((value, i) => ({ k: value, d: d[i] }));
+};
+
+/**
+ * Wilder's Average Directional Index with the +DI / -DI lines
+ */
+export const adx = (bars: OhlcvBar[], period: number = 14): AdxPoint[] => {
+  const result: AdxPoint[] = bars.map(() => ({ adx: NaN, plusDI: NaN, minusDI: NaN }));
+  if (period < 1 || bars.length <= period) return result;
+
+  const ranges = trueRange(bars);
+  let smoothedTr = 0;
+  let smoothedPlus = 0;
+  let smoothedMinus = 0;
+  let adxValue = NaN;
+  let dxSum = 0;
+
+  for (let i = 1; i < bars.length; i++) {
+    const upMove = bars[i].high - bars[i - 1].high;
+    const downMove = bars[i - 1].low - bars[i].low;
+    const plusDm = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDm = downMove > upMove && downMove > 0 ? downMove : 0;
+
+    if (i <= period) {
+      smoothedTr += ranges[i];
+      smoothedPlus += plusDm;
+      smoothedMinus += minusDm;
+      if (i < period) continue;
+    } else {
+      smoothedTr = smoothedTr - smoothedTr / period + ranges[i];
+      smoothedPlus = smoothedPlus - smoothedPlus / period + plusDm;
+      smoothedMinus = smoothedMinus - smoothedMinus / period + minusDm;
+    }
+
+    const plusDI = smoothedTr > 0 ? (smoothedPlus / smoothedTr) * 100 : 0;
+    const minusDI = smoothedTr > 0 ? (smoothedMinus / smoothedTr) * 100 : 0;
+    const diSum = plusDI + minusDI;
+    const dx = diSum > 0 ? (Math.abs(plusDI - minusDI) / diSum) * 100 : 0;
+
+    // The first ADX is the mean of the first `period` DX values
+    const dxCount = i - period + 1;
+    if (dxCount < period) {
+      dxSum += dx;
+    } else if (dxCount === period) {
+      adxValue = (dxSum + dx) / period;
+    } else {
+      adxValue = (adxValue * (period - 1) + dx) / period;
+    }
+
+    result[i] = { adx: adxValue, plusDI, minusDI };
+  }
+  return result;
+};
+
+/**
+ * On-Balance Volume, starting from zero at the first bar
+ */
+export const obv = (bars: OhlcvBar[]): number[] => {
+  let total = 0;
+  return bars.map((bar, i) => {
+    if (i > 0) {
+      if (bar.close > bars[i - 1].close) total += bar.volume;
+      else if (bar.close < bars[i - 1].close) total -= bar.volume;
+    }
+    return total;
+  });
+};
+
+/**
+ * Volume-weighted average of the typical price, cumulative from the first bar
+ * or over a rolling window of `period` bars
+ */
+export const vwap = (bars: OhlcvBar[], period?: number): number[] => {
+  const result = nanSeries(bars.length);
+  let priceVolume = 0;
+  let volume = 0;
+
+  bars.forEach((bar, i) => {
+    priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+    volume += bar.volume;
+    if (period && i >= period) {
+      const leaving = bars[i - period];
+      priceVolume -= ((leaving.high + leaving.low + leaving.close) / 3) * leaving.volume;
+      volume -= leaving.volume;
+    }
+    if ((!period || i >= period - 1) && volume > 0) {
+      result[i] = priceVolume / volume;
+    }
+  });
+  return result;
+};
+
+/**
+ * Keltner Channels: an EMA of the close plus and minus a multiple of ATR
+ */
+export const keltnerChannels = (
+  bars: OhlcvBar[],
+  emaPeriod: number = 20,
+  atrPeriod: number = 10,
+  multiplier: number = 2
+): BandPoint[] => {
+  const middle = ema(bars.map(bar => bar.close), emaPeriod);
+  const ranges = atr(bars, atrPeriod);
+  return middle.map((mid, i) => ({
+    upper: mid + ranges[i] * multiplier,
+    middle: mid,
+    lower: mid - ranges[i] * multiplier,
+  }));
+};
+
+/**
+ * Donchian Channels: highest high and lowest low over `period` bars,
+ * including the current one
+ */
+export const donchianChannels = (bars: OhlcvBar[], period: number = 20): BandPoint[] =>
+  bars.map((_, i) => {
+    if (i < period - 1) return { upper: NaN, middle: NaN, lower: NaN };
+    let upper = -Infinity;
+    let lower = Infinity;
+    for (let j = i - period + 1; j <= i; j++) {
+      upper = Math.max(upper, bars[j].high);
+      lower = Math.min(lower, bars[j].low);
+    }
+    return { upper, middle: (upper + lower) / 2, lower };
+  });
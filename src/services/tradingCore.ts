@@ -0,0 +1,586 @@
+// Event-driven trading engine core. Market events go in; strategies, risk
+// checks and order routing run in one place; Redux, the database and
+// notifications observe it through adapters
+import { MarketData, Order } from '../store/slices/types';
+import { StrategySignal } from '../store/slices/strategiesSlice';
+import { AggregatedDecision, SignalAggregationSettings, SignalAggregator, VoteSignal } from './signalAggregator';
+import { HeldPosition, ordersForSignal, PositionOrder } from './positionOrders';
+import { PreTradeRiskError, RiskRejection } from './preTradeRisk';
+import { killSwitch } from './killSwitch';
+import { ExitPrices } from './orderGroups';
+import type { AlpacaTradeUpdate } from './websocketService';
+
+export interface TradingEngineConfig {
+  enableAutoTrading: boolean;
+  maxPositionSize: number;
+  maxDailyLoss: number;
+  enableRiskManagement: boolean;
+  stopLossPercentage: number;
+  takeProfitPercentage: number;
+  enableSignalNotifications: boolean;
+  enableTradeNotifications: boolean;
+  killSwitchOnDailyLoss: boolean; // trip the kill switch when the daily loss limit is breached
+  flattenOnKillSwitch: boolean; // close all positions when the risk rules trip it
+}
+
+export const DEFAULT_ENGINE_CONFIG: TradingEngineConfig = {
+  enableAutoTrading: false,
+  maxPositionSize: 1000,
+  maxDailyLoss: 500,
+  enableRiskManagement: true,
+  stopLossPercentage: 5,
+  takeProfitPercentage: 10,
+  enableSignalNotifications: true,
+  enableTradeNotifications: true,
+  killSwitchOnDailyLoss: true,
+  flattenOnKillSwitch: false,
+};
+
+export interface TradingSignal {
+  id: string;
+  strategyId: string; // empty for decisions several strategies made together
+  strategyVersionId?: string;
+  symbol: string;
+  action: 'BUY' | 'SELL' | 'SHORT' | 'COVER' | 'HOLD'; // SELL closes a long, COVER a short
+  confidence: number;
+  price: number;
+  timestamp: number;
+  metadata: {
+    indicators?: unknown;
+    reasoning?: string;
+    stopLoss?: number;
+    takeProfit?: number;
+    aggregation?: AggregatedDecision; // set on consolidated decisions
+    [key: string]: unknown;
+  };
+}
+
+export interface RiskMetrics {
+  portfolioValue: number;
+  totalExposure: number;
+  dailyPnL: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  winRate: number;
+  profitFactor: number;
+}
+
+/**
+ * A price update for one symbol. Quotes may carry only bid/ask; completed
+ * bars set `isBar` and carry OHLCV. Generated quotes set `simulated` and are
+ * kept out of the store and the paper broker, so no order is priced off them
+ */
+export type MarketEvent = Partial<MarketData> & { symbol: string; isBar?: boolean; simulated?: boolean };
+
+export type EngineEvent =
+  | { type: 'market'; data: MarketEvent }
+  | { type: 'evaluate'; timestamp: number } // scheduled strategy run over the latest data
+  | { type: 'riskCheck'; timestamp: number }
+  | { type: 'orderUpdate'; data: Order }
+  | { type: 'tradeUpdate'; data: AlpacaTradeUpdate };
+
+/**
+ * Publishes events into the engine while it runs, e.g. a timer or a socket
+ */
+export interface EngineFeed {
+  start(publish: (event: EngineEvent) => void): void;
+  stop(): void;
+}
+
+/**
+ * Turns events into strategy signals. Runners react to market events,
+ * scheduled evaluations, or both
+ */
+export interface StrategyRunner {
+  onMarketEvent?(event: MarketEvent): Promise<TradingSignal[]>;
+  evaluate?(timestamp: number): Promise<TradingSignal[]>;
+  retiredStrategies?(): string[]; // strategies whose pending votes should be dropped
+}
+
+/**
+ * Carries out one order of a signal, e.g. with a broker or against a ledger
+ */
+export interface OrderRouter {
+  // `exits` is set on opening orders when the router manages stops and targets
+  route(order: PositionOrder, signal: TradingSignal, exits?: ExitPrices): Promise<void>;
+}
+
+export interface EnginePosition extends HeldPosition {
+  entryPrice: number;
+}
+
+/**
+ * Observes the engine. Every hook is optional and receives the current config
+ */
+export interface EngineAdapter {
+  onStarted?(config: TradingEngineConfig): void | Promise<void>;
+  onStopped?(config: TradingEngineConfig): void | Promise<void>;
+  onConfigUpdated?(config: TradingEngineConfig): void | Promise<void>;
+  onMarketData?(event: MarketEvent, config: TradingEngineConfig): void | Promise<void>;
+  onSignal?(signal: TradingSignal, config: TradingEngineConfig): void | Promise<void>;
+  onDecision?(signal: TradingSignal, config: TradingEngineConfig): void | Promise<void>;
+  onOrderRouted?(order: PositionOrder, signal: TradingSignal, config: TradingEngineConfig): void | Promise<void>;
+  onOrderFailed?(signal: TradingSignal, error: Error, config: TradingEngineConfig): void | Promise<void>;
+  onOrderRejected?(order: PositionOrder, signal: TradingSignal, rejections: RiskRejection[], config: TradingEngineConfig): void | Promise<void>;
+  onRiskAlert?(message: string, metrics: RiskMetrics, config: TradingEngineConfig): void | Promise<void>;
+  onOrderUpdate?(data: Order, config: TradingEngineConfig): void | Promise<void>;
+  onTradeUpdate?(data: AlpacaTradeUpdate, config: TradingEngineConfig): void | Promise<void>;
+}
+
+/**
+ * Pre-trade risk checks for routers that don't run them. `check` throws
+ * PreTradeRiskError; `record` is told about each order the router carried out
+ */
+export interface EnginePreTradeCheck {
+  check(order: PositionOrder, signal: TradingSignal): Promise<void>;
+  record(order: PositionOrder, signal: TradingSignal): void;
+}
+
+export interface TradingCoreOptions {
+  name: string; // used in logs
+  config?: Partial<TradingEngineConfig>;
+  feeds?: EngineFeed[];
+  strategies: StrategyRunner;
+  router: OrderRouter;
+  preTradeCheck?: EnginePreTradeCheck; // for routers that don't run the checks themselves
+  // Who guards new positions with a stop and a target: the router, as bracket
+  // orders, or the engine, which watches prices and closes positions itself
+  exitManagement?: 'router' | 'engine';
+  adapters?: EngineAdapter[];
+  position?: (symbol: string) => EnginePosition | null; // held position, if any
+  positionSize?: (signal: TradingSignal, config: TradingEngineConfig) => number;
+  riskMetrics?: () => Promise<RiskMetrics>;
+  // When set, signals are votes and only consolidated decisions trade
+  aggregation?: () => SignalAggregationSettings;
+}
+
+// The position intent of each signal action
+const ACTION_SIGNALS: Record<TradingSignal['action'], StrategySignal> = {
+  BUY: 'buy',
+  SELL: 'sell',
+  SHORT: 'short',
+  COVER: 'cover',
+  HOLD: 'none',
+};
+
+/**
+ * The trading engine. Engines differ only in the feeds, strategy runner,
+ * order router and adapters they configure it with
+ */
+export class TradingCore {
+  protected config: TradingEngineConfig;
+  private isRunning: boolean = false;
+  private activeSignals: Map<string, TradingSignal> = new Map();
+  private signalAggregator = new SignalAggregator();
+  private symbols: Set<string> = new Set();
+  private riskLimitBreached: boolean = false;
+  private exits: Map<string, ExitPrices & { side: EnginePosition['side'] }> = new Map();
+  private exiting: Set<string> = new Set();
+  private unsubscribeKillSwitch: (() => void) | null = null;
+
+  constructor(private options: TradingCoreOptions) {
+    this.config = { ...DEFAULT_ENGINE_CONFIG, ...options.config };
+  }
+
+  /**
+   * Start the feeds. Waits for the persisted kill switch state, so a halt
+   * stored before this session is honoured, and rejects if it can't be read
+   */
+  public async start(): Promise<void> {
+    await killSwitch.ready();
+    if (this.isRunning) {
+      console.log(`${this.options.name} is already running`);
+      return;
+    }
+    if (killSwitch.isTripped()) {
+      console.log(`Not starting ${this.options.name}: kill switch is tripped`);
+      return;
+    }
+
+    console.log(`Starting ${this.options.name}...`);
+    this.isRunning = true;
+    // A running engine stops when the kill switch trips
+    this.unsubscribeKillSwitch = killSwitch.subscribe(state => {
+      if (state.tripped && this.isRunning) {
+        console.log(`Kill switch tripped, stopping ${this.options.name}`);
+        this.stop();
+      }
+    });
+    (this.options.feeds || []).forEach(feed => feed.start(event => {
+      this.publish(event).catch(error => console.error(`Error handling ${event.type} event:`, error));
+    }));
+    this.notify(adapter => adapter.onStarted?.(this.config));
+  }
+
+  public stop(): void {
+    if (!this.isRunning) {
+      console.log(`${this.options.name} is not running`);
+      return;
+    }
+
+    console.log(`Stopping ${this.options.name}...`);
+    this.isRunning = false;
+    this.unsubscribeKillSwitch?.();
+    this.unsubscribeKillSwitch = null;
+    (this.options.feeds || []).forEach(feed => feed.stop());
+    this.signalAggregator.clear();
+    this.notify(adapter => adapter.onStopped?.(this.config));
+  }
+
+  public updateConfig(newConfig: Partial<TradingEngineConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    this.notify(adapter => adapter.onConfigUpdated?.(this.config));
+  }
+
+  public getConfig(): TradingEngineConfig {
+    return { ...this.config };
+  }
+
+  public getStatus(): {
+    isRunning: boolean;
+    activeSignals: number;
+    config: TradingEngineConfig;
+  } {
+    return {
+      isRunning: this.isRunning,
+      activeSignals: this.activeSignals.size,
+      config: this.getConfig(),
+    };
+  }
+
+  public isEngineRunning(): boolean {
+    return this.isRunning;
+  }
+
+  public getActiveSignals(): TradingSignal[] {
+    return Array.from(this.activeSignals.values());
+  }
+
+  public clearActiveSignals(): void {
+    this.activeSignals.clear();
+  }
+
+  public async getRiskMetrics(): Promise<RiskMetrics | null> {
+    return this.options.riskMetrics ? await this.options.riskMetrics() : null;
+  }
+
+  /**
+   * Handle one event, returning the strategy signals it produced. A stopped
+   * engine ignores events
+   */
+  public async publish(event: EngineEvent): Promise<TradingSignal[]> {
+    if (!this.isRunning) return [];
+
+    switch (event.type) {
+      case 'market':
+        return await this.handleMarketEvent(event.data);
+      case 'evaluate':
+        return await this.handleEvaluation(event.timestamp);
+      case 'riskCheck':
+        await this.checkRiskLimits();
+        return [];
+      case 'orderUpdate':
+        await this.notify(adapter => adapter.onOrderUpdate?.(event.data, this.config));
+        return [];
+      case 'tradeUpdate':
+        await this.notify(adapter => adapter.onTradeUpdate?.(event.data, this.config));
+        return [];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Route the orders that carry out a signal against the held position,
+   * regardless of the auto-trading setting
+   */
+  public async executeSignal(signal: TradingSignal, quantity?: number): Promise<PositionOrder[]> {
+    if (killSwitch.isTripped()) {
+      console.log(`Not executing ${signal.action} for ${signal.symbol}: kill switch is tripped`);
+      return [];
+    }
+
+    try {
+      const size = quantity ?? this.calculatePositionSize(signal);
+
+      // A SELL only closes a long and a COVER only closes a short; entries
+      // against a position reverse it
+      const orders = ordersForSignal(
+        ACTION_SIGNALS[signal.action],
+        this.options.position?.(signal.symbol) ?? null,
+        size
+      );
+
+      if (orders.length === 0) {
+        console.log(`No ${signal.action} order for ${signal.symbol}: nothing to close or position size too small`);
+        return [];
+      }
+
+      const routerExits = this.options.exitManagement === 'router';
+      for (const order of orders) {
+        const exits = order.effect === 'open' && this.config.enableRiskManagement ? this.exitPrices(signal, order) : undefined;
+        try {
+          await this.options.preTradeCheck?.check(order, signal);
+          await this.options.router.route(order, signal, routerExits ? exits : undefined);
+          this.options.preTradeCheck?.record(order, signal);
+        } catch (error) {
+          if (!(error instanceof PreTradeRiskError)) throw error;
+          console.warn(`Pre-trade checks rejected ${signal.action} (${order.effect}) order for ${signal.symbol}:`, error.rejections.map(r => r.code));
+          await this.notify(adapter => adapter.onOrderRejected?.(order, signal, error.rejections, this.config));
+          return orders.slice(0, orders.indexOf(order));
+        }
+        if (order.effect === 'close') {
+          this.exits.delete(signal.symbol);
+        } else if (exits && !routerExits) {
+          this.exits.set(signal.symbol, { ...exits, side: order.side === 'buy' ? 'long' : 'short' });
+        }
+        console.log(`Executed ${signal.action} (${order.effect}) order for ${signal.symbol}: ${order.side} ${order.qty}`);
+        await this.notify(adapter => adapter.onOrderRouted?.(order, signal, this.config));
+      }
+      this.activeSignals.delete(signal.id);
+      return orders;
+    } catch (error) {
+      console.error('Error executing signal:', error);
+      await this.notify(adapter => adapter.onOrderFailed?.(signal, error instanceof Error ? error : new Error(String(error)), this.config));
+      return [];
+    }
+  }
+
+  private async handleMarketEvent(event: MarketEvent): Promise<TradingSignal[]> {
+    this.symbols.add(event.symbol);
+    await this.notify(adapter => adapter.onMarketData?.(event, this.config));
+    if (event.price !== undefined) await this.checkPositionExits(event.symbol, event.price);
+
+    if (!this.options.strategies.onMarketEvent) return [];
+    const signals = await this.options.strategies.onMarketEvent(event);
+    await this.handleSignals(signals);
+    await this.processAggregatedDecisions([event.symbol]);
+    return signals;
+  }
+
+  private async handleEvaluation(timestamp: number): Promise<TradingSignal[]> {
+    if (!this.options.strategies.evaluate) return [];
+
+    const signals = await this.options.strategies.evaluate(timestamp);
+    (this.options.strategies.retiredStrategies?.() || []).forEach(strategyId => {
+      this.signalAggregator.removeStrategy(strategyId);
+    });
+    await this.handleSignals(signals);
+    await this.processAggregatedDecisions(Array.from(this.symbols));
+    return signals;
+  }
+
+  private async handleSignals(signals: TradingSignal[]): Promise<void> {
+    for (const signal of signals) {
+      this.symbols.add(signal.symbol);
+      this.activeSignals.set(signal.id, signal);
+      await this.notify(adapter => adapter.onSignal?.(signal, this.config));
+      if (signal.action === 'HOLD') continue;
+
+      if (this.options.aggregation) {
+        // Trading waits for the strategies' consolidated decision
+        this.signalAggregator.addVote({
+          strategyId: signal.strategyId,
+          symbol: signal.symbol,
+          signal: signal.action.toLowerCase() as VoteSignal,
+          confidence: signal.confidence,
+          price: signal.price,
+          timestamp: signal.timestamp,
+        });
+      } else if (this.config.enableAutoTrading) {
+        await this.executeSignal(signal);
+      }
+    }
+  }
+
+  /**
+   * Combine each symbol's strategy signals by the configured aggregation
+   * method and act on decisions that changed since the last one
+   */
+  private async processAggregatedDecisions(symbols: string[]): Promise<void> {
+    if (!this.options.aggregation) return;
+    const settings = this.options.aggregation();
+
+    for (const symbol of symbols) {
+      const decision = this.signalAggregator.nextDecision(symbol, settings);
+      if (!decision || decision.signal === 'none') continue;
+
+      const contributors = decision.contributions.filter(vote => vote.signal === decision.signal);
+      const signal: TradingSignal = {
+        id: `aggregate_${symbol}_${decision.timestamp}`,
+        // Orders reference a strategy only when a single one made the call
+        strategyId: contributors.length === 1 ? contributors[0].strategyId : '',
+        symbol,
+        action: decision.signal.toUpperCase() as TradingSignal['action'],
+        confidence: decision.confidence,
+        price: decision.price,
+        timestamp: decision.timestamp,
+        metadata: {
+          reasoning: decision.reason,
+          aggregation: decision,
+        },
+      };
+      this.activeSignals.set(signal.id, signal);
+      await this.notify(adapter => adapter.onDecision?.(signal, this.config));
+
+      if (this.config.enableAutoTrading) {
+        await this.executeSignal(signal);
+      }
+    }
+  }
+
+  private calculatePositionSize(signal: TradingSignal): number {
+    const size = this.options.positionSize
+      ? this.options.positionSize(signal, this.config)
+      : this.config.maxPositionSize;
+
+    // Apply maximum position size limit
+    return Math.min(size, this.config.maxPositionSize);
+  }
+
+  private async checkRiskLimits(): Promise<void> {
+    const riskMetrics = await this.getRiskMetrics();
+    if (!riskMetrics) return;
+
+    const breached = riskMetrics.dailyPnL < -this.config.maxDailyLoss;
+    if (breached && !this.riskLimitBreached) {
+      const loss = `Daily loss of $${Math.abs(riskMetrics.dailyPnL).toFixed(2)} exceeds limit of $${this.config.maxDailyLoss}`;
+      let message = loss;
+
+      if (this.config.killSwitchOnDailyLoss) {
+        await killSwitch.trip({ reason: loss, source: 'risk', flatten: this.config.flattenOnKillSwitch });
+        message += this.config.flattenOnKillSwitch
+          ? '. Kill switch tripped: trading halted, orders cancelled and positions closed.'
+          : '. Kill switch tripped: trading halted and orders cancelled.';
+      } else if (this.config.enableAutoTrading) {
+        this.config.enableAutoTrading = false;
+        console.log('Auto-trading disabled due to daily loss limit breach');
+        message += '. Auto trading has been disabled.';
+      }
+      await this.notify(adapter => adapter.onRiskAlert?.(message, riskMetrics, this.config));
+    }
+    this.riskLimitBreached = breached;
+  }
+
+  /**
+   * Stop and target for a new position: the signal's own levels, or the
+   * configured percentages from the signal price
+   */
+  private exitPrices(signal: TradingSignal, order: PositionOrder): ExitPrices {
+    const direction = order.side === 'buy' ? 1 : -1;
+    return {
+      stopPrice: signal.metadata.stopLoss ?? signal.price * (1 - direction * this.config.stopLossPercentage / 100),
+      takeProfitPrice: signal.metadata.takeProfit ?? signal.price * (1 + direction * this.config.takeProfitPercentage / 100),
+    };
+  }
+
+  /**
+   * Engine-managed exits: closes a position once the price crosses its stop
+   * or its target, whichever comes first. Positions the engine didn't open
+   * are guarded from their entry price
+   */
+  private async checkPositionExits(symbol: string, price: number): Promise<void> {
+    if (this.options.exitManagement === 'router' || !this.config.enableRiskManagement || this.exiting.has(symbol)) return;
+
+    const position = this.options.position?.(symbol);
+    if (!position || position.qty === 0) {
+      this.exits.delete(symbol);
+      return;
+    }
+
+    let exits = this.exits.get(symbol);
+    if (!exits || exits.side !== position.side) {
+      const direction = position.side === 'long' ? 1 : -1;
+      exits = {
+        side: position.side,
+        stopPrice: position.entryPrice * (1 - direction * this.config.stopLossPercentage / 100),
+        takeProfitPrice: position.entryPrice * (1 + direction * this.config.takeProfitPercentage / 100),
+      };
+      this.exits.set(symbol, exits);
+    }
+
+    const long = position.side === 'long';
+    if (long ? price <= exits.stopPrice : price >= exits.stopPrice) {
+      await this.exitPosition(symbol, position, price, `Stop loss at $${exits.stopPrice.toFixed(2)}`);
+    } else if (long ? price >= exits.takeProfitPrice : price <= exits.takeProfitPrice) {
+      await this.exitPosition(symbol, position, price, `Take profit at $${exits.takeProfitPrice.toFixed(2)}`);
+    }
+  }
+
+  /** Closes a position through the normal signal path, whatever the auto-trading setting */
+  private async exitPosition(symbol: string, position: EnginePosition, price: number, reasoning: string): Promise<void> {
+    this.exiting.add(symbol);
+    try {
+      await this.executeSignal({
+        id: `exit_${symbol}_${Date.now()}`,
+        strategyId: '',
+        symbol,
+        action: position.side === 'long' ? 'SELL' : 'COVER',
+        confidence: 1,
+        price,
+        timestamp: Date.now(),
+        metadata: { reasoning },
+      });
+    } finally {
+      this.exiting.delete(symbol);
+    }
+  }
+
+  /**
+   * Run a hook on every adapter; one adapter failing doesn't stop the others
+   */
+  private async notify(hook: (adapter: EngineAdapter) => void | Promise<void>): Promise<void> {
+    for (const adapter of this.options.adapters || []) {
+      try {
+        await hook(adapter);
+      } catch (error) {
+        console.error(`${this.options.name} adapter error:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Publishes the events `next` returns every `intervalMs` while the engine runs
+ */
+export const intervalFeed = (
+  intervalMs: number,
+  next: () => EngineEvent[]
+): EngineFeed => {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  return {
+    start(publish) {
+      timer = setInterval(() => next().forEach(publish), intervalMs);
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+};
+
+/**
+ * A random quote within ±1% of `basePrice`, for simulated market data
+ */
+export const simulatedQuote = (symbol: string, basePrice: number): MarketEvent => {
+  const change = (Math.random() - 0.5) * 0.02; // ±1% change
+  const price = basePrice * (1 + change);
+
+  return {
+    symbol,
+    price: Number(price.toFixed(2)),
+    change: Number((price - basePrice).toFixed(2)),
+    changePercent: Number((change * 100).toFixed(2)),
+    volume: Math.floor(Math.random() * 1000000),
+    high: Number((price * 1.005).toFixed(2)),
+    low: Number((price * 0.995).toFixed(2)),
+    open: basePrice,
+    prevClose: basePrice,
+    timestamp: Date.now(),
+    bid: Number((price * 0.999).toFixed(2)),
+    ask: Number((price * 1.001).toFixed(2)),
+    bidSize: Math.floor(Math.random() * 100),
+    askSize: Math.floor(Math.random() * 100),
+    simulated: true,
+  };
+};
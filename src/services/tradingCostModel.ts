@@ -0,0 +1,141 @@
+// Trading cost models used to turn reference prices into realistic fills
+
+export type CommissionType = 'fixed' | 'percentage' | 'tiered';
+
+export type Liquidity = 'maker' | 'taker';
+
+export interface FeeTier {
+  minVolume: number; // trailing traded notional (USD) required for this tier
+  makerRate: number; // percent of notional
+  takerRate: number; // percent of notional
+}
+
+export interface CostModelConfig {
+  commission: {
+    type: CommissionType;
+    value: number; // USD per side for 'fixed', percent of notional per side for 'percentage'
+  };
+  feeTiers: FeeTier[]; // used when commission type is 'tiered'
+  spreadPercent: number; // full bid/ask spread; half is paid on each side
+  slippage: {
+    basePercent: number; // slippage applied to every fill
+    volumeImpact: number; // extra percent per 1% of the bar's volume taken
+  };
+}
+
+export interface FillRequest {
+  side: 'buy' | 'sell';
+  price: number; // reference (mid) price
+  quantity: number;
+  barVolume: number;
+  liquidity: Liquidity;
+  tradedVolume: number; // notional traded so far, used for fee tiers
+  isLimitFill?: boolean; // limit orders fill at their limit price: no spread or slippage
+}
+
+export interface FillCosts {
+  fillPrice: number;
+  commission: number;
+  spreadCost: number;
+  slippageCost: number;
+}
+
+export interface CostModel {
+  name: string;
+  estimateFill(request: FillRequest): FillCosts;
+}
+
+// Alpaca crypto fee schedule (30-day volume tiers)
+export const ALPACA_CRYPTO_FEE_TIERS: FeeTier[] = [
+  { minVolume: 0, makerRate: 0.15, takerRate: 0.25 },
+  { minVolume: 100000, makerRate: 0.12, takerRate: 0.22 },
+  { minVolume: 500000, makerRate: 0.1, takerRate: 0.2 },
+  { minVolume: 1000000, makerRate: 0.08, takerRate: 0.18 },
+  { minVolume: 10000000, makerRate: 0.05, takerRate: 0.15 },
+  { minVolume: 25000000, makerRate: 0.02, takerRate: 0.13 },
+  { minVolume: 50000000, makerRate: 0.02, takerRate: 0.12 },
+  { minVolume: 100000000, makerRate: 0, takerRate: 0.1 },
+];
+
+export const DEFAULT_COST_MODEL_CONFIG: CostModelConfig = {
+  commission: { type: 'tiered', value: 0 },
+  feeTiers: ALPACA_CRYPTO_FEE_TIERS,
+  spreadPercent: 0.05,
+  slippage: {
+    basePercent: 0.02,
+    volumeImpact: 0.1,
+  },
+};
+
+/**
+ * Cost model driven by a CostModelConfig: commission per side, half-spread
+ * crossing and volume-dependent slippage
+ */
+export class ConfigurableCostModel implements CostModel {
+  name: string;
+  private config: CostModelConfig;
+
+  constructor(config: CostModelConfig = DEFAULT_COST_MODEL_CONFIG, name: string = 'configurable') {
+    this.config = config;
+    this.name = name;
+  }
+
+  getConfig(): CostModelConfig {
+    return this.config;
+  }
+
+  estimateFill(request: FillRequest): FillCosts {
+    const { side, price, quantity, barVolume } = request;
+    const direction = side === 'buy' ? 1 : -1;
+
+    const halfSpread = request.isLimitFill ? 0 : this.config.spreadPercent / 100 / 2;
+    const participation = barVolume > 0 ? quantity / barVolume : 0;
+    const slippageRate = request.isLimitFill
+      ? 0
+      : (this.config.slippage.basePercent + this.config.slippage.volumeImpact * participation * 100) / 100;
+
+    const fillPrice = price * (1 + direction * (halfSpread + slippageRate));
+    const notional = fillPrice * quantity;
+
+    return {
+      fillPrice,
+      commission: this.calculateCommission(notional, request),
+      spreadCost: price * halfSpread * quantity,
+      slippageCost: price * slippageRate * quantity,
+    };
+  }
+
+  private calculateCommission(notional: number, request: FillRequest): number {
+    const { commission, feeTiers } = this.config;
+
+    switch (commission.type) {
+      case 'fixed':
+        return commission.value;
+      case 'percentage':
+        return notional * commission.value / 100;
+      case 'tiered': {
+        const tier = [...feeTiers]
+          .sort((a, b) => b.minVolume - a.minVolume)
+          .find(t => request.tradedVolume >= t.minVolume);
+        if (!tier) return 0;
+        const rate = request.liquidity === 'maker' ? tier.makerRate : tier.takerRate;
+        return notional * rate / 100;
+      }
+      default:
+        return 0;
+    }
+  }
+}
+
+// Frictionless fills at the reference price
+export const zeroCostModel: CostModel = {
+  name: 'zero-cost',
+  estimateFill: ({ price }) => ({
+    fillPrice: price,
+    commission: 0,
+    spreadCost: 0,
+    slippageCost: 0,
+  }),
+};
+
+export const createCostModel = (config: CostModelConfig): CostModel => new ConfigurableCostModel(config);
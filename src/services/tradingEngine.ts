@@ -1,5 +1,18 @@
 import databaseService from './databaseService';
-import { backtestingService } from './backtestingService';
+import { BacktestTimeframe } from './backtestingService';
+import { streamingSignalService } from './streamingSignals';
+import { signalConfidence } from './strategyService';
+import { PositionOrder } from './positionOrders';
+import { MarketEvent, StrategyRunner, TradingCore, TradingSignal } from './tradingCore';
+import { databaseAdapter, enginePreTradeCheck } from './engineAdapters';
+
+export type { TradingSignal };
+
+// Bar size for live signals unless a strategy sets a `timeframe` parameter
+const LIVE_SIGNAL_TIMEFRAME: BacktestTimeframe = '1d';
+
+// Shares per entry when a caller doesn't size the order
+const DEFAULT_QUANTITY = 100;
 
 export interface MarketDataPoint {
   timestamp: Date;
@@ -10,20 +23,13 @@ export interface MarketDataPoint {
   volume: number;
 }
 
-export interface TradingSignal {
-  timestamp: Date;
-  signal: 'buy' | 'sell' | 'short' | 'cover' | 'none';
-  price: number;
-  confidence?: number;
-  reason?: string;
-}
-
 export interface StrategyConfig {
   id: string;
   name: string;
   templateId: string;
   parameters: Record<string, any>;
   isActive: boolean;
+  versionId?: string; // version the parameters came from
 }
 
 export interface Position {
@@ -36,18 +42,91 @@ export interface Position {
 }
 
 /**
- * Enhanced Trading Engine with Database Integration
- * This service handles live trading decisions, strategy execution, and data persistence
+ * Runs strategies on streaming indicators as bars arrive, so each bar costs
+ * the same regardless of lookback
+ */
+const streamingStrategyRunner = (strategies: () => StrategyConfig[]): StrategyRunner => ({
+  async onMarketEvent(event: MarketEvent) {
+    if (!event.isBar || event.price === undefined) return [];
+
+    const timestamp = new Date(event.timestamp ?? Date.now());
+    const bar = {
+      timestamp,
+      open: event.open ?? event.price,
+      high: event.high ?? event.price,
+      low: event.low ?? event.price,
+      close: event.price,
+      volume: event.volume ?? 0,
+    };
+    const signals: TradingSignal[] = [];
+
+    for (const strategy of strategies()) {
+      try {
+        const result = await streamingSignalService.onData(
+          event.symbol,
+          strategy.parameters.timeframe ?? LIVE_SIGNAL_TIMEFRAME,
+          strategy.templateId,
+          strategy.parameters,
+          bar
+        );
+        // Not enough data yet, or nothing to do on this bar
+        if (!result.ready || result.signal === 'none') continue;
+
+        signals.push({
+          id: `${strategy.id}_${event.symbol}_${timestamp.getTime()}`,
+          strategyId: strategy.id,
+          strategyVersionId: strategy.versionId,
+          symbol: event.symbol,
+          action: result.signal.toUpperCase() as TradingSignal['action'],
+          confidence: signalConfidence(result.recentCloses),
+          price: event.price,
+          timestamp: timestamp.getTime(),
+          metadata: {
+            reasoning: `${strategy.templateId} strategy signal`,
+          },
+        });
+      } catch (error) {
+        console.error(`Error generating signal for strategy ${strategy.name}:`, error);
+      }
+    }
+    return signals;
+  },
+});
+
+/**
+ * Database-backed trading engine: runs a user's stored strategies on bars
+ * passed to it and keeps positions in their portfolio
  */
 class TradingEngine {
   private static instance: TradingEngine;
-  private backtestingService = backtestingService;
   private activeStrategies: Map<string, StrategyConfig> = new Map();
   private positions: Map<string, Position> = new Map();
-  private isRunning: boolean = false;
+  private userId?: string;
+  private core: TradingCore;
 
   private constructor() {
-    // Constructor is empty since backtestingService is already assigned above
+    // Singleton; use getInstance()
+    this.core = new TradingCore({
+      name: 'trading engine',
+      strategies: streamingStrategyRunner(() => this.getActiveStrategies()),
+      router: { route: (order, signal) => this.applyOrder(order, signal) },
+      preTradeCheck: enginePreTradeCheck(() => this.userId, () => ({
+        account: null,
+        positions: Array.from(this.positions.values()).map(position => ({
+          symbol: position.symbol,
+          side: position.side,
+          qty: position.quantity,
+        })),
+        openOrders: [],
+      })),
+      adapters: [databaseAdapter(() => this.userId, { saveBars: true })],
+      position: symbol => {
+        const position = this.positions.get(symbol);
+        return position ? { side: position.side, qty: position.quantity, entryPrice: position.entryPrice } : null;
+      },
+      positionSize: () => DEFAULT_QUANTITY,
+      config: { maxPositionSize: Infinity },
+    });
   }
 
   public static getInstance(): TradingEngine {
@@ -60,14 +139,25 @@ class TradingEngine {
   /**
    * Initialize the trading engine
    */
-  async initialize(userId: string) {
+  async initialize(userId: string, symbols: string[] = []) {
     try {
       // Initialize database
       await databaseService.initialize();
+      this.userId = userId;
       
       // Load user's active strategies
       await this.loadActiveStrategies(userId);
       
+      // Indicator state belongs to the previous strategy set
+      streamingSignalService.clear();
+      for (const strategy of Array.from(this.activeStrategies.values())) {
+        await streamingSignalService.warmUp(
+          symbols,
+          strategy.parameters.timeframe ?? LIVE_SIGNAL_TIMEFRAME,
+          [strategy]
+        );
+      }
+      
       // Load current positions
       await this.loadPositions(userId);
       
@@ -94,6 +184,7 @@ class TradingEngine {
             templateId: strategy.templateId,
             parameters: typeof strategy.parameters === 'string' ? JSON.parse(strategy.parameters) : strategy.parameters,
             isActive: strategy.isActive,
+            versionId: strategy.versions[0]?.id,
           });
         }
       });
@@ -134,204 +225,46 @@ class TradingEngine {
   }
 
   /**
-   * Process market data and generate trading signals
+   * Process a completed bar: store it and return the signals it produced
    */
   async processMarketData(symbol: string, data: MarketDataPoint): Promise<TradingSignal[]> {
-    const signals: TradingSignal[] = [];
-
     try {
-      // Store market data in database
-      await databaseService.saveMarketData({
-        symbol,
-        timestamp: data.timestamp,
-        open: data.open,
-        high: data.high,
-        low: data.low,
-        close: data.close,
-        volume: data.volume,
-        source: 'live',
+      return await this.core.publish({
+        type: 'market',
+        data: {
+          symbol,
+          price: data.close,
+          open: data.open,
+          high: data.high,
+          low: data.low,
+          volume: data.volume,
+          timestamp: data.timestamp.getTime(),
+          isBar: true,
+        },
       });
-
-      // Process each active strategy
-      for (const [strategyId, strategy] of Array.from(this.activeStrategies.entries())) {
-        try {
-          const signal = await this.generateSignalForStrategy(symbol, data, strategy);
-          
-          if (signal.signal !== 'none') {
-            signals.push(signal);
-            
-            // Save signal to database
-            await databaseService.saveTradingSignal({
-              symbol,
-              strategyId,
-              signal: signal.signal,
-              confidence: signal.confidence,
-              price: signal.price,
-              timestamp: signal.timestamp,
-            });
-          }
-        } catch (error) {
-          console.error(`Error processing strategy ${strategy.name}:`, error);
-        }
-      }
-
     } catch (error) {
       console.error('Error processing market data:', error);
+      return [];
     }
-
-    return signals;
   }
 
   /**
-   * Generate trading signal for a specific strategy
-   */
-  private async generateSignalForStrategy(
-    symbol: string,
-    currentData: MarketDataPoint,
-    strategy: StrategyConfig
-  ): Promise<TradingSignal> {
-    const endDate = currentData.timestamp;
-    const startDate = new Date(endDate.getTime() - (30 * 24 * 60 * 60 * 1000)); // 30 days back
-
-    try {
-      // Get historical data for signal generation
-      const historicalData = await databaseService.getMarketData(symbol, startDate, endDate);
-      
-      if (historicalData.length < 20) {
-        // Not enough data for signal generation
-        return {
-          timestamp: currentData.timestamp,
-          signal: 'none',
-          price: currentData.close,
-          reason: 'Insufficient historical data',
-        };
-      }
-
-      // Convert to format expected by backtesting service
-      const priceData = historicalData.map(d => ({
-        date: d.timestamp.toISOString().split('T')[0],
-        open: d.open,
-        high: d.high,
-        low: d.low,
-        close: d.close,
-        volume: d.volume,
-      }));
-
-      // Add current data point
-      priceData.push({
-        date: currentData.timestamp.toISOString().split('T')[0],
-        open: currentData.open,
-        high: currentData.high,
-        low: currentData.low,
-        close: currentData.close,
-        volume: currentData.volume,
-      });
-
-      // Generate signals using existing backtesting logic
-      const signals = this.backtestingService.generateSignals(
-        priceData,
-        strategy.templateId,
-        strategy.parameters
-      );
-
-      // Get the latest signal
-      const latestSignal = signals[signals.length - 1];
-      
-      if (latestSignal) {
-        return {
-          timestamp: currentData.timestamp,
-          signal: latestSignal.signal,
-          price: currentData.close,
-          confidence: this.calculateSignalConfidence(strategy, priceData),
-          reason: `${strategy.templateId} strategy signal`,
-        };
-      }
-
-    } catch (error) {
-      console.error(`Error generating signal for strategy ${strategy.name}:`, error);
-    }
-
-    return {
-      timestamp: currentData.timestamp,
-      signal: 'none',
-      price: currentData.close,
-      reason: 'No signal generated',
-    };
-  }
-
-  /**
-   * Calculate signal confidence based on market conditions
+   * Execute trading signals (for simulation or paper trading)
    */
-  private calculateSignalConfidence(strategy: StrategyConfig, priceData: any[]): number {
-    // Simple confidence calculation based on recent volatility and trend
-    const recentPrices = priceData.slice(-10).map(d => d.close);
-    const avgPrice = recentPrices.reduce((a, b) => a + b, 0) / recentPrices.length;
-    const volatility = Math.sqrt(
-      recentPrices.reduce((sum, price) => sum + Math.pow(price - avgPrice, 2), 0) / recentPrices.length
-    ) / avgPrice;
-
-    // Lower volatility = higher confidence (simplified)
-    return Math.max(0.1, Math.min(1.0, 1 - volatility * 10));
+  async executeSignal(signal: TradingSignal, quantity: number = DEFAULT_QUANTITY) {
+    return await this.core.executeSignal(signal, quantity);
   }
 
   /**
-   * Execute trading signals (for simulation or paper trading)
+   * Apply one order of a signal to the user's portfolio
    */
-  async executeSignal(userId: string, signal: TradingSignal, symbol: string, quantity: number = 100) {
-    try {
-      const currentPosition = this.positions.get(symbol);
-      let action = '';
-
-      switch (signal.signal) {
-        case 'buy':
-          if (!currentPosition || currentPosition.side === 'short') {
-            action = 'BUY';
-            await this.createPosition(userId, symbol, 'long', quantity, signal.price);
-          }
-          break;
-
-        case 'sell':
-          if (currentPosition && currentPosition.side === 'long') {
-            action = 'SELL';
-            await this.closePosition(userId, symbol, signal.price);
-          }
-          break;
-
-        case 'short':
-          if (!currentPosition || currentPosition.side === 'long') {
-            action = 'SHORT';
-            await this.createPosition(userId, symbol, 'short', quantity, signal.price);
-          }
-          break;
-
-        case 'cover':
-          if (currentPosition && currentPosition.side === 'short') {
-            action = 'COVER';
-            await this.closePosition(userId, symbol, signal.price);
-          }
-          break;
-      }
-
-      if (action) {
-        // Log the trading action
-        await databaseService.logAudit({
-          userId,
-          action: 'SIGNAL_EXECUTED',
-          details: {
-            symbol,
-            signal: signal.signal,
-            price: signal.price,
-            quantity,
-            confidence: signal.confidence,
-            reason: signal.reason,
-          },
-        });
-
-        console.log(`Executed ${action} signal for ${symbol} at ${signal.price}`);
-      }
+  private async applyOrder(order: PositionOrder, signal: TradingSignal) {
+    if (!this.userId) throw new Error('Trading engine is not initialized');
 
-    } catch (error) {
-      console.error('Error executing signal:', error);
+    if (order.effect === 'close') {
+      await this.closePosition(this.userId, signal.symbol, signal.price);
+    } else {
+      await this.createPosition(this.userId, signal.symbol, order.side === 'buy' ? 'long' : 'short', order.qty, signal.price);
     }
   }
 
@@ -425,6 +358,7 @@ class TradingEngine {
         templateId: savedStrategy.templateId,
         parameters: JSON.parse(savedStrategy.parameters),
         isActive: savedStrategy.isActive,
+        versionId: savedStrategy.versions[0]?.id,
       });
 
       console.log(`Added strategy: ${strategy.name}`);
@@ -439,23 +373,21 @@ class TradingEngine {
    * Start the trading engine
    */
   start() {
-    this.isRunning = true;
-    console.log('Trading engine started');
+    return this.core.start();
   }
 
   /**
    * Stop the trading engine
    */
   stop() {
-    this.isRunning = false;
-    console.log('Trading engine stopped');
+    this.core.stop();
   }
 
   /**
    * Check if engine is running
    */
   isEngineRunning(): boolean {
-    return this.isRunning;
+    return this.core.isEngineRunning();
   }
 }
 
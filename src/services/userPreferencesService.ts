@@ -8,6 +8,9 @@ export interface UserPreferences {
   defaultCapital: number;
   riskTolerance: 'low' | 'medium' | 'high';
   tradingPairs: string[];
+  broker: 'alpaca' | 'paper';
+  paperLatencyMs: number;
+  paperSlippageBps: number;
 }
 
 class UserPreferencesService {
@@ -24,30 +27,41 @@ class UserPreferencesService {
 
   async getUserPreferences(userId: string): Promise<UserPreferences | null> {
     try {
-      const user = await DatabaseService.getClient().user.findUnique({
-        where: { id: userId },
-        include: { preferences: true }
-      });
-
-      if (!user?.preferences) {
-        return null;
-      }
-
-      return {
-        id: user.preferences.id,
-        userId: user.preferences.userId,
-        theme: user.preferences.theme,
-        notifications: user.preferences.notifications,
-        defaultCapital: user.preferences.defaultCapital,
-        riskTolerance: user.preferences.riskTolerance as 'low' | 'medium' | 'high',
-        tradingPairs: JSON.parse(user.preferences.tradingPairs)
-      };
+      return await this.readUserPreferences(userId);
     } catch (error) {
       console.error('Error fetching user preferences:', error);
       return null;
     }
   }
 
+  /**
+   * Like getUserPreferences, but rejects when they can't be read instead of
+   * answering as if none were saved
+   */
+  async readUserPreferences(userId: string): Promise<UserPreferences | null> {
+    const user = await DatabaseService.getClient().user.findUnique({
+      where: { id: userId },
+      include: { preferences: true }
+    });
+
+    if (!user?.preferences) {
+      return null;
+    }
+
+    return {
+      id: user.preferences.id,
+      userId: user.preferences.userId,
+      theme: user.preferences.theme,
+      notifications: user.preferences.notifications,
+      defaultCapital: user.preferences.defaultCapital,
+      riskTolerance: user.preferences.riskTolerance as 'low' | 'medium' | 'high',
+      tradingPairs: JSON.parse(user.preferences.tradingPairs),
+      broker: user.preferences.broker as 'alpaca' | 'paper',
+      paperLatencyMs: user.preferences.paperLatencyMs,
+      paperSlippageBps: user.preferences.paperSlippageBps
+    };
+  }
+
   async updateUserPreferences(userId: string, preferences: Partial<Omit<UserPreferences, 'id' | 'userId'>>): Promise<UserPreferences | null> {
     try {
       const updatedPreferences = await DatabaseService.getClient().userPreferences.upsert({
@@ -57,7 +71,10 @@ class UserPreferencesService {
           ...(preferences.notifications !== undefined && { notifications: preferences.notifications }),
           ...(preferences.defaultCapital !== undefined && { defaultCapital: preferences.defaultCapital }),
           ...(preferences.riskTolerance && { riskTolerance: preferences.riskTolerance }),
-          ...(preferences.tradingPairs && { tradingPairs: JSON.stringify(preferences.tradingPairs) })
+          ...(preferences.tradingPairs && { tradingPairs: JSON.stringify(preferences.tradingPairs) }),
+          ...(preferences.broker && { broker: preferences.broker }),
+          ...(preferences.paperLatencyMs !== undefined && { paperLatencyMs: preferences.paperLatencyMs }),
+          ...(preferences.paperSlippageBps !== undefined && { paperSlippageBps: preferences.paperSlippageBps })
         },
         create: {
           userId,
@@ -65,7 +82,10 @@ class UserPreferencesService {
           notifications: preferences.notifications ?? true,
           defaultCapital: preferences.defaultCapital || 10000,
           riskTolerance: preferences.riskTolerance || 'medium',
-          tradingPairs: JSON.stringify(preferences.tradingPairs || ['AAPL', 'TSLA', 'SPY'])
+          tradingPairs: JSON.stringify(preferences.tradingPairs || ['AAPL', 'TSLA', 'SPY']),
+          broker: preferences.broker || 'alpaca',
+          paperLatencyMs: preferences.paperLatencyMs ?? 250,
+          paperSlippageBps: preferences.paperSlippageBps ?? 5
         }
       });
 
@@ -76,7 +96,10 @@ class UserPreferencesService {
         notifications: updatedPreferences.notifications,
         defaultCapital: updatedPreferences.defaultCapital,
         riskTolerance: updatedPreferences.riskTolerance as 'low' | 'medium' | 'high',
-        tradingPairs: JSON.parse(updatedPreferences.tradingPairs)
+        tradingPairs: JSON.parse(updatedPreferences.tradingPairs),
+        broker: updatedPreferences.broker as 'alpaca' | 'paper',
+        paperLatencyMs: updatedPreferences.paperLatencyMs,
+        paperSlippageBps: updatedPreferences.paperSlippageBps
       };
     } catch (error) {
       console.error('Error updating user preferences:', error);
@@ -104,7 +127,10 @@ class UserPreferencesService {
         notifications: preferences.notifications,
         defaultCapital: preferences.defaultCapital,
         riskTolerance: preferences.riskTolerance as 'low' | 'medium' | 'high',
-        tradingPairs: JSON.parse(preferences.tradingPairs)
+        tradingPairs: JSON.parse(preferences.tradingPairs),
+        broker: preferences.broker as 'alpaca' | 'paper',
+        paperLatencyMs: preferences.paperLatencyMs,
+        paperSlippageBps: preferences.paperSlippageBps
       };
     } catch (error) {
       console.error('Error creating default preferences:', error);
@@ -0,0 +1,263 @@
+import { StrategyParameter } from '../store/slices/strategiesSlice';
+import {
+  backtestingService,
+  barTime,
+  BacktestConfig,
+  BacktestResult,
+  BacktestTrade,
+  HistoricalPrice,
+  OptimizationOptions,
+  OptimizationMethod,
+  OptimizationObjective,
+  TIMEFRAME_MS,
+} from './backtestingService';
+import databaseService from './databaseService';
+import { StrategyParameters } from './strategyRegistry';
+
+export interface WalkForwardOptions extends OptimizationOptions {
+  inSampleDays: number;
+  outOfSampleDays: number;
+  anchored: boolean; // grow the in-sample window from the start instead of rolling it
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSampleStart: string;
+  inSampleEnd: string;
+  outOfSampleStart: string;
+  outOfSampleEnd: string;
+  parameters: StrategyParameters;
+  inSampleScore: number;
+  inSampleReturnPercent: number;
+  outOfSampleReturnPercent: number;
+  efficiencyRatio: number; // annualized out-of-sample return / annualized in-sample return
+  result: BacktestResult; // out-of-sample run
+  backtestId?: string;
+}
+
+export interface WalkForwardResult {
+  walkForwardId?: string;
+  templateId: string;
+  symbol: string;
+  method: OptimizationMethod;
+  objective: OptimizationObjective;
+  windows: WalkForwardWindow[];
+  equity: Array<{ date: string; value: number }>; // stitched out-of-sample curve
+  trades: BacktestTrade[];
+  initialCapital: number;
+  finalCapital: number;
+  totalReturnPercent: number;
+  efficiencyRatio: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const annualize = (returnPercent: number, days: number) => (days > 0 ? returnPercent * (365 / days) : 0);
+
+/**
+ * Walk-forward analysis: optimize on rolling in-sample windows and evaluate the
+ * chosen parameters on the following unseen out-of-sample window
+ */
+class WalkForwardService {
+  /**
+   * Split bars into consecutive in-sample/out-of-sample index ranges
+   */
+  buildWindows(
+    data: HistoricalPrice[],
+    options: Pick<WalkForwardOptions, 'inSampleDays' | 'outOfSampleDays' | 'anchored'>
+  ): Array<{ inSample: [number, number]; outOfSample: [number, number] }> {
+    const times = data.map(barTime);
+    const indexAtOrAfter = (time: number) => {
+      const index = times.findIndex(t => t >= time);
+      return index === -1 ? times.length : index;
+    };
+
+    const windows: Array<{ inSample: [number, number]; outOfSample: [number, number] }> = [];
+    const firstTime = times[0];
+    let inSampleStartTime = firstTime;
+
+    while (times.length > 0) {
+      const outOfSampleStartTime = inSampleStartTime + options.inSampleDays * DAY_MS;
+      const outOfSampleEndTime = outOfSampleStartTime + options.outOfSampleDays * DAY_MS;
+
+      const inSampleStart = indexAtOrAfter(options.anchored ? firstTime : inSampleStartTime);
+      const outOfSampleStart = indexAtOrAfter(outOfSampleStartTime);
+      const outOfSampleEnd = indexAtOrAfter(outOfSampleEndTime);
+      if (outOfSampleStart >= times.length) break;
+
+      // Skip windows that fall entirely inside a data gap
+      if (inSampleStart < outOfSampleStart && outOfSampleStart < outOfSampleEnd) {
+        windows.push({
+          inSample: [inSampleStart, outOfSampleStart],
+          outOfSample: [outOfSampleStart, outOfSampleEnd]
+        });
+      }
+
+      if (outOfSampleEnd >= times.length) break;
+      inSampleStartTime += options.outOfSampleDays * DAY_MS;
+    }
+
+    return windows;
+  }
+
+  /**
+   * Run a walk-forward analysis over the configured date range
+   */
+  async runWalkForward(
+    strategyName: string,
+    templateId: string,
+    parameters: StrategyParameter[],
+    sweep: string[],
+    config: BacktestConfig,
+    options: WalkForwardOptions
+  ): Promise<WalkForwardResult> {
+    if (sweep.length === 0) {
+      throw new Error('Select at least one parameter to optimize');
+    }
+    if (options.inSampleDays <= 0 || options.outOfSampleDays <= 0) {
+      throw new Error('In-sample and out-of-sample windows must be at least one day');
+    }
+
+    const { data, quality } = await backtestingService.loadHistoricalData(config);
+    const splits = this.buildWindows(data, options);
+    if (splits.length === 0) {
+      throw new Error(
+        `Date range is too short for a ${options.inSampleDays}/${options.outOfSampleDays} day walk-forward window`
+      );
+    }
+
+    const windows: WalkForwardWindow[] = [];
+    const equity: Array<{ date: string; value: number }> = [];
+    const trades: BacktestTrade[] = [];
+    let capital = config.initialCapital;
+
+    for (let i = 0; i < splits.length; i++) {
+      const { inSample, outOfSample } = splits[i];
+      const inSampleData = data.slice(inSample[0], inSample[1]);
+
+      const optimization = await backtestingService.optimizeOnData(
+        strategyName,
+        templateId,
+        parameters,
+        sweep,
+        inSampleData,
+        config,
+        quality,
+        { ...options, onProgress: undefined }
+      );
+      if (!optimization.best) continue;
+
+      // Evaluate on the out-of-sample bars, seeding indicators with the in-sample bars
+      const result = backtestingService.simulateBacktest(
+        strategyName,
+        templateId,
+        optimization.best.parameters,
+        data.slice(inSample[0], outOfSample[1]),
+        { ...config, initialCapital: capital },
+        quality,
+        inSample[1] - inSample[0]
+      );
+
+      // Calendar days covered by a slice of bars, including the last bar
+      const barDays = TIMEFRAME_MS[config.timeframe] / DAY_MS;
+      const spanDays = ([start, end]: [number, number]) => (barTime(data[end - 1]) - barTime(data[start])) / DAY_MS + barDays;
+      const inSampleDays = spanDays(inSample);
+      const outOfSampleDays = spanDays(outOfSample);
+      const inSampleReturnPercent = optimization.best.result.performance.totalReturnPercent;
+      const outOfSampleReturnPercent = result.performance.totalReturnPercent;
+      const annualizedInSample = annualize(inSampleReturnPercent, inSampleDays);
+
+      windows.push({
+        index: i + 1,
+        inSampleStart: data[inSample[0]].date,
+        inSampleEnd: data[inSample[1] - 1].date,
+        outOfSampleStart: data[outOfSample[0]].date,
+        outOfSampleEnd: data[outOfSample[1] - 1].date,
+        parameters: optimization.best.parameters,
+        inSampleScore: optimization.best.score,
+        inSampleReturnPercent,
+        outOfSampleReturnPercent,
+        efficiencyRatio: annualizedInSample !== 0
+          ? annualize(outOfSampleReturnPercent, outOfSampleDays) / annualizedInSample
+          : 0,
+        result
+      });
+
+      equity.push(...result.equity);
+      trades.push(...result.trades.map(trade => ({ ...trade, id: `w${i + 1}-${trade.id}` })));
+      capital += result.performance.totalReturn;
+
+      options.onProgress?.(i + 1, splits.length);
+    }
+
+    const ratios = windows.map(w => w.efficiencyRatio);
+
+    return {
+      templateId,
+      symbol: config.symbol,
+      method: options.method,
+      objective: options.objective,
+      windows,
+      equity,
+      trades,
+      initialCapital: config.initialCapital,
+      finalCapital: capital,
+      totalReturnPercent: ((capital - config.initialCapital) / config.initialCapital) * 100,
+      efficiencyRatio: ratios.length > 0 ? ratios.reduce((a, b) => a + b, 0) / ratios.length : 0
+    };
+  }
+
+  /**
+   * Run a walk-forward analysis and store it with one Backtest row per
+   * out-of-sample window
+   */
+  async runWalkForwardWithStorage(
+    userId: string,
+    strategyName: string,
+    templateId: string,
+    parameters: StrategyParameter[],
+    sweep: string[],
+    config: BacktestConfig,
+    options: WalkForwardOptions,
+    strategyId: string | null = null
+  ): Promise<WalkForwardResult> {
+    try {
+      const analysis = await this.runWalkForward(strategyName, templateId, parameters, sweep, config, options);
+
+      const saved = await databaseService.saveWalkForwardAnalysis(userId, {
+        templateId,
+        symbol: config.symbol,
+        method: analysis.method,
+        objective: analysis.objective,
+        startDate: config.startDate,
+        endDate: config.endDate,
+        inSampleDays: options.inSampleDays,
+        outOfSampleDays: options.outOfSampleDays,
+        anchored: options.anchored,
+        initialCapital: analysis.initialCapital,
+        finalCapital: analysis.finalCapital,
+        totalReturnPct: analysis.totalReturnPercent,
+        efficiencyRatio: analysis.efficiencyRatio,
+        windows: JSON.stringify(analysis.windows.map(({ result: _result, ...window }) => window)),
+      });
+      analysis.walkForwardId = saved.id;
+
+      for (const window of analysis.windows) {
+        window.backtestId = await backtestingService.saveBacktestResults(
+          userId,
+          strategyId,
+          window.result,
+          undefined,
+          saved.id
+        );
+      }
+
+      return analysis;
+    } catch (error) {
+      console.error('Error running walk-forward analysis with storage:', error);
+      throw error;
+    }
+  }
+}
+
+export const walkForwardService = new WalkForwardService();
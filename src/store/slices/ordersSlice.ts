@@ -1,13 +1,61 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, createAction, PayloadAction } from '@reduxjs/toolkit';
 import { Order } from './types';
-import { alpacaService, CreateOrderRequest, ModifyOrderRequest } from '../../services/alpacaService';
+import type { RootState } from '../index';
+import { CreateOrderRequest, ModifyOrderRequest } from '../../services/alpacaService';
+import { brokerService } from '../../services/brokerService';
 import DatabaseService from '../../services/databaseService';
+import { killSwitch } from '../../services/killSwitch';
+import { addNotification, Notification } from './notificationsSlice';
+import {
+  advanceOrderGroup,
+  applyOrderToGroup,
+  assignLeg,
+  BracketOrderRequest,
+  closeOrderGroup,
+  isGroupOpen,
+  legOf,
+  legOrderRequest,
+  nativeOrderRequest,
+  newOrderGroup,
+  OcoOrderRequest,
+  OrderGroup,
+  OrderGroupLeg,
+  OrderGroupType,
+  parentLeg,
+  pendingLegs,
+  validateExitPrices,
+} from '../../services/orderGroups';
+import {
+  DEFAULT_PRE_TRADE_LIMITS,
+  PreTradeContext,
+  PreTradeLimits,
+  PreTradeOrder,
+  preTradeRisk,
+  PreTradeRiskError,
+  RiskRejection,
+} from '../../services/preTradeRisk';
+
+/** An order the pre-trade risk checks refused, and why */
+export interface OrderRejection {
+  order: PreTradeOrder;
+  rejections: RiskRejection[];
+  timestamp: number;
+}
+
+/** Rejection payload of placeOrder; `rejections` is set when risk checks refused it */
+export interface PlaceOrderError {
+  message: string;
+  rejections?: RiskRejection[];
+}
 
 interface OrdersState {
   orders: Order[];
   activeOrders: Order[];
   orderHistory: Order[];
   trades: any[];
+  groups: OrderGroup[]; // bracket and OCO groups, newest first
+  riskLimits: PreTradeLimits;
+  lastRejection: OrderRejection | null;
   isLoading: boolean;
   error: string | null;
   lastUpdated: number;
@@ -18,6 +66,9 @@ const initialState: OrdersState = {
   activeOrders: [],
   orderHistory: [],
   trades: [],
+  groups: [],
+  riskLimits: DEFAULT_PRE_TRADE_LIMITS,
+  lastRejection: null,
   isLoading: false,
   error: null,
   lastUpdated: 0
@@ -29,7 +80,7 @@ export const fetchOrders = createAsyncThunk(
   async (params: { status?: 'open' | 'closed' | 'all'; limit?: number } = {}, { rejectWithValue }) => {
     try {
       const { status = 'all', limit = 50 } = params;
-      const orders = await alpacaService.getOrders(status, limit);
+      const orders = await brokerService.getOrders(status, limit);
       return orders;
     } catch (error: any) {
       return rejectWithValue(error.message || 'Failed to fetch orders');
@@ -49,12 +100,57 @@ export const fetchTradeHistory = createAsyncThunk(
   }
 );
 
-export const placeOrder = createAsyncThunk(
+/** The order as the pre-trade risk checks see it */
+const preTradeOrder = (orderData: CreateOrderRequest): PreTradeOrder => ({
+  symbol: orderData.symbol,
+  side: orderData.side,
+  qty: parseFloat(orderData.qty),
+  type: orderData.type,
+  limitPrice: orderData.limit_price ? parseFloat(orderData.limit_price) : undefined,
+  stopPrice: orderData.stop_price ? parseFloat(orderData.stop_price) : undefined,
+});
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error instanceof Error && error.message) || fallback;
+
+/** Account, positions, open orders and market price from the store */
+const preTradeContext = (state: RootState, symbol: string): PreTradeContext => ({
+  account: state.portfolio.account
+    ? { buyingPower: state.portfolio.account.buyingPower, equity: state.portfolio.account.equity }
+    : null,
+  positions: state.portfolio.positions || [],
+  openOrders: state.orders.activeOrders.map((order: Order) => ({
+    symbol: order.symbol,
+    side: order.side,
+    qty: parseFloat(order.qty) - (parseFloat(order.filledQty) || 0),
+  })),
+  referencePrice: state.marketData.symbols[symbol]?.price,
+  limits: state.orders.riskLimits,
+});
+
+/** Runs the pre-trade risk checks; throws PreTradeRiskError when they refuse the order */
+const enforcePreTrade = (order: PreTradeOrder, state: RootState, userId: string | undefined, source: string): Promise<void> =>
+  preTradeRisk.enforce(order, preTradeContext(state, order.symbol), {
+    userId: userId ?? state.auth.user?.id,
+    source,
+  });
+
+export const placeOrder = createAsyncThunk<
+  Order,
+  CreateOrderRequest & { userId?: string; strategyId?: string; source?: string; effect?: PreTradeOrder['effect'] },
+  { rejectValue: PlaceOrderError }
+>(
   'orders/placeOrder',
-  async (orderData: CreateOrderRequest & { userId?: string; strategyId?: string }, { rejectWithValue }) => {
+  async ({ source = 'manual', effect, ...orderData }, { getState, rejectWithValue }) => {
+    const state = getState() as RootState;
     try {
+      // Every order passes the pre-trade risk checks before the broker sees it
+      const checked = { ...preTradeOrder(orderData), effect };
+      await enforcePreTrade(checked, state, orderData.userId, source);
+
       // Place order with broker
-      const order = await alpacaService.createOrder(orderData);
+      const order = await brokerService.createOrder(orderData);
+      preTradeRisk.record(checked);
       
       // Save trade to database if user info provided
       if (orderData.userId) {
@@ -72,8 +168,321 @@ export const placeOrder = createAsyncThunk(
       }
       
       return order;
-    } catch (error: any) {
-      return rejectWithValue(error.message || 'Failed to place order');
+    } catch (error) {
+      return rejectWithValue({
+        message: errorMessage(error, 'Failed to place order'),
+        rejections: error instanceof PreTradeRiskError ? error.rejections : undefined,
+      });
+    }
+  }
+);
+
+/** Changed groups and the broker orders seen while changing them */
+export interface OrderGroupUpdate {
+  groups: OrderGroup[];
+  orders: Order[];
+}
+
+export const orderGroupsUpdated = createAction<OrderGroupUpdate>('orders/orderGroupsUpdated');
+
+type GroupOrderMeta = { userId?: string; strategyId?: string; source?: string };
+
+// Group changes run one at a time and reach the store before the next one
+// starts, so two syncs never submit the same exit twice
+let groupQueue: Promise<unknown> = Promise.resolve();
+const serializeGroupWork = <T>(work: () => Promise<T>): Promise<T> => {
+  const run = groupQueue.then(work);
+  groupQueue = run.catch(() => undefined);
+  return run;
+};
+
+const placeGroupError = (error: unknown, fallback: string): PlaceOrderError => ({
+  message: errorMessage(error, fallback),
+  rejections: error instanceof PreTradeRiskError ? error.rejections : undefined,
+});
+
+const withLegStatus = (group: OrderGroup, target: OrderGroupLeg, status: string): OrderGroup => ({
+  ...group,
+  legs: group.legs.map(leg => (leg.role === target.role ? { ...leg, status } : leg)),
+});
+
+/**
+ * Submits a new group, as one order where the broker links the legs and
+ * otherwise as its first orders; the rest follow from syncOrderGroups.
+ * When the broker refuses a later leg, the legs already placed are cancelled
+ * and the group is returned closed with `error` set; a leg that can't be
+ * cancelled keeps its group open so it stays tracked
+ */
+const submitOrderGroup = async (
+  type: OrderGroupType,
+  request: BracketOrderRequest | OcoOrderRequest,
+  source: string
+): Promise<OrderGroupUpdate & { error?: unknown }> => {
+  const managed = brokerService.supportsOrderClass(type, request.symbol) ? 'native' : 'local';
+  let group = newOrderGroup(type, request, managed, source);
+  const orders: Order[] = [];
+
+  if (managed === 'native') {
+    const order = await brokerService.createOrder(nativeOrderRequest(group));
+    orders.push(order, ...(order.legs || []));
+    group = applyOrderToGroup(group, order);
+    return { groups: [group], orders };
+  }
+
+  // A bracket starts with its entry alone; an OCO with both exits
+  for (const leg of type === 'bracket' ? [legOf(group, 'entry')!] : group.legs) {
+    try {
+      const order = await brokerService.createOrder(legOrderRequest(group, leg));
+      orders.push(order);
+      group = assignLeg(group, leg.role, order);
+    } catch (error) {
+      if (orders.length === 0) throw error;
+
+      group = withLegStatus(group, leg, 'rejected');
+      let withdrawn = true;
+      for (const placed of pendingLegs(group)) {
+        try {
+          await brokerService.cancelOrder(placed.orderId!);
+          group = withLegStatus(group, placed, 'canceled');
+        } catch (cancelError) {
+          console.error(`Failed to cancel ${placed.role} leg of ${group.id} after ${leg.role} was refused:`, cancelError);
+          withdrawn = false;
+        }
+      }
+      return { groups: [withdrawn ? closeOrderGroup(group, 'canceled') : group], orders, error };
+    }
+  }
+  return { groups: [group], orders };
+};
+
+export const placeBracketOrder = createAsyncThunk<
+  OrderGroupUpdate,
+  BracketOrderRequest & GroupOrderMeta,
+  { rejectValue: PlaceOrderError }
+>(
+  'orders/placeBracketOrder',
+  async ({ userId, strategyId, source = 'manual', ...request }, { getState, dispatch, rejectWithValue }) => {
+    try {
+      return await serializeGroupWork(async () => {
+        const state = getState() as RootState;
+        const invalid = validateExitPrices(request.side, request.limitPrice ?? state.marketData.symbols[request.symbol]?.price, request);
+        if (invalid) throw new Error(invalid);
+
+        // The entry is checked like any order; the exits only reduce it
+        const entry: PreTradeOrder = {
+          symbol: request.symbol,
+          side: request.side,
+          qty: parseFloat(request.qty),
+          type: request.type,
+          limitPrice: request.limitPrice,
+          effect: 'open',
+        };
+        await enforcePreTrade(entry, state, userId, source);
+
+        const { error, ...update } = await submitOrderGroup('bracket', request, source);
+        dispatch(orderGroupsUpdated(update));
+        if (error) throw error;
+        preTradeRisk.record(entry);
+
+        if (userId) {
+          await DatabaseService.saveTrade({
+            userId,
+            strategyId,
+            symbol: request.symbol,
+            side: request.side,
+            type: request.type,
+            quantity: parseFloat(request.qty),
+            price: request.limitPrice ?? null,
+            stopLoss: request.stopPrice,
+            takeProfit: request.takeProfitPrice,
+            status: 'pending',
+            brokerOrderId: parentLeg(update.groups[0]).orderId,
+            notes: `Bracket order (${update.groups[0].managed})`,
+          });
+        }
+        return update;
+      });
+    } catch (error) {
+      return rejectWithValue(placeGroupError(error, 'Failed to place bracket order'));
+    }
+  }
+);
+
+export const placeOcoOrder = createAsyncThunk<
+  OrderGroupUpdate,
+  OcoOrderRequest & GroupOrderMeta,
+  { rejectValue: PlaceOrderError }
+>(
+  'orders/placeOcoOrder',
+  async ({ userId, source = 'manual', ...request }, { getState, dispatch, rejectWithValue }) => {
+    try {
+      return await serializeGroupWork(async () => {
+        const state = getState() as RootState;
+        const invalid = validateExitPrices(
+          request.side === 'sell' ? 'buy' : 'sell',
+          state.marketData.symbols[request.symbol]?.price,
+          request
+        );
+        if (invalid) throw new Error(invalid);
+
+        // Exits are valued at the market; their prices are meant to sit away from it
+        const exit: PreTradeOrder = { symbol: request.symbol, side: request.side, qty: parseFloat(request.qty), type: 'market' };
+        await enforcePreTrade(exit, state, userId, source);
+
+        const { error, ...update } = await submitOrderGroup('oco', request, source);
+        dispatch(orderGroupsUpdated(update));
+        if (error) throw error;
+        preTradeRisk.record(exit);
+        return update;
+      });
+    } catch (error) {
+      return rejectWithValue(placeGroupError(error, 'Failed to place OCO order'));
+    }
+  }
+);
+
+/** A notification for an order group that leaves a position unprotected */
+const groupRiskAlert = (message: string): Notification => ({
+  id: `group_alert_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  type: 'alert',
+  title: 'Risk Alert',
+  message,
+  priority: 'critical',
+  read: false,
+  actionRequired: true,
+  actionUrl: '/trading',
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Brings one open group up to date with the broker and, for a local group,
+ * carries out what comes next. Orders seen or placed are added to `update`
+ * as they happen, so they are recorded even if a later step fails; a group
+ * whose orders can't all be fetched waits for the next sync. Exits the broker
+ * refuses are not sent again and are reported through `alert`
+ */
+const syncOrderGroup = async (
+  group: OrderGroup,
+  update: OrderGroupUpdate,
+  alert: (message: string) => void
+): Promise<OrderGroup> => {
+  const asked = group.managed === 'native' ? [parentLeg(group)] : pendingLegs(group);
+  for (const leg of asked) {
+    if (!leg.orderId) continue;
+    try {
+      const order = await brokerService.getOrder(leg.orderId);
+      update.orders.push(order, ...(order.legs || []));
+      group = applyOrderToGroup(group, order);
+    } catch (error) {
+      console.error(`Failed to fetch ${leg.role} leg of ${group.id}:`, error);
+      return group;
+    }
+  }
+
+  const advanced = advanceOrderGroup(group);
+  group = advanced.group;
+  if (advanced.alert) alert(advanced.alert);
+
+  let cancelled = false;
+  for (const action of advanced.actions) {
+    const { leg } = action;
+    try {
+      if (action.type === 'cancel') {
+        await brokerService.cancelOrder(leg.orderId!);
+        group = withLegStatus(group, leg, 'canceled');
+        cancelled = true;
+      } else if (action.type === 'resize') {
+        const order = await brokerService.modifyOrder(leg.orderId!, { qty: action.qty });
+        update.orders.push(order);
+        group = assignLeg(group, leg.role, order);
+      } else if (!killSwitch.isTripped()) {
+        let order: Order;
+        try {
+          order = await brokerService.createOrder(legOrderRequest(group, leg));
+        } catch (error) {
+          group = withLegStatus(group, leg, 'rejected');
+          throw error;
+        }
+        update.orders.push(order);
+        group = assignLeg(group, leg.role, order);
+        if (order.status === 'rejected') throw new Error('rejected by the broker');
+      }
+    } catch (error) {
+      // Unconfirmed cancels and resizes are retried on the next sync
+      console.error(`Failed to ${action.type} ${leg.role} leg of ${group.id}:`, error);
+      if (action.type === 'submit') {
+        alert(`${group.symbol} ${leg.role} exit of ${leg.qty} was refused (${errorMessage(error, 'unknown error')}); the position is not fully protected`);
+      }
+    }
+  }
+
+  // A confirmed cancel can close the group straight away
+  if (cancelled) {
+    const settled = advanceOrderGroup(group);
+    if (settled.actions.length === 0) group = settled.group;
+  }
+  return group;
+};
+
+/**
+ * Brings open groups up to date with the broker. Local groups then move on:
+ * a filled entry releases its exits, a partial exit fill shrinks the others
+ * and a filled exit cancels them. Exits wait while the kill switch is tripped
+ */
+export const syncOrderGroups = createAsyncThunk(
+  'orders/syncOrderGroups',
+  async (_, { getState, dispatch }) =>
+    serializeGroupWork(async () => {
+      const open = (getState() as RootState).orders.groups.filter(isGroupOpen);
+      const update: OrderGroupUpdate = { groups: [], orders: [] };
+
+      const alert = (message: string) => dispatch(addNotification(groupRiskAlert(message)));
+
+      for (const group of open) {
+        try {
+          update.groups.push(await syncOrderGroup(group, update, alert));
+        } catch (error) {
+          console.error(`Failed to sync order group ${group.id}:`, error);
+        }
+      }
+
+      dispatch(orderGroupsUpdated(update));
+      return update;
+    })
+);
+
+/**
+ * Cancels the open legs of one group, of every open group on a symbol, or of
+ * every open group, e.g. once the kill switch flattens the positions they
+ * protect
+ */
+export const cancelOrderGroups = createAsyncThunk(
+  'orders/cancelOrderGroups',
+  async (params: { groupId?: string; symbol?: string; all?: boolean }, { getState, dispatch, rejectWithValue }) => {
+    try {
+      return await serializeGroupWork(async () => {
+        const groups = (getState() as RootState).orders.groups.filter(group =>
+          isGroupOpen(group) && (params.all || group.id === params.groupId || group.symbol === params.symbol)
+        );
+        const update: OrderGroupUpdate = { groups: [], orders: [] };
+
+        for (const group of groups) {
+          for (const leg of pendingLegs(group)) {
+            try {
+              await brokerService.cancelOrder(leg.orderId!);
+            } catch (error) {
+              // Cancelling a native parent may already have cancelled its children
+              console.warn(`Failed to cancel ${leg.role} leg of ${group.id}:`, error);
+            }
+          }
+          update.groups.push(closeOrderGroup(group, 'canceled'));
+        }
+
+        dispatch(orderGroupsUpdated(update));
+        return update;
+      });
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to cancel order group'));
     }
   }
 );
@@ -82,7 +491,7 @@ export const cancelOrder = createAsyncThunk(
   'orders/cancelOrder',
   async (orderId: string, { rejectWithValue }) => {
     try {
-      await alpacaService.cancelOrder(orderId);
+      await brokerService.cancelOrder(orderId);
       return orderId;
     } catch (error: any) {
       return rejectWithValue(error.message || 'Failed to cancel order');
@@ -95,7 +504,7 @@ export const modifyOrder = createAsyncThunk(
   async (params: { orderId: string } & ModifyOrderRequest, { rejectWithValue }) => {
     try {
       const { orderId, ...modifications } = params;
-      const order = await alpacaService.modifyOrder(orderId, modifications);
+      const order = await brokerService.modifyOrder(orderId, modifications);
       return order;
     } catch (error: any) {
       return rejectWithValue(error.message || 'Failed to modify order');
@@ -107,7 +516,7 @@ export const cancelAllOrders = createAsyncThunk(
   'orders/cancelAllOrders',
   async (_, { rejectWithValue }) => {
     try {
-      await alpacaService.cancelAllOrders();
+      await brokerService.cancelAllOrders();
       return true;
     } catch (error: any) {
       return rejectWithValue(error.message || 'Failed to cancel all orders');
@@ -115,6 +524,37 @@ export const cancelAllOrders = createAsyncThunk(
   }
 );
 
+const ACTIVE_STATUSES = ['new', 'partially_filled', 'accepted', 'pending_new', 'held'];
+
+/** Adds or replaces an order, keeping the active list in step with its status */
+const upsertOrder = (state: OrdersState, order: Order) => {
+  const index = state.orders.findIndex(existing => existing.id === order.id);
+  if (index !== -1) {
+    state.orders[index] = order;
+  } else {
+    state.orders.unshift(order);
+  }
+
+  const activeIndex = state.activeOrders.findIndex(existing => existing.id === order.id);
+  if (ACTIVE_STATUSES.includes(order.status)) {
+    if (activeIndex !== -1) {
+      state.activeOrders[activeIndex] = order;
+    } else {
+      state.activeOrders.unshift(order);
+    }
+  } else if (activeIndex !== -1) {
+    state.activeOrders.splice(activeIndex, 1);
+    state.orderHistory.unshift(order);
+  }
+};
+
+/** Failure of a bracket or OCO submission, kept like placeOrder's */
+const groupRejected = (state: OrdersState, payload: PlaceOrderError | undefined, fallback: string, order: PreTradeOrder) => {
+  state.isLoading = false;
+  state.error = payload?.message ?? fallback;
+  state.lastRejection = payload?.rejections ? { order, rejections: payload.rejections, timestamp: Date.now() } : null;
+};
+
 const ordersSlice = createSlice({
   name: 'orders',
   initialState,
@@ -144,6 +584,12 @@ const ordersSlice = createSlice({
     },
     clearError: (state) => {
       state.error = null;
+    },
+    setRiskLimits: (state, action: PayloadAction<Partial<PreTradeLimits>>) => {
+      state.riskLimits = { ...state.riskLimits, ...action.payload };
+    },
+    clearRejection: (state) => {
+      state.lastRejection = null;
     }
   },
   extraReducers: (builder) => {
@@ -188,13 +634,60 @@ const ordersSlice = createSlice({
       })
       .addCase(placeOrder.fulfilled, (state, action) => {
         state.isLoading = false;
+        state.lastRejection = null;
         state.orders.unshift(action.payload);
-        if (['new', 'partially_filled', 'accepted', 'pending_new'].includes(action.payload.status)) {
+        if (ACTIVE_STATUSES.includes(action.payload.status)) {
           state.activeOrders.unshift(action.payload);
         }
       })
       .addCase(placeOrder.rejected, (state, action) => {
         state.isLoading = false;
+        state.error = action.payload?.message ?? action.error.message ?? 'Failed to place order';
+        state.lastRejection = action.payload?.rejections
+          ? { order: preTradeOrder(action.meta.arg), rejections: action.payload.rejections, timestamp: Date.now() }
+          : null;
+      })
+      // order groups
+      .addCase(orderGroupsUpdated, (state, action) => {
+        action.payload.orders.forEach(order => upsertOrder(state, order));
+        action.payload.groups.forEach(group => {
+          const index = state.groups.findIndex(existing => existing.id === group.id);
+          if (index !== -1) {
+            state.groups[index] = group;
+          } else {
+            state.groups.unshift(group);
+          }
+        });
+      })
+      .addCase(placeBracketOrder.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(placeBracketOrder.fulfilled, (state) => {
+        state.isLoading = false;
+        state.lastRejection = null;
+      })
+      .addCase(placeBracketOrder.rejected, (state, action) => {
+        const { symbol, side, qty, type, limitPrice } = action.meta.arg;
+        groupRejected(state, action.payload, action.error.message ?? 'Failed to place bracket order', {
+          symbol, side, qty: parseFloat(qty), type, limitPrice,
+        });
+      })
+      .addCase(placeOcoOrder.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(placeOcoOrder.fulfilled, (state) => {
+        state.isLoading = false;
+        state.lastRejection = null;
+      })
+      .addCase(placeOcoOrder.rejected, (state, action) => {
+        const { symbol, side, qty } = action.meta.arg;
+        groupRejected(state, action.payload, action.error.message ?? 'Failed to place OCO order', {
+          symbol, side, qty: parseFloat(qty), type: 'market',
+        });
+      })
+      .addCase(cancelOrderGroups.rejected, (state, action) => {
         state.error = action.payload as string;
       })
       // cancelOrder
@@ -261,7 +754,9 @@ const ordersSlice = createSlice({
 export const {
   updateOrder,
   removeOrder,
-  clearError
+  clearError,
+  setRiskLimits,
+  clearRejection
 } = ordersSlice.actions;
 
 export default ordersSlice.reducer;
@@ -1,7 +1,7 @@
 // filepath: /root/react-trade-app2/src/store/slices/portfolioSlice.ts
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { Account, Position } from './types';
-import { alpacaService } from '../../services/alpacaService';
+import { brokerService } from '../../services/brokerService';
 import DatabaseService from '../../services/databaseService';
 
 interface PortfolioState {
@@ -31,7 +31,7 @@ export const fetchAccount = createAsyncThunk(
   'portfolio/fetchAccount',
   async (_, { rejectWithValue }) => {
     try {
-      const account = await alpacaService.getAccount();
+      const account = await brokerService.getAccount();
       return account;
     } catch (error: any) {
       return rejectWithValue(error.message || 'Failed to fetch account');
@@ -43,7 +43,7 @@ export const fetchPositions = createAsyncThunk(
   'portfolio/fetchPositions',
   async (_, { rejectWithValue }) => {
     try {
-      const positions = await alpacaService.getPositions();
+      const positions = await brokerService.getPositions();
       return positions;
     } catch (error: any) {
       return rejectWithValue(error.message || 'Failed to fetch positions');
@@ -56,8 +56,8 @@ export const fetchPortfolio = createAsyncThunk(
   async (_, { rejectWithValue }) => {
     try {
       const [account, positions] = await Promise.all([
-        alpacaService.getAccount(),
-        alpacaService.getPositions()
+        brokerService.getAccount(),
+        brokerService.getPositions()
       ]);
       
       // Store portfolio data in database
@@ -162,7 +162,7 @@ export const closePosition = createAsyncThunk(
   async (params: { symbol: string; qty?: string; percentage?: string }, { rejectWithValue }) => {
     try {
       const { symbol, qty, percentage } = params;
-      const order = await alpacaService.closePosition(symbol, qty, percentage);
+      const order = await brokerService.closePosition(symbol, qty, percentage);
       return { symbol, order };
     } catch (error: any) {
       return rejectWithValue(error.message || 'Failed to close position');
@@ -174,7 +174,7 @@ export const closeAllPositions = createAsyncThunk(
   'portfolio/closeAllPositions',
   async (_, { rejectWithValue }) => {
     try {
-      const orders = await alpacaService.closeAllPositions();
+      const orders = await brokerService.closeAllPositions();
       return orders;
     } catch (error: any) {
       return rejectWithValue(error.message || 'Failed to close all positions');
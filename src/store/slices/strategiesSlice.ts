@@ -1,12 +1,16 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import type { StrategyVersion as PrismaStrategyVersion } from '@prisma/client';
 import DatabaseService from '../../services/databaseService';
+import { strategyRegistry } from '../../services/strategyRegistry';
 
 // Trade Strategy Types
-export type StrategySignal = 'buy' | 'short' | 'none';
+// buy/sell open and close a long; short/cover open and close a short
+export type StrategySignal = 'buy' | 'sell' | 'short' | 'cover' | 'none';
 
 export interface StrategyParameter {
   name: string;
-  type: 'number' | 'boolean' | 'string' | 'select';
+  // rules: a RuleStrategyDefinition; timeframe: a bar size from `options`
+  type: 'number' | 'boolean' | 'string' | 'select' | 'rules' | 'timeframe';
   value: any;
   min?: number;
   max?: number;
@@ -20,6 +24,7 @@ export interface TradeStrategy {
   name: string;
   description: string;
   category: 'technical' | 'fundamental' | 'sentiment' | 'momentum' | 'custom';
+  templateId?: string; // template whose signal rules the strategy runs
   enabled: boolean;
   parameters: StrategyParameter[];
   currentSignal: StrategySignal;
@@ -32,6 +37,22 @@ export interface TradeStrategy {
   };
   created: string;
   lastModified: string;
+  version?: number; // latest saved version
+  versionId?: string;
+}
+
+/**
+ * An immutable snapshot of a strategy's parameters
+ */
+export interface StrategyVersion {
+  id: string;
+  strategyId: string;
+  version: number;
+  templateId: string;
+  parameters: StrategyParameter[];
+  note?: string;
+  createdAt: string;
+  usage?: { backtests: number; trades: number; signals: number };
 }
 
 export interface StrategyTemplate {
@@ -53,10 +74,13 @@ export interface AutoTradingSettings {
   signalAggregation: {
     method: 'majority' | 'weighted' | 'unanimous' | 'custom';
     minimumSignals: number;
-    weights: Record<string, number>;
+    weights: Record<string, number>; // by strategy id; unlisted strategies weigh 1
+    windowSeconds?: number; // how long a strategy's signal counts towards a decision
+    threshold?: number; // custom: share of the total score the winning side needs
   };
   executionSettings: {
-    orderType: 'market' | 'limit';
+    orderType: 'market' | 'limit' | 'stop' | 'stop_limit';
+    timeInForce: 'day' | 'gtc' | 'ioc' | 'fok';
     slippage: number;
     retryAttempts: number;
   };
@@ -64,6 +88,7 @@ export interface AutoTradingSettings {
 
 interface StrategiesState {
   strategies: TradeStrategy[];
+  versions: Record<string, StrategyVersion[]>; // by strategy id, newest first
   templates: StrategyTemplate[];
   autoTradingSettings: AutoTradingSettings;
   isLoading: boolean;
@@ -71,67 +96,10 @@ interface StrategiesState {
   lastUpdated: number;
 }
 
-const initialTemplates: StrategyTemplate[] = [
-  {
-    id: 'rsi-oversold',
-    name: 'RSI Oversold/Overbought',
-    description: 'Generates signals based on RSI levels indicating oversold or overbought conditions',
-    category: 'technical',
-    defaultParameters: [
-      { name: 'rsiPeriod', type: 'number', value: 14, min: 5, max: 50, step: 1, description: 'RSI calculation period' },
-      { name: 'oversoldLevel', type: 'number', value: 30, min: 10, max: 40, step: 1, description: 'RSI oversold threshold' },
-      { name: 'overboughtLevel', type: 'number', value: 70, min: 60, max: 90, step: 1, description: 'RSI overbought threshold' },
-    ]
-  },
-  {
-    id: 'moving-average-crossover',
-    name: 'Moving Average Crossover',
-    description: 'Generates signals when fast MA crosses above or below slow MA',
-    category: 'technical',
-    defaultParameters: [
-      { name: 'fastPeriod', type: 'number', value: 10, min: 5, max: 50, step: 1, description: 'Fast moving average period' },
-      { name: 'slowPeriod', type: 'number', value: 30, min: 20, max: 200, step: 1, description: 'Slow moving average period' },
-      { name: 'maType', type: 'select', value: 'sma', options: ['sma', 'ema', 'wma'], description: 'Moving average type' },
-    ]
-  },
-  {
-    id: 'bollinger-bands',
-    name: 'Bollinger Bands Breakout',
-    description: 'Generates signals when price breaks above or below Bollinger Bands',
-    category: 'technical',
-    defaultParameters: [
-      { name: 'period', type: 'number', value: 20, min: 10, max: 50, step: 1, description: 'Bollinger Bands period' },
-      { name: 'standardDeviations', type: 'number', value: 2, min: 1, max: 3, step: 0.1, description: 'Standard deviations' },
-      { name: 'breakoutConfirmation', type: 'boolean', value: true, description: 'Require volume confirmation' },
-    ]
-  },
-  {
-    id: 'macd-momentum',
-    name: 'MACD Momentum',
-    description: 'Generates signals based on MACD line and signal line crossover',
-    category: 'momentum',
-    defaultParameters: [
-      { name: 'fastPeriod', type: 'number', value: 12, min: 5, max: 30, step: 1, description: 'MACD fast EMA period' },
-      { name: 'slowPeriod', type: 'number', value: 26, min: 15, max: 50, step: 1, description: 'MACD slow EMA period' },
-      { name: 'signalPeriod', type: 'number', value: 9, min: 5, max: 20, step: 1, description: 'MACD signal line period' },
-    ]
-  },
-  {
-    id: 'volume-spike',
-    name: 'Volume Spike Strategy',
-    description: 'Generates signals when unusual volume spikes occur with price movement',
-    category: 'technical',
-    defaultParameters: [
-      { name: 'volumeMultiplier', type: 'number', value: 2, min: 1.5, max: 5, step: 0.1, description: 'Volume spike multiplier' },
-      { name: 'priceChangeThreshold', type: 'number', value: 2, min: 0.5, max: 10, step: 0.1, description: 'Minimum price change %' },
-      { name: 'lookbackPeriod', type: 'number', value: 20, min: 10, max: 50, step: 1, description: 'Volume average lookback period' },
-    ]
-  }
-];
-
 const initialState: StrategiesState = {
   strategies: [],
-  templates: initialTemplates,
+  versions: {},
+  templates: strategyRegistry.templates(),
   autoTradingSettings: {
     enabled: false,
     riskManagement: {
@@ -144,9 +112,12 @@ const initialState: StrategiesState = {
       method: 'majority',
       minimumSignals: 2,
       weights: {},
+      windowSeconds: 300,
+      threshold: 0.6,
     },
     executionSettings: {
       orderType: 'market',
+      timeInForce: 'gtc',
       slippage: 0.1,
       retryAttempts: 3,
     },
@@ -156,6 +127,26 @@ const initialState: StrategiesState = {
   lastUpdated: 0,
 };
 
+// A StrategyVersion row, with usage counts when the query includes them
+type StrategyVersionRow = PrismaStrategyVersion & {
+  _count?: { backtests: number; trades: number; signals: number };
+};
+
+const toStrategyVersion = (version: StrategyVersionRow): StrategyVersion => ({
+  id: version.id,
+  strategyId: version.strategyId,
+  version: version.version,
+  templateId: version.templateId,
+  parameters: JSON.parse(version.parameters || '[]'),
+  note: version.note ?? undefined,
+  createdAt: new Date(version.createdAt).toISOString(),
+  usage: version._count && {
+    backtests: version._count.backtests,
+    trades: version._count.trades,
+    signals: version._count.signals,
+  },
+});
+
 // Async thunks for strategy operations
 export const loadStrategies = createAsyncThunk(
   'strategies/loadStrategies',
@@ -170,6 +161,7 @@ export const loadStrategies = createAsyncThunk(
         name: strategy.name,
         description: strategy.description || '',
         category: (strategy.type as any) || 'custom',
+        templateId: strategy.templateId,
         enabled: strategy.isActive,
         parameters: JSON.parse(strategy.parameters || '[]'),
         currentSignal: 'none' as StrategySignal,
@@ -182,6 +174,8 @@ export const loadStrategies = createAsyncThunk(
         },
         created: strategy.createdAt.toISOString(),
         lastModified: strategy.updatedAt.toISOString(),
+        version: strategy.versions?.[0]?.version,
+        versionId: strategy.versions?.[0]?.id,
       }));
     } catch (error: any) {
       return rejectWithValue(error.message || 'Failed to load strategies');
@@ -191,23 +185,22 @@ export const loadStrategies = createAsyncThunk(
 
 export const createStrategy = createAsyncThunk(
   'strategies/createStrategy',
-  async (strategyData: { templateId: string; name: string; parameters: StrategyParameter[] }, { rejectWithValue }) => {
+  async (strategyData: { templateId: string; name: string; parameters: StrategyParameter[]; userId?: string }, { rejectWithValue }) => {
     try {
-      // TODO: Implement database strategy creation
-      // For now, using mock implementation
-      const strategy = {
-        id: `strategy_${Date.now()}`,
+      const strategy = await DatabaseService.saveStrategy(strategyData.userId ?? 'default-user', {
         name: strategyData.name,
         description: `Custom strategy based on ${strategyData.templateId}`,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+        templateId: strategyData.templateId,
+        parameters: JSON.stringify(strategyData.parameters),
+        isActive: false,
+      });
       
       const newStrategy: TradeStrategy = {
         id: strategy.id,
         name: strategy.name,
         description: strategy.description || '',
         category: 'custom',
+        templateId: strategyData.templateId,
         enabled: false,
         parameters: strategyData.parameters,
         currentSignal: 'none',
@@ -220,6 +213,8 @@ export const createStrategy = createAsyncThunk(
         },
         created: strategy.createdAt.toISOString(),
         lastModified: strategy.updatedAt.toISOString(),
+        version: strategy.versions[0]?.version,
+        versionId: strategy.versions[0]?.id,
       };
       
       return newStrategy;
@@ -231,18 +226,44 @@ export const createStrategy = createAsyncThunk(
 
 export const updateStrategy = createAsyncThunk(
   'strategies/updateStrategy',
-  async (updateData: { id: string; parameters: StrategyParameter[] }, { rejectWithValue }) => {
+  async (updateData: { id: string; parameters: StrategyParameter[]; note?: string }, { rejectWithValue }) => {
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 300));
-      
-      return updateData;
+      // Every save is a new version; earlier ones stay as they were
+      const version = await DatabaseService.saveStrategyVersion(updateData.id, {
+        parameters: updateData.parameters,
+        note: updateData.note,
+      });
+      return toStrategyVersion(version);
     } catch (error: any) {
       return rejectWithValue(error.message || 'Failed to update strategy');
     }
   }
 );
 
+export const loadStrategyVersions = createAsyncThunk(
+  'strategies/loadStrategyVersions',
+  async (strategyId: string, { rejectWithValue }) => {
+    try {
+      const versions = await DatabaseService.getStrategyVersions(strategyId);
+      return { strategyId, versions: versions.map(toStrategyVersion) };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load strategy versions');
+    }
+  }
+);
+
+export const rollbackStrategy = createAsyncThunk(
+  'strategies/rollbackStrategy',
+  async (rollbackData: { id: string; version: number }, { rejectWithValue }) => {
+    try {
+      const version = await DatabaseService.rollbackStrategy(rollbackData.id, rollbackData.version);
+      return toStrategyVersion(version);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to roll back strategy');
+    }
+  }
+);
+
 export const deleteStrategy = createAsyncThunk(
   'strategies/deleteStrategy',
   async (strategyId: string, { rejectWithValue }) => {
@@ -291,6 +312,24 @@ export const addTradingSignal = createAsyncThunk(
   }
 );
 
+/**
+ * Make a newly saved version the strategy's current parameters
+ */
+const applyStrategyVersion = (state: StrategiesState, version: StrategyVersion) => {
+  const strategy = state.strategies.find(s => s.id === version.strategyId);
+  if (strategy) {
+    strategy.parameters = version.parameters;
+    strategy.templateId = version.templateId;
+    strategy.version = version.version;
+    strategy.versionId = version.id;
+    strategy.lastModified = version.createdAt;
+  }
+  const versions = state.versions[version.strategyId];
+  if (versions) {
+    state.versions[version.strategyId] = [version, ...versions];
+  }
+};
+
 const strategiesSlice = createSlice({
   name: 'strategies',
   initialState,
@@ -313,6 +352,10 @@ const strategiesSlice = createSlice({
     toggleAutoTrading: (state) => {
       state.autoTradingSettings.enabled = !state.autoTradingSettings.enabled;
     },
+    // Pick up strategies registered after the store was created
+    syncStrategyTemplates: (state) => {
+      state.templates = strategyRegistry.templates();
+    },
     clearError: (state) => {
       state.error = null;
     },
@@ -354,17 +397,34 @@ const strategiesSlice = createSlice({
       })
       .addCase(updateStrategy.fulfilled, (state, action) => {
         state.isLoading = false;
-        const strategy = state.strategies.find(s => s.id === action.payload.id);
-        if (strategy) {
-          strategy.parameters = action.payload.parameters;
-          strategy.lastModified = new Date().toISOString();
-        }
+        applyStrategyVersion(state, action.payload);
         state.lastUpdated = Date.now();
       })
       .addCase(updateStrategy.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
       })
+      // loadStrategyVersions
+      .addCase(loadStrategyVersions.fulfilled, (state, action) => {
+        state.versions[action.payload.strategyId] = action.payload.versions;
+      })
+      .addCase(loadStrategyVersions.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // rollbackStrategy
+      .addCase(rollbackStrategy.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(rollbackStrategy.fulfilled, (state, action) => {
+        state.isLoading = false;
+        applyStrategyVersion(state, action.payload);
+        state.lastUpdated = Date.now();
+      })
+      .addCase(rollbackStrategy.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
       // deleteStrategy
       .addCase(deleteStrategy.pending, (state) => {
         state.isLoading = true;
@@ -373,6 +433,7 @@ const strategiesSlice = createSlice({
       .addCase(deleteStrategy.fulfilled, (state, action) => {
         state.isLoading = false;
         state.strategies = state.strategies.filter(s => s.id !== action.payload);
+        delete state.versions[action.payload];
         state.lastUpdated = Date.now();
       })
       .addCase(deleteStrategy.rejected, (state, action) => {
@@ -413,6 +474,7 @@ export const {
   toggleStrategy,
   updateStrategySignal,
   toggleAutoTrading,
+  syncStrategyTemplates,
   clearError,
 } = strategiesSlice.actions;
 
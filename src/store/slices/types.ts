@@ -43,6 +43,8 @@ export interface Order {
   replacedAt?: string;
   replacedBy?: string;
   replaces?: string;
+  orderClass?: string; // simple, bracket, oco or oto
+  legs?: Order[]; // child orders of a bracket or OCO parent
 }
 
 // Position Types